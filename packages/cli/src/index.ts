@@ -1,27 +1,38 @@
 #!/usr/bin/env node
+import { readFileSync } from 'node:fs';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import process from 'node:process';
+import readline from 'node:readline/promises';
 import bundledDefinitionsYaml from '../../../third_party/lsl-definitions/lsl_definitions.yaml';
 import {
 	DEFAULT_DEFINITIONS_UPDATE_URL,
+	type CallDepthAnalysis,
 	type Defs,
 	type Diag,
 	type DocumentSymbol,
 	type FormatSettings,
+	type HandlerLatency,
 	type Hover,
 	type Location,
 	type MarkedString,
 	type MarkupContent,
 	type Position,
 	type PreprocResult,
-	type Range,
 	type Script,
 	type DefFunction,
+	LSL_DIAGCODES,
 	TextDocument,
 	analyzeAst,
+	analyzeCallDepth,
+	analyzeLatency,
+	applyPreferredFixes,
+	applyTextEdits,
+	buildSourceMap,
 	builtinConstantValuesFromDefs,
+	builtinReturnTypesFromDefs,
+	diagCodeDescription,
 	diagCodeFriendly,
 	documentSymbols,
 	fileUriToPath,
@@ -30,34 +41,58 @@ import {
 	foldConstGlobalExpressions,
 	formatDocumentEdits,
 	gotoDefinition,
+	LslRepl,
 	cachedDefinitionPath,
 	loadDefs,
 	loadDefsFromSource,
 	lslHover,
+	lslReplText,
+	mapViewerErrors,
 	parseDisabledDiagList,
 	parseDynamicMacroList,
 	parseLslExtensionSettings,
 	parseScriptFromText,
+	parseViewerErrors,
 	preprocessForAst,
+	realignSourceOrigins,
 	decodeFirestormPreprocessorHeader,
 	detectFirestormRuntimeDirective,
 	measureAst,
 	optimizeScript,
+	OPTIMIZE_GOALS,
+	searchOptimizeOptions,
 	formatLslText,
 	renderExpandedTokens,
+	runLslTests,
+	shiftSourceOrigins,
+	sourceTextProvider,
+	unifiedDiff,
 	wrapWithFirestormPreprocessorHeader,
 	shrinkNameOptionsFromDefs,
 	shouldCheckDefinitionUpdate,
 	updateDefinitions,
+	verifyOptimization,
+	type LslReplResult,
+	type LslTestCaseResult,
+	type OptimizeExplainEntry,
+	type OptimizeGoal,
 	type OptimizeOptions,
-	type SimpleType,
+	type OptimizeSearchResult,
+	type OptimizeVerification,
+	type SourceMapV3,
+	type SourceOrigin,
+	type Span,
 	type DynamicMacroMap,
 	type LslExtensionSettings,
 } from '@lsl-lsp/core';
 
 declare const CLI_VERSION: string;
 
-type CommandName = 'check' | 'format' | 'measure' | 'optimize' | 'preprocess' | 'symbols' | 'definition' | 'hover' | 'dump-defs' | 'update-defs';
+type CheckReportFormat = 'text' | 'json' | 'sarif' | 'github' | 'checkstyle' | 'junit';
+
+type CommandName = 'check' | 'format' | 'measure' | 'optimize' | 'preprocess' | 'symbols' | 'definition' | 'hover' | 'test' | 'map-errors' | 'eval' | 'repl' | 'dump-defs' | 'update-defs';
+
+type RenderMode = 'preprocess' | 'optimize';
 
 interface CliOptions {
 	command: CommandName;
@@ -74,9 +109,21 @@ interface CliOptions {
 	extensions: LslExtensionSettings;
 	disabledDiagnostics: Set<Diag['code']>;
 	json: boolean;
+	junitPath: string;
+	reportFormat: CheckReportFormat;
+	sourceMapPath: string;
+	renderMode: RenderMode | null;
 	write: boolean;
 	checkFormat: boolean;
+	fix: boolean;
+	fixDryRun: boolean;
+	fixAssignments: boolean;
 	compareOptimized: boolean;
+	verify: boolean;
+	explain: boolean;
+	minimize: OptimizeGoal | null;
+	memoryTarget: number | null;
+	float32: boolean;
 	firestormHeader: boolean;
 	decodeFirestormHeader: boolean;
 	braceStyle: FormatSettings['braceStyle'];
@@ -92,21 +139,30 @@ interface PipelineResult {
 	diagnostics: CliDiagnostic[];
 }
 
-type CliDiagnostic = Omit<Diag, 'code'> & { code: Diag['code'] | 'LSL-preproc' };
+// `file` is set when a preprocessor diagnostic belongs to an included file; the range is in that file
+type CliDiagnostic = Omit<Diag, 'code'> & { code: Diag['code'] | 'LSL-preproc'; file?: string };
 
 const USAGE = `Usage:
-  lsl-lsp check [options] <file...>
+  lsl-lsp check [options] [--format <format>] [--fix|--fix-dry-run] [--fix-assignments] <file...>
   lsl-lsp format [options] [--write|--check] <file...>
   lsl-lsp measure [options] [--json] [--compare-optimized] <file...>
-  lsl-lsp optimize [options] [--write|--check|--json] <file...>
-  lsl-lsp preprocess [options] [--json] <file...>
+  lsl-lsp optimize [options] [--minimize <goal>] [--memory-target <bytes>] [--write|--check|--json|--source-map <path>|--verify|--explain] <file...>
+  lsl-lsp preprocess [options] [--json|--source-map <path>] <file...>
   lsl-lsp symbols [options] <file...>
   lsl-lsp definition [options] <file> <line> <column>
   lsl-lsp hover [options] <file> <line> <column>
+  lsl-lsp test [options] [--json] [--junit <path>] [file|dir...]
+  lsl-lsp map-errors [options] [--mode <mode>] [--firestorm-header] [--json] <file> [error...]
+  lsl-lsp eval [options] [--json] <expression...>
+  lsl-lsp repl [options]
   lsl-lsp dump-defs [options] [name...]
   lsl-lsp update-defs [options]
 
-Line and column arguments are 1-based.
+Line and column arguments are 1-based. map-errors reads viewer output such as
+"(142, 17) : ERROR : Type mismatch" from its arguments or stdin and prints the original locations; its <file>
+is the script source, or the uploaded script when it carries a Firestorm header.
+eval and repl fold LSL statements with the built-in evaluator and print each value as (string) renders it;
+repl keeps declarations, functions, #include and #define lines across inputs (.vars lists variables, .exit quits).
 
 Options:
   -I, --include-path <path>      Add an include search path. Can be repeated.
@@ -122,19 +178,34 @@ Options:
       --definitions-url <url>    Definition update source URL.
       --disable <code[,code]>    Suppress diagnostics by code or friendly name.
       --json                     Print supported command output as JSON.
+      --junit <path>             Write test results as JUnit XML.
+      --format <format>          Print check results as text, json, sarif, github, checkstyle, or junit.
       --compare-optimized        Include optimized-output measure deltas with the measure command.
+      --verify                   Run pure functions and event handlers of the original and optimized script on
+                                 generated inputs and report divergences with the optimizer pass that caused them.
+      --explain                  List every optimizer rewrite with its pass, original location and byte delta
+                                 instead of printing the optimized script.
+      --minimize <goal>          Search optimizer switches and per-function inlining for the smallest output:
+                                 memory (default), bytecode or source-size. The choice is reported on stderr.
+      --memory-target <bytes>    Only accept searched outputs whose estimated Mono used memory fits; exit non-zero if none does.
+      --no-float32               Fold optimizer float math in double precision instead of Mono's single precision.
       --firestorm-header         Prefix preprocess/optimize output with a Firestorm-compatible original-source header.
       --decode-firestorm-header  Decode and print original source from a Firestorm preprocessor header.
+      --source-map <path>        Write a v3 source map of preprocess/optimize output back to the original files.
+      --mode <mode>              Uploaded output for map-errors: optimize (default) or preprocess.
       --brace-style <style>      Formatting brace style: same-line or next-line.
       --write                    Write formatted files in-place.
       --check                    Exit non-zero if formatting would change files.
+      --fix                      Apply safe automatic fixes in-place, then report what is left.
+      --fix-dry-run              Print the safe automatic fixes as a unified diff without writing.
+      --fix-assignments          With --fix or --fix-dry-run, also change "=" in conditions to "==".
   -h, --help                     Show this help.
   -v, --version                  Print CLI version.`;
 
 async function main(argv: string[]): Promise<number> {
 	const opts = parseArgs(argv);
 	if (!opts) return 0;
-	if (opts.files.length === 0 && opts.command !== 'dump-defs' && opts.command !== 'update-defs') throw new CliError('No input files provided.');
+	if (opts.files.length === 0 && opts.command !== 'dump-defs' && opts.command !== 'update-defs' && opts.command !== 'test' && opts.command !== 'repl') throw new CliError('No input files provided.');
 
 	if (opts.command === 'update-defs') return runUpdateDefs(opts);
 	if (opts.command === 'preprocess') return runPreprocess(opts);
@@ -147,6 +218,10 @@ async function main(argv: string[]): Promise<number> {
 	if (opts.command === 'symbols') return runSymbols(opts, defs);
 	if (opts.command === 'definition') return runDefinition(opts, defs);
 	if (opts.command === 'hover') return runHover(opts, defs);
+	if (opts.command === 'test') return runTest(opts, defs);
+	if (opts.command === 'map-errors') return runMapErrors(opts, defs);
+	if (opts.command === 'eval') return runEval(opts, defs);
+	if (opts.command === 'repl') return runRepl(opts, defs);
 	return runCheck(opts, defs);
 }
 
@@ -177,23 +252,31 @@ function filterFunctionForDump(item: DefFunction, names: Set<string>, hasFilter:
 async function runOptimize(opts: CliOptions, defs: Defs): Promise<number> {
 	const results = await Promise.all(opts.files.map(file => analyzeFile(file, opts, defs)));
 	const optimizeOptions = cliOptimizeOptions(defs, opts);
-	const optimized = results.map(result => {
-		const out = optimizeScript(result.ast, optimizeOptions);
-		const body = formatLslText(out.code, { enabled: true, braceStyle: opts.braceStyle });
-		const text = maybeWrapFirestormHeader(result.text, body, opts);
-		return { result, out, text };
-	});
+	const searched = results.map(result => ({ result, search: searchOptimizeResult(result, opts, optimizeOptions) }));
+	// The search report goes to stderr so the optimized script can still be piped
+	if (!opts.json) {
+		for (const { result, search } of searched) if (search) printOptimizeSearch(result.filePath, search, opts);
+	}
+	const missedTarget = searched.some(({ search }) => search?.meetsTarget === false);
+	if (opts.verify) return Math.max(runOptimizeVerify(searched, opts, optimizeOptions), missedTarget ? 1 : 0);
+	const optimized = await Promise.all(searched.map(async ({ result, search }) => {
+		const item = optimizeResult(result, opts, { ...search?.options ?? optimizeOptions, explain: opts.explain });
+		return { ...item, search, explain: item.out.explain && await explainLocations(result, item.out.explain) };
+	}));
 
 	if (opts.json) {
-		process.stdout.write(`${JSON.stringify(optimized.map(({ result, out, text }) => ({
+		process.stdout.write(`${JSON.stringify(optimized.map(({ result, out, text, sourceMap, search, explain }) => ({
 			uri: result.doc.uri,
 			file: result.filePath,
 			changed: text !== result.text,
 			stable: out.stable,
 			passes: out.passes,
 			optimizedText: text,
+			sourceMap,
+			...(search ? { search: optimizeSearchToJson(search, opts) } : {}),
+			...(explain ? { explain } : {}),
 		})), null, 2)}\n`);
-		return optimized.some(item => !item.out.stable) ? 1 : 0;
+		return optimized.some(item => !item.out.stable) || missedTarget ? 1 : 0;
 	}
 
 	if (opts.checkFormat) {
@@ -209,19 +292,97 @@ async function runOptimize(opts: CliOptions, defs: Defs): Promise<number> {
 		await Promise.all(optimized.map(async item => {
 			if (item.text !== item.result.text) await fs.writeFile(item.result.filePath, item.text, 'utf8');
 		}));
-		return optimized.some(item => !item.out.stable) ? 1 : 0;
 	}
+	if (opts.explain) {
+		for (const item of optimized) printOptimizeExplain(item.result.filePath, item.explain ?? []);
+	}
+	if (opts.write || opts.explain) return optimized.some(item => !item.out.stable) || missedTarget ? 1 : 0;
 
 	if (optimized.length !== 1) throw new CliError('Optimizing multiple files requires --write, --check, or --json.');
+	await writeSourceMap(opts, optimized[0]!.sourceMap);
 	process.stdout.write(optimized[0]!.text);
 	if (!optimized[0]!.text.endsWith('\n')) process.stdout.write('\n');
-	return optimized[0]!.out.stable ? 0 : 1;
+	return optimized[0]!.out.stable && !missedTarget ? 0 : 1;
+}
+
+function searchOptimizeResult(result: PipelineResult, opts: CliOptions, optimizeOptions: OptimizeOptions): OptimizeSearchResult | undefined {
+	if (!opts.minimize && opts.memoryTarget === null) return undefined;
+	return searchOptimizeOptions(result.ast, optimizeOptions, { goal: opts.minimize ?? undefined, memoryTarget: opts.memoryTarget ?? undefined });
+}
+
+function optimizeSearchToJson(search: OptimizeSearchResult, opts: CliOptions): object {
+	return {
+		goal: search.goal,
+		cost: search.cost,
+		estimatedMonoUsedMemory: search.memory,
+		...(opts.memoryTarget !== null ? { memoryTarget: opts.memoryTarget, meetsTarget: search.meetsTarget } : {}),
+		runs: search.runs,
+		// Same keys as the lsl.optimize editor setting
+		options: { ...search.passes, ...(Object.keys(search.inlineFunctionDecisions).length > 0 ? { inlineFunctionDecisions: search.inlineFunctionDecisions } : {}) },
+	};
+}
+
+function printOptimizeSearch(filePath: string, search: OptimizeSearchResult, opts: CliOptions): void {
+	const target = opts.memoryTarget !== null ? `, target ${opts.memoryTarget} ${search.meetsTarget ? 'met' : 'missed'}` : '';
+	process.stderr.write(`${filePath}: minimized ${search.goal} to ${search.cost} (estimated used ${search.memory}${target}) in ${search.runs} runs\n`);
+	const passes = Object.entries(search.passes);
+	process.stderr.write(`  on: ${passes.filter(([, on]) => on).map(([pass]) => pass).join(', ') || '(none)'}\n`);
+	process.stderr.write(`  off: ${passes.filter(([, on]) => !on).map(([pass]) => pass).join(', ') || '(none)'}\n`);
+	const decisions = Object.entries(search.inlineFunctionDecisions);
+	if (decisions.length > 0) process.stderr.write(`  inline: ${decisions.map(([name, inline]) => `${name} ${inline ? 'always' : 'never'}`).join(', ')}\n`);
+}
+
+function runOptimizeVerify(searched: Array<{ result: PipelineResult; search?: OptimizeSearchResult }>, opts: CliOptions, optimizeOptions: OptimizeOptions): number {
+	const verified = searched.map(({ result, search }) => ({ result, search, verification: verifyOptimization(result.ast, search?.options ?? optimizeOptions) }));
+	if (opts.json) {
+		process.stdout.write(`${JSON.stringify(verified.map(({ result, search, verification }) => ({
+			uri: result.doc.uri,
+			file: result.filePath,
+			...(search ? { search: optimizeSearchToJson(search, opts) } : {}),
+			...verification,
+		})), null, 2)}\n`);
+	} else {
+		for (const { result, verification } of verified) printOptimizeVerification(result.filePath, verification);
+	}
+	return verified.some(item => item.verification.divergences.length > 0) ? 1 : 0;
+}
+
+function printOptimizeVerification(filePath: string, verification: OptimizeVerification): void {
+	for (const divergence of verification.divergences) {
+		const cause = divergence.pass === 'emit' ? 'in the emitted script' : divergence.pass ? `after ${divergence.pass}` : 'with no single pass to blame';
+		process.stdout.write(`${filePath}: ${divergence.target} diverges ${cause}\n`);
+		process.stdout.write(`  inputs:    (${divergence.inputs.join(', ')})\n`);
+		process.stdout.write(`  original:  ${divergence.original.join('; ')}\n`);
+		process.stdout.write(`  optimized: ${divergence.optimized.join('; ')}\n`);
+	}
+	const skipped = verification.skipped.length > 0 ? `; checked only through callers: ${verification.skipped.join(', ')}` : '';
+	process.stdout.write(`${filePath}: ${verification.targets} functions and handlers, ${verification.runs} runs, ${verification.divergences.length} divergent${skipped}\n`);
+}
+
+async function explainLocations(result: PipelineResult, entries: OptimizeExplainEntry[]) {
+	return Promise.all(entries.map(async entry => ({ ...entry, ...await testLocation(result, { start: entry.start, end: entry.end ?? entry.start, file: entry.file }) })));
+}
+
+function printOptimizeExplain(filePath: string, entries: Array<OptimizeExplainEntry & TestLocation>): void {
+	for (const entry of entries) {
+		process.stdout.write(`${entry.file}:${entry.line}:${entry.column}: ${entry.pass}: ${entry.before || '(nothing)'} → ${entry.after || '(removed)'} (${signed(entry.bytes)} bytes)\n`);
+	}
+	const total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+	process.stdout.write(`${filePath}: ${entries.length} rewrites, ${signed(total)} bytes\n`);
+}
+
+function optimizeResult(result: PipelineResult, opts: CliOptions, optimizeOptions: OptimizeOptions) {
+	const out = optimizeScript(result.ast, { ...optimizeOptions, trackOrigins: true });
+	const body = formatLslText(out.code, { enabled: true, braceStyle: opts.braceStyle });
+	const text = maybeWrapFirestormHeader(result.text, body, opts);
+	const sourceMap = renderedSourceMap(result.filePath, result.text, text, body, realignSourceOrigins(out.code, body, out.origins ?? []));
+	return { result, out, text, sourceMap };
 }
 
 function cliOptimizeOptions(defs: Defs, opts: CliOptions): OptimizeOptions {
 	return {
 		builtinConstants: builtinConstantValuesFromDefs(defs),
-		builtinFunctionReturnTypes: builtinReturnTypes(defs),
+		builtinFunctionReturnTypes: builtinReturnTypesFromDefs(defs),
 		dynamicMacros: opts.dynamicMacros,
 		bitwiseBooleanOps: true,
 		dropDefaultInitializers: true,
@@ -232,48 +393,25 @@ function cliOptimizeOptions(defs: Defs, opts: CliOptions): OptimizeOptions {
 		removeUnusedFunctions: true,
 		shrinkNames: true,
 		shrinkNameOptions: shrinkNameOptionsFromDefs(defs),
+		float32: opts.float32,
 	};
 }
 
-function builtinReturnTypes(defs: Defs): ReadonlyMap<string, SimpleType> {
-	const out = new Map<string, SimpleType>();
-	for (const [name, overloads] of defs.funcs) {
-		let returnType: SimpleType | undefined;
-		let mixed = false;
-		for (const overload of overloads) {
-			const next = toSimpleType(overload.returns);
-			if (!next) {
-				mixed = true;
-				break;
-			}
-			if (returnType && returnType !== next) {
-				mixed = true;
-				break;
-			}
-			returnType = next;
-		}
-		if (!mixed && returnType) out.set(name, returnType);
-	}
-	return out;
-}
-
-function toSimpleType(type: string): SimpleType | null {
-	if (type === 'integer' || type === 'float' || type === 'string' || type === 'key' || type === 'vector' || type === 'rotation' || type === 'list' || type === 'void') return type;
-	if (type === 'quaternion') return 'rotation';
-	return null;
-}
-
 async function runMeasure(opts: CliOptions, defs: Defs): Promise<number> {
 	const results = await Promise.all(opts.files.map(file => analyzeFile(file, opts, defs)));
 	const optimizeOptions = opts.compareOptimized ? cliOptimizeOptions(defs, opts) : null;
 	const payload = results.map(result => {
 		const base = measureAst(result.ast, { sourceText: result.text });
-		if (!optimizeOptions) return { result, base, optimized: null };
+		const latency = analyzeLatency(result.ast, defs);
+		const callDepth = analyzeCallDepth(result.ast);
+		if (!optimizeOptions) return { result, base, latency, callDepth, optimized: null };
 		const optimizedOut = optimizeScript(result.ast, optimizeOptions);
 		if (!optimizedOut.stable) {
 			return {
 				result,
 				base,
+				latency,
+				callDepth,
 				optimized: {
 					stable: optimizedOut.stable,
 					passes: optimizedOut.passes,
@@ -293,6 +431,8 @@ async function runMeasure(opts: CliOptions, defs: Defs): Promise<number> {
 		return {
 			result,
 			base,
+			latency,
+			callDepth,
 			optimized: {
 				stable: optimizedOut.stable,
 				passes: optimizedOut.passes,
@@ -326,6 +466,8 @@ function measureDelta(
 function measureToJson(item: {
 	result: PipelineResult;
 	base: ReturnType<typeof measureAst>;
+	latency: HandlerLatency[];
+	callDepth: CallDepthAnalysis;
 	optimized: {
 		stable: boolean;
 		passes: number;
@@ -338,6 +480,8 @@ function measureToJson(item: {
 		uri: item.result.doc.uri,
 		file: item.result.filePath,
 		measure: item.base,
+		latency: item.latency,
+		callDepth: item.callDepth,
 		optimized: item.optimized,
 	};
 }
@@ -345,6 +489,8 @@ function measureToJson(item: {
 function printMeasure(item: {
 	result: PipelineResult;
 	base: ReturnType<typeof measureAst>;
+	latency: HandlerLatency[];
+	callDepth: CallDepthAnalysis;
 	optimized: {
 		stable: boolean;
 		passes: number;
@@ -366,6 +512,17 @@ function printMeasure(item: {
 			);
 		}
 	}
+	for (const handler of item.latency) {
+		if (handler.sleep <= 0) continue;
+		const delay = `${handler.unbounded ? 'at least ' : ''}${Number(handler.sleep.toFixed(3))}s`;
+		process.stdout.write(`  latency ${handler.state}.${handler.event}: worst-case delay ${delay}, energy ${Number(handler.energy.toFixed(3))}\n`);
+	}
+	for (const cycle of item.callDepth.cycles) process.stdout.write(`  recursion: ${cycle.join(', ')}\n`);
+	for (const event of item.callDepth.events) {
+		if (!event.depth) continue;
+		const bound = event.recursive ? 'at least ' : '';
+		process.stdout.write(`  call depth ${event.state}.${event.event}: ${bound}${event.depth} (${event.chain.join(' → ')}), ${bound}~${event.stackBytes} bytes of frames\n`);
+	}
 	for (const note of item.base.notes) process.stdout.write(`  note: ${note}\n`);
 }
 
@@ -382,6 +539,246 @@ function signed(value: number): string {
 	return value >= 0 ? `+${value}` : String(value);
 }
 
+function createRepl(opts: CliOptions, defs: Defs): LslRepl {
+	return new LslRepl({
+		defs,
+		includePaths: opts.includePaths,
+		macros: opts.defines,
+		fromPath: path.join(process.cwd(), 'repl.lsl'),
+	});
+}
+
+function runEval(opts: CliOptions, defs: Defs): number {
+	const result = createRepl(opts, defs).evaluate(opts.files.join(' '));
+	if (opts.json) {
+		process.stdout.write(`${JSON.stringify(result.error !== undefined
+			? { error: result.error }
+			: result.outputs.map(output => ({ type: output.value.type, value: output.text ?? null })), null, 2)}\n`);
+	} else {
+		printReplResult(result);
+	}
+	return result.error !== undefined ? 1 : 0;
+}
+
+async function runRepl(opts: CliOptions, defs: Defs): Promise<number> {
+	const repl = createRepl(opts, defs);
+	const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+	let pending = '';
+	rl.setPrompt('lsl> ');
+	rl.prompt();
+	for await (const line of rl) {
+		const command = pending ? '' : line.trim();
+		if (command === '.exit') break;
+		if (command === '.vars') {
+			for (const [name, value] of repl.variables) {
+				process.stdout.write(`${value.type} ${name} = ${lslReplText(value) ?? '<unknown>'}\n`);
+			}
+		} else {
+			pending = pending ? `${pending}\n${line}` : line;
+			// Keep reading while a function or block is still open
+			if (openBraces(pending) > 0) {
+				rl.setPrompt('...> ');
+				rl.prompt();
+				continue;
+			}
+			printReplResult(repl.evaluate(pending));
+			pending = '';
+		}
+		rl.setPrompt('lsl> ');
+		rl.prompt();
+	}
+	rl.close();
+	return 0;
+}
+
+function printReplResult(result: LslReplResult): void {
+	if (result.error !== undefined) {
+		process.stderr.write(`error: ${result.error}\n`);
+		return;
+	}
+	for (const output of result.outputs) {
+		process.stdout.write(`(${output.value.type}) ${output.text ?? '<unknown>'}\n`);
+	}
+}
+
+function openBraces(text: string): number {
+	const code = text.replace(/"(?:[^"\\]|\\.)*"/g, '""').replace(/\/\/.*$/gm, '');
+	return (code.match(/\{/g)?.length ?? 0) - (code.match(/\}/g)?.length ?? 0);
+}
+
+interface TestFileResult {
+	result: PipelineResult;
+	tests: Array<LslTestCaseResult & { location?: TestLocation }>;
+}
+
+interface TestLocation {
+	file: string;
+	line: number;
+	column: number;
+}
+
+async function runTest(opts: CliOptions, defs: Defs): Promise<number> {
+	const files = await discoverTestFiles(opts.files.length > 0 ? opts.files : [process.cwd()]);
+	if (files.length === 0) throw new CliError('No *.test.lsl files found.');
+	const builtinConstants = builtinConstantValuesFromDefs(defs);
+	const builtinFunctionReturnTypes = builtinReturnTypesFromDefs(defs);
+	const payload: TestFileResult[] = [];
+	for (const file of files) {
+		const result = await analyzeFile(file, opts, defs);
+		const parseError = result.ast.diagnostics?.find(diag => diag.severity === 'error');
+		const tests: LslTestCaseResult[] = parseError
+			? [{ name: '<parse>', status: 'error', assertions: 0, durationMs: 0, failure: { message: parseError.message, span: parseError.span } }]
+			: runLslTests(result.ast, { builtinConstants, builtinFunctionReturnTypes, wholeScript: file.endsWith('.test.lsl') });
+		payload.push({
+			result,
+			tests: await Promise.all(tests.map(async test => test.failure?.span
+				? { ...test, location: await testLocation(result, test.failure.span) }
+				: test)),
+		});
+	}
+
+	if (opts.junitPath) await fs.writeFile(opts.junitPath, testResultsToJUnit(payload), 'utf8');
+	if (opts.json) {
+		process.stdout.write(`${JSON.stringify(payload.map(testFileToJson), null, 2)}\n`);
+	} else {
+		for (const item of payload) printTestFile(item);
+		const all = payload.flatMap(item => item.tests);
+		const failed = all.filter(test => test.status !== 'passed').length;
+		process.stdout.write(`${all.length - failed} passed, ${failed} failed\n`);
+	}
+	return payload.some(item => item.tests.some(test => test.status !== 'passed')) ? 1 : 0;
+}
+
+async function runMapErrors(opts: CliOptions, defs: Defs): Promise<number> {
+	const [file, ...pasted] = opts.files;
+	const errors = parseViewerErrors(pasted.length > 0 ? pasted.join('\n') : await readStdin());
+	if (errors.length === 0) throw new CliError('No error positions found; expected lines like "(142, 17) : ERROR : Type mismatch".');
+	// Rebuild the uploaded output to get its source map, from the original kept in its Firestorm header when
+	// the uploaded script itself is given, else from the current source
+	const filePath = path.resolve(file!);
+	const text = await fs.readFile(filePath, 'utf8');
+	const decoded = decodeFirestormPreprocessorHeader(text);
+	if (!decoded) process.stderr.write(`${file}: no Firestorm header, so positions are mapped against the current source; they are wrong if it changed since upload\n`);
+	const source = decoded?.originalSource ?? text;
+	const renderOpts: CliOptions = decoded ? { ...opts, firestormHeader: true } : opts;
+	const sourceMap = opts.renderMode === 'preprocess'
+		? preprocessSource(filePath, source, renderOpts).sourceMap
+		: optimizeResult(analyzeText(filePath, source, renderOpts, defs), renderOpts, cliOptimizeOptions(defs, renderOpts)).sourceMap;
+	const mapped = mapViewerErrors(errors, sourceMap);
+	if (opts.json) {
+		process.stdout.write(`${JSON.stringify(mapped.map(error => ({
+			line: error.line + 1,
+			column: error.column + 1,
+			severity: error.severity,
+			message: error.message,
+			original: error.original ? { file: error.original.source, line: error.original.line + 1, column: error.original.column + 1 } : null,
+		})), null, 2)}\n`);
+	} else {
+		for (const error of mapped) {
+			const where = error.original
+				? `${error.original.source}:${error.original.line + 1}:${error.original.column + 1}`
+				: `<uploaded>:${error.line + 1}:${error.column + 1} (no source mapping)`;
+			process.stdout.write(`${where}: ${error.severity} ${error.message}\n`);
+		}
+	}
+	return mapped.every(error => error.original) ? 0 : 1;
+}
+
+async function readStdin(): Promise<string> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+	return Buffer.concat(chunks).toString('utf8');
+}
+
+async function discoverTestFiles(inputs: string[]): Promise<string[]> {
+	const out: string[] = [];
+	const walk = async (dir: string): Promise<void> => {
+		const entries = await fs.readdir(dir, { withFileTypes: true });
+		for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+			if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+			const full = path.join(dir, entry.name);
+			if (entry.isDirectory()) await walk(full);
+			else if (entry.isFile() && entry.name.endsWith('.test.lsl')) out.push(full);
+		}
+	};
+	for (const input of inputs) {
+		const full = path.resolve(input);
+		const stat = await fs.stat(full).catch(() => null);
+		if (!stat) throw new CliError(`No such file or directory: ${input}`);
+		if (stat.isDirectory()) await walk(full);
+		else out.push(full);
+	}
+	return out;
+}
+
+async function testLocation(result: PipelineResult, span: Span): Promise<TestLocation> {
+	const file = span.file && span.file !== '<unknown>' ? span.file : result.filePath;
+	const doc = file === result.filePath
+		? result.doc
+		: TextDocument.create(filePathToUri(file), 'lsl', 1, await fs.readFile(file, 'utf8').catch(() => ''));
+	const position = doc.positionAt(span.start);
+	return { file, line: position.line + 1, column: position.character + 1 };
+}
+
+function printTestFile(item: TestFileResult): void {
+	for (const test of item.tests) {
+		const label = test.status === 'passed' ? 'PASS' : test.status === 'failed' ? 'FAIL' : 'ERROR';
+		process.stdout.write(`${label} ${item.result.filePath} > ${test.name}\n`);
+		if (test.failure) process.stdout.write(`  ${formatTestFailure(test)}\n`);
+	}
+}
+
+function formatTestFailure(test: TestFileResult['tests'][number]): string {
+	const where = test.location ? `${test.location.file}:${test.location.line}:${test.location.column}: ` : '';
+	return `${where}${test.failure?.message ?? ''}`;
+}
+
+function testFileToJson(item: TestFileResult): object {
+	return {
+		uri: item.result.doc.uri,
+		file: item.result.filePath,
+		tests: item.tests.map(test => ({
+			name: test.name,
+			status: test.status,
+			assertions: test.assertions,
+			durationMs: test.durationMs,
+			failure: test.failure ? { message: test.failure.message, location: test.location ?? null } : null,
+		})),
+	};
+}
+
+function testResultsToJUnit(payload: TestFileResult[]): string {
+	const all = payload.flatMap(item => item.tests);
+	const count = (tests: LslTestCaseResult[], status: LslTestCaseResult['status']) => tests.filter(test => test.status === status).length;
+	const seconds = (tests: LslTestCaseResult[]) => (tests.reduce((sum, test) => sum + test.durationMs, 0) / 1000).toFixed(3);
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="lsl-lsp" tests="${all.length}" failures="${count(all, 'failed')}" errors="${count(all, 'error')}" time="${seconds(all)}">`,
+	];
+	for (const item of payload) {
+		const suite = xmlEscape(item.result.filePath);
+		lines.push(`  <testsuite name="${suite}" tests="${item.tests.length}" failures="${count(item.tests, 'failed')}" errors="${count(item.tests, 'error')}" time="${seconds(item.tests)}">`);
+		for (const test of item.tests) {
+			const open = `    <testcase classname="${suite}" name="${xmlEscape(test.name)}" time="${(test.durationMs / 1000).toFixed(3)}"`;
+			if (!test.failure) {
+				lines.push(`${open}/>`);
+				continue;
+			}
+			const tag = test.status === 'failed' ? 'failure' : 'error';
+			lines.push(`${open}>`);
+			lines.push(`      <${tag} message="${xmlEscape(test.failure.message)}">${xmlEscape(formatTestFailure(test))}</${tag}>`);
+			lines.push('    </testcase>');
+		}
+		lines.push('  </testsuite>');
+	}
+	lines.push('</testsuites>');
+	return `${lines.join('\n')}\n`;
+}
+
+function xmlEscape(text: string): string {
+	return text.replace(/[<>&"']/g, ch => ch === '<' ? '&lt;' : ch === '>' ? '&gt;' : ch === '&' ? '&amp;' : ch === '"' ? '&quot;' : '&apos;');
+}
+
 async function loadCliDefs(opts: CliOptions): Promise<Defs> {
 	if (opts.definitionsPath.trim()) return loadDefs(opts.definitionsPath);
 	if (opts.definitionsAutoUpdate) {
@@ -424,22 +821,223 @@ async function runUpdateDefs(opts: CliOptions): Promise<number> {
 }
 
 async function runCheck(opts: CliOptions, defs: Defs): Promise<number> {
+	if (opts.fix || opts.fixDryRun) return runCheckFix(opts, defs);
 	const results = await Promise.all(opts.files.map(file => analyzeFile(file, opts, defs)));
-	if (opts.json) {
-		const payload = results.map(({ doc, diagnostics }) => ({
-			uri: doc.uri,
-			file: fileUriLabel(doc.uri),
-			diagnostics: diagnostics.map(diagnosticToJson),
-		}));
-		process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
-	} else {
-		for (const result of results) {
-			for (const diag of result.diagnostics) {
-				process.stdout.write(`${formatDiagnostic(fileUriLabel(result.doc.uri), diag)}\n`);
+	writeCheckReport(opts.reportFormat, results.map(result => ({ result })));
+	return results.some(result => result.diagnostics.length > 0) ? 1 : 0;
+}
+
+async function runCheckFix(opts: CliOptions, defs: Defs): Promise<number> {
+	// One file at a time: each fix pass re-analyzes the whole file
+	const fixed: { result: PipelineResult; original: string; count: number }[] = [];
+	for (const file of opts.files) {
+		const filePath = path.resolve(file);
+		const original = await fs.readFile(filePath, 'utf8');
+		const outcome = applyPreferredFixes(original, text => {
+			const result = analyzeText(filePath, text, opts, defs);
+			const diagnostics = result.diagnostics.filter((d): d is Diag => d.code !== 'LSL-preproc');
+			return { doc: result.doc, diagnostics, context: { analysis: result.analysis, defs, script: result.ast } };
+		}, opts.fixAssignments ? ['assignments'] : []);
+		fixed.push({ result: analyzeText(filePath, outcome.text, opts, defs), original, count: outcome.applied.length });
+	}
+
+	if (opts.fixDryRun) {
+		for (const item of fixed) {
+			const label = path.relative(process.cwd(), item.result.filePath).split(path.sep).join('/');
+			process.stdout.write(unifiedDiff(item.original, item.result.text, { fromFile: `a/${label}`, toFile: `b/${label}` }));
+		}
+		return fixed.some(item => item.result.text !== item.original) ? 1 : 0;
+	}
+
+	await Promise.all(fixed.map(async item => {
+		if (item.result.text !== item.original) await fs.writeFile(item.result.filePath, item.result.text, 'utf8');
+	}));
+	writeCheckReport(opts.reportFormat, fixed.map(({ result, count }) => ({ result, fixed: count })));
+	return fixed.some(item => item.result.diagnostics.length > 0) ? 1 : 0;
+}
+
+interface CheckReportItem {
+	result: PipelineResult;
+	// Fixes applied by --fix
+	fixed?: number;
+}
+
+function writeCheckReport(format: CheckReportFormat, items: CheckReportItem[]): void {
+	switch (format) {
+		case 'json': {
+			const payload = items.map(({ result, fixed }) => ({
+				uri: result.doc.uri,
+				file: fileUriLabel(result.doc.uri),
+				...(fixed === undefined ? {} : { fixed }),
+				diagnostics: result.diagnostics.map(diagnosticToJson),
+			}));
+			process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+			return;
+		}
+		case 'sarif':
+			process.stdout.write(`${JSON.stringify(checkResultsToSarif(items), null, 2)}\n`);
+			return;
+		case 'github':
+			for (const { result } of items) {
+				for (const diag of result.diagnostics) process.stdout.write(`${formatGitHubAnnotation(diagnosticFile(result, diag), diag)}\n`);
+			}
+			return;
+		case 'checkstyle':
+			process.stdout.write(checkResultsToCheckstyle(items));
+			return;
+		case 'junit':
+			process.stdout.write(checkResultsToJUnit(items));
+			return;
+		case 'text':
+			for (const { result, fixed } of items) {
+				const file = fileUriLabel(result.doc.uri);
+				if (fixed) process.stdout.write(`${file}: fixed ${fixed} problem${fixed === 1 ? '' : 's'}\n`);
+				for (const diag of result.diagnostics) process.stdout.write(`${formatDiagnostic(file, diag)}\n`);
 			}
+			return;
+	}
+}
+
+function diagnosticFile(result: PipelineResult, diag: CliDiagnostic): string {
+	return diag.file ?? fileUriLabel(result.doc.uri);
+}
+
+// Path relative to the working directory with forward slashes, as code scanning tools expect
+function reportPath(file: string): string {
+	return path.relative(process.cwd(), file).split(path.sep).join('/');
+}
+
+function checkResultsToSarif(items: CheckReportItem[]): object {
+	const codes = [...Object.values(LSL_DIAGCODES)].sort();
+	const rules: object[] = codes.map(code => ({
+		id: code,
+		...(diagCodeFriendly(code) ? { name: diagCodeFriendly(code) } : {}),
+		shortDescription: { text: diagCodeDescription(code) },
+	}));
+	rules.push({ id: 'LSL-preproc', name: 'preprocessor', shortDescription: { text: 'Preprocessor directive or include problem.' } });
+	const ruleIndex = (code: CliDiagnostic['code']) => code === 'LSL-preproc' ? codes.length : codes.indexOf(code);
+	const artifactLocation = (file: string) => {
+		const relative = reportPath(file);
+		return relative.startsWith('../') || path.isAbsolute(relative)
+			? { uri: filePathToUri(file) }
+			: { uri: relative, uriBaseId: '%SRCROOT%' };
+	};
+	const results = items.flatMap(({ result }) => result.diagnostics.map(diag => ({
+		ruleId: diag.code,
+		ruleIndex: ruleIndex(diag.code),
+		level: sarifLevel(diag.severity),
+		message: { text: diag.message },
+		locations: [{
+			physicalLocation: {
+				artifactLocation: artifactLocation(diagnosticFile(result, diag)),
+				region: {
+					startLine: diag.range.start.line + 1,
+					startColumn: diag.range.start.character + 1,
+					endLine: diag.range.end.line + 1,
+					endColumn: diag.range.end.character + 1,
+				},
+			},
+		}],
+	})));
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: 'lsl-lsp',
+					version: CLI_VERSION,
+					informationUri: 'https://github.com/sekkmer/lsl-lsp',
+					rules,
+				},
+			},
+			originalUriBaseIds: { '%SRCROOT%': { uri: `${filePathToUri(process.cwd())}/` } },
+			results,
+		}],
+	};
+}
+
+function sarifLevel(severity: Diag['severity']): string {
+	switch (severityLabel(severity)) {
+		case 'error': return 'error';
+		case 'warning': return 'warning';
+		default: return 'note';
+	}
+}
+
+// GitHub Actions workflow command, shown as an annotation on the pull request
+function formatGitHubAnnotation(file: string, diag: CliDiagnostic): string {
+	const label = severityLabel(diag.severity);
+	const command = label === 'error' ? 'error' : label === 'warning' ? 'warning' : 'notice';
+	const properties = [
+		`file=${reportPath(file)}`,
+		`line=${diag.range.start.line + 1}`,
+		`col=${diag.range.start.character + 1}`,
+		`endLine=${diag.range.end.line + 1}`,
+		`endColumn=${diag.range.end.character + 1}`,
+		`title=${diagnosticLabel(diag)}`,
+	].map(property => {
+		const eq = property.indexOf('=');
+		return `${property.slice(0, eq)}=${gitHubEscape(property.slice(eq + 1)).replace(/:/g, '%3A').replace(/,/g, '%2C')}`;
+	});
+	return `::${command} ${properties.join(',')}::${gitHubEscape(diag.message)}`;
+}
+
+function gitHubEscape(text: string): string {
+	return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function checkResultsToCheckstyle(items: CheckReportItem[]): string {
+	// Diagnostics from includes are listed under the included file
+	const byFile = new Map<string, CliDiagnostic[]>();
+	for (const { result } of items) {
+		const own = fileUriLabel(result.doc.uri);
+		if (!byFile.has(own)) byFile.set(own, []);
+		for (const diag of result.diagnostics) {
+			const file = diagnosticFile(result, diag);
+			const list = byFile.get(file);
+			if (list) list.push(diag);
+			else byFile.set(file, [diag]);
 		}
 	}
-	return results.some(result => result.diagnostics.length > 0) ? 1 : 0;
+	const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">'];
+	for (const [file, diagnostics] of byFile) {
+		lines.push(`  <file name="${xmlEscape(file)}">`);
+		for (const diag of diagnostics) {
+			const label = severityLabel(diag.severity);
+			const severity = label === 'error' || label === 'warning' ? label : 'info';
+			lines.push(`    <error line="${diag.range.start.line + 1}" column="${diag.range.start.character + 1}" severity="${severity}" message="${xmlEscape(diag.message)}" source="${xmlEscape(diagnosticLabel(diag))}"/>`);
+		}
+		lines.push('  </file>');
+	}
+	lines.push('</checkstyle>');
+	return `${lines.join('\n')}\n`;
+}
+
+// One suite per checked file, one failing case per diagnostic; a clean file gets a single passing case
+function checkResultsToJUnit(items: CheckReportItem[]): string {
+	const failures = items.reduce((sum, { result }) => sum + result.diagnostics.length, 0);
+	const tests = items.reduce((sum, { result }) => sum + Math.max(1, result.diagnostics.length), 0);
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="lsl-lsp check" tests="${tests}" failures="${failures}" errors="0" time="0.000">`,
+	];
+	for (const { result } of items) {
+		const suite = xmlEscape(fileUriLabel(result.doc.uri));
+		const count = result.diagnostics.length;
+		lines.push(`  <testsuite name="${suite}" tests="${Math.max(1, count)}" failures="${count}" errors="0" time="0.000">`);
+		if (count === 0) lines.push(`    <testcase classname="${suite}" name="check" time="0.000"/>`);
+		for (const diag of result.diagnostics) {
+			const file = diagnosticFile(result, diag);
+			const where = `${diag.range.start.line + 1}:${diag.range.start.character + 1}`;
+			lines.push(`    <testcase classname="${suite}" name="${xmlEscape(`${diagnosticLabel(diag)} at ${where}`)}" time="0.000">`);
+			lines.push(`      <failure message="${xmlEscape(diag.message)}" type="${severityLabel(diag.severity)}">${xmlEscape(formatDiagnostic(file, diag))}</failure>`);
+			lines.push('    </testcase>');
+		}
+		lines.push('  </testsuite>');
+	}
+	lines.push('</testsuites>');
+	return `${lines.join('\n')}\n`;
 }
 
 async function runFormat(opts: CliOptions, defs: Defs): Promise<number> {
@@ -484,6 +1082,7 @@ async function runPreprocess(opts: CliOptions): Promise<number> {
 	}
 
 	if (results.length !== 1) throw new CliError('Preprocessing multiple files requires --json.');
+	await writeSourceMap(opts, results[0]!.sourceMap);
 	process.stdout.write(results[0]!.expandedText);
 	if (!results[0]!.expandedText.endsWith('\n')) process.stdout.write('\n');
 	return (results[0]!.pre.preprocDiagnostics?.length ?? 0) > 0 || (results[0]!.pre.missingIncludes?.length ?? 0) > 0 ? 1 : 0;
@@ -517,7 +1116,12 @@ async function runHover(opts: CliOptions, defs: Defs): Promise<number> {
 }
 
 async function analyzeFile(file: string, opts: CliOptions, defs: Defs): Promise<PipelineResult> {
-	const { filePath, text, doc, full } = await readAndPreprocessFile(file, opts);
+	const filePath = path.resolve(file);
+	return analyzeText(filePath, await fs.readFile(filePath, 'utf8'), opts, defs);
+}
+
+function analyzeText(filePath: string, text: string, opts: CliOptions, defs: Defs): PipelineResult {
+	const { doc, full } = preprocessText(filePath, text, opts);
 	const pre = toPreprocResult(full);
 	let ast: Script = parseScriptFromText(text, doc.uri, {
 		macros: { ...full.macros, ...opts.defines },
@@ -542,20 +1146,38 @@ interface PreprocessFileResult {
 	doc: TextDocument;
 	pre: PreprocResult;
 	expandedText: string;
+	sourceMap: SourceMapV3;
 }
 
 async function preprocessFile(file: string, opts: CliOptions): Promise<PreprocessFileResult> {
-	const { filePath, text, doc, full } = await readAndPreprocessFile(file, opts);
+	const filePath = path.resolve(file);
+	return preprocessSource(filePath, await fs.readFile(filePath, 'utf8'), opts);
+}
+
+function preprocessSource(filePath: string, text: string, opts: CliOptions): PreprocessFileResult {
+	const { doc, full } = preprocessText(filePath, text, opts);
 	const pre = toPreprocResult(full);
-	const body = renderExpandedTokens(pre.expandedTokens ?? []);
+	const origins: SourceOrigin[] = [];
+	const body = renderExpandedTokens(pre.expandedTokens ?? [], origins);
+	const expandedText = maybeWrapFirestormHeader(text, body, opts);
 	return {
 		filePath,
 		doc,
 		pre,
-		expandedText: maybeWrapFirestormHeader(text, body, opts),
+		expandedText,
+		sourceMap: renderedSourceMap(filePath, text, expandedText, body, origins),
 	};
 }
 
+// `origins` are offsets into `body`; a Firestorm header may precede it in `rendered`
+function renderedSourceMap(filePath: string, text: string, rendered: string, body: string, origins: SourceOrigin[]): SourceMapV3 {
+	return buildSourceMap(rendered, shiftSourceOrigins(origins, rendered.length - body.length), filePath, sourceTextProvider(filePath, text));
+}
+
+async function writeSourceMap(opts: CliOptions, sourceMap: SourceMapV3): Promise<void> {
+	if (opts.sourceMapPath) await fs.writeFile(opts.sourceMapPath, `${JSON.stringify(sourceMap)}\n`, 'utf8');
+}
+
 async function decodeFirestormHeaderFile(opts: CliOptions): Promise<number> {
 	if (opts.files.length !== 1) throw new CliError('Decoding Firestorm headers requires exactly one input file.');
 	const filePath = path.resolve(opts.files[0]!);
@@ -576,9 +1198,7 @@ function maybeWrapFirestormHeader(source: string, body: string, opts: CliOptions
 	});
 }
 
-async function readAndPreprocessFile(file: string, opts: CliOptions) {
-	const filePath = path.resolve(file);
-	const text = await fs.readFile(filePath, 'utf8');
+function preprocessText(filePath: string, text: string, opts: CliOptions) {
 	const doc = TextDocument.create(filePathToUri(filePath), 'lsl', 1, text);
 	const full = preprocessForAst(text, {
 		includePaths: [...opts.includePaths],
@@ -587,7 +1207,7 @@ async function readAndPreprocessFile(file: string, opts: CliOptions) {
 		dynamicMacros: opts.dynamicMacros,
 		extensions: opts.extensions,
 	});
-	return { filePath, text, doc, full };
+	return { doc, full };
 }
 
 function toPreprocResult(full: ReturnType<typeof preprocessForAst>): PreprocResult {
@@ -613,39 +1233,44 @@ function toPreprocResult(full: ReturnType<typeof preprocessForAst>): PreprocResu
 function collectDiagnostics(doc: TextDocument, pre: PreprocResult, diagnostics: Diag[], opts: CliOptions): CliDiagnostic[] {
 	const out: CliDiagnostic[] = [];
 	const docPath = fileUriToPath(doc.uri);
+	const includeDocs = new Map<string, TextDocument | null>();
+	const includeDoc = (file: string): TextDocument | null => {
+		if (!includeDocs.has(file)) {
+			let text: string | null;
+			try { text = readFileSync(file, 'utf8'); } catch { text = null; }
+			includeDocs.set(file, text === null ? null : TextDocument.create(filePathToUri(file), 'lsl', 1, text));
+		}
+		return includeDocs.get(file)!;
+	};
 	for (const pd of pre.preprocDiagnostics || []) {
-		if (pd.file && pd.file !== '<unknown>' && docPath && pd.file !== docPath) continue;
+		const included = !!pd.file && pd.file !== '<unknown>' && !!docPath && pd.file !== docPath;
+		const target = included ? includeDoc(pd.file!) : doc;
+		if (!target) continue;
 		out.push({
-			range: { start: doc.positionAt(pd.start), end: doc.positionAt(pd.end) },
+			range: { start: target.positionAt(pd.start), end: target.positionAt(pd.end) },
 			message: pd.message,
 			code: 'LSL-preproc',
+			...(included ? { file: pd.file } : {}),
 		});
 	}
 	out.push(...filterDiagnostics(diagnostics, opts.disabledDiagnostics));
 	return out;
 }
 
-function applyTextEdits(doc: TextDocument, edits: ReadonlyArray<{ range: Range; newText: string }>): string {
-	let text = doc.getText();
-	const sorted = [...edits].sort((a, b) => doc.offsetAt(b.range.start) - doc.offsetAt(a.range.start));
-	for (const edit of sorted) {
-		const start = doc.offsetAt(edit.range.start);
-		const end = doc.offsetAt(edit.range.end);
-		text = `${text.slice(0, start)}${edit.newText}${text.slice(end)}`;
-	}
-	return text;
+function diagnosticLabel(diag: CliDiagnostic): string {
+	const friendly = diag.code === 'LSL-preproc' ? null : diagCodeFriendly(diag.code);
+	return friendly ? `${friendly}/${diag.code}` : diag.code;
 }
 
 function formatDiagnostic(file: string, diag: CliDiagnostic): string {
 	const line = diag.range.start.line + 1;
 	const column = diag.range.start.character + 1;
-	const friendly = diag.code === 'LSL-preproc' ? null : diagCodeFriendly(diag.code);
-	const code = friendly ? `${friendly}/${diag.code}` : diag.code;
-	return `${file}:${line}:${column}: ${severityLabel(diag.severity)} ${code}: ${diag.message}`;
+	return `${diag.file ?? file}:${line}:${column}: ${severityLabel(diag.severity)} ${diagnosticLabel(diag)}: ${diag.message}`;
 }
 
 function diagnosticToJson(diag: CliDiagnostic): object {
 	return {
+		...(diag.file ? { file: diag.file } : {}),
 		range: diag.range,
 		severity: severityLabel(diag.severity),
 		code: diag.code,
@@ -660,6 +1285,7 @@ function preprocessToJson(result: PreprocessFileResult): object {
 		uri: result.doc.uri,
 		file: result.filePath,
 		expandedText: result.expandedText,
+		sourceMap: result.sourceMap,
 		macros: pre.macros,
 		dynamicMacros: pre.dynamicMacros ?? {},
 		functionMacros: pre.funcMacros,
@@ -779,9 +1405,21 @@ function parseArgs(argv: string[]): CliOptions | null {
 		extensions: {},
 		disabledDiagnostics: new Set(),
 		json: false,
+		junitPath: '',
+		reportFormat: 'text',
+		sourceMapPath: '',
+		renderMode: null,
 		write: false,
 		checkFormat: false,
+		fix: false,
+		fixDryRun: false,
+		fixAssignments: false,
 		compareOptimized: false,
+		verify: false,
+		explain: false,
+		minimize: null,
+		memoryTarget: null,
+		float32: true,
 		firestormHeader: false,
 		decodeFirestormHeader: false,
 		braceStyle: 'same-line',
@@ -801,10 +1439,52 @@ function parseArgs(argv: string[]): CliOptions | null {
 			opts.json = true;
 			continue;
 		}
+		if (arg === '--junit') {
+			opts.junitPath = path.resolve(expectValue(args, ++i, arg));
+			continue;
+		}
+		if (arg === '--format') {
+			const format = expectValue(args, ++i, arg);
+			if (!isCheckReportFormat(format)) throw new CliError(`Invalid output format: ${format}`);
+			opts.reportFormat = format;
+			continue;
+		}
+		if (arg === '--mode') {
+			const mode = expectValue(args, ++i, arg);
+			if (mode !== 'preprocess' && mode !== 'optimize') throw new CliError(`Invalid mode: ${mode}`);
+			opts.renderMode = mode;
+			continue;
+		}
+		if (arg === '--source-map') {
+			opts.sourceMapPath = path.resolve(expectValue(args, ++i, arg));
+			continue;
+		}
+		if (arg === '--no-float32') {
+			opts.float32 = false;
+			continue;
+		}
 		if (arg === '--compare-optimized') {
 			opts.compareOptimized = true;
 			continue;
 		}
+		if (arg === '--verify') {
+			opts.verify = true;
+			continue;
+		}
+		if (arg === '--explain') {
+			opts.explain = true;
+			continue;
+		}
+		if (arg === '--minimize') {
+			const goal = expectValue(args, ++i, arg);
+			if (!isOptimizeGoal(goal)) throw new CliError(`Invalid minimize goal: ${goal}`);
+			opts.minimize = goal;
+			continue;
+		}
+		if (arg === '--memory-target') {
+			opts.memoryTarget = parsePositiveInteger(expectValue(args, ++i, arg), '--memory-target');
+			continue;
+		}
 		if (arg === '--firestorm-header') {
 			opts.firestormHeader = true;
 			continue;
@@ -821,6 +1501,18 @@ function parseArgs(argv: string[]): CliOptions | null {
 			opts.checkFormat = true;
 			continue;
 		}
+		if (arg === '--fix') {
+			opts.fix = true;
+			continue;
+		}
+		if (arg === '--fix-dry-run') {
+			opts.fixDryRun = true;
+			continue;
+		}
+		if (arg === '--fix-assignments') {
+			opts.fixAssignments = true;
+			continue;
+		}
 		if (arg === '-I' || arg === '--include-path') {
 			opts.includePaths.push(path.resolve(expectValue(args, ++i, arg)));
 			continue;
@@ -888,19 +1580,44 @@ function parseArgs(argv: string[]): CliOptions | null {
 
 	if (opts.write && opts.checkFormat) throw new CliError('--write and --check cannot be used together.');
 	if (opts.json && opts.command === 'format') throw new CliError('--json is not supported by format.');
+	if (opts.junitPath && opts.command !== 'test') throw new CliError('--junit is only supported by test.');
 	if (opts.compareOptimized && opts.command !== 'measure') throw new CliError('--compare-optimized is only supported by measure.');
-	if (opts.firestormHeader && opts.command !== 'preprocess' && opts.command !== 'optimize') throw new CliError('--firestorm-header is only supported by preprocess and optimize.');
+	if (opts.verify && opts.command !== 'optimize') throw new CliError('--verify is only supported by optimize.');
+	if (opts.verify && (opts.write || opts.checkFormat || opts.sourceMapPath)) throw new CliError('--verify cannot be combined with --write, --check or --source-map.');
+	if (opts.explain && opts.command !== 'optimize') throw new CliError('--explain is only supported by optimize.');
+	if (opts.explain && (opts.verify || opts.checkFormat || opts.sourceMapPath)) throw new CliError('--explain cannot be combined with --verify, --check or --source-map.');
+	if ((opts.minimize || opts.memoryTarget !== null) && opts.command !== 'optimize') throw new CliError('--minimize and --memory-target are only supported by optimize.');
+	if (opts.firestormHeader && opts.command !== 'preprocess' && opts.command !== 'optimize' && opts.command !== 'map-errors') throw new CliError('--firestorm-header is only supported by preprocess, optimize and map-errors.');
 	if (opts.decodeFirestormHeader && opts.command !== 'preprocess') throw new CliError('--decode-firestorm-header is only supported by preprocess.');
 	if (opts.decodeFirestormHeader && opts.firestormHeader) throw new CliError('--decode-firestorm-header and --firestorm-header cannot be used together.');
 	if (opts.decodeFirestormHeader && opts.json) throw new CliError('--decode-firestorm-header does not support --json.');
 	if ((opts.write || opts.checkFormat) && opts.command !== 'format' && opts.command !== 'optimize') throw new CliError('--write and --check are only supported by format and optimize.');
+	if ((opts.fix || opts.fixDryRun) && opts.command !== 'check') throw new CliError('--fix and --fix-dry-run are only supported by check.');
+	if (opts.fix && opts.fixDryRun) throw new CliError('--fix and --fix-dry-run cannot be used together.');
+	if (opts.fixAssignments && !opts.fix && !opts.fixDryRun) throw new CliError('--fix-assignments requires --fix or --fix-dry-run.');
+	if (opts.reportFormat !== 'text' && opts.command !== 'check') throw new CliError('--format is only supported by check.');
+	if (opts.json && opts.reportFormat !== 'text' && opts.reportFormat !== 'json') throw new CliError('--json and --format cannot be used together.');
+	if (opts.json && opts.command === 'check') opts.reportFormat = 'json';
+	if (opts.reportFormat === 'json') opts.json = true;
+	if (opts.fixDryRun && opts.reportFormat !== 'text') throw new CliError('--fix-dry-run only supports text output.');
+	if (opts.renderMode && opts.command !== 'map-errors') throw new CliError('--mode is only supported by map-errors.');
+	if (opts.sourceMapPath && opts.command !== 'preprocess' && opts.command !== 'optimize') throw new CliError('--source-map is only supported by preprocess and optimize.');
+	if (opts.sourceMapPath && (opts.json || opts.write || opts.checkFormat || opts.decodeFirestormHeader)) throw new CliError('--source-map only applies to printed output; --json output includes a sourceMap field.');
 	if (opts.command === 'update-defs') opts.definitionsForceUpdate = true;
 	if (opts.defaultIncludePath) opts.includePaths.unshift(process.cwd());
 	return opts;
 }
 
+function isCheckReportFormat(value: string): value is CheckReportFormat {
+	return value === 'text' || value === 'json' || value === 'sarif' || value === 'github' || value === 'checkstyle' || value === 'junit';
+}
+
+function isOptimizeGoal(value: string): value is OptimizeGoal {
+	return (OPTIMIZE_GOALS as readonly string[]).includes(value);
+}
+
 function isCommandName(value: string | undefined): value is CommandName {
-	return value === 'check' || value === 'format' || value === 'measure' || value === 'optimize' || value === 'preprocess' || value === 'symbols' || value === 'definition' || value === 'hover' || value === 'dump-defs' || value === 'update-defs';
+	return value === 'check' || value === 'format' || value === 'measure' || value === 'optimize' || value === 'preprocess' || value === 'symbols' || value === 'definition' || value === 'hover' || value === 'test' || value === 'map-errors' || value === 'eval' || value === 'repl' || value === 'dump-defs' || value === 'update-defs';
 }
 
 function defaultDefinitionsCacheDir(): string {
@@ -10,7 +10,11 @@ import {
 	shouldCheckDefinitionUpdate,
 	updateDefinitions,
 } from '@lsl-lsp/core/definitionUpdate';
+import { LslDebugSession, type DebugProtocolMessage } from '@lsl-lsp/core/debugAdapter';
+import { loadDefs, type Defs } from '@lsl-lsp/core/defs';
 import { decodeFirestormPreprocessorHeader } from '@lsl-lsp/core/firestormHeader';
+import type { SourceMapV3 } from '@lsl-lsp/core/sourceMap';
+import { mapViewerErrors, parseViewerErrors, type MappedViewerError } from '@lsl-lsp/core/viewerErrors';
 
 let client: LanguageClient;
 
@@ -23,6 +27,26 @@ type RenderScriptResult = {
 	changed?: boolean;
 	stable?: boolean;
 	passes?: number;
+	sourceMap?: SourceMapV3;
+	rewrites?: RenderedRewrite[];
+	error?: string;
+};
+type RenderedRewrite = {
+	pass: string;
+	before: string;
+	after: string;
+	bytes: number;
+	source: { file: string; line: number; character: number };
+	// Output line; for removed code, the line of the nearest surviving code of its file; unset when none survives
+	line?: number;
+};
+
+type LspRange = { start: { line: number; character: number }, end: { line: number; character: number } };
+type StateGraphResult = {
+	ok: boolean;
+	title?: string;
+	nodes?: { name: string; range: LspRange; selectionRange: LspRange; events: string[] }[];
+	edges?: { from: string; to: string; event: string; range: LspRange }[];
 	error?: string;
 };
 
@@ -46,6 +70,85 @@ class GeneratedDocumentProvider implements vscode.TextDocumentContentProvider {
 	}
 }
 
+// Optimizer rewrites of generated optimized scripts, shown as a CodeLens over the output line they produced
+// and listed in its hover; removed code goes on the code next to it, or gets a lens of its own on the first line
+// when nothing of its file survives
+class OptimizerRewriteProvider implements vscode.CodeLensProvider, vscode.HoverProvider {
+	private readonly rewrites = new Map<string, RenderedRewrite[]>();
+	private readonly emitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeCodeLenses = this.emitter.event;
+
+	set(uri: vscode.Uri, rewrites: RenderedRewrite[]): void {
+		this.rewrites.set(uri.toString(), rewrites);
+		this.emitter.fire();
+	}
+
+	provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+		const lenses = [...this.byLine(document.uri)].map(([line, rewrites]) => rewriteLens(line, rewrites));
+		for (const rewrite of this.rewrites.get(document.uri.toString()) ?? []) {
+			if (rewrite.line === undefined) lenses.push(rewriteLens(0, [rewrite]));
+		}
+		return lenses;
+	}
+
+	provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const rewrites = this.byLine(document.uri).get(position.line);
+		if (!rewrites) return undefined;
+		const markdown = new vscode.MarkdownString();
+		for (const rewrite of rewrites) {
+			const { file, line, character } = rewrite.source;
+			markdown.appendMarkdown(`**${rewrite.pass}** ${rewrite.bytes > 0 ? '+' : ''}${rewrite.bytes} bytes, ${path.basename(file)}:${line + 1}:${character + 1}\n`);
+			markdown.appendCodeblock(`${rewrite.before || '(nothing)'}\n→ ${rewrite.after || '(removed)'}`, 'lsl');
+		}
+		return new vscode.Hover(markdown);
+	}
+
+	dispose(): void {
+		this.emitter.dispose();
+	}
+
+	private byLine(uri: vscode.Uri): Map<number, RenderedRewrite[]> {
+		const out = new Map<number, RenderedRewrite[]>();
+		for (const rewrite of this.rewrites.get(uri.toString()) ?? []) {
+			if (rewrite.line === undefined) continue;
+			out.set(rewrite.line, [...out.get(rewrite.line) ?? [], rewrite]);
+		}
+		return out;
+	}
+}
+
+function rewriteLens(line: number, rewrites: RenderedRewrite[]): vscode.CodeLens {
+	const passes = [...new Set(rewrites.map(rewrite => rewrite.pass))].join(', ');
+	const bytes = rewrites.reduce((sum, rewrite) => sum + rewrite.bytes, 0);
+	const { file, line: sourceLine, character } = rewrites[0]!.source;
+	const position = new vscode.Position(sourceLine, character);
+	return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+		title: `${passes}: ${bytes > 0 ? '+' : ''}${bytes} bytes`,
+		tooltip: 'Open the original code',
+		command: 'vscode.open',
+		arguments: [vscode.Uri.file(file), { selection: new vscode.Range(position, position) }],
+	});
+}
+
+// Runs the debug adapter in the extension host; the session drives the core simulator directly
+class LslDebugAdapter implements vscode.DebugAdapter {
+	private readonly emitter = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+	readonly onDidSendMessage = this.emitter.event;
+	private readonly session: LslDebugSession;
+
+	constructor(defs: Defs, includePaths: string[]) {
+		this.session = new LslDebugSession({ defs, includePaths }, message => this.emitter.fire(message));
+	}
+
+	handleMessage(message: vscode.DebugProtocolMessage): void {
+		this.session.handleMessage(message as DebugProtocolMessage);
+	}
+
+	dispose(): void {
+		this.emitter.dispose();
+	}
+}
+
 // Decoration for disabled ranges (dim text)
 let disabledDecoration: vscode.TextEditorDecorationType | null = null;
 // Cache disabled ranges per document URI as LSP-like ranges
@@ -135,6 +238,90 @@ function applyDisabledDecorationsForEditor(editor: vscode.TextEditor) {
 	editor.setDecorations(deco, filtered);
 }
 
+function htmlEscape(text: string): string {
+	return text.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+// Static SVG of the state machine: states on a circle (default on top), one arrow per state pair labelled
+// with the events that change state. Clicking a state or label posts its source position back.
+function stateGraphHtml(graph: StateGraphResult, cspSource: string): string {
+	const nodes = graph.nodes ?? [];
+	const edges = graph.edges ?? [];
+	const names = nodes.map(n => n.name);
+	for (const edge of edges) if (!names.includes(edge.to)) names.push(edge.to);
+	const ordered = [...names.filter(n => n === 'default'), ...names.filter(n => n !== 'default')];
+	const radius = Math.max(120, ordered.length * 40);
+	const size = radius * 2 + 240;
+	const center = size / 2;
+	const pos = new Map(ordered.map((name, i) => {
+		const angle = -Math.PI / 2 + (2 * Math.PI * i) / Math.max(1, ordered.length);
+		return [name, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) }];
+	}));
+	const pairs = new Map<string, { from: string; to: string; events: string[]; range: LspRange }>();
+	for (const edge of edges) {
+		const key = `${edge.from}\u0000${edge.to}`;
+		const pair = pairs.get(key);
+		if (pair) { if (!pair.events.includes(edge.event)) pair.events.push(edge.event); }
+		else pairs.set(key, { from: edge.from, to: edge.to, events: [edge.event], range: edge.range });
+	}
+	const reveal = (range: LspRange) => `data-line="${range.start.line}" data-character="${range.start.character}"`;
+	const parts: string[] = [];
+	for (const pair of pairs.values()) {
+		const a = pos.get(pair.from)!;
+		const b = pos.get(pair.to)!;
+		const label = htmlEscape(pair.events.join(', '));
+		if (pair.from === pair.to) {
+			parts.push(`<path class="edge" d="M ${a.x - 12} ${a.y - 24} C ${a.x - 50} ${a.y - 90}, ${a.x + 50} ${a.y - 90}, ${a.x + 12} ${a.y - 24}" marker-end="url(#arrow)"/>`);
+			parts.push(`<text class="label" ${reveal(pair.range)} x="${a.x}" y="${a.y - 78}">${label}</text>`);
+			continue;
+		}
+		// Bend each direction to its own side so A->B and B->A stay apart
+		const dx = b.x - a.x, dy = b.y - a.y;
+		const len = Math.hypot(dx, dy) || 1;
+		const nx = -dy / len, ny = dx / len;
+		const start = { x: a.x + (dx / len) * 40, y: a.y + (dy / len) * 40 };
+		const end = { x: b.x - (dx / len) * 40, y: b.y - (dy / len) * 40 };
+		const ctrl = { x: (a.x + b.x) / 2 + nx * 30, y: (a.y + b.y) / 2 + ny * 30 };
+		parts.push(`<path class="edge" d="M ${start.x} ${start.y} Q ${ctrl.x} ${ctrl.y} ${end.x} ${end.y}" marker-end="url(#arrow)"/>`);
+		parts.push(`<text class="label" ${reveal(pair.range)} x="${ctrl.x}" y="${ctrl.y}">${label}</text>`);
+	}
+	for (const name of ordered) {
+		const p = pos.get(name)!;
+		const node = nodes.find(n => n.name === name);
+		const cls = node ? (name === 'default' ? 'state default' : 'state') : 'state missing';
+		const title = node ? `${name}: ${node.events.join(', ') || 'no events'}` : `${name} (not declared)`;
+		parts.push(`<g class="${cls}" ${node ? reveal(node.selectionRange) : ''}><title>${htmlEscape(title)}</title><ellipse cx="${p.x}" cy="${p.y}" rx="56" ry="24"/><text x="${p.x}" y="${p.y + 4}">${htmlEscape(name)}</text></g>`);
+	}
+	const nonce = Math.random().toString(36).slice(2);
+	return `<!DOCTYPE html>
+<html><head><meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+body { color: var(--vscode-foreground); background: var(--vscode-editor-background); font-family: var(--vscode-font-family); }
+.edge { fill: none; stroke: var(--vscode-editorLineNumber-foreground); stroke-width: 1.5; }
+.label { fill: var(--vscode-descriptionForeground); font-size: 11px; text-anchor: middle; cursor: pointer; }
+.state ellipse { fill: var(--vscode-editorWidget-background); stroke: var(--vscode-focusBorder); stroke-width: 1.5; }
+.state.default ellipse { stroke-width: 3; }
+.state.missing ellipse { stroke: var(--vscode-errorForeground); stroke-dasharray: 4 3; }
+.state text { fill: var(--vscode-foreground); text-anchor: middle; font-size: 13px; }
+.state { cursor: pointer; }
+#arrow path { fill: var(--vscode-editorLineNumber-foreground); }
+</style></head>
+<body>
+<h3>${htmlEscape(graph.title ?? 'State graph')}: ${nodes.length} state(s), ${edges.length} transition(s)</h3>
+<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z"/></marker></defs>
+${parts.join('\n')}
+</svg>
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+document.querySelectorAll('[data-line]').forEach(el => el.addEventListener('click', () => {
+	vscode.postMessage({ type: 'reveal', line: Number(el.dataset.line), character: Number(el.dataset.character) });
+}));
+</script>
+</body></html>`;
+}
+
 export async function activate(context: vscode.ExtensionContext) {
 	// In dev, prefer a fixed repo server path relative to the extension folder,
 	// so it works even when VS Code opens a different workspace.
@@ -280,7 +467,7 @@ export async function activate(context: vscode.ExtensionContext) {
 			extensions: currentCfg.get('extensions'),
 			optimize: currentCfg.get('optimize'),
 			output: { firestormHeaderForOptimized: currentCfg.get('output.firestormHeaderForOptimized') },
-			measure: { inlayHints: currentCfg.get('measure.inlayHints') },
+			measure: { inlayHints: currentCfg.get('measure.inlayHints'), codeLens: currentCfg.get('measure.codeLens') },
 			logFile,
 			diagnostics: { disable: currentCfg.get('diagnostics.disable') },
 			debug: !!currentCfg.get<boolean>('debugLogging')
@@ -333,13 +520,16 @@ export async function activate(context: vscode.ExtensionContext) {
 		initializationOptions: getServerSettings(),
 		traceOutputChannel: traceChannel,
 		synchronize: {
-			fileEvents: vscode.workspace.createFileSystemWatcher('**/*.{lsl,lsli,lslp}')
+			fileEvents: vscode.workspace.createFileSystemWatcher('**/*.{lsl,lsli,lslp,lslh}')
 		}
 	};
 
 	client = new LanguageClient('lslLsp', 'LSL Language Server', serverOptions, clientOptions);
 	const generatedProvider = new GeneratedDocumentProvider();
 	const generatedProviderRegistration = vscode.workspace.registerTextDocumentContentProvider('lsl-output', generatedProvider);
+	const rewriteProvider = new OptimizerRewriteProvider();
+	const rewriteLensRegistration = vscode.languages.registerCodeLensProvider({ scheme: 'lsl-output' }, rewriteProvider);
+	const rewriteHoverRegistration = vscode.languages.registerHoverProvider({ scheme: 'lsl-output' }, rewriteProvider);
 
 	function outputUri(title: string): vscode.Uri {
 		const safeTitle = title.replace(/[\\/:*?"<>|#%]/g, '_');
@@ -364,6 +554,7 @@ export async function activate(context: vscode.ExtensionContext) {
 			const result = await client.sendRequest<RenderScriptResult>('lsl/renderScript', {
 				uri: editor.document.uri.toString(),
 				mode,
+				explain: mode === 'optimize',
 			});
 			if (!result.ok || result.content === undefined || !result.title) {
 				vscode.window.showErrorMessage(`LSL: ${result.error || 'failed to render script'}`);
@@ -371,6 +562,7 @@ export async function activate(context: vscode.ExtensionContext) {
 			}
 			const uri = outputUri(result.title);
 			generatedProvider.set(uri, result.content);
+			if (result.rewrites) rewriteProvider.set(uri, result.rewrites);
 			let doc = await vscode.workspace.openTextDocument(uri);
 			if (doc.languageId !== 'lsl') doc = await vscode.languages.setTextDocumentLanguage(doc, 'lsl');
 			await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
@@ -397,6 +589,44 @@ export async function activate(context: vscode.ExtensionContext) {
 		await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
 	}
 
+	let stateGraphPanel: vscode.WebviewPanel | undefined;
+	let stateGraphDocument: vscode.Uri | undefined;
+
+	async function showStateGraph(): Promise<void> {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId !== 'lsl') {
+			vscode.window.showWarningMessage('LSL: open an LSL document first.');
+			return;
+		}
+		if (client.state !== State.Running) {
+			vscode.window.showWarningMessage('LSL: language server is not running.');
+			return;
+		}
+		try {
+			const result = await client.sendRequest<StateGraphResult>('lsl/stateGraph', { uri: editor.document.uri.toString() });
+			if (!result.ok) {
+				vscode.window.showErrorMessage(`LSL: ${result.error || 'failed to build state graph'}`);
+				return;
+			}
+			stateGraphDocument = editor.document.uri;
+			if (!stateGraphPanel) {
+				stateGraphPanel = vscode.window.createWebviewPanel('lslStateGraph', 'LSL State Graph', vscode.ViewColumn.Beside, { enableScripts: true });
+				stateGraphPanel.onDidDispose(() => { stateGraphPanel = undefined; });
+				stateGraphPanel.webview.onDidReceiveMessage(async (message: { type?: string; line?: number; character?: number }) => {
+					if (message.type !== 'reveal' || !stateGraphDocument) return;
+					const position = new vscode.Position(message.line ?? 0, message.character ?? 0);
+					const doc = await vscode.workspace.openTextDocument(stateGraphDocument);
+					await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.One, selection: new vscode.Range(position, position) });
+				});
+			}
+			stateGraphPanel.title = `State Graph: ${result.title ?? 'script'}`;
+			stateGraphPanel.webview.html = stateGraphHtml(result, stateGraphPanel.webview.cspSource);
+			stateGraphPanel.reveal(vscode.ViewColumn.Beside, true);
+		} catch (e) {
+			vscode.window.showErrorMessage('LSL: failed to build state graph: ' + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
 	// Commands for quick debug
 	const showLogsCmd = vscode.commands.registerCommand('lsl.showServerLogs', () => traceChannel.show(true));
 	const showClientLogsCmd = vscode.commands.registerCommand('lsl.showClientLogs', () => {
@@ -440,10 +670,96 @@ export async function activate(context: vscode.ExtensionContext) {
 		}
 		vscode.window.showInformationMessage(`LSL definitions: ${activePath || 'bundled fallback'}`);
 	});
+	async function mapInWorldErrors(): Promise<void> {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId !== 'lsl') {
+			vscode.window.showWarningMessage('LSL: open the LSL document that was uploaded first.');
+			return;
+		}
+		if (client.state !== State.Running) {
+			vscode.window.showWarningMessage('LSL: language server is not running.');
+			return;
+		}
+		const clipboard = await vscode.env.clipboard.readText();
+		const output = await vscode.window.showInputBox({
+			title: 'Map In-World Errors to Source',
+			prompt: 'Paste compiler output or a script error chat line, e.g. (142, 17) : ERROR : Type mismatch',
+			value: parseViewerErrors(clipboard).length > 0 ? clipboard : '',
+			ignoreFocusOut: true,
+		});
+		if (!output) return;
+		const errors = parseViewerErrors(output);
+		if (errors.length === 0) {
+			vscode.window.showWarningMessage('LSL: no error positions found in the pasted text.');
+			return;
+		}
+		const uploaded = await vscode.window.showQuickPick([
+			{ label: 'Optimized script', mode: 'optimize' as RenderMode },
+			{ label: 'Preprocessed script', mode: 'preprocess' as RenderMode },
+		], { placeHolder: 'Which output was uploaded in-world?' });
+		if (!uploaded) return;
+		try {
+			const result = await client.sendRequest<RenderScriptResult>('lsl/renderScript', {
+				uri: editor.document.uri.toString(),
+				mode: uploaded.mode,
+			});
+			if (!result.ok || !result.sourceMap) {
+				vscode.window.showErrorMessage(`LSL: ${result.error || 'failed to render script'}`);
+				return;
+			}
+			const mapped = mapViewerErrors(errors, result.sourceMap).filter(error => error.original);
+			if (mapped.length === 0) {
+				vscode.window.showWarningMessage('LSL: none of the error positions map to a source location.');
+				return;
+			}
+			const target = mapped.length === 1 ? mapped[0] : (await vscode.window.showQuickPick(mapped.map(error => ({
+				label: error.message,
+				description: `${path.basename(error.original!.source)}:${error.original!.line + 1}:${error.original!.column + 1}`,
+				detail: error.text,
+				error,
+			})), { placeHolder: 'Select an error to open' }))?.error;
+			if (target) await revealViewerError(target);
+		} catch (e) {
+			vscode.window.showErrorMessage('LSL: failed to map errors: ' + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
+	async function revealViewerError(error: MappedViewerError): Promise<void> {
+		const original = error.original!;
+		const position = new vscode.Position(original.line, original.column);
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(original.source));
+		await vscode.window.showTextDocument(doc, { selection: new vscode.Range(position, position) });
+		vscode.window.setStatusBarMessage(`LSL: ${error.severity}: ${error.message}`, 10000);
+	}
+
 	const openPreprocessedCmd = vscode.commands.registerCommand('lsl.openPreprocessedScript', () => openRenderedScript('preprocess'));
 	const openOptimizedCmd = vscode.commands.registerCommand('lsl.openOptimizedScript', () => openRenderedScript('optimize'));
 	const openFirestormOriginalCmd = vscode.commands.registerCommand('lsl.openFirestormOriginalSource', openFirestormOriginalSource);
-	context.subscriptions.push(showLogsCmd, showClientLogsCmd, restartCmd, clearCachesCmd, buildServerCmd, updateDefinitionsCmd, useBundledDefinitionsCmd, showDefinitionsCmd, openPreprocessedCmd, openOptimizedCmd, openFirestormOriginalCmd, generatedProviderRegistration, generatedProvider, status, debugChannel, traceChannel);
+	const showStateGraphCmd = vscode.commands.registerCommand('lsl.showStateGraph', showStateGraph);
+	const mapInWorldErrorsCmd = vscode.commands.registerCommand('lsl.mapInWorldErrors', mapInWorldErrors);
+	context.subscriptions.push(showLogsCmd, showClientLogsCmd, restartCmd, clearCachesCmd, buildServerCmd, updateDefinitionsCmd, useBundledDefinitionsCmd, showDefinitionsCmd, openPreprocessedCmd, openOptimizedCmd, openFirestormOriginalCmd, showStateGraphCmd, mapInWorldErrorsCmd, generatedProviderRegistration, generatedProvider, rewriteLensRegistration, rewriteHoverRegistration, rewriteProvider, status, debugChannel, traceChannel);
+
+	context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('lsl', {
+		resolveDebugConfiguration(_folder, config) {
+			// F5 without a launch.json debugs the active script
+			if (!config.type && !config.request && !config.name && vscode.window.activeTextEditor?.document.languageId === 'lsl') {
+				return { type: 'lsl', request: 'launch', name: 'Debug LSL script', program: '${file}' };
+			}
+			if (!config.program) {
+				void vscode.window.showErrorMessage('LSL: Set "program" in the launch configuration to the script to debug.');
+				return undefined;
+			}
+			return config;
+		},
+	}));
+	context.subscriptions.push(vscode.debug.registerDebugAdapterDescriptorFactory('lsl', {
+		async createDebugAdapterDescriptor() {
+			const cfg = vscode.workspace.getConfiguration('lsl');
+			const defs = await loadDefs(resolveDefinitionsPath(cfg.get('definitionsPath')));
+			const workspaceRoots = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+			return new vscode.DebugAdapterInlineImplementation(new LslDebugAdapter(defs, [...resolveIncludePaths(cfg.get('includePaths')), ...workspaceRoots]));
+		},
+	}));
 
 	client.onDidChangeState(({ newState }) => {
 		if (newState === State.Running) {
@@ -1,4 +1,5 @@
 import type { Range } from './protocol';
+import type { Type } from './ast/types';
 import { DiagnosticSeverity } from './protocol';
 
 export const LSL_DIAGCODES = {
@@ -11,6 +12,11 @@ export const LSL_DIAGCODES = {
 	LIST_COMPARISON_LENGTH_ONLY: 'LSL012',
 	IMPLICIT_STRING_TO_KEY: 'LSL013',
 	LIST_LITERAL_CONTAINS_LIST: 'LSL014',
+	RULE_LIST_UNKNOWN_RULE: 'LSL015',
+	RULE_LIST_ARITY: 'LSL016',
+	RULE_LIST_TYPE: 'LSL017',
+	WRONG_CONSTANT_FAMILY: 'LSL018',
+	STRIDED_LIST_MISMATCH: 'LSL019',
 	EVENT_OUTSIDE_STATE: 'LSL020',
 	UNKNOWN_EVENT: 'LSL021',
 	UNKNOWN_STATE: 'LSL030',
@@ -27,8 +33,17 @@ export const LSL_DIAGCODES = {
 	DEAD_CODE: 'LSL052',
 	GOD_MODE_REQUIRED: 'LSL090',
 	DEPRECATED_CALL: 'LSL091',
+	PERMISSION_NOT_REQUESTED: 'LSL092',
+	SLEEP_IN_LOOP: 'LSL093',
+	LISTEN_HANDLE_DISCARDED: 'LSL110',
+	LISTEN_NOT_REMOVED: 'LSL111',
+	TIMER_WITHOUT_EVENT: 'LSL112',
+	SENSOR_NOT_REMOVED: 'LSL113',
+	HTTP_WITHOUT_RESPONSE: 'LSL114',
+	PERMISSIONS_WITHOUT_EVENT: 'LSL115',
 	ALWAYS_TRUE_CONDITION: 'LSL120',
 	ALWAYS_FALSE_CONDITION: 'LSL121',
+	RECURSIVE_CALL: 'LSL130',
 	UNUSED_VAR: 'LSL100',
 	UNUSED_LOCAL: 'LSL101',
 	UNUSED_PARAM: 'LSL102',
@@ -78,6 +93,63 @@ export function diagCodeFriendly(code: DiagCode): string | null {
 	return CODE_FRIENDLY_MAP[code] ?? null;
 }
 
+// One-line rule descriptions, used as rule metadata by report formats such as SARIF
+const DIAG_DESCRIPTIONS: Record<DiagCode, string> = {
+	LSL000: 'Syntax error.',
+	LSL001: 'Identifier is not declared.',
+	LSL002: 'Constant is not defined.',
+	LSL050: 'Left-hand side of an assignment is not assignable.',
+	LSL010: 'Call has the wrong number of arguments.',
+	LSL011: 'Expression has the wrong type.',
+	LSL012: 'List comparison only compares lengths.',
+	LSL013: 'String is implicitly converted to key.',
+	LSL014: 'List literal contains a list.',
+	LSL015: 'Rule list contains an unknown rule.',
+	LSL016: 'Rule in a rule list has the wrong number of parameters.',
+	LSL017: 'Rule list parameter has the wrong type.',
+	LSL018: 'Constant from another family is passed to a parameter.',
+	LSL019: 'Strided list is used against its @stride shape.',
+	LSL020: 'Event handler is declared outside a state.',
+	LSL021: 'Event is not known.',
+	LSL030: 'State is not declared.',
+	LSL022: 'State is declared in an illegal place.',
+	LSL023: 'State change outside an event handler.',
+	LSL024: 'Event body is empty.',
+	LSL025: 'Function body is empty.',
+	LSL026: 'If body is empty.',
+	LSL027: 'Else body is empty.',
+	LSL040: 'Not all code paths return a value.',
+	LSL041: 'Void function returns a value.',
+	LSL042: 'Returned value has the wrong type.',
+	LSL080: 'Cast does not change the type.',
+	LSL052: 'Code is unreachable.',
+	LSL090: 'Function requires god mode.',
+	LSL091: 'Function is deprecated.',
+	LSL092: 'Call needs a permission that is never requested.',
+	LSL093: 'Call with a forced delay inside a loop has a non-sleeping alternative.',
+	LSL110: 'llListen handle is discarded.',
+	LSL111: 'Listen is never removed.',
+	LSL112: 'Timer set in a state without a timer event.',
+	LSL113: 'Repeating sensor is never removed.',
+	LSL114: 'HTTP request in a state without an http_response event.',
+	LSL115: 'Permissions requested in a state without a run_time_permissions event.',
+	LSL120: 'Condition is always true.',
+	LSL121: 'Condition is always false.',
+	LSL130: 'Call is part of a recursive cycle.',
+	LSL100: 'Global variable is never used.',
+	LSL101: 'Local variable is never used.',
+	LSL102: 'Parameter is never used.',
+	LSL103: 'Underscore-prefixed parameter is used.',
+	LSL104: 'Result of the call must be used.',
+	LSL051: 'Assignment used as a condition.',
+	LSL060: 'Identifier is reserved.',
+	LSL070: 'Name is declared more than once.',
+};
+
+export function diagCodeDescription(code: DiagCode): string {
+	return DIAG_DESCRIPTIONS[code];
+}
+
 export interface Diag { range: Range; message: string; severity?: DiagnosticSeverity; code: DiagCode; }
 export interface SymbolRef { name: string; range: Range; }
 export interface Decl {
@@ -94,14 +166,25 @@ export interface Decl {
 	headerRange?: Range;
 	// bodyRange covers only the body block between '{' and the matching '}'
 	bodyRange?: Range;
+	// Record shape of a list declared with `@stride`
+	stride?: Type[];
+}
+// Index argument of a typed accessor on a strided list, resolved to its position within a record
+export interface StridedElement {
+	range: Range;
+	list: string;
+	offset: number;
+	stride: Type[];
 }
 export interface Analysis {
 	diagnostics: Diag[];
 	decls: Decl[];
 	refs: SymbolRef[];
 	calls: { name: string; args: number; range: Range; argRanges: Range[] }[];
+	stridedElements: StridedElement[];
 	states: Map<string, Decl>;
 	functions: Map<string, Decl>;
+	globals: Map<string, Decl>;
 	symbolAt(offset: number): Decl | null;
 	refAt(offset: number): Decl | null;
 }
@@ -2,13 +2,13 @@ import type { TextDocument } from '../protocol';
 import { DiagnosticSeverity, fileUriToPath, type Range } from '../protocol';
 import type { Defs } from '../defs';
 import type { PreprocResult } from '../core/preproc';
-import { Script, Expr, Function as AstFunction, State as AstState, spanToRange, isType as isLslType, Stmt, Type } from './types';
+import { Script, Expr, Function as AstFunction, State as AstState, spanToRange, isType as isLslType, Span, Stmt, Type } from './types';
 import { validateOperatorsFromAst } from '../op_validate_ast';
 import type { SimpleType } from './infer';
 import { inferExprTypeFromAst } from './infer';
 import { normalizeType } from '../defs';
-import { AssertNever } from '../utils';
-import type { Analysis, Diag, Decl } from '../analysisTypes';
+import { AssertNever, maskCommentsAndStrings } from '../utils';
+import type { Analysis, Diag, Decl, StridedElement } from '../analysisTypes';
 import { LSL_DIAGCODES } from '../analysisTypes';
 import type { DiagCode } from '../analysisTypes';
 import { isKeyword } from './lexer';
@@ -17,70 +17,19 @@ import { Env, evalExpr, type EvalOptions } from './eval';
 import type { Value } from './runtime';
 import { isAssignmentCompatible } from './compat';
 import { keyValueFromString, NULL_KEY_VALUE } from './key';
+import { validateRuleListCall, type RuleListContext } from '../ruleLists';
+import { analyzeCallDepth } from './callDepth';
+import { sleepingCallsInLoops } from './latency';
+import { analyzePermissions } from './permissions';
+import { analyzeResources } from './resources';
+import { isLslTestFile, lslTestDefs } from './testRunner';
+import { formatStride, parseStrideAnnotation, STRIDE_ARGUMENTS, STRIDED_ACCESSORS, strideOffset } from './stride';
 
 // Scope now carries a lightweight kind tag to distinguish event/function contexts
 type Scope = { parent?: Scope; vars: Map<string, Decl>; kind?: 'event' | 'func' | 'state' | 'global' | 'block' };
 
-function maskCommentsAndStrings(text: string): string {
-	let out = '';
-	let inBlock = false;
-	let inLine = false;
-	let quote: string | null = null;
-	for (let i = 0; i < text.length; i++) {
-		const ch = text[i]!;
-		const next = text[i + 1];
-		if (inLine) {
-			if (ch === '\n') {
-				inLine = false;
-				out += ch;
-			} else {
-				out += ' ';
-			}
-			continue;
-		}
-		if (inBlock) {
-			if (ch === '*' && next === '/') {
-				out += '  ';
-				i++;
-				inBlock = false;
-			} else {
-				out += ch === '\n' ? ch : ' ';
-			}
-			continue;
-		}
-		if (quote) {
-			if (ch === '\\' && next != null) {
-				out += '  ';
-				i++;
-				continue;
-			}
-			out += ch === '\n' ? ch : ' ';
-			if (ch === quote) quote = null;
-			continue;
-		}
-		if (ch === '/' && next === '/') {
-			out += '  ';
-			i++;
-			inLine = true;
-			continue;
-		}
-		if (ch === '/' && next === '*') {
-			out += '  ';
-			i++;
-			inBlock = true;
-			continue;
-		}
-		if (ch === '"' || ch === '\'') {
-			out += ' ';
-			quote = ch;
-			continue;
-		}
-		out += ch;
-	}
-	return out;
-}
-
-export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: PreprocResult): Analysis {
+export function analyzeAst(doc: TextDocument, script: Script, scriptDefs: Defs, pre: PreprocResult): Analysis {
+	const defs = isLslTestFile(doc.uri) ? lslTestDefs(scriptDefs) : scriptDefs;
 	const diagnostics: Diag[] = [];
 	const currentFile = (() => {
 		try { return doc.uri.startsWith('file://') ? fileUriToPath(doc.uri) : undefined; }
@@ -121,9 +70,11 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 	const refs: Analysis['refs'] = [];
 	const refTargets = new Map<number, Decl>();
 	const calls: Analysis['calls'] = [];
+	const stridedElements: StridedElement[] = [];
 	// Populated after collecting top-level declarations
 	const states = new Map<string, Analysis['decls'][number]>();
 	const functions = new Map<string, Analysis['decls'][number]>();
+	const globals = new Map<string, Analysis['decls'][number]>();
 	const globalDecls: Decl[] = [];
 
 	// Collect names of parameters used by function-like macros so we can avoid
@@ -565,13 +516,43 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 							severity: DiagnosticSeverity.Warning,
 						});
 					}
+					e.args.forEach((arg, index) => {
+						const family = defs.paramConstantFamily(calleeName, index);
+						if (!family) return;
+						for (const operand of constantOperands(arg)) {
+							if (operand.name.startsWith(family) || !defs.consts.has(operand.name)) continue;
+							diagnostics.push({
+								code: LSL_DIAGCODES.WRONG_CONSTANT_FAMILY,
+								message: `${calleeName} expects a ${family}* constant here, not ${operand.name}`,
+								range: spanToRange(doc, operand.span),
+								severity: DiagnosticSeverity.Warning,
+							});
+						}
+					});
+					checkStridedCall(e, calleeName, scope);
+					for (const issue of validateRuleListCall(e, ruleListContext(typeScope))) {
+						diagnostics.push({
+							code: issue.code,
+							message: issue.message,
+							range: spanToRange(doc, issue.span),
+							severity: DiagnosticSeverity.Warning,
+						});
+					}
 				} else {
 					walkExpr(e.callee, scope, typeScope, true);
 				}
 				e.args.forEach(a => walkExpr(a, scope, typeScope, true));
 				break;
 			}
-			case 'Binary': walkExpr(e.left, scope, typeScope, true); walkExpr(e.right, scope, typeScope, true); break;
+			case 'Binary': {
+				walkExpr(e.left, scope, typeScope, true);
+				walkExpr(e.right, scope, typeScope, true);
+				if ((e.op === '=' || e.op === '+=') && e.left.kind === 'Identifier') {
+					const decl = resolveInScope(e.left.name, scope);
+					if (decl?.stride) checkStridedValue(decl, e.right, typeScope);
+				}
+				break;
+			}
 			case 'Unary': walkExpr(e.argument, scope, typeScope, true); break;
 			case 'Member': walkExpr(e.object, scope, typeScope, true); break;
 			case 'Cast': walkExpr(e.argument, scope, typeScope, valueUsed); break;
@@ -705,6 +686,105 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 	}
 
 	type TypeScopeView = { view: Map<string, SimpleType> | ReadonlyMap<string, SimpleType> };
+	function constantInteger(expr: Expr): number | undefined {
+		// Evaluate on a copy: index expressions may contain `i++`
+		const v = evalLocalConstant(expr, currentValueEnv().clone());
+		return v.kind === 'value' && v.type === 'integer' ? v.value : undefined;
+	}
+
+	// Typed accessors and stride arguments on a list declared with `@stride`
+	function checkStridedCall(call: Extract<Expr, { kind: 'Call' }>, calleeName: string, scope: Scope) {
+		const list = call.args[0]?.kind === 'Paren' ? call.args[0].expression : call.args[0];
+		if (list?.kind !== 'Identifier') return;
+		const decl = resolveInScope(list.name, scope);
+		const stride = decl?.stride;
+		if (!stride) return;
+		const accepted = STRIDED_ACCESSORS[calleeName];
+		const index = call.args[1];
+		if (accepted && index) {
+			const offset = strideOffset(index, stride.length, constantInteger);
+			if (offset === undefined) return;
+			stridedElements.push({ range: spanToRange(doc, index.span), list: list.name, offset, stride });
+			const elementType = stride[offset]!;
+			if (!accepted.includes(elementType)) {
+				diagnostics.push({
+					code: LSL_DIAGCODES.STRIDED_LIST_MISMATCH,
+					message: `${calleeName} reads element ${offset} of ${list.name}, which is ${elementType} (${formatStride(stride)})`,
+					range: spanToRange(doc, call.callee.span),
+					severity: DiagnosticSeverity.Warning,
+				});
+			}
+			return;
+		}
+		const strideArg = call.args[STRIDE_ARGUMENTS[calleeName] ?? -1];
+		if (!strideArg) return;
+		const value = constantInteger(strideArg);
+		if (value !== undefined && value !== stride.length) {
+			diagnostics.push({
+				code: LSL_DIAGCODES.STRIDED_LIST_MISMATCH,
+				message: `${list.name} has a stride of ${stride.length} (${formatStride(stride)}), not ${value}`,
+				range: spanToRange(doc, strideArg.span),
+				severity: DiagnosticSeverity.Warning,
+			});
+		}
+	}
+
+	// List literals assigned or appended to a strided list must hold whole records of the declared shape.
+	// Only `list + [...] + ...` chains are followed; any other operand makes the alignment unknown.
+	function checkStridedValue(decl: Decl, value: Expr, typeScope: TypeScope) {
+		const stride = decl.stride!;
+		const operands: Expr[] = [];
+		const flatten = (expr: Expr): boolean => {
+			if (expr.kind === 'Paren') return flatten(expr.expression);
+			if (expr.kind === 'Binary' && expr.op === '+') return flatten(expr.left) && flatten(expr.right);
+			if (expr.kind === 'ListLiteral') { operands.push(expr); return true; }
+			return expr.kind === 'Identifier' && expr.name === decl.name;
+		};
+		if (!flatten(value)) return;
+		for (const literal of operands) {
+			if (literal.kind !== 'ListLiteral') continue;
+			if (literal.elements.length % stride.length !== 0) {
+				diagnostics.push({
+					code: LSL_DIAGCODES.STRIDED_LIST_MISMATCH,
+					message: `List of ${literal.elements.length} element(s) does not hold whole records of ${decl.name} (${formatStride(stride)})`,
+					range: spanToRange(doc, literal.span),
+					severity: DiagnosticSeverity.Warning,
+				});
+				continue;
+			}
+			literal.elements.forEach((element, i) => {
+				const expected = stride[i % stride.length]!;
+				const actual = inferExprTypeFromAst(element, typeScope.view, functionReturnTypes);
+				if (isAssignmentCompatible(expected, actual)) return;
+				diagnostics.push({
+					code: LSL_DIAGCODES.STRIDED_LIST_MISMATCH,
+					message: `Element ${i % stride.length} of a ${decl.name} record is ${expected}, got ${actual}`,
+					range: spanToRange(doc, element.span),
+					severity: DiagnosticSeverity.Warning,
+				});
+			});
+		}
+	}
+
+	// Identifiers of `A`, `(A)` and `A | B | ...`; anything else is not checked against a constant family
+	function constantOperands(expr: Expr): Extract<Expr, { kind: 'Identifier' }>[] {
+		if (expr.kind === 'Identifier') return [expr];
+		if (expr.kind === 'Paren') return constantOperands(expr.expression);
+		if (expr.kind === 'Binary' && expr.op === '|') return [...constantOperands(expr.left), ...constantOperands(expr.right)];
+		return [];
+	}
+
+	function ruleListContext(typeScope: TypeScope): RuleListContext {
+		return {
+			typeOf: x => inferExprTypeFromAst(x, typeScope.view, functionReturnTypes),
+			isConstant: name => defs.consts.has(name),
+			constantValue: name => {
+				const value = defs.consts.get(name)?.value;
+				return typeof value === 'number' ? value : undefined;
+			},
+		};
+	}
+
 	function inferTypeOf(e: Expr, typeScope: TypeScopeView): string {
 		// Use direct import to work in both test and build environments
 		const v = typeScope.view as Map<string, SimpleType>;
@@ -1117,9 +1197,11 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 						severity: DiagnosticSeverity.Error,
 					});
 				}
-				const d: Decl = { name, range: findNameRangeInSpan(name, stmt.span, false), kind: 'var', type };
+				const stride = type === 'list' ? parseStrideAnnotation(stmt.comment) : undefined;
+				const d: Decl = { name, range: findNameRangeInSpan(name, stmt.span, false), kind: 'var', type, ...(stride ? { stride } : {}) };
 				if (stmt.initializer) {
 					walkExpr(stmt.initializer, scope, typeScope);
+					if (stride) checkStridedValue(d, stmt.initializer, typeScope);
 					validateExpr(stmt.initializer, typeScope);
 					validateInitializerType(type, stmt.initializer, typeScope);
 					currentValueEnv().setVar(name, coerceValueForDeclaredType(evalLocalConstant(stmt.initializer), type));
@@ -1326,9 +1408,11 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 			});
 		}
 		const range = findNameRangeInSpan(name, g.span, false);
-		const d: Decl = { name, range, kind: 'var', type: g.varType };
+		const stride = g.varType === 'list' ? parseStrideAnnotation(g.comment) : undefined;
+		const d: Decl = { name, range, kind: 'var', type: g.varType, ...(stride ? { stride } : {}) };
 		decls.push(d);
 		globalDecls.push(d);
+		globals.set(name, d);
 		if (g.initializer) {
 			if (currentGlobal) {
 				walkExpr(g.initializer, globalScope, globalTypeScope);
@@ -1344,6 +1428,7 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 				}
 				validateOperatorsFromAst(doc, [g.initializer], diagnostics, globalTypeScope.view, functionReturnTypes, callSignatures, { constantNames, constantStringValues });
 				validateInitializerType(g.varType, g.initializer, globalTypeScope);
+				if (stride) checkStridedValue(d, g.initializer, globalTypeScope);
 			}
 			currentValueEnv().setVar(name, coerceValueForDeclaredType(evalExpr(g.initializer, currentValueEnv()), g.varType));
 		} else {
@@ -1483,6 +1568,44 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 		}
 	}
 
+	// Passes that follow calls into functions report what they find in an #included header at the last call
+	// in this file that reaches it
+	const currentSpan = (span: Span, via: Span[] = []): Span | undefined => [span, ...[...via].reverse()].find(s => isCurrentNode({ span: s }));
+	for (const issue of analyzePermissions(script, defs)) {
+		const span = currentSpan(issue.span, issue.via);
+		if (!span) continue;
+		diagnostics.push({
+			code: LSL_DIAGCODES.PERMISSION_NOT_REQUESTED,
+			message: `${issue.call} needs ${issue.permission}, which is never requested or checked in state ${issue.state}`,
+			range: spanToRange(doc, span),
+			severity: DiagnosticSeverity.Warning,
+		});
+	}
+	for (const issue of analyzeResources(script)) {
+		const span = currentSpan(issue.span, issue.via);
+		if (span) diagnostics.push({ code: issue.code, message: issue.message, range: spanToRange(doc, span), severity: DiagnosticSeverity.Warning });
+	}
+	for (const call of analyzeCallDepth(script).recursiveCalls) {
+		// A cycle inside an #included header is the header's to report
+		if (!isCurrentNode(call)) continue;
+		diagnostics.push({
+			code: LSL_DIAGCODES.RECURSIVE_CALL,
+			message: `Call to ${call.callee} is recursive (${call.cycle.join(' → ')}); every level adds a stack frame`,
+			range: spanToRange(doc, call.span),
+			severity: DiagnosticSeverity.Warning,
+		});
+	}
+	for (const call of sleepingCallsInLoops(script, defs)) {
+		// A loop in an #included header has no place in this file
+		if (!isCurrentNode(call)) continue;
+		diagnostics.push({
+			code: LSL_DIAGCODES.SLEEP_IN_LOOP,
+			message: `${call.call} sleeps ${call.sleep}s on every iteration; ${call.fastAlternative} does not`,
+			range: spanToRange(doc, call.span),
+			severity: DiagnosticSeverity.Warning,
+		});
+	}
+
 	// Apply diagnostic suppression directives
 	const dd = pre.diagDirectives;
 	let finalDiagnostics = diagnostics;
@@ -1531,8 +1654,10 @@ export function analyzeAst(doc: TextDocument, script: Script, defs: Defs, pre: P
 		decls,
 		refs,
 		calls,
+		stridedElements,
 		states,
 		functions,
+		globals,
 		symbolAt(offset: number) {
 			return pickBestDeclAt(offset);
 		},
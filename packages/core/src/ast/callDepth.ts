@@ -0,0 +1,163 @@
+import { measureAstFrames } from './measure';
+import type { Script, Span, Stmt } from './types';
+import { walkStmt } from './walk';
+
+// Call graph of user functions: recursive cycles, which grow the Mono stack without a static bound and are a
+// common cause of stack-heap collisions, and the deepest chain of calls each event can start.
+
+export interface RecursiveCall {
+	caller: string;
+	callee: string;
+	// The calls leading from the caller back to itself, e.g. [a, b, a]
+	cycle: string[];
+	span: Span;
+}
+
+export interface EventCallDepth {
+	state: string;
+	event: string;
+	// Function frames on the deepest chain, not counting the event's own
+	depth: number;
+	chain: string[];
+	frameBytes: number;
+	// The event's frame plus every frame on the chain
+	stackBytes: number;
+	// The chain enters a recursive cycle, so depth and bytes are lower bounds
+	recursive: boolean;
+}
+
+export interface CallDepthAnalysis {
+	cycles: string[][];
+	recursiveCalls: RecursiveCall[];
+	events: EventCallDepth[];
+}
+
+interface CallSite { callee: string; span: Span }
+
+interface Chain { depth: number; bytes: number; chain: string[]; recursive: boolean }
+
+const NO_CHAIN: Chain = { depth: 0, bytes: 0, chain: [], recursive: false };
+
+export function analyzeCallDepth(script: Script): CallDepthAnalysis {
+	const callSites = (body: Stmt): CallSite[] => {
+		const sites: CallSite[] = [];
+		walkStmt(body, {
+			expr: call => {
+				if (call.kind === 'Call' && call.callee.kind === 'Identifier' && script.functions.has(call.callee.name)) sites.push({ callee: call.callee.name, span: call.callee.span });
+			},
+		});
+		return sites;
+	};
+	const calls = new Map<string, CallSite[]>();
+	for (const fn of script.functions.values()) calls.set(fn.name, callSites(fn.body));
+
+	const frames = new Map<string, number>();
+	const eventFrames = new Map<string, number>();
+	for (const frame of measureAstFrames(script)) {
+		if (frame.kind === 'function') frames.set(frame.name, frame.bytes);
+		else eventFrames.set(`${frame.state}.${frame.name}`, frame.bytes);
+	}
+
+	// Strongly connected components (Tarjan); a component is recursive when it has several members or a self call
+	const component = new Map<string, number>();
+	const components: string[][] = [];
+	const index = new Map<string, number>();
+	const low = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const connect = (name: string) => {
+		index.set(name, index.size);
+		low.set(name, index.get(name)!);
+		stack.push(name);
+		onStack.add(name);
+		for (const { callee } of calls.get(name) ?? []) {
+			if (!index.has(callee)) {
+				connect(callee);
+				low.set(name, Math.min(low.get(name)!, low.get(callee)!));
+			} else if (onStack.has(callee)) {
+				low.set(name, Math.min(low.get(name)!, index.get(callee)!));
+			}
+		}
+		if (low.get(name) !== index.get(name)) return;
+		const members: string[] = [];
+		for (let member = stack.pop()!; ; member = stack.pop()!) {
+			onStack.delete(member);
+			component.set(member, components.length);
+			members.push(member);
+			if (member === name) break;
+		}
+		components.push(members);
+	};
+	for (const name of calls.keys()) if (!index.has(name)) connect(name);
+	const recursive = (name: string): boolean => {
+		const members = components[component.get(name)!]!;
+		return members.length > 1 || (calls.get(name) ?? []).some(site => site.callee === name);
+	};
+
+	// Shortest path from `from` to `to` inside one component
+	const pathWithin = (from: string, to: string): string[] => {
+		const previous = new Map<string, string>([[from, from]]);
+		const queue = [from];
+		while (queue.length) {
+			const name = queue.shift()!;
+			if (name === to) break;
+			for (const { callee } of calls.get(name) ?? []) {
+				if (previous.has(callee) || component.get(callee) !== component.get(from)) continue;
+				previous.set(callee, name);
+				queue.push(callee);
+			}
+		}
+		const path = [to];
+		while (path[0] !== from) path.unshift(previous.get(path[0]!)!);
+		return path;
+	};
+
+	const recursiveCalls: RecursiveCall[] = [];
+	for (const [caller, sites] of calls) {
+		for (const site of sites) {
+			if (component.get(site.callee) !== component.get(caller) || !recursive(caller)) continue;
+			recursiveCalls.push({ caller, callee: site.callee, cycle: [caller, ...pathWithin(site.callee, caller)], span: site.span });
+		}
+	}
+
+	// Deepest chain below each function; a recursive component is entered once and counted as a lower bound
+	const deepest = new Map<string, Chain>();
+	const chainFrom = (name: string): Chain => {
+		const known = deepest.get(name);
+		if (known) return known;
+		const cyclic = recursive(name);
+		const members = cyclic ? components[component.get(name)!]! : [name];
+		let below = NO_CHAIN;
+		for (const member of members) {
+			for (const { callee } of calls.get(member) ?? []) {
+				if (component.get(callee) === component.get(name)) continue;
+				below = deeper(below, chainFrom(callee));
+			}
+		}
+		const chain: Chain = {
+			depth: below.depth + 1,
+			bytes: below.bytes + (frames.get(name) ?? 0),
+			chain: [name, ...below.chain],
+			recursive: cyclic || below.recursive,
+		};
+		deepest.set(name, chain);
+		return chain;
+	};
+
+	const events: EventCallDepth[] = [];
+	for (const state of script.states.values()) {
+		for (const event of state.events) {
+			let below = NO_CHAIN;
+			for (const { callee } of callSites(event.body)) below = deeper(below, chainFrom(callee));
+			const frameBytes = eventFrames.get(`${state.name}.${event.name}`) ?? 0;
+			events.push({ state: state.name, event: event.name, depth: below.depth, chain: below.chain, frameBytes, stackBytes: frameBytes + below.bytes, recursive: below.recursive });
+		}
+	}
+
+	return { cycles: components.filter(members => recursive(members[0]!)).map(members => [...members].sort()), recursiveCalls, events };
+}
+
+function deeper(a: Chain, b: Chain): Chain {
+	if (b.depth !== a.depth) return b.depth > a.depth ? b : a;
+	return b.bytes > a.bytes ? b : a;
+}
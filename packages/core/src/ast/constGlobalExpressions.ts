@@ -1,5 +1,6 @@
 import type { Script, GlobalVar, Expr, Type } from './types';
 import { Env, evalExpr, type EvalOptions } from './eval';
+import type { SimpleType } from './infer';
 import type { Value } from './runtime';
 import type { DynamicMacros } from '../core/preproc';
 import type { Defs } from '../defs';
@@ -45,6 +46,35 @@ export function foldConstGlobalExpressions(script: Script, opts: ConstGlobalExpr
 	return changed ? { ...script, globals } : script;
 }
 
+// Return types of built-in functions whose overloads all agree, for the simulator
+export function builtinReturnTypesFromDefs(defs: Pick<Defs, 'funcs'>): ReadonlyMap<string, SimpleType> {
+	const out = new Map<string, SimpleType>();
+	for (const [name, overloads] of defs.funcs) {
+		let returnType: SimpleType | undefined;
+		let mixed = false;
+		for (const overload of overloads) {
+			const next = toSimpleType(overload.returns);
+			if (!next) {
+				mixed = true;
+				break;
+			}
+			if (returnType && returnType !== next) {
+				mixed = true;
+				break;
+			}
+			returnType = next;
+		}
+		if (!mixed && returnType) out.set(name, returnType);
+	}
+	return out;
+}
+
+function toSimpleType(type: string): SimpleType | null {
+	if (type === 'integer' || type === 'float' || type === 'string' || type === 'key' || type === 'vector' || type === 'rotation' || type === 'list' || type === 'void') return type;
+	if (type === 'quaternion') return 'rotation';
+	return null;
+}
+
 export function builtinConstantValuesFromDefs(defs: Pick<Defs, 'consts'>): ReadonlyMap<string, Value> {
 	const out = new Map<string, Value>();
 	for (const [name, constant] of defs.consts) {
@@ -1,21 +1,45 @@
-import type { BinOp, Event, Expr, Function as FnNode, GlobalVar, Script, State, Stmt, Type } from './types';
+import type { BinOp, Event, Expr, Function as FnNode, GlobalVar, Script, Span, State, Stmt, Type } from './types';
 import { AssertNever } from '../utils';
 
 export interface EmitOptions {
 	compact?: boolean;
 }
 
+// Where a declaration or statement starts in the emitted code; `file` is the declaring file of the enclosing top-level node
+export interface EmittedNode {
+	offset: number;
+	span: Span;
+	file?: string;
+}
+
+type EmitSink = { nodes: EmittedNode[]; file?: string };
+
 const DEFAULT_OPTIONS: Required<EmitOptions> = {
 	compact: true,
 };
 
 export function emitScript(script: Script, options: EmitOptions = {}): string {
-	const opts = { ...DEFAULT_OPTIONS, ...options };
+	return emitTopLevel(script, { ...DEFAULT_OPTIONS, ...options });
+}
+
+// Same code as emitScript, plus the emitted position of every declaration and statement
+export function emitScriptWithNodes(script: Script, options: EmitOptions = {}): { code: string; nodes: EmittedNode[] } {
+	const nodes: EmittedNode[] = [];
+	return { code: emitTopLevel(script, { ...DEFAULT_OPTIONS, ...options }, nodes), nodes };
+}
+
+function emitTopLevel(script: Script, opts: Required<EmitOptions>, nodes?: EmittedNode[]): string {
+	const separator = opts.compact ? '' : '\n';
 	const parts: string[] = [];
-	for (const global of script.globals.values()) parts.push(emitGlobal(global));
-	for (const fn of script.functions.values()) parts.push(emitFunction(fn));
-	for (const state of script.states.values()) parts.push(emitState(state));
-	return parts.join(opts.compact ? '' : '\n');
+	let at = 0;
+	const push = (part: string) => {
+		parts.push(part);
+		at += part.length + separator.length;
+	};
+	for (const global of script.globals.values()) push(emitGlobal(global, nodes && { nodes, file: global.originFile }, at));
+	for (const fn of script.functions.values()) push(emitFunction(fn, nodes && { nodes, file: fn.originFile }, at));
+	for (const state of script.states.values()) push(emitState(state, nodes && { nodes, file: state.originFile }, at));
+	return parts.join(separator);
 }
 
 export function emitExpr(expr: Expr): string {
@@ -26,37 +50,50 @@ export function emitStmt(stmt: Stmt): string {
 	return emitStmtInner(stmt);
 }
 
-function emitGlobal(global: GlobalVar): string {
+function emitGlobal(global: GlobalVar, sink?: EmitSink, at = 0): string {
+	sink?.nodes.push({ offset: at, span: global.span, file: sink.file });
 	return `${global.varType} ${global.name}${global.initializer ? `=${emitExpr(global.initializer)}` : ''};`;
 }
 
-function emitFunction(fn: FnNode): string {
+function emitFunction(fn: FnNode, sink?: EmitSink, at = 0): string {
+	sink?.nodes.push({ offset: at, span: fn.span, file: sink.file });
 	const params = emitParams(fn.parameters);
 	const head = fn.returnType && fn.returnType !== 'void'
 		? `${fn.returnType} ${fn.name}(${params})`
 		: `${fn.name}(${params})`;
-	return `${head}${emitBlockBody(fn.body)}`;
+	return `${head}${emitBlockBody(fn.body, sink, at + head.length)}`;
 }
 
-function emitState(state: State): string {
-	const head = state.name === 'default' ? 'default' : `state ${state.name}`;
-	return `${head}{${state.events.map(emitEvent).join('')}}`;
+function emitState(state: State, sink?: EmitSink, at = 0): string {
+	sink?.nodes.push({ offset: at, span: state.span, file: sink.file });
+	let out = `${state.name === 'default' ? 'default' : `state ${state.name}`}{`;
+	for (const event of state.events) out += emitEvent(event, sink && { nodes: sink.nodes, file: event.originFile ?? sink.file }, at + out.length);
+	return `${out}}`;
 }
 
-function emitEvent(event: Event): string {
-	return `${event.name}(${emitParams(event.parameters)})${emitBlockBody(event.body)}`;
+function emitEvent(event: Event, sink?: EmitSink, at = 0): string {
+	sink?.nodes.push({ offset: at, span: event.span, file: sink.file });
+	const head = `${event.name}(${emitParams(event.parameters)})`;
+	return `${head}${emitBlockBody(event.body, sink, at + head.length)}`;
 }
 
 function emitParams(params: ReadonlyMap<string, Type>): string {
 	return [...params].map(([name, type]) => `${type} ${name}`).join(',');
 }
 
-function emitBlockBody(stmt: Stmt): string {
-	if (stmt.kind === 'BlockStmt') return `{${stmt.statements.map(emitStmtInner).join('')}}`;
-	return `{${emitStmtInner(stmt)}}`;
+function emitBlockBody(stmt: Stmt, sink?: EmitSink, at = 0): string {
+	if (stmt.kind === 'BlockStmt') return `{${emitStatements(stmt.statements, sink, at + 1)}}`;
+	return `{${emitStmtInner(stmt, sink, at + 1)}}`;
 }
 
-function emitStmtInner(stmt: Stmt): string {
+function emitStatements(statements: Stmt[], sink: EmitSink | undefined, at: number): string {
+	let out = '';
+	for (const stmt of statements) out += emitStmtInner(stmt, sink, at + out.length);
+	return out;
+}
+
+function emitStmtInner(stmt: Stmt, sink?: EmitSink, at = 0): string {
+	sink?.nodes.push({ offset: at, span: stmt.span, file: sink.file });
 	switch (stmt.kind) {
 		case 'EmptyStmt':
 			return ';';
@@ -67,17 +104,23 @@ function emitStmtInner(stmt: Stmt): string {
 		case 'ReturnStmt':
 			return stmt.expression ? `return ${emitExpr(stmt.expression)};` : 'return;';
 		case 'IfStmt': {
-			const elsePart = stmt.else ? `else ${emitControlledStmt(stmt.else)}` : '';
-			return `if(${emitExpr(stmt.condition)})${emitControlledStmt(stmt.then, { avoidDanglingElse: !!stmt.else })}${elsePart}`;
+			const head = `if(${emitExpr(stmt.condition)})`;
+			const then = emitControlledStmt(stmt.then, { avoidDanglingElse: !!stmt.else }, sink, at + head.length);
+			const elsePart = stmt.else ? `else ${emitControlledStmt(stmt.else, {}, sink, at + head.length + then.length + 'else '.length)}` : '';
+			return `${head}${then}${elsePart}`;
+		}
+		case 'WhileStmt': {
+			const head = `while(${emitExpr(stmt.condition)})`;
+			return `${head}${emitControlledStmt(stmt.body, {}, sink, at + head.length)}`;
 		}
-		case 'WhileStmt':
-			return `while(${emitExpr(stmt.condition)})${emitControlledStmt(stmt.body)}`;
 		case 'DoWhileStmt':
-			return `do${emitControlledStmt(stmt.body)}while(${emitExpr(stmt.condition)});`;
-		case 'ForStmt':
-			return `for(${stmt.init ? emitExpr(stmt.init) : ''};${stmt.condition ? emitExpr(stmt.condition) : ''};${stmt.update ? emitExpr(stmt.update) : ''})${emitControlledStmt(stmt.body)}`;
+			return `do${emitControlledStmt(stmt.body, {}, sink, at + 'do'.length)}while(${emitExpr(stmt.condition)});`;
+		case 'ForStmt': {
+			const head = `for(${stmt.init ? emitExpr(stmt.init) : ''};${stmt.condition ? emitExpr(stmt.condition) : ''};${stmt.update ? emitExpr(stmt.update) : ''})`;
+			return `${head}${emitControlledStmt(stmt.body, {}, sink, at + head.length)}`;
+		}
 		case 'BlockStmt':
-			return `{${stmt.statements.map(emitStmtInner).join('')}}`;
+			return `{${emitStatements(stmt.statements, sink, at + 1)}}`;
 		case 'JumpStmt':
 			return `jump ${emitExpr(stmt.target)};`;
 		case 'LabelStmt':
@@ -92,9 +135,9 @@ function emitStmtInner(stmt: Stmt): string {
 	}
 }
 
-function emitControlledStmt(stmt: Stmt, options: { avoidDanglingElse?: boolean } = {}): string {
-	if (options.avoidDanglingElse && canCaptureFollowingElse(stmt)) return `{${emitStmtInner(stmt)}}`;
-	return emitStmtInner(stmt);
+function emitControlledStmt(stmt: Stmt, options: { avoidDanglingElse?: boolean } = {}, sink?: EmitSink, at = 0): string {
+	if (options.avoidDanglingElse && canCaptureFollowingElse(stmt)) return `{${emitStmtInner(stmt, sink, at + 1)}}`;
+	return emitStmtInner(stmt, sink, at);
 }
 
 function canCaptureFollowingElse(stmt: Stmt): boolean {
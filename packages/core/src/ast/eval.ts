@@ -1,4 +1,4 @@
-import type { Expr, Function as FnNode, Stmt, Type } from './types';
+import type { BinOp, Expr, Function as FnNode, Stmt, Type, UnOp } from './types';
 import { AssertNever } from '../utils';
 import * as runtime from './runtime';
 import { keyValueFromString, NULL_KEY_VALUE } from './key';
@@ -13,9 +13,12 @@ export interface EvalOptions {
 	maxDepth?: number;
 	maxLoopIters?: number;
 	allowRuntimeCalls?: boolean;
+	// Round float, vector and rotation results to single precision like Mono; false keeps JS doubles.
+	// Unset inherits the caller's runtime.withFloatPrecision scope (single precision by default).
+	float32?: boolean;
 }
 
-const DEFAULT_EVAL_OPTIONS: Required<EvalOptions> = {
+const DEFAULT_EVAL_OPTIONS: Required<Omit<EvalOptions, 'float32'>> = {
 	maxNodes: 500,
 	maxDepth: 64,
 	maxLoopIters: 128,
@@ -25,7 +28,7 @@ const DEFAULT_EVAL_OPTIONS: Required<EvalOptions> = {
 class EvalContext {
 	private nodes = 0;
 	private depth = 0;
-	readonly opts: Required<EvalOptions>;
+	readonly opts: Required<Omit<EvalOptions, 'float32'>> & Pick<EvalOptions, 'float32'>;
 
 	constructor(options: EvalOptions = {}) {
 		this.opts = { ...DEFAULT_EVAL_OPTIONS, ...options };
@@ -40,6 +43,10 @@ class EvalContext {
 	leave(): void {
 		this.depth = Math.max(0, this.depth - 1);
 	}
+
+	run<T>(evaluate: () => T): T {
+		return this.opts.float32 === undefined ? evaluate() : runtime.withFloatPrecision(this.opts.float32, evaluate);
+	}
 }
 
 export class Env {
@@ -105,6 +112,13 @@ export class Env {
 		return this._vars.has(name) || !!this._parent?.hasVar(name);
 	}
 
+	// Variables visible from this scope down to (not including) `outer`; inner declarations shadow outer ones
+	visibleVars(outer?: Env): Map<string, Value> {
+		const vars = this._parent && this._parent !== outer ? this._parent.visibleVars(outer) : new Map<string, Value>();
+		for (const [name, value] of this._vars) vars.set(name, value);
+		return vars;
+	}
+
 	clone(): Env {
 		return new Env(new Map(this._vars), this._functionReturnTypes, this._functions, this._pureFunctions, this._parent?.clone());
 	}
@@ -134,7 +148,7 @@ const asTypeUnknown = (t: Type): Unknown => runtime.unknown(t);
 const int = (x: number) => Math.trunc(x);
 
 const numberToLSLString = (t: 'integer' | 'float', n: number): string =>
-	t === 'integer' ? String(int(n)) : Number(n).toFixed(6);
+	t === 'integer' ? String(int(n)) : runtime.lslFloatString(n);
 
 // LSL-like string→integer cast: trim, recognize hex, accept leading sign, stop at first non-digit, default 0. :contentReference[oaicite:9]{index=9}
 function castStringToInteger(s: string): number {
@@ -172,7 +186,8 @@ function stringValue(v: Value): string | null {
 	if (isStringValue(v)) return v.value;
 	if (isKeyValue(v)) return v.value;
 	if (isNumberValue(v)) return numberToLSLString(v.type, v.value);
-	if (v.kind === 'value' && (v.type === 'vector' || v.type === 'rotation')) return `<${v.value.map(component => component.toFixed(5)).join(', ')}>`;
+	if (v.kind === 'value' && (v.type === 'vector' || v.type === 'rotation')) return `<${v.value.map(component => runtime.lslFloatString(component, 5)).join(', ')}>`;
+	if (v.kind === 'value' && v.type === 'list') return runtime.lslValueString(v);
 	return null;
 }
 
@@ -253,19 +268,31 @@ function qRotateVec(q: [number, number, number, number], v: [number, number, num
 }
 
 function vectorVal(value: [number, number, number]): Value {
-	return { kind: 'value', type: 'vector', value };
+	return { kind: 'value', type: 'vector', value: value.map(runtime.lslFloat) as [number, number, number] };
 }
 
 function rotationVal(value: [number, number, number, number]): Value {
-	return { kind: 'value', type: 'rotation', value };
+	return { kind: 'value', type: 'rotation', value: value.map(runtime.lslFloat) as [number, number, number, number] };
 }
 
+function floatVal(value: number): Value {
+	return { kind: 'value', type: 'float', value: runtime.lslFloat(value) };
+}
+
+const COMPOUND_ASSIGNMENT_OPS: Partial<Record<BinOp, BinOp>> = {
+	'+=': '+',
+	'-=': '-',
+	'*=': '*',
+	'/=': '/',
+	'%=': '%',
+};
+
 function coerceAssignedValue(value: Value, current: Value | undefined): Value {
 	if (!current) return value;
 	if (value.kind === 'unknown') return runtime.unknown(current.type);
 	if (value.type === current.type) return value;
 	if (current.type === 'float' && value.type === 'integer') {
-		return { kind: 'value', type: 'float', value: value.value };
+		return floatVal(value.value);
 	}
 	if (current.type === 'string' && value.type === 'key') {
 		return { kind: 'value', type: 'string', value: value.value };
@@ -277,12 +304,36 @@ function coerceAssignedValue(value: Value, current: Value | undefined): Value {
 	return runtime.unknown(current.type);
 }
 
-function coerceParameterValue(value: Value | undefined, type: Type): Value {
+// Stores an assignment into a variable or a component of one and returns the stored value. A component store
+// updates the vector or rotation, or makes it unknown when either the variable or the value is unknown.
+function assignTo(target: Expr, value: Value, env: Env): Value {
+	if (target.kind === 'Identifier') {
+		const assigned = coerceAssignedValue(value, env.getVar(target.name));
+		env.setExistingOrLocal(target.name, assigned);
+		return assigned;
+	}
+	if (target.kind !== 'Member' || target.object.kind !== 'Identifier') return runtime.unknown(value.type);
+	const component = coerceParameterValue(value, 'float');
+	const current = env.getVar(target.object.name);
+	if (!current) return component;
+	const index = target.property === 'x' ? 0 : target.property === 'y' ? 1 : target.property === 'z' ? 2 : 3;
+	if (current.kind === 'value' && (current.type === 'vector' || current.type === 'rotation') && component.kind === 'value' && component.type === 'float' && index < current.value.length) {
+		const components = [...current.value] as typeof current.value;
+		components[index] = component.value;
+		env.setExistingOrLocal(target.object.name, { ...current, value: components } as Value);
+	} else {
+		env.setExistingOrLocal(target.object.name, runtime.unknown(current.type));
+	}
+	return component;
+}
+
+// Converts to a parameter's or declared variable's type the way LSL does implicitly; unknown otherwise
+export function coerceParameterValue(value: Value | undefined, type: Type): Value {
 	if (!value) return runtime.unknown(type);
 	if (value.kind === 'unknown') return runtime.unknown(type);
 	if (value.type === type) return value;
 	if (type === 'float' && value.type === 'integer') {
-		return { kind: 'value', type: 'float', value: value.value };
+		return floatVal(value.value);
 	}
 	if (type === 'string' && value.type === 'key') {
 		return { kind: 'value', type: 'string', value: value.value };
@@ -295,7 +346,8 @@ function coerceParameterValue(value: Value | undefined, type: Type): Value {
 }
 
 export function evalExpr(expr: Expr | null, env: Env = new Env(), options?: EvalOptions): Value {
-	return evalExprInner(expr, env, new EvalContext(options));
+	const ctx = new EvalContext(options);
+	return ctx.run(() => evalExprInner(expr, env, ctx));
 }
 
 function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
@@ -318,9 +370,8 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 
 			case 'NumberLiteral': {
 				const parsed = parseNumberLiteral(expr.raw);
-				return parsed
-					? { kind: 'value', type: parsed.type, value: parsed.value }
-					: runtime.unknown('integer');
+				if (!parsed) return runtime.unknown('integer');
+				return parsed.type === 'float' ? floatVal(parsed.value) : { kind: 'value', type: parsed.type, value: parsed.value };
 			}
 
 			case 'VectorLiteral': {
@@ -332,8 +383,8 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 					nums.push(n);
 				}
 				return expr.elements.length === 4
-					? { kind: 'value', type: 'rotation', value: nums as [number, number, number, number] }
-					: { kind: 'value', type: 'vector', value: nums as [number, number, number] };
+					? rotationVal(nums as [number, number, number, number])
+					: vectorVal(nums as [number, number, number]);
 			}
 
 			case 'ListLiteral': {
@@ -350,76 +401,17 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 			case 'Identifier':
 				return env.getVar(expr.name) ?? runtime.unknown('integer');
 
-			case 'Cast': {
-				const inner = evalExprInner(expr.argument, env, ctx);
-
-				if (expr.type === 'integer') {
-					if (isNumberValue(inner)) {
-						return { kind: 'value', type: 'integer', value: int(inner.value) };
-					}
-					if (isStringValue(inner)) {
-						return { kind: 'value', type: 'integer', value: castStringToInteger(inner.value) };
-					}
-					return runtime.unknown('integer');
-				}
-
-				if (expr.type === 'float') {
-					if (isNumberValue(inner)) {
-						return { kind: 'value', type: 'float', value: inner.value };
-					}
-					if (isStringValue(inner)) {
-						const f = castStringToFloat(inner.value);
-						return f === null ? runtime.unknown('float') : { kind: 'value', type: 'float', value: f };
-					}
-					return runtime.unknown('float');
-				}
-
-				if (expr.type === 'string') {
-					const s = stringValue(inner);
-					return s === null ? runtime.unknown('string') : { kind: 'value', type: 'string', value: s };
-				}
-
-				if (expr.type === 'key') {
-					if (isKeyValue(inner)) return inner;
-					if (isStringValue(inner)) {
-						const key = keyValueFromString(inner.value);
-						return key === null ? runtime.unknown('key') : { kind: 'value', type: 'key', value: key };
-					}
-					return runtime.unknown('key');
-				}
-
-				if (expr.type === 'list') {
-					if (inner.kind === 'unknown' || inner.type === 'list') return runtime.unknown('list');
-					return { kind: 'value', type: 'list', value: [inner] };
-				}
-
-				// list, vector, rotation, etc. -> unknown shaped accordingly
-				return asTypeUnknown(expr.type);
-			}
+			case 'Cast':
+				return evalCast(expr.type, evalExprInner(expr.argument, env, ctx));
 
 			case 'Unary': {
-				const v = evalExprInner(expr.argument, env, ctx);
-				const n = num(v);
-				switch (expr.op) {
-					case '!':
-						return v.kind === 'value' && v.type === 'integer' ? { kind: 'value', type: 'integer', value: v.value ? 0 : 1 } : runtime.unknown('integer');
-					case '~': {
-						const i = integerValue(v);
-						return i === null ? runtime.unknown('integer') : { kind: 'value', type: 'integer', value: ~int(i) };
-					}
-					case '+':
-						return n === null ? runtime.unknown('integer') : { kind: 'value', type: v.type, value: n } as Value;
-					case '-':
-						if (n !== null) return { kind: 'value', type: v.type, value: -n } as Value;
-						if (v.type === 'vector' || v.type === 'rotation') return runtime.unknown(v.type);
-						return runtime.unknown('integer');
-					case '++':
-					case '--':
-						// No side-effects here (pure fold); value unknown.
-						return runtime.unknown('integer');
-					default:
-						return runtime.unknown('integer');
+				const value = evalExprInner(expr.argument, env, ctx);
+				if ((expr.op === '++' || expr.op === '--') && (expr.argument.kind === 'Identifier' || expr.argument.kind === 'Member')) {
+					const step = evalBinaryOp(expr.op === '++' ? '+' : '-', value, { kind: 'value', type: 'integer', value: 1 });
+					const updated = assignTo(expr.argument, step, env);
+					return expr.postfix ? value : updated;
 				}
+				return evalUnaryOp(expr.op, value);
 			}
 
 			case 'Member': {
@@ -434,11 +426,12 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 
 			case 'Binary': {
 				if (expr.op === '=') {
-					const value = evalExprInner(expr.right, env, ctx);
-					if (expr.left.kind !== 'Identifier') return runtime.unknown(value.type);
-					const assigned = coerceAssignedValue(value, env.getVar(expr.left.name));
-					env.setExistingOrLocal(expr.left.name, assigned);
-					return assigned;
+					return assignTo(expr.left, evalExprInner(expr.right, env, ctx), env);
+				}
+				const compound = COMPOUND_ASSIGNMENT_OPS[expr.op];
+				if (compound) {
+					const current = evalExprInner(expr.left, env, ctx);
+					return assignTo(expr.left, evalBinaryOp(compound, current, evalExprInner(expr.right, env, ctx)), env);
 				}
 
 				// Some operations are easier to fold directly from the AST (vectors).
@@ -450,7 +443,7 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 						if (expr.op === '*') {
 						// dot product -> float
 							const v = L.comps[0] * R.comps[0] + L.comps[1] * R.comps[1] + L.comps[2] * R.comps[2];
-							return { kind: 'value', type: 'float', value: v };
+							return floatVal(v);
 						} else {
 							const [lx, ly, lz] = L.comps;
 							const [rx, ry, rz] = R.comps;
@@ -465,196 +458,7 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 				// Evaluate both sides (LSL logical operators always evaluate both operands).
 				const l = evalExprInner(expr.left, env, ctx);
 				const r = evalExprInner(expr.right, env, ctx);
-				const ln = num(l);
-				const rn = num(r);
-
-				switch (expr.op) {
-					case '==':
-					case '!=': {
-						if (l.type === 'list' || r.type === 'list') {
-							if (l.kind === 'value' && l.type === 'list' && r.kind === 'value' && r.type === 'list') {
-								const dl = l.value.length;
-								const dr = r.value.length;
-								if (expr.op === '==') return { kind: 'value', type: 'integer', value: dl === dr ? 1 : 0 };
-								return { kind: 'value', type: 'integer', value: dl - dr };
-							}
-							return runtime.unknown('integer');
-						}
-						const vectorishEqual = vectorishValuesEqual(l, r);
-						if (vectorishEqual !== null) {
-							return { kind: 'value', type: 'integer', value: (expr.op === '==') === vectorishEqual ? 1 : 0 };
-						}
-					}
-					// falls through for non-list equality
-					case '<':
-					case '<=':
-					case '>':
-					case '>=': {
-					// numeric relational/equality
-						if (ln !== null && rn !== null) {
-							const res =
-							expr.op === '==' ? (ln === rn) :
-								expr.op === '!=' ? (ln !== rn) :
-									expr.op === '<' ? (ln < rn) :
-										expr.op === '<=' ? (ln <= rn) :
-											expr.op === '>' ? (ln > rn) :
-												(ln >= rn);
-							return { kind: 'value', type: 'integer', value: res ? 1 : 0 };
-						}
-						// string/key equality/inequality; do not coerce numbers here because SL rejects it.
-						if (isStringLikeValue(l) && isStringLikeValue(r) && (expr.op === '==' || expr.op === '!=')) {
-							const ls = l.value;
-							const rs = r.value;
-							const res = (ls === rs);
-							return { kind: 'value', type: 'integer', value: (expr.op === '==') === res ? 1 : 0 };
-						}
-						return runtime.unknown('integer');
-					}
-
-					case '&&': {
-						const li = integerValue(l);
-						const ri = integerValue(r);
-						if (li === null || ri === null) return runtime.unknown('integer');
-						return { kind: 'value', type: 'integer', value: (li !== 0 && ri !== 0) ? 1 : 0 };
-					}
-					case '||': {
-						const li = integerValue(l);
-						const ri = integerValue(r);
-						if (li === null || ri === null) return runtime.unknown('integer');
-						return { kind: 'value', type: 'integer', value: (li !== 0 || ri !== 0) ? 1 : 0 };
-					}
-
-					case '&': case '|': case '^': case '<<': case '>>': {
-						const leftInt = integerValue(l);
-						const rightInt = integerValue(r);
-						if (leftInt === null || rightInt === null) return runtime.unknown('integer');
-						const li = int(leftInt) | 0;
-						const ri = int(rightInt) | 0;
-						switch (expr.op) {
-							case '&': return { kind: 'value', type: 'integer', value: (li & ri) | 0 };
-							case '|': return { kind: 'value', type: 'integer', value: (li | ri) | 0 };
-							case '^': return { kind: 'value', type: 'integer', value: (li ^ ri) | 0 };
-							case '<<': return { kind: 'value', type: 'integer', value: (li << (ri & 31)) | 0 };
-							case '>>': return { kind: 'value', type: 'integer', value: (li >> (ri & 31)) | 0 };
-						}
-						return runtime.unknown('integer');
-					}
-
-					case '+': {
-					// String concatenation is string + string only; explicit casts are folded before this point.
-						if (isStringValue(l) && isStringValue(r)) {
-							return { kind: 'value', type: 'string', value: l.value + r.value };
-						}
-						const lv = vectorValue(l);
-						const rv = vectorValue(r);
-						if (lv && rv) return vectorVal([lv[0] + rv[0], lv[1] + rv[1], lv[2] + rv[2]]);
-						const lr = rotationValue(l);
-						const rr = rotationValue(r);
-						if (lr && rr) return rotationVal([lr[0] + rr[0], lr[1] + rr[1], lr[2] + rr[2], lr[3] + rr[3]]);
-						// numeric addition
-						if (ln !== null && rn !== null) {
-							const isFloat = (isNumberValue(l) && l.type === 'float') || (isNumberValue(r) && r.type === 'float');
-							const t: 'integer' | 'float' = isFloat ? 'float' : 'integer';
-							const a = isFloat ? ln : int(ln);
-							const b = isFloat ? rn : int(rn);
-							const v = a + b;
-							return { kind: 'value', type: t, value: v };
-						}
-						if (l.type === 'list' || r.type === 'list') return runtime.unknown('list');
-						if (l.type === 'vector' && r.type === 'vector') return runtime.unknown('vector');
-						if (l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
-						return runtime.unknown('integer');
-					}
-
-					case '-':
-					case '*':
-					case '/': {
-						const lv = vectorValue(l);
-						const rv = vectorValue(r);
-						const lr = rotationValue(l);
-						const rr = rotationValue(r);
-						if (expr.op === '-' && lv && rv) return vectorVal([lv[0] - rv[0], lv[1] - rv[1], lv[2] - rv[2]]);
-						if (expr.op === '-' && lr && rr) return rotationVal([lr[0] - rr[0], lr[1] - rr[1], lr[2] - rr[2], lr[3] - rr[3]]);
-						if (expr.op === '*' && lv && rv) return { kind: 'value', type: 'float', value: lv[0] * rv[0] + lv[1] * rv[1] + lv[2] * rv[2] };
-						if (expr.op === '*' && lv && rn !== null) return vectorVal([lv[0] * rn, lv[1] * rn, lv[2] * rn]);
-						if (expr.op === '*' && ln !== null && rv) return vectorVal([ln * rv[0], ln * rv[1], ln * rv[2]]);
-						if (expr.op === '*' && lv && rr) return vectorVal(qRotateVec(rr, lv));
-						if (expr.op === '*' && lr && rr) return rotationVal(qMul(lr, rr));
-						if (expr.op === '/' && lv && rn !== null) {
-							if (rn === 0) return runtime.unknown('vector');
-							return vectorVal([lv[0] / rn, lv[1] / rn, lv[2] / rn]);
-						}
-						if (expr.op === '/' && lv && rr) {
-							const inv = qInv(rr);
-							return inv ? vectorVal(qRotateVec(inv, lv)) : runtime.unknown('vector');
-						}
-						if (expr.op === '/' && lr && rr) {
-							const inv = qInv(rr);
-							return inv ? rotationVal(qMul(lr, inv)) : runtime.unknown('rotation');
-						}
-						if (ln === null || rn === null) {
-							if (expr.op === '-' && l.type === 'vector' && r.type === 'vector') return runtime.unknown('vector');
-							if (expr.op === '-' && l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
-							if (expr.op === '*' && l.type === 'vector' && r.type === 'vector') return runtime.unknown('float');
-							if (expr.op === '*' && ((l.type === 'vector' && isNumericType(r.type)) || (isNumericType(l.type) && r.type === 'vector'))) return runtime.unknown('vector');
-							if (expr.op === '*' && l.type === 'vector' && r.type === 'rotation') return runtime.unknown('vector');
-							if (expr.op === '*' && l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
-							if (expr.op === '/' && l.type === 'vector' && (isNumericType(r.type) || r.type === 'rotation')) return runtime.unknown('vector');
-							if (expr.op === '/' && l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
-							return runtime.unknown('integer');
-						}
-						const isFloat = (isNumberValue(l) && l.type === 'float') || (isNumberValue(r) && r.type === 'float') || expr.op === '/'; // division may still be integer, but decide below
-						const bothInt = isNumberValue(l) && l.type === 'integer' && isNumberValue(r) && r.type === 'integer';
-						let t: 'integer' | 'float' = isFloat && !bothInt ? 'float' : (expr.op === '/' && bothInt ? 'integer' : (isFloat ? 'float' : 'integer'));
-
-						// Prepare operands
-						const ai = bothInt ? int(ln) : ln;
-						const bi = bothInt ? int(rn) : rn;
-
-						let v: number;
-						switch (expr.op) {
-							case '-': v = (t === 'integer') ? (int(ln) - int(rn)) : (ln - rn); break;
-							case '*': v = (t === 'integer') ? (int(ln) * int(rn)) : (ln * rn); break;
-							case '/': {
-								if (rn === 0) return runtime.unknown(t); // Math Error at runtime.
-								if (bothInt) { v = int(ai / bi); t = 'integer'; }
-								else { v = ln / rn; t = 'float'; }
-								break;
-							}
-						}
-						if (!Number.isFinite(v)) return runtime.unknown(t);
-						return { kind: 'value', type: t, value: v } as Value;
-					}
-
-					case '%': {
-					// Only integer%integer is defined as modulus; vector%vector is cross product. No float % operator in LSL.
-					// Try integer modulus
-						if (ln !== null && rn !== null && isNumberValue(l) && isNumberValue(r) && l.type === 'integer' && r.type === 'integer') {
-							if (rn === 0) return runtime.unknown('integer'); // Math Error at runtime.
-							const a = int(ln), b = int(rn);
-							return { kind: 'value', type: 'integer', value: a % b };
-						}
-						// vector%vector (cross) when both sides are literal vectors — return unknown vector
-						const L = extractNumericVectorOrRotation(env, expr.left, ctx);
-						const R = extractNumericVectorOrRotation(env, expr.right, ctx);
-						if (L && R && !L.isRotation && !R.isRotation) {
-							const [lx, ly, lz] = L.comps;
-							const [rx, ry, rz] = R.comps;
-							if (lx !== undefined && ly !== undefined && lz !== undefined && rx !== undefined && ry !== undefined && rz !== undefined) {
-								return vectorVal([ly * rz - lz * ry, lz * rx - lx * rz, lx * ry - ly * rx]);
-							}
-						}
-						const lv = vectorValue(l);
-						const rv = vectorValue(r);
-						if (lv && rv) return vectorVal([lv[1] * rv[2] - lv[2] * rv[1], lv[2] * rv[0] - lv[0] * rv[2], lv[0] * rv[1] - lv[1] * rv[0]]);
-						if (l.type === 'vector' && r.type === 'vector') return runtime.unknown('vector');
-						return runtime.unknown('integer');
-					}
-
-					default:
-					// Compound assignments and unhandled operators -> unknown
-						return runtime.unknown('integer');
-				}
+				return evalBinaryOp(expr.op, l, r);
 			}
 
 			case 'Call': {
@@ -670,7 +474,7 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 					if (!expr.args.every(arg => isEvalSideEffectFreeArg(arg, env))) return rt && rt !== 'void' ? asTypeUnknown(rt) : runtime.unknown('integer');
 					const args = expr.args.map(a => evalExprInner(a, env, ctx));
 					try {
-						return fn(...args);
+						return runtime.lslFloatValue(fn(...args));
 					} catch {
 						return runtime.unknown('integer');
 					}
@@ -706,6 +510,264 @@ function evalExprInner(expr: Expr | null, env: Env, ctx: EvalContext): Value {
 	}
 }
 
+// Value-level operators shared with callers that evaluate operands themselves (e.g. the script simulator).
+export function evalCast(type: Type, inner: Value): Value {
+	if (type === 'integer') {
+		if (isNumberValue(inner)) {
+			return { kind: 'value', type: 'integer', value: inner.type === 'float' ? runtime.lslFloatToInteger(inner.value) : int(inner.value) };
+		}
+		if (isStringValue(inner)) {
+			return { kind: 'value', type: 'integer', value: castStringToInteger(inner.value) };
+		}
+		return runtime.unknown('integer');
+	}
+
+	if (type === 'float') {
+		if (isNumberValue(inner)) {
+			return floatVal(inner.value);
+		}
+		if (isStringValue(inner)) {
+			const f = castStringToFloat(inner.value);
+			return f === null ? runtime.unknown('float') : floatVal(f);
+		}
+		return runtime.unknown('float');
+	}
+
+	if (type === 'string') {
+		const s = stringValue(inner);
+		return s === null ? runtime.unknown('string') : { kind: 'value', type: 'string', value: s };
+	}
+
+	if (type === 'key') {
+		if (isKeyValue(inner)) return inner;
+		if (isStringValue(inner)) {
+			const key = keyValueFromString(inner.value);
+			return key === null ? runtime.unknown('key') : { kind: 'value', type: 'key', value: key };
+		}
+		return runtime.unknown('key');
+	}
+
+	if (type === 'list') {
+		if (inner.kind === 'unknown' || inner.type === 'list') return runtime.unknown('list');
+		return { kind: 'value', type: 'list', value: [inner] };
+	}
+
+	// list, vector, rotation, etc. -> unknown shaped accordingly
+	return asTypeUnknown(type);
+}
+
+export function evalUnaryOp(op: UnOp, v: Value): Value {
+	const n = num(v);
+	switch (op) {
+		case '!':
+			return v.kind === 'value' && v.type === 'integer' ? { kind: 'value', type: 'integer', value: v.value ? 0 : 1 } : runtime.unknown('integer');
+		case '~': {
+			const i = integerValue(v);
+			return i === null ? runtime.unknown('integer') : { kind: 'value', type: 'integer', value: ~int(i) };
+		}
+		case '+':
+			return n === null ? runtime.unknown('integer') : { kind: 'value', type: v.type, value: n } as Value;
+		case '-':
+			if (n !== null) return { kind: 'value', type: v.type, value: -n } as Value;
+			if (v.type === 'vector' || v.type === 'rotation') return runtime.unknown(v.type);
+			return runtime.unknown('integer');
+		case '++':
+		case '--':
+			// No side-effects here (pure fold); value unknown.
+			return runtime.unknown('integer');
+		default:
+			return runtime.unknown('integer');
+	}
+}
+
+export function evalBinaryOp(op: BinOp, l: Value, r: Value): Value {
+	const ln = num(l);
+	const rn = num(r);
+
+	switch (op) {
+		case '==':
+		case '!=': {
+			if (l.type === 'list' || r.type === 'list') {
+				if (l.kind === 'value' && l.type === 'list' && r.kind === 'value' && r.type === 'list') {
+					const dl = l.value.length;
+					const dr = r.value.length;
+					if (op === '==') return { kind: 'value', type: 'integer', value: dl === dr ? 1 : 0 };
+					return { kind: 'value', type: 'integer', value: dl - dr };
+				}
+				return runtime.unknown('integer');
+			}
+			const vectorishEqual = vectorishValuesEqual(l, r);
+			if (vectorishEqual !== null) {
+				return { kind: 'value', type: 'integer', value: (op === '==') === vectorishEqual ? 1 : 0 };
+			}
+		}
+		// falls through for non-list equality
+		case '<':
+		case '<=':
+		case '>':
+		case '>=': {
+		// numeric relational/equality
+			if (ln !== null && rn !== null) {
+				// Mixed integer/float comparisons convert the integer to float
+				const mixed = l.type === 'float' || r.type === 'float';
+				const a = mixed ? runtime.lslFloat(ln) : ln;
+				const b = mixed ? runtime.lslFloat(rn) : rn;
+				const res =
+				op === '==' ? (a === b) :
+					op === '!=' ? (a !== b) :
+						op === '<' ? (a < b) :
+							op === '<=' ? (a <= b) :
+								op === '>' ? (a > b) :
+									(a >= b);
+				return { kind: 'value', type: 'integer', value: res ? 1 : 0 };
+			}
+			// string/key equality/inequality; do not coerce numbers here because SL rejects it.
+			if (isStringLikeValue(l) && isStringLikeValue(r) && (op === '==' || op === '!=')) {
+				const ls = l.value;
+				const rs = r.value;
+				const res = (ls === rs);
+				return { kind: 'value', type: 'integer', value: (op === '==') === res ? 1 : 0 };
+			}
+			return runtime.unknown('integer');
+		}
+
+		case '&&': {
+			const li = integerValue(l);
+			const ri = integerValue(r);
+			if (li === null || ri === null) return runtime.unknown('integer');
+			return { kind: 'value', type: 'integer', value: (li !== 0 && ri !== 0) ? 1 : 0 };
+		}
+		case '||': {
+			const li = integerValue(l);
+			const ri = integerValue(r);
+			if (li === null || ri === null) return runtime.unknown('integer');
+			return { kind: 'value', type: 'integer', value: (li !== 0 || ri !== 0) ? 1 : 0 };
+		}
+
+		case '&': case '|': case '^': case '<<': case '>>': {
+			const leftInt = integerValue(l);
+			const rightInt = integerValue(r);
+			if (leftInt === null || rightInt === null) return runtime.unknown('integer');
+			const li = int(leftInt) | 0;
+			const ri = int(rightInt) | 0;
+			switch (op) {
+				case '&': return { kind: 'value', type: 'integer', value: (li & ri) | 0 };
+				case '|': return { kind: 'value', type: 'integer', value: (li | ri) | 0 };
+				case '^': return { kind: 'value', type: 'integer', value: (li ^ ri) | 0 };
+				case '<<': return { kind: 'value', type: 'integer', value: (li << (ri & 31)) | 0 };
+				case '>>': return { kind: 'value', type: 'integer', value: (li >> (ri & 31)) | 0 };
+			}
+			return runtime.unknown('integer');
+		}
+
+		case '+': {
+		// String concatenation is string + string only; explicit casts are folded before this point.
+			if (isStringValue(l) && isStringValue(r)) {
+				return { kind: 'value', type: 'string', value: l.value + r.value };
+			}
+			const lv = vectorValue(l);
+			const rv = vectorValue(r);
+			if (lv && rv) return vectorVal([lv[0] + rv[0], lv[1] + rv[1], lv[2] + rv[2]]);
+			const lr = rotationValue(l);
+			const rr = rotationValue(r);
+			if (lr && rr) return rotationVal([lr[0] + rr[0], lr[1] + rr[1], lr[2] + rr[2], lr[3] + rr[3]]);
+			// numeric addition
+			if (ln !== null && rn !== null) {
+				const isFloat = (isNumberValue(l) && l.type === 'float') || (isNumberValue(r) && r.type === 'float');
+				const t: 'integer' | 'float' = isFloat ? 'float' : 'integer';
+				const a = isFloat ? runtime.lslFloat(ln) : int(ln);
+				const b = isFloat ? runtime.lslFloat(rn) : int(rn);
+				const v = a + b;
+				return isFloat ? floatVal(v) : { kind: 'value', type: t, value: v };
+			}
+			if (l.type === 'list' || r.type === 'list') return runtime.unknown('list');
+			if (l.type === 'vector' && r.type === 'vector') return runtime.unknown('vector');
+			if (l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
+			return runtime.unknown('integer');
+		}
+
+		case '-':
+		case '*':
+		case '/': {
+			const lv = vectorValue(l);
+			const rv = vectorValue(r);
+			const lr = rotationValue(l);
+			const rr = rotationValue(r);
+			if (op === '-' && lv && rv) return vectorVal([lv[0] - rv[0], lv[1] - rv[1], lv[2] - rv[2]]);
+			if (op === '-' && lr && rr) return rotationVal([lr[0] - rr[0], lr[1] - rr[1], lr[2] - rr[2], lr[3] - rr[3]]);
+			if (op === '*' && lv && rv) return floatVal(lv[0] * rv[0] + lv[1] * rv[1] + lv[2] * rv[2]);
+			if (op === '*' && lv && rn !== null) return vectorVal(lv.map(component => component * runtime.lslFloat(rn)) as [number, number, number]);
+			if (op === '*' && ln !== null && rv) return vectorVal(rv.map(component => runtime.lslFloat(ln) * component) as [number, number, number]);
+			if (op === '*' && lv && rr) return vectorVal(qRotateVec(rr, lv));
+			if (op === '*' && lr && rr) return rotationVal(qMul(lr, rr));
+			if (op === '/' && lv && rn !== null) {
+				if (rn === 0) return runtime.unknown('vector');
+				return vectorVal(lv.map(component => component / runtime.lslFloat(rn)) as [number, number, number]);
+			}
+			if (op === '/' && lv && rr) {
+				const inv = qInv(rr);
+				return inv ? vectorVal(qRotateVec(inv, lv)) : runtime.unknown('vector');
+			}
+			if (op === '/' && lr && rr) {
+				const inv = qInv(rr);
+				return inv ? rotationVal(qMul(lr, inv)) : runtime.unknown('rotation');
+			}
+			if (ln === null || rn === null) {
+				if (op === '-' && l.type === 'vector' && r.type === 'vector') return runtime.unknown('vector');
+				if (op === '-' && l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
+				if (op === '*' && l.type === 'vector' && r.type === 'vector') return runtime.unknown('float');
+				if (op === '*' && ((l.type === 'vector' && isNumericType(r.type)) || (isNumericType(l.type) && r.type === 'vector'))) return runtime.unknown('vector');
+				if (op === '*' && l.type === 'vector' && r.type === 'rotation') return runtime.unknown('vector');
+				if (op === '*' && l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
+				if (op === '/' && l.type === 'vector' && (isNumericType(r.type) || r.type === 'rotation')) return runtime.unknown('vector');
+				if (op === '/' && l.type === 'rotation' && r.type === 'rotation') return runtime.unknown('rotation');
+				return runtime.unknown('integer');
+			}
+			const isFloat = (isNumberValue(l) && l.type === 'float') || (isNumberValue(r) && r.type === 'float') || op === '/'; // division may still be integer, but decide below
+			const bothInt = isNumberValue(l) && l.type === 'integer' && isNumberValue(r) && r.type === 'integer';
+			let t: 'integer' | 'float' = isFloat && !bothInt ? 'float' : (op === '/' && bothInt ? 'integer' : (isFloat ? 'float' : 'integer'));
+
+			// Prepare operands
+			const ai = bothInt ? int(ln) : runtime.lslFloat(ln);
+			const bi = bothInt ? int(rn) : runtime.lslFloat(rn);
+
+			let v: number;
+			switch (op) {
+				case '-': v = (t === 'integer') ? (int(ln) - int(rn)) : (ai - bi); break;
+				case '*': v = (t === 'integer') ? (int(ln) * int(rn)) : (ai * bi); break;
+				case '/': {
+					if (rn === 0) return runtime.unknown(t); // Math Error at runtime.
+					if (bothInt) { v = int(ai / bi); t = 'integer'; }
+					else { v = ai / bi; t = 'float'; }
+					break;
+				}
+			}
+			if (t === 'float') v = runtime.lslFloat(v);
+			if (!Number.isFinite(v)) return runtime.unknown(t);
+			return { kind: 'value', type: t, value: v } as Value;
+		}
+
+		case '%': {
+		// Only integer%integer is defined as modulus; vector%vector is cross product. No float % operator in LSL.
+		// Try integer modulus
+			if (ln !== null && rn !== null && isNumberValue(l) && isNumberValue(r) && l.type === 'integer' && r.type === 'integer') {
+				if (rn === 0) return runtime.unknown('integer'); // Math Error at runtime.
+				const a = int(ln), b = int(rn);
+				return { kind: 'value', type: 'integer', value: a % b };
+			}
+			const lv = vectorValue(l);
+			const rv = vectorValue(r);
+			if (lv && rv) return vectorVal([lv[1] * rv[2] - lv[2] * rv[1], lv[2] * rv[0] - lv[0] * rv[2], lv[0] * rv[1] - lv[1] * rv[0]]);
+			if (l.type === 'vector' && r.type === 'vector') return runtime.unknown('vector');
+			return runtime.unknown('integer');
+		}
+
+		default:
+		// Compound assignments and unhandled operators -> unknown
+			return runtime.unknown('integer');
+	}
+}
+
 function isEvalSideEffectFreeArg(expr: Expr, env: Env): boolean {
 	switch (expr.kind) {
 		case 'ErrorExpr':
@@ -770,8 +832,9 @@ function resolveLabelFromExprInner(target: Expr, env: Env, ctx: EvalContext): st
 }
 
 export function evalStmt(stmt: Stmt, env: Env = new Env(), options?: EvalOptions): Value | null {
+	const ctx = new EvalContext(options);
 	try {
-		return evalStmtInner(stmt, env, new EvalContext(options));
+		return ctx.run(() => evalStmtInner(stmt, env, ctx));
 	} catch (sig: unknown) {
 		if (sig instanceof UnknownFlowSignal || sig instanceof JumpSignal || sig instanceof StateChangeSignal) return null;
 		throw sig;
@@ -0,0 +1,274 @@
+import type { Defs } from '../defs';
+import { AssertNever } from '../utils';
+import { builtinConstantValuesFromDefs } from './constGlobalExpressions';
+import { Env, evalBinaryOp, evalExpr, type Value } from './eval';
+import { defaultValueForType } from './simulator';
+import type { BinOp, Expr, Script, Span, Stmt } from './types';
+import { walkExpr, walkStmt } from './walk';
+
+// Forced delay (the `sleep` of each built-in) and energy summed along the worst path through each event handler,
+// including the functions it calls. Loops multiply their body by a trip count worked out by the evaluator from
+// literals and built-in constants (a `while` loop's counter is set just before it and stepped by its last statement);
+// when that fails the body is counted once and the handler marked unbounded.
+
+export interface HandlerLatency {
+	state: string;
+	event: string;
+	span: Span;
+	// Worst-case forced delay in seconds
+	sleep: number;
+	energy: number;
+	// A sleeping call sits in a loop without a known trip count, or in recursion
+	unbounded: boolean;
+}
+
+export interface SleepInLoop {
+	call: string;
+	sleep: number;
+	fastAlternative: string;
+	span: Span;
+}
+
+interface Cost { sleep: number; energy: number; unbounded: boolean }
+
+const MAX_TRIPS = 1024;
+
+const COMPOUND_OPS: Partial<Record<BinOp, BinOp>> = { '+=': '+', '-=': '-', '*=': '*', '/=': '/', '%=': '%' };
+
+const ZERO: Cost = { sleep: 0, energy: 0, unbounded: false };
+
+function add(a: Cost, b: Cost): Cost {
+	return { sleep: a.sleep + b.sleep, energy: a.energy + b.energy, unbounded: a.unbounded || b.unbounded };
+}
+
+function worst(a: Cost, b: Cost): Cost {
+	return {
+		sleep: Math.max(a.sleep, b.sleep),
+		energy: Math.max(a.energy, b.energy),
+		unbounded: a.unbounded || b.unbounded,
+	};
+}
+
+function times(cost: Cost, trips: number | undefined): Cost {
+	if (trips === undefined) return { ...cost, unbounded: cost.unbounded || cost.sleep > 0 };
+	return { sleep: cost.sleep * trips, energy: cost.energy * trips, unbounded: cost.unbounded };
+}
+
+function builtinSleep(defs: Defs, name: string): number {
+	return defs.funcs.get(name)?.find(fn => typeof fn.sleep === 'number')?.sleep ?? 0;
+}
+
+// The non-sleeping replacement of a sleeping call: `fastAlternative` from the definitions, or `<name>Fast`
+export function fastAlternativeOf(defs: Defs, name: string): string | undefined {
+	const overloads = defs.funcs.get(name);
+	if (!overloads || !builtinSleep(defs, name)) return undefined;
+	const alternative = overloads.find(fn => fn.fastAlternative)?.fastAlternative ?? `${name}Fast`;
+	return defs.funcs.has(alternative) && !builtinSleep(defs, alternative) ? alternative : undefined;
+}
+
+function truthy(value: Value): boolean | undefined {
+	if (value.kind !== 'value') return undefined;
+	if (value.type === 'integer' || value.type === 'float') return value.value !== 0;
+	return undefined;
+}
+
+function assignedNames(stmt: Stmt): Set<string> {
+	const names = new Set<string>();
+	walkStmt(stmt, {
+		expr: expr => {
+			if (expr.kind === 'Binary' && (expr.op === '=' || COMPOUND_OPS[expr.op]) && expr.left.kind === 'Identifier') names.add(expr.left.name);
+			else if (expr.kind === 'Unary' && (expr.op === '++' || expr.op === '--') && expr.argument.kind === 'Identifier') names.add(expr.argument.name);
+		},
+	});
+	return names;
+}
+
+function identifiers(expr: Expr): Set<string> {
+	const names = new Set<string>();
+	walkExpr(expr, e => { if (e.kind === 'Identifier') names.add(e.name); });
+	return names;
+}
+
+// Applies a loop update such as `i++`, `i += 2` or `i = i * 2`; false when it cannot be followed
+function step(expr: Expr, env: Env): boolean {
+	if (expr.kind === 'Paren') return step(expr.expression, env);
+	if (expr.kind === 'Unary' && (expr.op === '++' || expr.op === '--') && expr.argument.kind === 'Identifier') {
+		const current = env.getVar(expr.argument.name);
+		if (current?.kind !== 'value' || current.type !== 'integer') return false;
+		env.setExistingOrLocal(expr.argument.name, { kind: 'value', type: 'integer', value: current.value + (expr.op === '++' ? 1 : -1) });
+		return true;
+	}
+	if (expr.kind !== 'Binary' || expr.left.kind !== 'Identifier') return false;
+	if (expr.op === '=') return evalExpr(expr, env).kind === 'value';
+	const op = COMPOUND_OPS[expr.op];
+	const current = env.getVar(expr.left.name);
+	if (!op || !current) return false;
+	const next = evalBinaryOp(op, current, evalExpr(expr.right, env));
+	if (next.kind !== 'value') return false;
+	env.setExistingOrLocal(expr.left.name, next);
+	return true;
+}
+
+function countTrips(condition: Expr, update: Expr, env: Env): number | undefined {
+	for (let trips = 0; trips <= MAX_TRIPS; trips++) {
+		const go = truthy(evalExpr(condition, env));
+		if (go === undefined) return undefined;
+		if (!go) return trips;
+		if (!step(update, env)) return undefined;
+	}
+	return undefined;
+}
+
+function forTrips(stmt: Extract<Stmt, { kind: 'ForStmt' }>, constants: ReadonlyMap<string, Value>): number | undefined {
+	if (!stmt.condition || !stmt.update) return undefined;
+	const changed = assignedNames(stmt.body);
+	for (const name of identifiers(stmt.condition)) if (changed.has(name)) return undefined;
+	const env = new Env(new Map(constants)).child();
+	if (stmt.init && evalExpr(stmt.init, env).kind !== 'value') return undefined;
+	return countTrips(stmt.condition, stmt.update, env);
+}
+
+// `integer i = 0; while (i < n) { ...; i++; }`: the counter's last write among the statements `before` the loop
+// in its block must be a declaration or a plain assignment, and the body's last statement its only update
+function whileTrips(stmt: Extract<Stmt, { kind: 'WhileStmt' }>, before: readonly Stmt[], constants: ReadonlyMap<string, Value>): number | undefined {
+	const body = stmt.body.kind === 'BlockStmt' ? stmt.body.statements : [stmt.body];
+	const update = body[body.length - 1];
+	if (update?.kind !== 'ExprStmt') return undefined;
+	const changed = assignedNames({ kind: 'BlockStmt', span: stmt.body.span, statements: body.slice(0, -1) });
+	const counters = [...identifiers(stmt.condition)].filter(name => !constants.has(name));
+	if (counters.some(name => changed.has(name))) return undefined;
+	const inits = new Set<number>();
+	for (const name of counters) {
+		const writes = (s: Stmt) => s.kind === 'VarDecl' ? s.name === name : assignedNames(s).has(name);
+		let index = before.length - 1;
+		while (index >= 0 && !writes(before[index]!)) index--;
+		const init = before[index];
+		const plain = init?.kind === 'VarDecl'
+			|| (init?.kind === 'ExprStmt' && init.expression.kind === 'Binary' && init.expression.op === '=' && init.expression.left.kind === 'Identifier');
+		if (!plain) return undefined;
+		inits.add(index);
+	}
+	const env = new Env(new Map(constants)).child();
+	for (const index of [...inits].sort((a, b) => a - b)) {
+		const init = before[index]!;
+		if (init.kind === 'VarDecl') {
+			const value = init.initializer ? evalExpr(init.initializer, env) : defaultValueForType(init.varType);
+			if (value.kind !== 'value') return undefined;
+			env.setExistingOrLocal(init.name, value);
+		} else if (init.kind === 'ExprStmt' && evalExpr(init.expression, env).kind !== 'value') {
+			return undefined;
+		}
+	}
+	return countTrips(stmt.condition, update.expression, env);
+}
+
+function constantCondition(expr: Expr, constants: ReadonlyMap<string, Value>): boolean | undefined {
+	return truthy(evalExpr(expr, new Env(new Map(constants))));
+}
+
+export function analyzeLatency(script: Script, defs: Defs): HandlerLatency[] {
+	const constants = builtinConstantValuesFromDefs(defs);
+	const functionCosts = new Map<string, Cost>();
+	const inProgress = new Set<string>();
+
+	const functionCost = (name: string): Cost => {
+		const known = functionCosts.get(name);
+		if (known) return known;
+		const fn = script.functions.get(name);
+		if (!fn) return ZERO;
+		// Recursion repeats the delay an unknown number of times
+		if (inProgress.has(name)) return { ...ZERO, unbounded: true };
+		inProgress.add(name);
+		const cost = stmtCost(fn.body);
+		inProgress.delete(name);
+		functionCosts.set(name, cost);
+		return cost;
+	};
+
+	const exprCost = (expr: Expr): Cost => {
+		let cost = ZERO;
+		walkExpr(expr, e => {
+			if (e.kind !== 'Call' || e.callee.kind !== 'Identifier') return;
+			const name = e.callee.name;
+			if (script.functions.has(name)) {
+				cost = add(cost, functionCost(name));
+				return;
+			}
+			const overloads = defs.funcs.get(name) ?? [];
+			cost = add(cost, {
+				sleep: builtinSleep(defs, name),
+				energy: overloads.find(fn => typeof fn.energy === 'number')?.energy ?? 0,
+				unbounded: false,
+			});
+		});
+		return cost;
+	};
+	const optionalCost = (expr: Expr | undefined): Cost => expr ? exprCost(expr) : ZERO;
+
+	// `before` holds the statements preceding `stmt` in its block
+	const stmtCost = (stmt: Stmt, before: readonly Stmt[] = []): Cost => {
+		switch (stmt.kind) {
+			case 'EmptyStmt':
+			case 'ErrorStmt':
+			case 'LabelStmt':
+			case 'JumpStmt':
+			case 'StateChangeStmt':
+				return ZERO;
+			case 'ExprStmt': return exprCost(stmt.expression);
+			case 'VarDecl': return optionalCost(stmt.initializer);
+			case 'ReturnStmt': return optionalCost(stmt.expression);
+			case 'IfStmt':
+				return add(exprCost(stmt.condition), worst(stmtCost(stmt.then), stmt.else ? stmtCost(stmt.else) : ZERO));
+			case 'WhileStmt': {
+				const round = add(exprCost(stmt.condition), stmtCost(stmt.body));
+				const trips = constantCondition(stmt.condition, constants) === false ? 0 : whileTrips(stmt, before, constants);
+				return add(exprCost(stmt.condition), times(round, trips));
+			}
+			case 'DoWhileStmt': {
+				const round = add(stmtCost(stmt.body), exprCost(stmt.condition));
+				return constantCondition(stmt.condition, constants) === false ? round : times(round, undefined);
+			}
+			case 'ForStmt': {
+				const round = add(add(stmtCost(stmt.body), optionalCost(stmt.update)), optionalCost(stmt.condition));
+				return add(add(optionalCost(stmt.init), optionalCost(stmt.condition)), times(round, forTrips(stmt, constants)));
+			}
+			case 'BlockStmt': {
+				let cost = ZERO;
+				for (const [i, s] of stmt.statements.entries()) {
+					cost = add(cost, stmtCost(s, stmt.statements.slice(0, i)));
+					// Nothing after leaving the handler runs on this path
+					if (s.kind === 'ReturnStmt' || s.kind === 'StateChangeStmt') break;
+				}
+				return cost;
+			}
+			default:
+				AssertNever(stmt);
+		}
+	};
+
+	const handlers: HandlerLatency[] = [];
+	for (const state of script.states.values()) {
+		for (const event of state.events) {
+			const cost = stmtCost(event.body);
+			handlers.push({ state: state.name, event: event.name, span: event.span, ...cost });
+		}
+	}
+	return handlers;
+}
+
+// Sleeping built-ins called directly inside a loop body that have a non-sleeping alternative
+export function sleepingCallsInLoops(script: Script, defs: Defs): SleepInLoop[] {
+	// Keyed by call so loops nested in loops report once
+	const found = new Map<Expr, SleepInLoop>();
+	const onLoopExpr = (expr: Expr) => {
+		if (expr.kind !== 'Call' || expr.callee.kind !== 'Identifier' || script.functions.has(expr.callee.name)) return;
+		const fastAlternative = fastAlternativeOf(defs, expr.callee.name);
+		if (fastAlternative) found.set(expr, { call: expr.callee.name, sleep: builtinSleep(defs, expr.callee.name), fastAlternative, span: expr.callee.span });
+	};
+	const bodies = [
+		...[...script.functions.values()].map(fn => fn.body),
+		...[...script.states.values()].flatMap(state => state.events.map(event => event.body)),
+	];
+	for (const body of bodies) walkStmt(body, { loop: loop => walkStmt(loop, { expr: onLoopExpr }) });
+	return [...found.values()];
+}
@@ -0,0 +1,322 @@
+import type { Value } from './eval';
+import * as runtime from './runtime';
+import { ScriptSimulator, SimulatorError, type SimulatorCall, type SimulatorDetected, type SimulatorHost, type SimulatorOptions } from './simulator';
+import type { Script } from './types';
+
+// Several simulated scripts living in the prims of one linkset. Link messages, chat and dataserver
+// replies are routed between them through each script's host, and events are dispatched round-robin
+// (one event per script per round, in link then script order) so every run is reproducible.
+
+export interface LinksetScriptSpec {
+	name: string;
+	script: Script;
+}
+
+export interface LinksetPrimSpec {
+	name?: string;
+	scripts: LinksetScriptSpec[];
+	// Notecard inventory readable with llGetNotecardLine/llGetNumberOfNotecardLines.
+	notecards?: Record<string, string>;
+}
+
+export interface LinksetAddress {
+	link: number;
+	script: string;
+}
+
+export type LinksetRouteKind = 'link_message' | 'chat' | 'dataserver';
+
+export interface LinksetTraceEntry {
+	time: number;
+	kind: LinksetRouteKind;
+	call: string;
+	from: LinksetAddress;
+	to: LinksetAddress[];
+	args: Value[];
+}
+
+export interface LinksetDataserverRequest {
+	from: LinksetAddress;
+	call: SimulatorCall;
+	queryId: string;
+}
+
+export interface LinksetOptions extends Omit<SimulatorOptions, 'host' | 'objectKey' | 'objectName' | 'scriptName'> {
+	// Consulted for calls the linkset does not route itself.
+	host?: SimulatorHost;
+	// Answers dataserver requests other than notecards and key-value storage; undefined sends no event.
+	dataserver?: (request: LinksetDataserverRequest) => string | undefined;
+	maxEvents?: number;
+}
+
+interface LinksetScript {
+	address: LinksetAddress;
+	prim: LinksetPrim;
+	sim: ScriptSimulator;
+}
+
+interface LinksetPrim {
+	link: number;
+	name: string;
+	key: string;
+	notecards: Record<string, string>;
+	scripts: LinksetScript[];
+}
+
+const LINK_SET = -1;
+const LINK_ALL_OTHERS = -2;
+const LINK_ALL_CHILDREN = -3;
+const LINK_THIS = -4;
+const LINK_ROOT = 1;
+
+const CHAT_CALLS = new Set(['llSay', 'llShout', 'llWhisper', 'llRegionSay']);
+const DATASERVER_CALLS = new Set([
+	'llGetNotecardLine', 'llGetNumberOfNotecardLines',
+	'llCreateKeyValue', 'llUpdateKeyValue', 'llReadKeyValue', 'llDeleteKeyValue', 'llKeyCountKeyValue', 'llKeysKeyValue',
+	'llRequestAgentData', 'llRequestDisplayName', 'llRequestUsername', 'llRequestUserKey', 'llRequestInventoryData', 'llRequestSimulatorData',
+]);
+const EOF = '\n\n\n';
+const XP_ERROR_STORAGE_EXCEPTION = 13;
+const XP_ERROR_KEY_NOT_FOUND = 14;
+
+function integerArg(value: Value | undefined): number {
+	return value?.kind === 'value' && (value.type === 'integer' || value.type === 'float') ? Math.trunc(value.value) : 0;
+}
+
+function textArg(value: Value | undefined): string {
+	return value?.kind === 'value' ? (runtime.lslValueString(value) ?? '') : '';
+}
+
+function keyValue(value: string): Value {
+	return { kind: 'value', type: 'key', value };
+}
+
+function serialKey(group: number, serial: number): string {
+	return `00000000-0000-0000-${group.toString(16).padStart(4, '0')}-${serial.toString(16).padStart(12, '0')}`;
+}
+
+export class LinksetSimulator {
+	readonly trace: LinksetTraceEntry[] = [];
+	readonly keyValueStore = new Map<string, string>();
+	private readonly prims: LinksetPrim[] = [];
+	private readonly scripts: LinksetScript[] = [];
+	private readonly maxEvents: number;
+	private nextQueryId = 1;
+
+	constructor(prims: LinksetPrimSpec[], private readonly options: LinksetOptions = {}) {
+		this.maxEvents = options.maxEvents ?? 10000;
+		prims.forEach((spec, index) => {
+			const link = prims.length === 1 ? 0 : index + 1;
+			const prim: LinksetPrim = {
+				link,
+				name: spec.name ?? (index === 0 ? 'Object' : `Object ${index + 1}`),
+				key: serialKey(1, index + 1),
+				notecards: spec.notecards ?? {},
+				scripts: [],
+			};
+			for (const scriptSpec of spec.scripts) {
+				const address = { link, script: scriptSpec.name };
+				const sim = new ScriptSimulator(scriptSpec.script, {
+					...options,
+					host: { call: (call, self) => this.route(entry, call) ?? options.host?.call?.(call, self) },
+					objectKey: prim.key,
+					objectName: prim.name,
+					scriptName: scriptSpec.name,
+				});
+				const entry: LinksetScript = { address, prim, sim };
+				prim.scripts.push(entry);
+				this.scripts.push(entry);
+			}
+			this.prims.push(prim);
+		});
+	}
+
+	get time(): number {
+		return Math.max(0, ...this.scripts.map(entry => entry.sim.time));
+	}
+
+	script(link: number, name: string): ScriptSimulator {
+		const entry = this.scripts.find(item => item.address.link === link && item.address.script === name);
+		if (!entry) throw new SimulatorError(`no script '${name}' in link ${link}`);
+		return entry.sim;
+	}
+
+	primKey(link: number): string | undefined {
+		return this.prims.find(prim => prim.link === link)?.key;
+	}
+
+	// Reset every script, then run all state_entry handlers and whatever they trigger.
+	start(): this {
+		for (const entry of this.scripts) entry.sim.reset();
+		this.run();
+		return this;
+	}
+
+	// Dispatch events round-robin until every script is idle; returns how many handlers ran.
+	run(): number {
+		let count = 0;
+		for (;;) {
+			let progressed = false;
+			for (const entry of this.scripts) {
+				if (!entry.sim.step()) continue;
+				progressed = true;
+				if (++count > this.maxEvents) throw new SimulatorError(`event limit of ${this.maxEvents} exceeded`);
+			}
+			if (!progressed) return count;
+		}
+	}
+
+	// Advance the shared clock, firing each script's timers in time order.
+	advance(seconds: number): number {
+		const target = this.time + Math.max(0, seconds);
+		let count = this.run();
+		for (;;) {
+			const next = Math.min(...this.scripts.map(entry => entry.sim.halted ? Infinity : entry.sim.nextTimer));
+			if (next > target) break;
+			for (const entry of this.scripts) entry.sim.setClock(next);
+			count += this.run();
+		}
+		for (const entry of this.scripts) entry.sim.setClock(target);
+		return count + this.run();
+	}
+
+	// Chat from outside the linkset (e.g. an avatar); every prim can hear it.
+	chat(channel: number, name: string, id: string, message: string): number {
+		for (const entry of this.scripts) entry.sim.hear(channel, name, id, message);
+		return this.run();
+	}
+
+	touch(link: number, detected: SimulatorDetected = {}): number {
+		for (const entry of this.scripts) {
+			if (entry.address.link !== link) continue;
+			for (const name of ['touch_start', 'touch', 'touch_end']) {
+				entry.sim.queueEvent(name, [{ kind: 'value', type: 'integer', value: 1 }], [{ linkNumber: link, touchFace: 0, ...detected }]);
+			}
+		}
+		return this.run();
+	}
+
+	// Inject a link message as if llMessageLinked had been called from a script in `fromLink`.
+	linkMessage(fromLink: number, target: number, num: number, str: string, id: string): number {
+		const sender = this.prims.find(prim => prim.link === fromLink);
+		if (!sender) throw new SimulatorError(`no prim with link number ${fromLink}`);
+		this.deliverLinkMessage(sender, target, [{ kind: 'value', type: 'integer', value: num }, { kind: 'value', type: 'string', value: str }, keyValue(id)]);
+		return this.run();
+	}
+
+	private route(entry: LinksetScript, call: SimulatorCall): Value | undefined {
+		const [a, b, c, d] = call.args;
+		const none: Value = runtime.unknown('integer');
+		switch (call.name) {
+			case 'llMessageLinked': {
+				const to = this.deliverLinkMessage(entry.prim, integerArg(a), [b ?? none, c ?? none, d ?? keyValue('')]);
+				this.record(entry, 'link_message', call, to);
+				return none;
+			}
+			case 'llRegionSayTo': {
+				const target = textArg(a);
+				const to = this.deliverChat(entry.prim, integerArg(b), textArg(c), prim => prim.key === target);
+				this.record(entry, 'chat', call, to);
+				return none;
+			}
+			case 'llGetLinkNumber':
+				return { kind: 'value', type: 'integer', value: entry.prim.link };
+			case 'llGetNumberOfPrims':
+				return { kind: 'value', type: 'integer', value: this.prims.length };
+			case 'llGetLinkName': {
+				const prim = this.prims.find(item => item.link === integerArg(a));
+				return { kind: 'value', type: 'string', value: prim?.name ?? '' };
+			}
+			case 'llGetLinkKey': {
+				const prim = this.prims.find(item => item.link === integerArg(a));
+				return keyValue(prim?.key ?? '');
+			}
+		}
+		if (CHAT_CALLS.has(call.name)) {
+			const to = this.deliverChat(entry.prim, integerArg(a), textArg(b), () => true);
+			this.record(entry, 'chat', call, to);
+			return none;
+		}
+		if (!DATASERVER_CALLS.has(call.name)) return undefined;
+		const queryId = serialKey(2, this.nextQueryId++);
+		const data = this.dataserverReply(entry, call, queryId);
+		if (data !== undefined) {
+			entry.sim.queueEvent('dataserver', [keyValue(queryId), { kind: 'value', type: 'string', value: data }]);
+			this.record(entry, 'dataserver', { ...call, args: [...call.args, keyValue(queryId)] }, [entry.address]);
+		}
+		return keyValue(queryId);
+	}
+
+	// Payload of the dataserver event answering a request; undefined sends no event.
+	private dataserverReply(entry: LinksetScript, call: SimulatorCall, queryId: string): string | undefined {
+		const [a, b] = call.args;
+		const store = this.keyValueStore;
+		switch (call.name) {
+			case 'llGetNotecardLine': {
+				const text = entry.prim.notecards[textArg(a)];
+				return text === undefined ? undefined : text.split('\n')[integerArg(b)] ?? EOF;
+			}
+			case 'llGetNumberOfNotecardLines': {
+				const text = entry.prim.notecards[textArg(a)];
+				return text === undefined ? undefined : String(text.split('\n').length);
+			}
+			case 'llCreateKeyValue':
+				if (store.has(textArg(a))) return `0,${XP_ERROR_STORAGE_EXCEPTION}`;
+				store.set(textArg(a), textArg(b));
+				return `1,${textArg(b)}`;
+			case 'llUpdateKeyValue':
+				store.set(textArg(a), textArg(b));
+				return `1,${textArg(b)}`;
+			case 'llReadKeyValue': {
+				const value = store.get(textArg(a));
+				return value === undefined ? `0,${XP_ERROR_KEY_NOT_FOUND}` : `1,${value}`;
+			}
+			case 'llDeleteKeyValue':
+				if (!store.has(textArg(a))) return `0,${XP_ERROR_KEY_NOT_FOUND}`;
+				store.delete(textArg(a));
+				return '1';
+			case 'llKeyCountKeyValue':
+				return `1,${store.size}`;
+			case 'llKeysKeyValue': {
+				const keys = [...store.keys()].sort().slice(integerArg(a), integerArg(a) + integerArg(b));
+				return ['1', ...keys].join(',');
+			}
+		}
+		return this.options.dataserver?.({ from: entry.address, call, queryId });
+	}
+
+	private deliverLinkMessage(sender: LinksetPrim, target: number, payload: Value[]): LinksetAddress[] {
+		const targets = this.prims.filter(prim => {
+			switch (target) {
+				case LINK_SET: return true;
+				case LINK_ALL_OTHERS: return prim !== sender;
+				case LINK_ALL_CHILDREN: return prim.link > LINK_ROOT;
+				case LINK_THIS: return prim === sender;
+				default: return prim.link === target || (target === LINK_ROOT && prim.link === 0);
+			}
+		});
+		const to: LinksetAddress[] = [];
+		for (const prim of targets) {
+			for (const entry of prim.scripts) {
+				if (entry.sim.queueEvent('link_message', [{ kind: 'value', type: 'integer', value: sender.link }, ...payload])) to.push(entry.address);
+			}
+		}
+		return to;
+	}
+
+	// A prim never hears its own chat; other prims in the linkset do.
+	private deliverChat(sender: LinksetPrim, channel: number, message: string, accept: (prim: LinksetPrim) => boolean): LinksetAddress[] {
+		const to: LinksetAddress[] = [];
+		for (const prim of this.prims) {
+			if (prim === sender || !accept(prim)) continue;
+			for (const entry of prim.scripts) {
+				if (entry.sim.hear(channel, sender.name, sender.key, message)) to.push(entry.address);
+			}
+		}
+		return to;
+	}
+
+	private record(entry: LinksetScript, kind: LinksetRouteKind, call: SimulatorCall, to: LinksetAddress[]): void {
+		this.trace.push({ time: call.time, kind, call: call.name, from: entry.address, to, args: call.args });
+	}
+}
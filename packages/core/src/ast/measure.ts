@@ -69,8 +69,32 @@ export interface AstMeasureResult {
 	notes: string[];
 }
 
+export type AstDeclarationMeasureKind = 'global' | 'function' | 'state';
+
+export interface AstDeclarationMeasure {
+	kind: AstDeclarationMeasureKind;
+	name: string;
+	// Share of the compiled body floor; the parts add up to `estimatedMonoUsedMemory` minus the baseline
+	// unless the script-wide cost buckets exceed that floor
+	bytes: number;
+	counts: AstMeasureCounts;
+}
+
+export interface AstFrameMeasure {
+	kind: 'function' | 'event';
+	name: string;
+	// State declaring the event
+	state?: string;
+	// Parameters, locals and local lists of one activation, weighted like the compiled body floor
+	bytes: number;
+}
+
 const DEFAULT_MONO_LIMIT = 65536;
 const DEFAULT_BASELINE_USED = 3884;
+// Weights of the compiled body floor that also size a stack frame
+const PARAMETER_BYTES = 20;
+const LOCAL_BYTES = 45;
+const LOCAL_LIST_LITERAL_WEIGHT = 0.34;
 
 export function measureAst(script: Script, options: AstMeasureOptions = {}): AstMeasureResult {
 	const monoMemoryLimit = options.monoMemoryLimit ?? DEFAULT_MONO_LIMIT;
@@ -112,6 +136,74 @@ export function measureAst(script: Script, options: AstMeasureOptions = {}): Ast
 	};
 }
 
+// Per-declaration share of `measureAst`: each global, function and state measured on its own.
+export function measureAstDeclarations(script: Script): AstDeclarationMeasure[] {
+	const globalTypes = new Map<string, Type>();
+	const functionReturnTypes = new Map<string, Type | 'void'>();
+	for (const global of script.globals.values()) globalTypes.set(global.name, global.varType);
+	for (const fn of script.functions.values()) functionReturnTypes.set(fn.name, fn.returnType ?? 'void');
+	const baseContext: MeasureContext = { functionReturnTypes, symbolTypes: globalTypes, runtimeScope: 'body' };
+	const out: AstDeclarationMeasure[] = [];
+	for (const global of script.globals.values()) {
+		const counts = emptyCounts();
+		measureGlobal(global, counts, baseContext);
+		out.push({ kind: 'global', name: global.name, bytes: compiledBodyFloor(counts, 0), counts });
+	}
+	for (const fn of script.functions.values()) {
+		const counts = emptyCounts();
+		measureFunction(fn, counts, baseContext);
+		out.push({ kind: 'function', name: fn.name, bytes: compiledBodyFloor(counts, 0), counts });
+	}
+	for (const state of script.states.values()) {
+		const counts = emptyCounts();
+		measureState(state, counts, baseContext);
+		out.push({ kind: 'state', name: state.name, bytes: compiledBodyFloor(counts, 0), counts });
+	}
+	return out;
+}
+
+// Compiled body floor of one expression or statement, with the script's globals and functions in scope
+export function measureAstExpr(script: Script, expr: Expr): number {
+	const counts = emptyCounts();
+	measureExpr(expr, counts, scriptMeasureContext(script));
+	return compiledBodyFloor(counts, 0);
+}
+
+export function measureAstStmt(script: Script, stmt: Stmt): number {
+	const counts = emptyCounts();
+	measureStmt(stmt, counts, scriptMeasureContext(script));
+	return compiledBodyFloor(counts, 0);
+}
+
+export function measureAstEvent(script: Script, event: Event): number {
+	const counts = emptyCounts();
+	measureEvent(event, counts, scriptMeasureContext(script));
+	return compiledBodyFloor(counts, 0);
+}
+
+// Per-activation storage of each function and event, for stack depth estimates.
+export function measureAstFrames(script: Script): AstFrameMeasure[] {
+	const globalTypes = new Map<string, Type>();
+	const functionReturnTypes = new Map<string, Type | 'void'>();
+	for (const global of script.globals.values()) globalTypes.set(global.name, global.varType);
+	for (const fn of script.functions.values()) functionReturnTypes.set(fn.name, fn.returnType ?? 'void');
+	const baseContext: MeasureContext = { functionReturnTypes, symbolTypes: globalTypes, runtimeScope: 'body' };
+	const out: AstFrameMeasure[] = [];
+	for (const fn of script.functions.values()) {
+		const counts = emptyCounts();
+		measureFunction(fn, counts, baseContext);
+		out.push({ kind: 'function', name: fn.name, bytes: frameBytes(counts) });
+	}
+	for (const state of script.states.values()) {
+		for (const event of state.events) {
+			const counts = emptyCounts();
+			measureEvent(event, counts, baseContext);
+			out.push({ kind: 'event', name: event.name, state: state.name, bytes: frameBytes(counts) });
+		}
+	}
+	return out;
+}
+
 function emptyCounts(): AstMeasureCounts {
 	return {
 		globals: 0,
@@ -165,6 +257,14 @@ interface ExprMeasureContext extends MeasureContext {
 	targetType?: Type;
 }
 
+function scriptMeasureContext(script: Script): MeasureContext {
+	const symbolTypes = new Map<string, Type | 'void'>();
+	const functionReturnTypes = new Map<string, Type | 'void'>();
+	for (const global of script.globals.values()) symbolTypes.set(global.name, global.varType);
+	for (const fn of script.functions.values()) functionReturnTypes.set(fn.name, fn.returnType ?? 'void');
+	return { functionReturnTypes, symbolTypes, runtimeScope: 'body' };
+}
+
 function measureGlobal(global: GlobalVar, counts: AstMeasureCounts, ctx: MeasureContext): void {
 	counts.globals++;
 	counts.declaredNameCharacters += global.name.length;
@@ -524,16 +624,20 @@ function compiledBodyFloor(counts: AstMeasureCounts, baseline: number): number {
 		+ counts.functions * 280
 		+ counts.events * 300
 		+ counts.globals * 100
-		+ counts.parameters * 20
-		+ counts.locals * 45
+		+ counts.parameters * PARAMETER_BYTES
+		+ counts.locals * LOCAL_BYTES
 		+ counts.stringLiteralCharacters * 1.5
 		+ counts.labels * 24
 		+ globalContainers * 0.4
-		+ counts.localListLiteralRuntimeBytes * 0.34
+		+ counts.localListLiteralRuntimeBytes * LOCAL_LIST_LITERAL_WEIGHT
 		+ counts.parameterizedEventUserValueCalls * 64,
 	);
 }
 
+function frameBytes(counts: AstMeasureCounts): number {
+	return Math.round(counts.parameters * PARAMETER_BYTES + counts.locals * LOCAL_BYTES + counts.localListLiteralRuntimeBytes * LOCAL_LIST_LITERAL_WEIGHT);
+}
+
 function sumCost(cost: AstMeasureCostBuckets): number {
 	return Object.values(cost).reduce((sum, value) => sum + value, 0);
 }
@@ -1,13 +1,14 @@
 import { inlineConstantGlobals } from './constantGlobals';
-import { emitExpr, emitScript, emitStmt } from './emit';
+import { emitExpr, emitScript, emitScriptWithNodes, emitStmt, type EmittedNode } from './emit';
 import { Env, evalExpr, type Value } from './eval';
 import { inferExprTypeFromAst, type SimpleType } from './infer';
-import { measureAst } from './measure';
+import { measureAst, measureAstDeclarations, measureAstEvent, measureAstExpr, measureAstStmt } from './measure';
 import { parseScriptFromText } from './parser';
 import * as runtime from './runtime';
 import { shrinkScriptNames, type ShrinkNamesOptions } from './shrinkNames';
-import type { Event, Expr, Function as FnNode, GlobalVar, Script, State, Stmt, Type } from './types';
+import type { Event, Expr, Function as FnNode, GlobalVar, Script, Span, State, Stmt, Type } from './types';
 import type { DynamicMacros } from '../core/preproc';
+import { sourceOriginAt, type SourceOrigin } from '../sourceMap';
 import { AssertNever } from '../utils';
 
 export interface OptimizeOptions {
@@ -20,6 +21,9 @@ export interface OptimizeOptions {
 	foldStringConcats?: boolean;
 	inlineConstantGlobals?: boolean;
 	inlineFunctions?: boolean;
+	// Overrides the measured decision per function: true inlines it wherever inlineFunctions can, false never
+	// inlines or specializes it. Keys are function names in the input script.
+	inlineFunctionDecisions?: Readonly<Record<string, boolean>>;
 	integerPeepholes?: boolean;
 	bitwiseBooleanOps?: boolean;
 	listAdd?: boolean;
@@ -27,18 +31,64 @@ export interface OptimizeOptions {
 	shrinkNames?: boolean;
 	shrinkNameOptions?: ShrinkNamesOptions;
 	maxPasses?: number;
-}
+	// Fold float, vector and rotation math in single precision like Mono; false folds in JS doubles
+	float32?: boolean;
+	// Record where each statement of the output came from, see OptimizeResult.origins
+	trackOrigins?: boolean;
+	// Record every rewrite, see OptimizeResult.explain
+	explain?: boolean;
+}
+
+// Optimizer switches in the order optimizeScriptOnce applies them
+export const OPTIMIZE_PASSES = [
+	'constantFold',
+	'dropNoOpCasts',
+	'foldStringConcats',
+	'bitwiseBooleanOps',
+	'listAdd',
+	'integerPeepholes',
+	'inlineConstantGlobals',
+	'removeUnusedFunctions',
+	'inlineFunctions',
+	'dropDefaultInitializers',
+	'shrinkNames',
+] as const satisfies readonly (keyof OptimizeOptions)[];
+
+export type OptimizePass = typeof OPTIMIZE_PASSES[number];
 
 export interface OptimizeResult {
 	code: string;
 	passes: number;
 	changed: boolean;
 	stable: boolean;
-}
-
-type ResolvedOptimizeOptions = Required<Omit<OptimizeOptions, 'builtinConstants' | 'builtinFunctionReturnTypes' | 'dynamicMacros' | 'shrinkNameOptions'>> & Pick<OptimizeOptions, 'builtinConstants' | 'builtinFunctionReturnTypes' | 'dynamicMacros' | 'shrinkNameOptions'>;
-
-const DEFAULT_OPTIONS: Required<Omit<OptimizeOptions, 'builtinConstants' | 'builtinFunctionReturnTypes' | 'dynamicMacros' | 'shrinkNameOptions'>> = {
+	// Statement-level origins of `code` in the original files, with trackOrigins
+	origins?: SourceOrigin[];
+	// Rewrites in the order they were made, with explain
+	explain?: OptimizeExplainEntry[];
+}
+
+// `conditionShape` rewrites conditions into cheaper equivalents and has no switch
+export type OptimizeExplainPass = OptimizePass | 'conditionShape';
+
+export interface OptimizeExplainEntry {
+	pass: OptimizeExplainPass;
+	// 1-based optimizer pass that made the rewrite
+	iteration: number;
+	// Where the rewritten code is in the original files (undefined file: the root file). Rewrites in
+	// later iterations only know the start of the enclosing statement, so they have no `end`.
+	file?: string;
+	start: number;
+	end?: number;
+	// Compact code before and after; declarations removed or added by a pass have an empty side
+	before: string;
+	after: string;
+	// Change of the measureAst compiled body estimate, negative when the rewrite saves memory
+	bytes: number;
+}
+
+type ResolvedOptimizeOptions = Required<Omit<OptimizeOptions, 'builtinConstants' | 'builtinFunctionReturnTypes' | 'dynamicMacros' | 'inlineFunctionDecisions' | 'shrinkNameOptions'>> & Pick<OptimizeOptions, 'builtinConstants' | 'builtinFunctionReturnTypes' | 'dynamicMacros' | 'inlineFunctionDecisions' | 'shrinkNameOptions'>;
+
+const DEFAULT_OPTIONS: Required<Omit<OptimizeOptions, 'builtinConstants' | 'builtinFunctionReturnTypes' | 'dynamicMacros' | 'inlineFunctionDecisions' | 'shrinkNameOptions'>> = {
 	constantFold: true,
 	dropDefaultInitializers: false,
 	dropNoOpCasts: true,
@@ -51,25 +101,77 @@ const DEFAULT_OPTIONS: Required<Omit<OptimizeOptions, 'builtinConstants' | 'buil
 	removeUnusedFunctions: false,
 	shrinkNames: false,
 	maxPasses: 4,
+	float32: true,
+	trackOrigins: false,
+	explain: false,
 };
 
+interface ExplainRecorder {
+	entries: OptimizeExplainEntry[];
+	iteration: number;
+	// Script being optimized, which fragments are measured against
+	script: Script;
+	// Origins of `script` after the first iteration; before that, spans point into the original files
+	origins?: SourceOrigin[];
+	// Declaring file of the node being optimized
+	file?: string;
+}
+
+// Set while optimizeScript runs with `explain`
+let explainRecorder: ExplainRecorder | undefined;
+
+export function isOptimizePassEnabled(options: OptimizeOptions, pass: OptimizePass): boolean {
+	return options[pass] ?? DEFAULT_OPTIONS[pass];
+}
+
 export function optimizeScript(script: Script, options: OptimizeOptions = {}): OptimizeResult {
 	const opts: ResolvedOptimizeOptions = { ...DEFAULT_OPTIONS, ...options };
-	const initial = emitScript(script);
+	return runtime.withFloatPrecision(opts.float32, () => optimizeScriptPasses(script, opts));
+}
+
+function optimizeScriptPasses(script: Script, opts: ResolvedOptimizeOptions): OptimizeResult {
+	if (!opts.explain) return optimizeScriptIterations(script, opts);
+	const previous = explainRecorder;
+	explainRecorder = { entries: [], iteration: 0, script };
+	try {
+		const result = optimizeScriptIterations(script, opts);
+		return { ...result, explain: explainRecorder.entries };
+	} finally {
+		explainRecorder = previous;
+	}
+}
+
+function optimizeScriptIterations(script: Script, opts: ResolvedOptimizeOptions): OptimizeResult {
+	// Explanations of later iterations are located through the origins
+	const initialEmit = opts.trackOrigins || opts.explain ? emitScriptWithNodes(script) : undefined;
+	const initial = initialEmit?.code ?? emitScript(script);
 	let currentCode = initial;
 	let currentScript = script;
+	let currentOrigins: SourceOrigin[] | undefined = initialEmit?.nodes.map(node => ({ offset: node.offset, file: node.file, start: node.span.start }));
+	// Nodes carried over from the input keep their span objects, so their file survives inlining into other files' code
+	const originalFiles = new Map(initialEmit?.nodes.map(node => [node.span, node.file]));
 	let passes = 0;
 	let stable = false;
 
 	for (; passes < opts.maxPasses; passes++) {
+		const explained = explainRecorder?.entries.length ?? 0;
+		if (explainRecorder) Object.assign(explainRecorder, { iteration: passes + 1, script: currentScript, origins: currentScript === script ? undefined : currentOrigins, file: undefined });
 		const optimized = optimizeScriptOnce(currentScript, opts);
-		const nextCode = emitScript(optimized);
+		const emitted = currentOrigins ? emitScriptWithNodes(optimized) : undefined;
+		const nextCode = emitted?.code ?? emitScript(optimized);
+		// Rewrites of an iteration whose output is dropped did not happen
+		const discard = () => explainRecorder?.entries.splice(explained);
 		if (nextCode === currentCode) {
+			discard();
 			stable = true;
 			break;
 		}
 		const nextScript = parseScriptFromText(nextCode, 'file:///optimized.lsl', { dynamicMacros: opts.dynamicMacros });
-		if (hasBlockingOptimizeDiagnostics(nextScript)) break;
+		if (hasBlockingOptimizeDiagnostics(nextScript)) {
+			discard();
+			break;
+		}
+		if (emitted && currentOrigins) currentOrigins = composeOrigins(emitted.nodes, currentScript === script ? originalFiles : undefined, currentOrigins);
 		currentCode = nextCode;
 		currentScript = nextScript;
 	}
@@ -79,9 +181,24 @@ export function optimizeScript(script: Script, options: OptimizeOptions = {}): O
 		passes,
 		changed: currentCode !== initial,
 		stable,
+		...(currentOrigins && opts.trackOrigins ? { origins: currentOrigins } : {}),
 	};
 }
 
+// Spans of the first pass point into the original files; later passes re-parse, so their spans point into the previous code.
+function composeOrigins(nodes: EmittedNode[], originalFiles: ReadonlyMap<EmittedNode['span'], string | undefined> | undefined, previous: SourceOrigin[]): SourceOrigin[] {
+	const out: SourceOrigin[] = [];
+	for (const node of nodes) {
+		if (originalFiles) {
+			out.push({ offset: node.offset, file: originalFiles.has(node.span) ? originalFiles.get(node.span) : node.file, start: node.span.start });
+			continue;
+		}
+		const origin = sourceOriginAt(previous, node.span.start);
+		if (origin) out.push({ offset: node.offset, file: origin.file, start: origin.start });
+	}
+	return out;
+}
+
 function hasBlockingOptimizeDiagnostics(script: Script): boolean {
 	return script.diagnostics?.some(diagnostic => diagnostic.severity !== 'warning' && diagnostic.severity !== 'info') ?? false;
 }
@@ -100,18 +217,34 @@ function optimizeScriptOnce(script: Script, opts: ResolvedOptimizeOptions): Scri
 		functions: mapValues(script.functions, fn => optimizeFunction(fn, opts, globalTypes, functionReturnTypes, constantEnv)),
 		states: mapValues(script.states, state => optimizeState(state, opts, globalTypes, functionReturnTypes, constantEnv)),
 	};
-	const compacted = opts.inlineConstantGlobals ? inlineConstantGlobals(optimized) : optimized;
-	const beforeInline = opts.removeUnusedFunctions ? removeUnusedFunctions(compacted) : compacted;
-	const afterSpecialize = opts.inlineFunctions ? specializeConstantArgumentFunctionsByMeasure(beforeInline) : beforeInline;
-	const afterExprInline = opts.inlineFunctions ? inlineExpressionFunctionsByMeasure(afterSpecialize) : afterSpecialize;
-	const afterInline = opts.inlineFunctions ? inlineSingleUseStatementFunctionsByMeasure(afterExprInline) : afterExprInline;
-	const afterDce = opts.removeUnusedFunctions ? removeUnusedFunctions(afterInline) : afterInline;
-	const withoutDefaultInitializers = opts.dropDefaultInitializers ? dropDefaultInitializers(afterDce) : afterDce;
-	return opts.shrinkNames ? shrinkScriptNames(withoutDefaultInitializers, opts.shrinkNameOptions) : withoutDefaultInitializers;
+	const compacted = opts.inlineConstantGlobals ? explainStage('inlineConstantGlobals', optimized, inlineConstantGlobals(optimized)) : optimized;
+	const beforeInline = opts.removeUnusedFunctions ? explainStage('removeUnusedFunctions', compacted, removeUnusedFunctions(compacted)) : compacted;
+	const decisions = opts.inlineFunctionDecisions ?? {};
+	const afterSpecialize = opts.inlineFunctions ? specializeConstantArgumentFunctionsByMeasure(beforeInline, decisions) : beforeInline;
+	const afterExprInline = opts.inlineFunctions ? inlineExpressionFunctionsByMeasure(afterSpecialize, decisions) : afterSpecialize;
+	const afterInline = opts.inlineFunctions ? explainStage('inlineFunctions', beforeInline, inlineSingleUseStatementFunctionsByMeasure(afterExprInline, decisions)) : afterExprInline;
+	const afterDce = opts.removeUnusedFunctions ? explainStage('removeUnusedFunctions', afterInline, removeUnusedFunctions(afterInline)) : afterInline;
+	const withoutDefaultInitializers = opts.dropDefaultInitializers ? explainStage('dropDefaultInitializers', afterDce, dropDefaultInitializers(afterDce)) : afterDce;
+	if (!opts.shrinkNames) return withoutDefaultInitializers;
+	const shrunk = explainStage('shrinkNames', withoutDefaultInitializers, shrinkScriptNames(withoutDefaultInitializers, opts.shrinkNameOptions));
+	// `opts` belongs to this optimizeScript call; later iterations see the functions under their new names
+	if (opts.inlineFunctionDecisions) opts.inlineFunctionDecisions = renameFunctionDecisions(opts.inlineFunctionDecisions, withoutDefaultInitializers, shrunk);
+	return shrunk;
+}
+
+// shrinkNames keeps the order of functions
+function renameFunctionDecisions(decisions: Readonly<Record<string, boolean>>, before: Script, after: Script): Record<string, boolean> {
+	const renamed = [...after.functions.keys()];
+	const out: Record<string, boolean> = {};
+	[...before.functions.keys()].forEach((name, i) => {
+		if (name in decisions && renamed[i] !== undefined) out[renamed[i]] = decisions[name]!;
+	});
+	return out;
 }
 
 function optimizeGlobal(global: GlobalVar, opts: ResolvedOptimizeOptions, globalTypes: ReadonlyMap<string, SimpleType>, functionReturnTypes: ReadonlyMap<string, SimpleType>, constantEnv: Env): GlobalVar {
 	const scope = new TypeScope(undefined, globalTypes);
+	if (explainRecorder) explainRecorder.file = global.originFile;
 	return {
 		...global,
 		initializer: global.initializer ? optimizeExpr(global.initializer, opts, scope, functionReturnTypes, constantEnv, { preserveListLiteralShape: true }) : undefined,
@@ -121,6 +254,7 @@ function optimizeGlobal(global: GlobalVar, opts: ResolvedOptimizeOptions, global
 function optimizeFunction(fn: FnNode, opts: ResolvedOptimizeOptions, globalTypes: ReadonlyMap<string, SimpleType>, functionReturnTypes: ReadonlyMap<string, SimpleType>, constantEnv: Env): FnNode {
 	const scope = new TypeScope(undefined, globalTypes).child();
 	for (const [name, type] of fn.parameters) scope.set(name, type);
+	if (explainRecorder) explainRecorder.file = fn.originFile;
 	return {
 		...fn,
 		body: optimizeStmt(fn.body, opts, scope, functionReturnTypes, constantEnv),
@@ -130,7 +264,10 @@ function optimizeFunction(fn: FnNode, opts: ResolvedOptimizeOptions, globalTypes
 function optimizeState(state: State, opts: ResolvedOptimizeOptions, globalTypes: ReadonlyMap<string, SimpleType>, functionReturnTypes: ReadonlyMap<string, SimpleType>, constantEnv: Env): State {
 	return {
 		...state,
-		events: state.events.map(event => optimizeEvent(event, opts, globalTypes, functionReturnTypes, constantEnv)),
+		events: state.events.map(event => {
+			if (explainRecorder) explainRecorder.file = event.originFile ?? state.originFile;
+			return optimizeEvent(event, opts, globalTypes, functionReturnTypes, constantEnv);
+		}),
 	};
 }
 
@@ -172,12 +309,13 @@ function optimizeStmt(stmt: Stmt, opts: ResolvedOptimizeOptions, scope: TypeScop
 			const thenStmt = optimizeStmt(stmt.then, opts, scope.child(), functionReturnTypes, constantEnv);
 			const elseStmt = stmt.else ? optimizeStmt(stmt.else, opts, scope.child(), functionReturnTypes, constantEnv) : undefined;
 			const truth = constantTruth(condition, constantEnv);
-			if (truth === true) return thenStmt;
-			if (truth === false) return elseStmt ?? { ...stmt, kind: 'EmptyStmt' };
+			const next: Stmt = { ...stmt, condition, then: thenStmt, else: elseStmt };
+			if (truth === true) return explainStmt('constantFold', next, thenStmt);
+			if (truth === false) return explainStmt('constantFold', next, elseStmt ?? { ...stmt, kind: 'EmptyStmt' });
 			if (opts.integerPeepholes && condition.kind === 'Unary' && condition.op === '!' && elseStmt) {
-				return { ...stmt, condition: condition.argument, then: elseStmt, else: thenStmt };
+				return explainStmt('integerPeepholes', next, { ...stmt, condition: condition.argument, then: elseStmt, else: thenStmt });
 			}
-			return { ...stmt, condition, then: thenStmt, else: elseStmt };
+			return next;
 		}
 		case 'WhileStmt':
 			return { ...stmt, condition: optimizeCondition(stmt.condition, opts, scope, functionReturnTypes, constantEnv), body: optimizeStmt(stmt.body, opts, scope.child(), functionReturnTypes, constantEnv) };
@@ -202,12 +340,13 @@ function optimizeStmt(stmt: Stmt, opts: ResolvedOptimizeOptions, scope: TypeScop
 }
 
 function optimizeCondition(expr: Expr, opts: ResolvedOptimizeOptions, scope: TypeScope, functionReturnTypes: ReadonlyMap<string, SimpleType>, constantEnv: Env): Expr {
-	const optimized = optimizeBooleanShape(optimizeExpr(expr, opts, scope, functionReturnTypes, constantEnv), scope, functionReturnTypes);
-	return opts.integerPeepholes ? optimizeIntegerConditionPeephole(optimized, scope, functionReturnTypes) : optimized;
+	const folded = optimizeExpr(expr, opts, scope, functionReturnTypes, constantEnv);
+	const optimized = explainExpr('conditionShape', folded, optimizeBooleanShape(folded, scope, functionReturnTypes));
+	return opts.integerPeepholes ? explainExpr('integerPeepholes', optimized, optimizeIntegerConditionPeephole(optimized, scope, functionReturnTypes)) : optimized;
 }
 
 function optimizeStatementExpr(expr: Expr, opts: ResolvedOptimizeOptions, scope: TypeScope, functionReturnTypes: ReadonlyMap<string, SimpleType>): Expr {
-	return opts.integerPeepholes ? optimizeIntegerStatementPeephole(expr, scope, functionReturnTypes) : expr;
+	return opts.integerPeepholes ? explainExpr('integerPeepholes', expr, optimizeIntegerStatementPeephole(expr, scope, functionReturnTypes)) : expr;
 }
 
 function optimizeBlockStatements(statements: Stmt[], opts: ResolvedOptimizeOptions, scope: TypeScope, functionReturnTypes: ReadonlyMap<string, SimpleType>, constantEnv: Env): Stmt[] {
@@ -242,14 +381,14 @@ function optimizeExpr(expr: Expr, opts: ResolvedOptimizeOptions, scope: TypeScop
 			} else {
 				next = { ...expr, left: optimizeExpr(expr.left, opts, scope, functionReturnTypes, constantEnv), right: optimizeExpr(expr.right, opts, scope, functionReturnTypes, constantEnv) };
 			}
-			if (opts.bitwiseBooleanOps) next = optimizeBitwiseBooleanOp(next, scope, functionReturnTypes);
-			if (opts.listAdd) next = optimizeListCompoundAdd(next, scope, functionReturnTypes);
-			if (opts.integerPeepholes) next = optimizeIntegerExprPeephole(next, scope, functionReturnTypes);
+			if (opts.bitwiseBooleanOps) next = explainExpr('bitwiseBooleanOps', next, optimizeBitwiseBooleanOp(next, scope, functionReturnTypes));
+			if (opts.listAdd) next = explainExpr('listAdd', next, optimizeListCompoundAdd(next, scope, functionReturnTypes));
+			if (opts.integerPeepholes) next = explainExpr('integerPeepholes', next, optimizeIntegerExprPeephole(next, scope, functionReturnTypes));
 			break;
 		case 'Cast': {
 			const argument = optimizeExpr(expr.argument, opts, scope, functionReturnTypes, constantEnv);
 			next = opts.dropNoOpCasts && inferExprTypeFromAst(argument, scope.view(), new Map(functionReturnTypes)) === expr.type
-				? argument
+				? explainExpr('dropNoOpCasts', { ...expr, argument }, argument)
 				: { ...expr, argument };
 			break;
 		}
@@ -258,7 +397,7 @@ function optimizeExpr(expr: Expr, opts: ResolvedOptimizeOptions, scope: TypeScop
 			break;
 		case 'ListLiteral':
 			next = { ...expr, elements: expr.elements.map(element => optimizeExpr(element, opts, scope, functionReturnTypes, constantEnv, context)) };
-			if (opts.listAdd && !context.preserveListLiteralShape) next = listLiteralToAdd(next, scope, functionReturnTypes);
+			if (opts.listAdd && !context.preserveListLiteralShape) next = explainExpr('listAdd', next, listLiteralToAdd(next, scope, functionReturnTypes));
 			break;
 		case 'VectorLiteral':
 			next = { ...expr, elements: expr.elements.map(element => optimizeExpr(element, opts, scope, functionReturnTypes, constantEnv)) as Expr[] as ExprTuple<typeof expr.elements> };
@@ -272,7 +411,85 @@ function optimizeExpr(expr: Expr, opts: ResolvedOptimizeOptions, scope: TypeScop
 	if (!opts.constantFold || !isFoldCandidateExpr(next) || !mayFoldWholeExpr(next, opts)) return next;
 	if (context.preserveStringProducer && isStringProducingExpr(next) && !needsStringCastMaterialization(next)) return next;
 	const value = evalExpr(next, constantEnv, { allowRuntimeCalls: true });
-	return valueToExpr(value, next) ?? next;
+	return explainExpr('constantFold', next, valueToExpr(value, next) ?? next);
+}
+
+// Explanation helpers return `after`, so a rewrite can be recorded where it is made
+function explainExpr(pass: OptimizeExplainPass, before: Expr, after: Expr): Expr {
+	if (explainRecorder && after !== before) recordRewrite(pass, before.span, emitExpr(before), emitExpr(after), measureAstExpr(explainRecorder.script, after) - measureAstExpr(explainRecorder.script, before));
+	return after;
+}
+
+function explainStmt(pass: OptimizeExplainPass, before: Stmt, after: Stmt): Stmt {
+	if (explainRecorder && after !== before) {
+		const emit = (stmt: Stmt) => (stmt.kind === 'EmptyStmt' ? '' : emitStmt(stmt));
+		recordRewrite(pass, before.span, emit(before), emit(after), measureAstStmt(explainRecorder.script, after) - measureAstStmt(explainRecorder.script, before));
+	}
+	return after;
+}
+
+// Whole-script passes are explained per global, function and event handler they changed, removed or added.
+// Units are matched by name, except across shrinkNames, which keeps the order of declarations.
+interface ExplainUnit {
+	node: GlobalVar | FnNode | Event;
+	state?: State;
+}
+
+function explainStage(pass: OptimizePass, before: Script, after: Script): Script {
+	if (!explainRecorder || before === after) return after;
+	const byPosition = pass === 'shrinkNames';
+	const from = explainUnits(before, byPosition);
+	const to = explainUnits(after, byPosition);
+	const declarationBytes = (script: Script) => new Map(measureAstDeclarations(script).map(measure => [`${measure.kind} ${measure.name}`, measure.bytes]));
+	const bytesBefore = declarationBytes(before);
+	const bytesAfter = declarationBytes(after);
+	const unitBytes = (script: Script, bytes: ReadonlyMap<string, number>, unit: ExplainUnit | undefined): number => {
+		if (!unit) return 0;
+		if (unit.node.kind === 'Event') return measureAstEvent(script, unit.node);
+		return bytes.get(`${unit.node.kind === 'GlobalVar' ? 'global' : 'function'} ${unit.node.name}`) ?? 0;
+	};
+	for (const key of new Set([...from.keys(), ...to.keys()])) {
+		const old = from.get(key);
+		const next = to.get(key);
+		const beforeCode = old ? emitUnit(before, old) : '';
+		const afterCode = next ? emitUnit(after, next) : '';
+		if (beforeCode === afterCode) continue;
+		const located = old ?? next!;
+		explainRecorder.file = located.node.originFile ?? located.state?.originFile;
+		recordRewrite(pass, located.node.span, beforeCode, afterCode, unitBytes(after, bytesAfter, next) - unitBytes(before, bytesBefore, old));
+	}
+	return after;
+}
+
+function explainUnits(script: Script, byPosition: boolean): Map<string, ExplainUnit> {
+	const units = new Map<string, ExplainUnit>();
+	[...script.globals.values()].forEach((global, i) => units.set(`global ${byPosition ? i : global.name}`, { node: global }));
+	[...script.functions.values()].forEach((fn, i) => units.set(`function ${byPosition ? i : fn.name}`, { node: fn }));
+	[...script.states.values()].forEach((state, i) => {
+		for (const event of state.events) units.set(`event ${byPosition ? i : state.name}.${event.name}`, { node: event, state });
+	});
+	return units;
+}
+
+// Compact code of one unit; handlers are shown inside their state
+function emitUnit(script: Script, unit: ExplainUnit): string {
+	const { node, state } = unit;
+	return emitScript({
+		...script,
+		globals: new Map(node.kind === 'GlobalVar' ? [[node.name, node]] : []),
+		functions: new Map(node.kind === 'Function' ? [[node.name, node]] : []),
+		states: new Map(node.kind === 'Event' && state ? [[state.name, { ...state, events: [node] }]] : []),
+	});
+}
+
+function recordRewrite(pass: OptimizeExplainPass, span: Span, before: string, after: string, bytes: number): void {
+	const recorder = explainRecorder;
+	if (!recorder || before === after) return;
+	const origin = recorder.origins ? sourceOriginAt(recorder.origins, span.start) : undefined;
+	const location = recorder.origins
+		? { file: origin?.file, start: origin?.start ?? 0 }
+		: { file: recorder.file, start: span.start, end: span.end };
+	recorder.entries.push({ pass, iteration: recorder.iteration, ...location, before, after, bytes });
 }
 
 type ExprTuple<T> = T extends [Expr, Expr, Expr, Expr] ? [Expr, Expr, Expr, Expr] : [Expr, Expr, Expr];
@@ -696,7 +913,8 @@ function isAssignmentOp(op: string): boolean {
 	return op === '=' || op === '+=' || op === '-=' || op === '*=' || op === '/=' || op === '%=';
 }
 
-function collectPureFunctions(script: Script): Set<string> {
+// User functions with a return value and no side effects, which the evaluator may call
+export function collectPureFunctions(script: Script): Set<string> {
 	const pure = new Set<string>();
 	let changed = true;
 	while (changed) {
@@ -799,16 +1017,17 @@ type InlineCandidate = {
 	expression: Expr;
 };
 
-function inlineExpressionFunctionsByMeasure(script: Script): Script {
+function inlineExpressionFunctionsByMeasure(script: Script, decisions: Readonly<Record<string, boolean>>): Script {
 	let current = script;
 	let changed = true;
 	while (changed) {
 		changed = false;
 		for (const candidate of collectInlineCandidates(current)) {
+			if (decisions[candidate.name] === false) continue;
 			const beforeUsed = estimateMonoUsed(current);
 			const inlined = removeUnusedFunctions(inlineSingleFunction(current, candidate));
 			const afterUsed = estimateMonoUsed(inlined);
-			if (afterUsed < beforeUsed) {
+			if ((decisions[candidate.name] && inlinedCalls(current, inlined, candidate.name)) || afterUsed < beforeUsed) {
 				current = inlined;
 				changed = true;
 				break;
@@ -818,16 +1037,17 @@ function inlineExpressionFunctionsByMeasure(script: Script): Script {
 	return current;
 }
 
-function inlineSingleUseStatementFunctionsByMeasure(script: Script): Script {
+function inlineSingleUseStatementFunctionsByMeasure(script: Script, decisions: Readonly<Record<string, boolean>>): Script {
 	let current = script;
 	let changed = true;
 	while (changed) {
 		changed = false;
 		for (const candidate of collectStatementInlineCandidates(current)) {
+			if (decisions[candidate.name] === false) continue;
 			const beforeUsed = estimateMonoUsed(current);
 			const inlined = removeUnusedFunctions(inlineSingleStatementFunction(current, candidate));
 			const afterUsed = estimateMonoUsed(inlined);
-			if (afterUsed < beforeUsed) {
+			if ((decisions[candidate.name] && inlinedCalls(current, inlined, candidate.name)) || afterUsed < beforeUsed) {
 				current = inlined;
 				changed = true;
 				break;
@@ -843,12 +1063,13 @@ interface SpecializationCandidate {
 	fixed: Map<number, Expr>;
 }
 
-function specializeConstantArgumentFunctionsByMeasure(script: Script): Script {
+function specializeConstantArgumentFunctionsByMeasure(script: Script, decisions: Readonly<Record<string, boolean>>): Script {
 	let current = script;
 	let changed = true;
 	while (changed) {
 		changed = false;
 		for (const candidate of collectSpecializationCandidates(current)) {
+			if (decisions[candidate.sourceName] === false) continue;
 			const beforeUsed = estimateMonoUsed(current);
 			const specialized = removeUnusedFunctions(foldConstantControlFlow(applyFunctionSpecialization(current, candidate)));
 			const afterUsed = estimateMonoUsed(specialized);
@@ -862,6 +1083,17 @@ function specializeConstantArgumentFunctionsByMeasure(script: Script): Script {
 	return current;
 }
 
+// Whether `after` calls `name` less often; a forced inline has to make progress
+function inlinedCalls(before: Script, after: Script, name: string): boolean {
+	return (collectFunctionCallCounts(after).get(name) ?? 0) < (collectFunctionCallCounts(before).get(name) ?? 0);
+}
+
+// Functions inlineFunctions would consider inlining in `script`, for inlineFunctionDecisions
+export function inlineCandidateFunctions(script: Script): string[] {
+	const names = new Set([...collectInlineCandidates(script), ...collectStatementInlineCandidates(script)].map(candidate => candidate.name));
+	return [...script.functions.keys()].filter(name => names.has(name));
+}
+
 function estimateMonoUsed(script: Script): number {
 	return measureAst(script).estimatedMonoUsedMemory;
 }
@@ -3488,6 +3720,13 @@ function valueToExpr(value: Value, original: Expr): Expr | null {
 function floatLiteral(value: number): string {
 	if (Object.is(value, -0)) return '-0.0';
 	if (Number.isInteger(value)) return `${value}.0`;
+	// Shortest literal that reads back as the same single-precision value
+	if (runtime.lslFloat(value) === value) {
+		for (let digits = 1; digits < 17; digits++) {
+			const raw = String(Number(value.toPrecision(digits)));
+			if (runtime.lslFloat(Number(raw)) === value) return raw;
+		}
+	}
 	return String(value);
 }
 
@@ -0,0 +1,136 @@
+import { measureAst, type AstMeasureResult } from './measure';
+import { inlineCandidateFunctions, isOptimizePassEnabled, OPTIMIZE_PASSES, optimizeScript, type OptimizeOptions, type OptimizePass, type OptimizeResult } from './optimize';
+import { parseScriptFromText } from './parser';
+import type { Script } from './types';
+
+// Searches optimizer switches and per-function inline decisions for the cheapest output. Starting from
+// the given options, it flips one switch or one function's inline decision at a time and keeps the
+// best improvement until none is left or the run budget is spent.
+
+// memory: estimated Mono used memory. bytecode: the same estimate without the empty-script baseline,
+// global variable storage and global list containers. source-size: characters of the compact output.
+export type OptimizeGoal = 'memory' | 'bytecode' | 'source-size';
+
+export const OPTIMIZE_GOALS: readonly OptimizeGoal[] = ['memory', 'bytecode', 'source-size'];
+
+export interface OptimizeSearchOptions {
+	goal?: OptimizeGoal;
+	// Estimated Mono used memory the output has to fit in; the goal is minimized among outputs that fit
+	memoryTarget?: number;
+	// optimizeScript runs to spend
+	maxRuns?: number;
+}
+
+export interface OptimizeSearchResult {
+	// The given options with the chosen switches and inline decisions
+	options: OptimizeOptions;
+	// Chosen switches, and inline decisions that differ from the measured default
+	passes: Record<OptimizePass, boolean>;
+	inlineFunctionDecisions: Record<string, boolean>;
+	result: OptimizeResult;
+	goal: OptimizeGoal;
+	cost: number;
+	memory: number;
+	// Unset without a memoryTarget
+	meetsTarget?: boolean;
+	runs: number;
+}
+
+interface Candidate {
+	passes: Record<OptimizePass, boolean>;
+	decisions: Record<string, boolean>;
+	result: OptimizeResult;
+	cost: number;
+	memory: number;
+}
+
+const DEFAULT_MAX_RUNS = 64;
+
+export function searchOptimizeOptions(script: Script, options: OptimizeOptions = {}, search: OptimizeSearchOptions = {}): OptimizeSearchResult {
+	const goal = search.goal ?? 'memory';
+	const maxRuns = search.maxRuns ?? DEFAULT_MAX_RUNS;
+	const seen = new Map<string, Candidate>();
+	const evaluate = (passes: Record<OptimizePass, boolean>, decisions: Record<string, boolean>): Candidate | undefined => {
+		const key = JSON.stringify([passes, decisions]);
+		if (seen.has(key)) return seen.get(key);
+		if (seen.size > 0 && seen.size >= maxRuns) return undefined;
+		const result = optimizeScript(script, withChoice(options, passes, decisions));
+		const measure = measureAst(parseScriptFromText(result.code, 'file:///optimized.lsl', { dynamicMacros: options.dynamicMacros }));
+		const candidate = { passes, decisions, result, cost: goalCost(goal, measure, result.code), memory: measure.estimatedMonoUsedMemory };
+		seen.set(key, candidate);
+		return candidate;
+	};
+	const better = (a: Candidate, b: Candidate) => compareCandidates(a, b, search.memoryTarget) < 0;
+
+	const initialPasses = Object.fromEntries(OPTIMIZE_PASSES.map(pass => [pass, isOptimizePassEnabled(options, pass)])) as Record<OptimizePass, boolean>;
+	let best = evaluate(initialPasses, { ...options.inlineFunctionDecisions })!;
+	const functions = inlineCandidateFunctions(script);
+	for (let improved = true; improved;) {
+		improved = false;
+		const neighbours: Array<() => Candidate | undefined> = [
+			...OPTIMIZE_PASSES.map(pass => () => evaluate({ ...best.passes, [pass]: !best.passes[pass] }, best.decisions)),
+			...(best.passes.inlineFunctions ? functions.flatMap(name => inlineChoices(best.decisions[name]).map(choice => () => evaluate(best.passes, withDecision(best.decisions, name, choice)))) : []),
+		];
+		let next = best;
+		for (const neighbour of neighbours) {
+			const candidate = neighbour();
+			if (candidate && better(candidate, next)) next = candidate;
+		}
+		if (next !== best) {
+			best = next;
+			improved = true;
+		}
+	}
+
+	return {
+		options: withChoice(options, best.passes, best.decisions),
+		passes: best.passes,
+		inlineFunctionDecisions: best.decisions,
+		result: best.result,
+		goal,
+		cost: best.cost,
+		memory: best.memory,
+		...(search.memoryTarget !== undefined ? { meetsTarget: best.memory <= search.memoryTarget } : {}),
+		runs: seen.size,
+	};
+}
+
+function withChoice(options: OptimizeOptions, passes: Record<OptimizePass, boolean>, decisions: Record<string, boolean>): OptimizeOptions {
+	const out: OptimizeOptions = { ...options, ...passes };
+	delete out.inlineFunctionDecisions;
+	return Object.keys(decisions).length > 0 ? { ...out, inlineFunctionDecisions: decisions } : out;
+}
+
+// Inline decisions other than the current one; undefined leaves it to the measure
+function inlineChoices(current: boolean | undefined): Array<boolean | undefined> {
+	return [true, false, undefined].filter(choice => choice !== current);
+}
+
+function withDecision(decisions: Record<string, boolean>, name: string, choice: boolean | undefined): Record<string, boolean> {
+	const out = { ...decisions };
+	if (choice === undefined) delete out[name];
+	else out[name] = choice;
+	return out;
+}
+
+function goalCost(goal: OptimizeGoal, measure: AstMeasureResult, code: string): number {
+	switch (goal) {
+		case 'memory':
+			return measure.estimatedMonoUsedMemory;
+		case 'bytecode':
+			return measure.estimatedMonoUsedMemory - measure.cost.baseline - measure.cost.declarations - measure.cost.containers;
+		case 'source-size':
+			return code.length;
+	}
+}
+
+// Outputs that fit the target come first, then the cheaper goal, then less memory and shorter code
+function compareCandidates(a: Candidate, b: Candidate, memoryTarget: number | undefined): number {
+	if (memoryTarget !== undefined) {
+		const fitsA = a.memory <= memoryTarget;
+		const fitsB = b.memory <= memoryTarget;
+		if (fitsA !== fitsB) return fitsA ? -1 : 1;
+		if (!fitsA) return a.memory - b.memory || a.cost - b.cost;
+	}
+	return a.cost - b.cost || a.memory - b.memory || a.result.code.length - b.result.code.length;
+}
@@ -0,0 +1,274 @@
+import { NULL_KEY_VALUE } from './key';
+import { collectPureFunctions, isOptimizePassEnabled, OPTIMIZE_PASSES, optimizeScript, type OptimizeOptions, type OptimizePass } from './optimize';
+import { parseScriptFromText } from './parser';
+import * as runtime from './runtime';
+import type { Value } from './runtime';
+import { ScriptSimulator, SimulatorError, type SimulatorOptions } from './simulator';
+import type { Expr, Script, Type } from './types';
+import { walkStmt } from './walk';
+
+// Differential check of the optimizer: pure user functions and event handlers of the original and the
+// optimized script run in the simulator on the same generated inputs, and their observable behavior
+// (return values, ll* calls, final state, final values of assigned globals and runtime errors) must match.
+
+export interface OptimizeDivergence {
+	// `function name` or `state.event`
+	target: string;
+	// Arguments rendered exactly, so -0.0 and NaN survive JSON
+	inputs: string[];
+	original: string[];
+	optimized: string[];
+	// First switch in OPTIMIZE_PASSES order that reproduces the divergence, or 'emit' when the
+	// emitted script already diverges with every switch off
+	pass?: OptimizePass | 'emit';
+}
+
+export interface OptimizeVerification {
+	// Functions and handlers compared, and how many runs that took
+	targets: number;
+	runs: number;
+	// Pure functions whose name or parameters the optimizer changed, which are only checked through their callers
+	skipped: string[];
+	divergences: OptimizeDivergence[];
+}
+
+// Names in the original script that the states and assigned globals of every compared script are reported
+// under; shrinkNames renames both but keeps their order
+interface OriginalNames {
+	states: string[];
+	globals: string[];
+}
+
+interface VerifyTarget {
+	name: string;
+	kind: 'function' | 'event';
+	// Index into the script's states; shrinkNames renames states but keeps their order
+	state: number;
+	parameters: Type[];
+}
+
+const SIMULATOR_OPTIONS: SimulatorOptions = {
+	maxSteps: 20000,
+};
+
+const MAX_INPUTS = 48;
+
+const SAMPLES: Record<Type, Value[]> = {
+	integer: [0, 1, -1, 2147483647, -2147483648].map(value => ({ kind: 'value', type: 'integer', value })),
+	float: [0, -0, 1.5, Number.NaN, Number.POSITIVE_INFINITY, -3.4028234663852886e38].map(value => ({ kind: 'value', type: 'float', value })),
+	string: ['', 'a', 'Hello, World!', ' -12abc ', 'ünï\ncødé'].map(value => ({ kind: 'value', type: 'string', value })),
+	key: [NULL_KEY_VALUE, '', 'a822ff2b-ff02-461d-b45d-dcd10a2de0c2', 'A822FF2B-FF02-461D-B45D-DCD10A2DE0C2', 'not-a-key'].map(value => ({ kind: 'value', type: 'key', value })),
+	vector: [[0, 0, 0], [1, -2.5, 3], [-0, Number.NaN, 1e10]].map(value => ({ kind: 'value', type: 'vector', value: value as [number, number, number] })),
+	rotation: [[0, 0, 0, 1], [0, 0, 0, 0], [1, 2, 3, 4]].map(value => ({ kind: 'value', type: 'rotation', value: value as [number, number, number, number] })),
+	list: [
+		{ kind: 'value', type: 'list', value: [] },
+		{
+			kind: 'value',
+			type: 'list',
+			value: [
+				{ kind: 'value', type: 'integer', value: 1 },
+				{ kind: 'value', type: 'float', value: 2.5 },
+				{ kind: 'value', type: 'string', value: 'a' },
+				{ kind: 'value', type: 'key', value: NULL_KEY_VALUE },
+				{ kind: 'value', type: 'vector', value: [1, 2, 3] },
+			],
+		},
+		{ kind: 'value', type: 'list', value: [{ kind: 'value', type: 'string', value: '' }] },
+	],
+};
+
+// Both scripts run in Mono's single precision whatever `float32` says, so folding in doubles shows up as a divergence
+export function verifyOptimization(script: Script, options: OptimizeOptions = {}): OptimizeVerification {
+	return runtime.withFloatPrecision(true, () => verifyOptimizationRuns(script, options));
+}
+
+function verifyOptimizationRuns(script: Script, options: OptimizeOptions): OptimizeVerification {
+	const simulatorOptions: SimulatorOptions = {
+		...SIMULATOR_OPTIONS,
+		builtinConstants: options.builtinConstants,
+		builtinFunctionReturnTypes: options.builtinFunctionReturnTypes,
+	};
+	const optimize = (overrides: OptimizeOptions) => parseScriptFromText(optimizeScript(script, { ...options, ...overrides }).code, 'file:///optimized.lsl', { dynamicMacros: options.dynamicMacros });
+	const optimized = optimize({});
+	// Functions are compared by name, so against output that keeps them all under their own names;
+	// renaming, removal and inlining are checked through the handlers that call them
+	const functions = optimize({ shrinkNames: false, removeUnusedFunctions: false, inlineFunctions: false });
+	const names: OriginalNames = { states: [...script.states.keys()], globals: assignedGlobals(script) };
+
+	const enabled = OPTIMIZE_PASSES.filter(pass => isOptimizePassEnabled(options, pass));
+	const prefixes: Script[] = [];
+	// Optimized script with only the first `count` enabled switches on
+	const prefix = (count: number): Script => {
+		prefixes[count] ??= optimize(Object.fromEntries(OPTIMIZE_PASSES.map(pass => [pass, enabled.indexOf(pass) >= 0 && enabled.indexOf(pass) < count])));
+		return prefixes[count]!;
+	};
+
+	const result: OptimizeVerification = { targets: 0, runs: 0, skipped: [], divergences: [] };
+	for (const target of verifyTargets(script)) {
+		const against = target.kind === 'function' ? functions : optimized;
+		if (!hasTarget(against, target)) {
+			result.skipped.push(target.name);
+			continue;
+		}
+		result.targets++;
+		for (const inputs of inputTuples(target.parameters)) {
+			result.runs++;
+			const original = observe(script, target, inputs, simulatorOptions, names);
+			const output = observe(against, target, inputs, simulatorOptions, names);
+			if (sameObservation(original, output)) continue;
+			const diverges = (candidate: Script) => hasTarget(candidate, target)
+				&& !sameObservation(original, observe(candidate, target, inputs, simulatorOptions, names));
+			let pass: OptimizeDivergence['pass'];
+			for (let count = 0; count <= enabled.length && !pass; count++) {
+				if (diverges(prefix(count))) pass = count === 0 ? 'emit' : enabled[count - 1];
+			}
+			result.divergences.push({ target: target.kind === 'function' ? `function ${target.name}` : `${names.states[target.state]}.${target.name}`, inputs: inputs.map(describeValue), original, optimized: output, ...(pass ? { pass } : {}) });
+			break;
+		}
+	}
+	return result;
+}
+
+function verifyTargets(script: Script): VerifyTarget[] {
+	const out: VerifyTarget[] = [];
+	for (const name of collectPureFunctions(script)) {
+		const fn = script.functions.get(name)!;
+		out.push({ name, kind: 'function', state: 0, parameters: [...fn.parameters.values()] });
+	}
+	[...script.states.values()].forEach((state, index) => {
+		for (const event of state.events) {
+			out.push({ name: event.name, kind: 'event', state: index, parameters: [...event.parameters.values()] });
+		}
+	});
+	return out;
+}
+
+function hasTarget(script: Script, target: VerifyTarget): boolean {
+	if (target.kind === 'event') return [...script.states.values()][target.state]?.events.some(event => event.name === target.name) ?? false;
+	const fn = script.functions.get(target.name);
+	const parameters = fn ? [...fn.parameters.values()] : [];
+	return !!fn && parameters.length === target.parameters.length && parameters.every((type, i) => type === target.parameters[i]);
+}
+
+// Every parameter at its first sample, then each parameter through its samples with the others fixed,
+// then all parameters stepping through their samples together
+function inputTuples(types: Type[]): Value[][] {
+	const base = types.map(type => SAMPLES[type][0]!);
+	const out = [base];
+	types.forEach((type, index) => {
+		for (const sample of SAMPLES[type].slice(1)) out.push(base.map((value, i) => (i === index ? sample : value)));
+	});
+	if (types.length > 1) {
+		const rounds = Math.max(...types.map(type => SAMPLES[type].length));
+		for (let round = 1; round < rounds; round++) out.push(types.map(type => SAMPLES[type][round % SAMPLES[type].length]!));
+	}
+	return out.slice(0, MAX_INPUTS);
+}
+
+function observe(script: Script, target: VerifyTarget, inputs: Value[], options: SimulatorOptions, names: OriginalNames): string[] {
+	const sim = new ScriptSimulator(script, options);
+	if (target.kind === 'function') {
+		sim.reset();
+		try {
+			const value = sim.callFunction(target.name, inputs);
+			return [...describeCalls(sim, 0), `returns ${describeValue(value)}`];
+		} catch (err: unknown) {
+			if (!(err instanceof SimulatorError)) throw err;
+			return [...describeCalls(sim, 0), `error ${err.message}`];
+		}
+	}
+
+	const states = [...script.states.keys()];
+	const state = states[target.state]!;
+	sim.start();
+	if (state === 'default' && target.name === 'state_entry') return eventObservation(sim, script, 0, names);
+	if (state !== 'default' && target.name !== 'state_entry') {
+		sim.enterState(state);
+		sim.run();
+	}
+	const from = sim.calls.length;
+	if (target.name === 'state_entry') sim.enterState(state);
+	else sim.queueEvent(target.name, inputs);
+	sim.run();
+	return eventObservation(sim, script, from, names);
+}
+
+function eventObservation(sim: ScriptSimulator, script: Script, from: number, names: OriginalNames): string[] {
+	const state = [...script.states.keys()].indexOf(sim.state);
+	return [
+		...describeCalls(sim, from),
+		`state ${names.states[state] ?? sim.state}`,
+		...assignedGlobals(script).map((name, i) => {
+			const value = sim.getGlobal(name);
+			return `global ${names.globals[i] ?? `#${i}`} = ${value ? describeValue(value) : '<unset>'}`;
+		}),
+		...(sim.error ? [`error ${sim.error.message}`] : []),
+	];
+}
+
+const ASSIGNMENT_OPS = new Set(['=', '+=', '-=', '*=', '/=', '%=']);
+const assignedGlobalsCache = new WeakMap<Script, string[]>();
+
+// Globals that a function or handler assigns, in declaration order. Globals that are never assigned end
+// with their initial value, and the optimizer only removes or inlines those.
+function assignedGlobals(script: Script): string[] {
+	const cached = assignedGlobalsCache.get(script);
+	if (cached) return cached;
+	const assigned = new Set<string>();
+	const bodies = [...script.functions.values(), ...[...script.states.values()].flatMap(state => state.events)];
+	for (const { parameters, body } of bodies) {
+		// Parameters and locals shadow globals of the same name until their block ends
+		const scopes = [new Set(parameters.keys())];
+		const write = (target: Expr) => {
+			const base = target.kind === 'Member' ? target.object : target;
+			if (base.kind === 'Identifier' && script.globals.has(base.name) && !scopes.some(scope => scope.has(base.name))) assigned.add(base.name);
+		};
+		walkStmt(body, {
+			stmt: stmt => {
+				if (stmt.kind === 'BlockStmt') scopes.push(new Set());
+				else if (stmt.kind === 'VarDecl') scopes[scopes.length - 1]!.add(stmt.name);
+			},
+			leave: stmt => { if (stmt.kind === 'BlockStmt') scopes.pop(); },
+			expr: expr => {
+				if (expr.kind === 'Binary' && ASSIGNMENT_OPS.has(expr.op)) write(expr.left);
+				else if (expr.kind === 'Unary' && (expr.op === '++' || expr.op === '--')) write(expr.argument);
+			},
+		});
+	}
+	const globals = [...script.globals.keys()].filter(name => assigned.has(name));
+	assignedGlobalsCache.set(script, globals);
+	return globals;
+}
+
+function describeCalls(sim: ScriptSimulator, from: number): string[] {
+	return sim.calls.slice(from).map(call => `${call.name}(${call.args.map(describeValue).join(', ')})`);
+}
+
+function sameObservation(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// Exact rendering: unlike (string), keeps -0.0, NaN and every digit of a float
+function describeValue(value: Value): string {
+	if (value.kind === 'unknown') return `<unknown ${value.type}>`;
+	switch (value.type) {
+		case 'integer':
+			return String(value.value);
+		case 'float':
+			return floatText(value.value);
+		case 'string':
+			return JSON.stringify(value.value);
+		case 'key':
+			return `(key)${JSON.stringify(value.value)}`;
+		case 'vector':
+		case 'rotation':
+			return `<${value.value.map(floatText).join(', ')}>`;
+		case 'list':
+			return `[${value.value.map(describeValue).join(', ')}]`;
+	}
+}
+
+function floatText(value: number): string {
+	if (Object.is(value, -0)) return '-0.0';
+	return Number.isInteger(value) ? `${value}.0` : String(value);
+}
@@ -0,0 +1,154 @@
+import type { Defs } from '../defs';
+import { parseNumberLiteral } from './numberLiteral';
+import type { Expr, Script, Span, Stmt } from './types';
+import { reachFromState, walkStmt } from './walk';
+
+// Permission flow: which PERMISSION_* bits a state can rely on. Bits are requested with llRequestPermissions
+// (or llRequestExperiencePermissions) or tested against llGetPermissions()/the run_time_permissions mask in a
+// state's events and the functions they call, and carry over into every state reachable through `state X;`
+// since granted permissions outlive state changes. The required bit of each call comes from the definitions
+// (`permission`, set in lsl-defs.overrides.json).
+
+export interface PermissionIssue {
+	call: string;
+	permission: string;
+	state: string;
+	span: Span;
+	// Calls from the event handler down to the function holding `span`, outermost first
+	via: Span[];
+}
+
+// Granted by llRequestExperiencePermissions
+const EXPERIENCE_PERMISSIONS = [
+	'PERMISSION_TAKE_CONTROLS', 'PERMISSION_TRIGGER_ANIMATION', 'PERMISSION_ATTACH',
+	'PERMISSION_TRACK_CAMERA', 'PERMISSION_CONTROL_CAMERA', 'PERMISSION_TELEPORT',
+];
+const ALL_BITS = -1;
+
+interface PermissionedCall { name: string; permission: string; bit: number; span: Span; via: Span[] }
+
+interface CodeSummary {
+	// Bits requested or tested
+	bits: number;
+	calls: PermissionedCall[];
+	// First call of each user function
+	callees: Map<string, Span>;
+	transitions: Set<string>;
+}
+
+// A mask value and whether it names a PERMISSION_* constant
+interface Mask { value: number; permission: boolean }
+
+export function analyzePermissions(script: Script, defs: Defs): PermissionIssue[] {
+	const bitOf = (name: string): number | undefined => {
+		const value = defs.consts.get(name)?.value;
+		return typeof value === 'number' ? value : undefined;
+	};
+
+	const maskOf = (expr: Expr, seen: Set<string> = new Set()): Mask | undefined => {
+		switch (expr.kind) {
+			case 'Paren': return maskOf(expr.expression, seen);
+			case 'NumberLiteral': {
+				const parsed = parseNumberLiteral(expr.raw);
+				return parsed?.type === 'integer' ? { value: parsed.value, permission: false } : undefined;
+			}
+			case 'Identifier': {
+				const bit = bitOf(expr.name);
+				if (bit !== undefined) return { value: bit, permission: expr.name.startsWith('PERMISSION_') };
+				const global = script.globals.get(expr.name);
+				if (!global?.initializer || seen.has(expr.name)) return undefined;
+				return maskOf(global.initializer, new Set(seen).add(expr.name));
+			}
+			case 'Binary': {
+				if (expr.op !== '|' && expr.op !== '+') return undefined;
+				const left = maskOf(expr.left, seen);
+				const right = maskOf(expr.right, seen);
+				if (!left || !right) return undefined;
+				return { value: left.value | right.value, permission: left.permission || right.permission };
+			}
+			default: return undefined;
+		}
+	};
+
+	const summarize = (body: Stmt): CodeSummary => {
+		const summary: CodeSummary = { bits: 0, calls: [], callees: new Map(), transitions: new Set() };
+		const onExpr = (expr: Expr) => {
+			if (expr.kind === 'Binary' && (expr.op === '&' || expr.op === '==' || expr.op === '!=')) {
+				for (const side of [expr.left, expr.right]) {
+					const mask = maskOf(side);
+					if (mask?.permission) summary.bits |= mask.value;
+				}
+				return;
+			}
+			if (expr.kind !== 'Call' || expr.callee.kind !== 'Identifier') return;
+			const name = expr.callee.name;
+			if (script.functions.has(name)) {
+				if (!summary.callees.has(name)) summary.callees.set(name, expr.callee.span);
+				return;
+			}
+			if (name === 'llRequestPermissions') {
+				const mask = expr.args[1] ? maskOf(expr.args[1]) : undefined;
+				// A mask that cannot be told may request anything
+				summary.bits |= mask ? mask.value : ALL_BITS;
+				return;
+			}
+			if (name === 'llRequestExperiencePermissions') {
+				for (const permission of EXPERIENCE_PERMISSIONS) summary.bits |= bitOf(permission) ?? 0;
+				return;
+			}
+			const permission = defs.funcs.get(name)?.find(fn => fn.permission)?.permission;
+			const bit = permission ? bitOf(permission) : undefined;
+			if (permission && bit) summary.calls.push({ name, permission, bit, span: expr.callee.span, via: [] });
+		};
+		walkStmt(body, {
+			expr: onExpr,
+			stmt: stmt => { if (stmt.kind === 'StateChangeStmt') summary.transitions.add(stmt.state); },
+		});
+		return summary;
+	};
+
+	const functionSummaries = new Map<string, CodeSummary>();
+	for (const fn of script.functions.values()) functionSummaries.set(fn.name, summarize(fn.body));
+
+	// Everything a state's events reach, including the functions they call
+	const stateSummaries = new Map<string, CodeSummary>();
+	for (const state of script.states.values()) {
+		const total: CodeSummary = { bits: 0, calls: [], callees: new Map(), transitions: new Set() };
+		for (const { summary, via } of reachFromState(state, summarize, functionSummaries)) {
+			total.bits |= summary.bits;
+			total.calls.push(...summary.calls.map(call => ({ ...call, via })));
+			for (const state of summary.transitions) total.transitions.add(state);
+		}
+		stateSummaries.set(state.name, total);
+	}
+
+	// Granted bits flow along state changes until nothing changes
+	const available = new Map<string, number>();
+	for (const [name, summary] of stateSummaries) available.set(name, summary.bits);
+	for (let changed = true; changed;) {
+		changed = false;
+		for (const [name, summary] of stateSummaries) {
+			const bits = available.get(name)!;
+			for (const target of summary.transitions) {
+				const before = available.get(target);
+				if (before === undefined || (before | bits) === before) continue;
+				available.set(target, before | bits);
+				changed = true;
+			}
+		}
+	}
+
+	const issues: PermissionIssue[] = [];
+	const reported = new Set<string>();
+	for (const [state, summary] of stateSummaries) {
+		const bits = available.get(state)!;
+		for (const call of summary.calls) {
+			if ((bits & call.bit) === call.bit) continue;
+			const key = `${call.span.file ?? ''}:${call.span.start}`;
+			if (reported.has(key)) continue;
+			reported.add(key);
+			issues.push({ call: call.name, permission: call.permission, state, span: call.span, via: call.via });
+		}
+	}
+	return issues;
+}
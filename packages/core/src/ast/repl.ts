@@ -0,0 +1,145 @@
+import { preprocessForAst } from '../core/pipeline';
+import type { Defs } from '../defs';
+import { filePathToUri } from '../protocol';
+import { builtinConstantValuesFromDefs, builtinReturnTypesFromDefs } from './constGlobalExpressions';
+import { isAssignmentCompatible } from './compat';
+import { coerceParameterValue, Env, evalCast, evalExpr, evalStmt, type EvalOptions, type Value } from './eval';
+import { collectPureFunctions } from './optimize';
+import { parseScriptFromText } from './parser';
+import * as runtime from './runtime';
+import { defaultValueForType } from './simulator';
+import type { Script, Stmt, Type } from './types';
+
+// Read-eval-print session for LSL snippets. Each input is parsed as the body of a handler behind the
+// directives and functions accepted so far, then folded with evalExpr/evalStmt; variables declared in
+// one input stay visible in the next. Only built-ins the evaluator implements produce known values.
+
+export interface LslReplOptions {
+	defs?: Defs;
+	includePaths?: string[];
+	macros?: Record<string, string | number | boolean>;
+	// Path `#include` lines resolve relative to
+	fromPath?: string;
+}
+
+export interface LslReplOutput {
+	value: Value;
+	// The value rendered like LSL's (string) cast; undefined when it could not be worked out
+	text?: string;
+}
+
+export type LslReplResult = { outputs: LslReplOutput[]; error?: undefined } | { outputs?: undefined; error: string };
+
+const EVAL_OPTIONS: EvalOptions = {
+	maxNodes: 100000,
+	maxDepth: 256,
+	maxLoopIters: 10000,
+	allowRuntimeCalls: true,
+};
+
+export class LslRepl {
+	private readonly directives: string[] = [];
+	private readonly declarations: string[] = [];
+	private readonly functions = new Set<string>();
+	private readonly vars = new Map<string, Value>();
+	private readonly constants: Env;
+	private readonly builtinReturnTypes = new Map<string, Type | 'void'>();
+
+	constructor(private readonly options: LslReplOptions = {}) {
+		this.constants = new Env(new Map(options.defs ? builtinConstantValuesFromDefs(options.defs) : []));
+		for (const [name, type] of options.defs ? builtinReturnTypesFromDefs(options.defs) : []) {
+			if (type !== 'any') this.builtinReturnTypes.set(name, type);
+		}
+	}
+
+	get variables(): ReadonlyMap<string, Value> {
+		return this.vars;
+	}
+
+	// `#include`/`#define` lines and function definitions are kept; anything else runs as statements
+	evaluate(input: string): LslReplResult {
+		const source = input.trim();
+		if (!source) return { outputs: [] };
+		if (source.startsWith('#')) return this.addDirective(source);
+
+		const declared = this.parse(`${this.prelude()}\n${source}\ndefault { state_entry() { } }`);
+		const added = [...declared.script.functions.keys()].filter(name => !this.functions.has(name));
+		if (!declared.error && declared.script.globals.size === 0 && added.length > 0) {
+			this.declarations.push(source);
+			for (const name of added) this.functions.add(name);
+			return { outputs: [] };
+		}
+
+		const statements = /[;}]$/.test(source) ? source : `${source};`;
+		const parsed = this.parse(`${this.prelude()}\ndefault { state_entry() {\n${statements}\n} }`);
+		if (parsed.error) return { error: parsed.error };
+		const body = parsed.script.states.get('default')?.events[0]?.body;
+		const env = new Env(this.vars, this.returnTypes(parsed.script), parsed.script.functions, collectPureFunctions(parsed.script), this.constants);
+		const outputs: LslReplOutput[] = [];
+		for (const stmt of body?.kind === 'BlockStmt' ? body.statements : []) {
+			const value = this.run(stmt, env);
+			if (typeof value === 'string') return { error: value };
+			if (value) outputs.push({ value, text: lslReplText(value) });
+		}
+		return { outputs };
+	}
+
+	// The value of an expression statement, or an error message
+	private run(stmt: Stmt, env: Env): Value | string | undefined {
+		switch (stmt.kind) {
+			case 'ExprStmt':
+				return evalExpr(stmt.expression, env, EVAL_OPTIONS);
+			case 'VarDecl': {
+				// Unlike evalStmt, declarations start from the LSL default so later inputs see a known value
+				const value = stmt.initializer ? evalExpr(stmt.initializer, env, EVAL_OPTIONS) : defaultValueForType(stmt.varType);
+				// The type of an unknown value is only a guess
+				if (value.kind === 'value' && !isAssignmentCompatible(stmt.varType, value.type)) return `Cannot assign ${value.type} to ${stmt.varType} ${stmt.name}`;
+				env.setVar(stmt.name, coerceParameterValue(value, stmt.varType));
+				return undefined;
+			}
+			default:
+				evalStmt(stmt, env, EVAL_OPTIONS);
+				return undefined;
+		}
+	}
+
+	private addDirective(line: string): LslReplResult {
+		const pre = preprocessForAst([...this.directives, line].join('\n'), {
+			includePaths: this.options.includePaths ?? [],
+			fromPath: this.options.fromPath,
+			defines: { ...this.options.macros },
+		});
+		const problem = pre.preprocDiagnostics?.[0];
+		if (problem) return { error: problem.message };
+		this.directives.push(line);
+		// Functions from included headers are not new declarations in later inputs
+		for (const name of this.parse(`${this.prelude()}\ndefault { state_entry() { } }`).script.functions.keys()) this.functions.add(name);
+		return { outputs: [] };
+	}
+
+	private parse(text: string): { script: Script; error?: string } {
+		const script = parseScriptFromText(text, this.options.fromPath ? filePathToUri(this.options.fromPath) : undefined, {
+			includePaths: this.options.includePaths ?? [],
+			macros: this.options.macros,
+			defs: this.options.defs,
+		});
+		const error = script.diagnostics?.find(diagnostic => diagnostic.severity === 'error');
+		// Offsets point into the wrapped source, not the input line
+		return { script, error: error?.message.replace(/^ParseError@\d+-\d+: /, '') };
+	}
+
+	private prelude(): string {
+		return [...this.directives, ...this.declarations].join('\n');
+	}
+
+	private returnTypes(script: Script): Map<string, Type | 'void'> {
+		const out = new Map(this.builtinReturnTypes);
+		for (const [name, fn] of script.functions) out.set(name, fn.returnType ?? 'void');
+		return out;
+	}
+}
+
+export function lslReplText(value: Value): string | undefined {
+	if (value.kind === 'unknown') return undefined;
+	return runtime.lslValueString(evalCast('string', value)) ?? undefined;
+}
@@ -0,0 +1,187 @@
+import { LSL_DIAGCODES, type DiagCode } from '../analysisTypes';
+import { parseNumberLiteral } from './numberLiteral';
+import type { Expr, Script, Span, Stmt } from './types';
+import { reachFromState, walkStmt } from './walk';
+
+// In-world resources a state opens without closing or handling: listens, timers, sensors, HTTP requests and
+// permission requests. Each state is analysed with its events and every function they call. A state change
+// closes listens and sensors, but a timer keeps running into the next state.
+
+export interface ResourceIssue {
+	code: DiagCode;
+	message: string;
+	span: Span;
+	// Calls from the event handler down to the function holding `span`, outermost first
+	via: Span[];
+}
+
+type CallExpr = Extract<Expr, { kind: 'Call' }>;
+
+// A call that opens a resource, with the calls leading to it
+interface Site {
+	span: Span;
+	via: Span[];
+}
+
+interface Listen extends Site {
+	// Variable the handle is stored in; null when discarded, undefined when it goes somewhere untracked
+	handle: string | null | undefined;
+}
+
+interface ResourceSummary {
+	listens: Listen[];
+	removedListens: Set<string>;
+	// llListenRemove with a handle that is not a plain variable
+	removesAnyListen: boolean;
+	timers: Site[];
+	sensorRepeats: Site[];
+	removesSensor: boolean;
+	httpRequests: Site[];
+	permissionRequests: Site[];
+	transitions: Set<string>;
+	// First call of each user function
+	callees: Map<string, Span>;
+}
+
+function emptySummary(): ResourceSummary {
+	return {
+		listens: [], removedListens: new Set(), removesAnyListen: false, timers: [], sensorRepeats: [], removesSensor: false,
+		httpRequests: [], permissionRequests: [], transitions: new Set(), callees: new Map(),
+	};
+}
+
+function calleeName(expr: Expr): string | undefined {
+	return expr.kind === 'Call' && expr.callee.kind === 'Identifier' ? expr.callee.name : undefined;
+}
+
+function isZero(expr: Expr): boolean {
+	if (expr.kind === 'Paren') return isZero(expr.expression);
+	return expr.kind === 'NumberLiteral' && parseNumberLiteral(expr.raw)?.value === 0;
+}
+
+function summarize(script: Script, body: Stmt): ResourceSummary {
+	const summary = emptySummary();
+	// llListen calls whose handle is stored in (or dropped by) the statement itself
+	const placed = new Map<CallExpr, string | null>();
+	const onStmt = (stmt: Stmt) => {
+		if (stmt.kind === 'VarDecl' && stmt.initializer?.kind === 'Call' && calleeName(stmt.initializer) === 'llListen') {
+			placed.set(stmt.initializer, stmt.name);
+		} else if (stmt.kind === 'ExprStmt') {
+			const e = stmt.expression;
+			if (e.kind === 'Call' && calleeName(e) === 'llListen') placed.set(e, null);
+			else if (e.kind === 'Binary' && e.op === '=' && e.left.kind === 'Identifier' && e.right.kind === 'Call' && calleeName(e.right) === 'llListen') {
+				placed.set(e.right, e.left.name);
+			}
+		} else if (stmt.kind === 'StateChangeStmt') {
+			summary.transitions.add(stmt.state);
+		}
+	};
+	const onExpr = (expr: Expr) => {
+		const name = calleeName(expr);
+		if (!name || expr.kind !== 'Call') return;
+		if (script.functions.has(name)) {
+			if (!summary.callees.has(name)) summary.callees.set(name, expr.callee.span);
+			return;
+		}
+		switch (name) {
+			case 'llListen':
+				summary.listens.push({ span: expr.callee.span, via: [], handle: placed.has(expr) ? placed.get(expr) : undefined });
+				return;
+			case 'llListenRemove': {
+				const handle = expr.args[0];
+				if (handle?.kind === 'Identifier') summary.removedListens.add(handle.name);
+				else summary.removesAnyListen = true;
+				return;
+			}
+			case 'llSetTimerEvent':
+				if (expr.args[0] && !isZero(expr.args[0])) summary.timers.push({ span: expr.callee.span, via: [] });
+				return;
+			case 'llSensorRepeat': summary.sensorRepeats.push({ span: expr.callee.span, via: [] }); return;
+			case 'llSensorRemove': summary.removesSensor = true; return;
+			case 'llHTTPRequest': summary.httpRequests.push({ span: expr.callee.span, via: [] }); return;
+			case 'llRequestPermissions': summary.permissionRequests.push({ span: expr.callee.span, via: [] }); return;
+		}
+	};
+	walkStmt(body, { stmt: onStmt, expr: onExpr });
+	return summary;
+}
+
+export function analyzeResources(script: Script): ResourceIssue[] {
+	const functionSummaries = new Map<string, ResourceSummary>();
+	for (const fn of script.functions.values()) functionSummaries.set(fn.name, summarize(script, fn.body));
+
+	// A call inside a shared function is reported once, naming every state it leaks in
+	const reported = new Map<string, { code: DiagCode; site: Site; message: (states: string[]) => string; states: string[] }>();
+	const report = (code: DiagCode, site: Site, state: string, message: (states: string[]) => string) => {
+		const key = `${code}:${site.span.file ?? ''}:${site.span.start}`;
+		const known = reported.get(key);
+		if (known) {
+			if (!known.states.includes(state)) known.states.push(state);
+		} else {
+			reported.set(key, { code, site, message, states: [state] });
+		}
+	};
+	const stateList = (states: string[]) => states.length === 1 ? `state ${states[0]}` : `states ${states.join(', ')}`;
+	const has = (states: string[]) => states.length === 1 ? 'has' : 'have';
+
+	const totals = new Map<string, ResourceSummary>();
+	for (const state of script.states.values()) {
+		const total = emptySummary();
+		const withVia = <T extends Site>(sites: T[], via: Span[]) => sites.map(site => ({ ...site, via }));
+		for (const { summary, via } of reachFromState(state, body => summarize(script, body), functionSummaries)) {
+			total.listens.push(...withVia(summary.listens, via));
+			for (const handle of summary.removedListens) total.removedListens.add(handle);
+			total.removesAnyListen ||= summary.removesAnyListen;
+			total.timers.push(...withVia(summary.timers, via));
+			total.sensorRepeats.push(...withVia(summary.sensorRepeats, via));
+			total.removesSensor ||= summary.removesSensor;
+			total.httpRequests.push(...withVia(summary.httpRequests, via));
+			total.permissionRequests.push(...withVia(summary.permissionRequests, via));
+			for (const target of summary.transitions) total.transitions.add(target);
+		}
+		totals.set(state.name, total);
+	}
+
+	// A timer keeps firing after `state X;`, so it is handled when any state it can run into has a timer event
+	const handlesTimer = (name: string): boolean => {
+		const seen = new Set<string>();
+		const queue = [name];
+		while (queue.length) {
+			const current = queue.pop()!;
+			if (seen.has(current)) continue;
+			seen.add(current);
+			if (script.states.get(current)?.events.some(event => event.name === 'timer')) return true;
+			queue.push(...totals.get(current)?.transitions ?? []);
+		}
+		return false;
+	};
+
+	for (const state of script.states.values()) {
+		const events = new Set(state.events.map(event => event.name));
+		const total = totals.get(state.name)!;
+		const changesState = total.transitions.size > 0;
+		// A state that never leaves and never removes listens keeps them on purpose
+		const removesListens = total.removedListens.size > 0 || total.removesAnyListen;
+		for (const listen of total.listens) {
+			if (listen.handle === null && (changesState || removesListens)) {
+				report(LSL_DIAGCODES.LISTEN_HANDLE_DISCARDED, listen, state.name, () => 'llListen handle is discarded, so the listen can never be removed');
+			} else if (listen.handle && !total.removedListens.has(listen.handle) && !total.removesAnyListen && !changesState) {
+				const handle = listen.handle;
+				report(LSL_DIAGCODES.LISTEN_NOT_REMOVED, listen, state.name, states => `Listen stored in ${handle} is never removed with llListenRemove or closed by a state change in ${stateList(states)}`);
+			}
+		}
+		if (!handlesTimer(state.name)) {
+			for (const timer of total.timers) report(LSL_DIAGCODES.TIMER_WITHOUT_EVENT, timer, state.name, states => `llSetTimerEvent in ${stateList(states)}, which ${has(states)} no timer event`);
+		}
+		if (!total.removesSensor && !changesState) {
+			for (const sensor of total.sensorRepeats) report(LSL_DIAGCODES.SENSOR_NOT_REMOVED, sensor, state.name, states => `llSensorRepeat is never stopped with llSensorRemove or a state change in ${stateList(states)}`);
+		}
+		if (!events.has('http_response')) {
+			for (const request of total.httpRequests) report(LSL_DIAGCODES.HTTP_WITHOUT_RESPONSE, request, state.name, states => `llHTTPRequest in ${stateList(states)}, which ${has(states)} no http_response event`);
+		}
+		if (!events.has('run_time_permissions')) {
+			for (const request of total.permissionRequests) report(LSL_DIAGCODES.PERMISSIONS_WITHOUT_EVENT, request, state.name, states => `llRequestPermissions in ${stateList(states)}, which ${has(states)} no run_time_permissions event`);
+		}
+	}
+	return [...reported.values()].map(({ code, site, message, states }) => ({ code, message: message(states), span: site.span, via: site.via }));
+}
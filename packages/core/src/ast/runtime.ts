@@ -24,13 +24,61 @@ const isNum = (v: Value): v is IntVal | FloatVal => v.kind === 'value' && (v.typ
 const isStr = (v: Value): v is StringVal => v.kind === 'value' && v.type === 'string';
 const isVec = (v: Value): v is VectorVal => v.kind === 'value' && v.type === 'vector';
 const isRot = (v: Value): v is RotationVal => v.kind === 'value' && v.type === 'rotation';
-const asFloat = (n: number): FloatVal => ({ kind: 'value', type: 'float', value: n });
+const asFloat = (n: number): FloatVal => ({ kind: 'value', type: 'float', value: lslFloat(n) });
 const asIntVal = (n: number): IntVal => ({ kind: 'value', type: 'integer', value: n | 0 });
 const asStrVal = (s: string): StringVal => ({ kind: 'value', type: 'string', value: s });
-const asVecVal = (v: Vec3): VectorVal => ({ kind: 'value', type: 'vector', value: v });
-const asRotVal = (q: Quat): RotationVal => ({ kind: 'value', type: 'rotation', value: q });
+const asVecVal = (v: Vec3): VectorVal => ({ kind: 'value', type: 'vector', value: v.map(lslFloat) as Vec3 });
+const asRotVal = (q: Quat): RotationVal => ({ kind: 'value', type: 'rotation', value: q.map(lslFloat) as Quat });
 
 const i32 = (n: number) => (n | 0);
+
+// ===== Float precision =====
+// LSL floats and vector/rotation components are single precision (Mono `float`). Results are rounded to
+// float32 unless evaluation runs inside `withFloatPrecision(false, ...)`, which keeps JS doubles.
+let singlePrecision = true;
+
+export function withFloatPrecision<T>(float32: boolean, run: () => T): T {
+	const previous = singlePrecision;
+	singlePrecision = float32;
+	try {
+		return run();
+	} finally {
+		singlePrecision = previous;
+	}
+}
+
+export function lslFloat(n: number): number {
+	return singlePrecision ? Math.fround(n) : n;
+}
+
+// Float -> integer conversion; Mono yields INT_MIN for NaN and out-of-range values instead of wrapping
+export function lslFloatToInteger(n: number): number {
+	if (!singlePrecision) return Math.trunc(n) | 0;
+	return Number.isFinite(n) && n > -2147483649 && n < 2147483648 ? Math.trunc(n) | 0 : -2147483648;
+}
+
+// Mono formats a float with at most 7 significant digits before padding to `decimals`
+export function lslFloatString(n: number, decimals = 6): string {
+	if (!singlePrecision || !Number.isFinite(n) || n === 0) return n.toFixed(decimals);
+	return Number(n.toPrecision(7)).toFixed(decimals);
+}
+
+// Rounds floats, vector/rotation components and list elements to the current precision
+export function lslFloatValue(value: Value): Value {
+	if (!singlePrecision || value.kind !== 'value') return value;
+	switch (value.type) {
+		case 'float':
+			return asFloat(value.value);
+		case 'vector':
+			return asVecVal(value.value);
+		case 'rotation':
+			return asRotVal(value.value);
+		case 'list':
+			return { kind: 'value', type: 'list', value: value.value.map(lslFloatValue) };
+		default:
+			return value;
+	}
+}
 const toU8 = (n: number) => (n & 0xff);
 
 // Quaternion helpers (LSL uses x,y,z,s where s is scalar)
@@ -130,9 +178,9 @@ export function llAtan2(y: Value, x: Value): Value {
 	return asFloat(Math.atan2(y.value, x.value));
 }
 
-export function llCeil(a: Value): Value { if (!isNum(a)) return unknown('integer'); return asIntVal(Math.ceil(a.value)); }
+export function llCeil(a: Value): Value { if (!isNum(a)) return unknown('integer'); return asIntVal(lslFloatToInteger(Math.ceil(a.value))); }
 export function llCos(a: Value): Value { if (!isNum(a)) return unknown('float'); return asFloat(Math.cos(a.value)); }
-export function llFloor(a: Value): Value { if (!isNum(a)) return unknown('integer'); return asIntVal(Math.floor(a.value)); }
+export function llFloor(a: Value): Value { if (!isNum(a)) return unknown('integer'); return asIntVal(lslFloatToInteger(Math.floor(a.value))); }
 export function llLog(a: Value): Value { if (!isNum(a) || a.value <= 0) return unknown('float'); return asFloat(Math.log(a.value)); }
 export function llLog10(a: Value): Value { if (!isNum(a) || a.value <= 0) return unknown('float'); return asFloat(Math.log10(a.value)); }
 export function llPow(a: Value, b: Value): Value { if (!isNum(a) || !isNum(b)) return unknown('float'); return asFloat(Math.pow(a.value, b.value)); }
@@ -142,8 +190,9 @@ export function llTan(a: Value): Value { if (!isNum(a)) return unknown('float');
 export function llRound(a: Value): Value {
 	if (!isNum(a)) return unknown('integer');
 	const n = a.value;
-	const r = n > 0 ? Math.floor(n + 0.5) : Math.ceil(n - 0.5);
-	return asIntVal(r);
+	if (!singlePrecision) return asIntVal(n > 0 ? Math.floor(n + 0.5) : Math.ceil(n - 0.5));
+	// Mono rounds half up via floor(n + 0.5f) in single precision, so llRound(-2.5) == -2 and llRound(0.49999997) == 1
+	return asIntVal(lslFloatToInteger(Math.floor(Math.fround(n + 0.5))));
 }
 
 // ===== String helpers =====
@@ -268,7 +317,7 @@ function isJsonObject(value: JsonValue | undefined): value is { [key: string]: J
 }
 
 function lslNumberString(value: number): string {
-	return Number.isInteger(value) ? String(i32(value)) : value.toFixed(6);
+	return Number.isInteger(value) ? String(i32(value)) : lslFloatString(value);
 }
 
 export function lslValueString(value: Value): string | null {
@@ -277,16 +326,17 @@ export function lslValueString(value: Value): string | null {
 		case 'integer':
 			return String(i32(value.value));
 		case 'float':
-			return value.value.toFixed(6);
+			return lslFloatString(value.value);
 		case 'string':
 		case 'key':
 			return value.value;
 		case 'vector':
-			return `<${value.value.map(component => component.toFixed(6)).join(', ')}>`;
+			return `<${value.value.map(component => lslFloatString(component)).join(', ')}>`;
 		case 'rotation':
-			return `<${value.value.map(component => component.toFixed(6)).join(', ')}>`;
+			return `<${value.value.map(component => lslFloatString(component)).join(', ')}>`;
 		case 'list':
-			return null;
+			// (string)list concatenates the elements with no separator
+			return lslListStrings(value.value)?.join('') ?? null;
 	}
 }
 
@@ -311,7 +361,8 @@ function lslStringListValues(list: Value[]): string[] | null {
 
 function valueAsInteger(value: Value | undefined): number {
 	if (!value || value.kind !== 'value') return 0;
-	if (value.type === 'integer' || value.type === 'float') return i32(value.value);
+	if (value.type === 'integer') return i32(value.value);
+	if (value.type === 'float') return lslFloatToInteger(value.value);
 	if (value.type === 'string' || value.type === 'key') {
 		const m = value.value.trim().match(/^([+-]?0x[0-9a-f]+|[+-]?\d+)/i);
 		return m ? i32(parseInt(m[1]!, 0)) : 0;
@@ -518,7 +569,7 @@ export function llParseStringKeepNulls(src: Value, separators: Value, spacers: V
 function jsonStringify(value: JsonValue): string {
 	if (value === null) return 'null';
 	if (isJsonNumberValue(value)) {
-		return value.forceFloat ? value.value.toFixed(6) : lslNumberString(value.value);
+		return value.forceFloat ? lslFloatString(value.value) : lslNumberString(value.value);
 	}
 	if (typeof value === 'boolean') return value ? 'true' : 'false';
 	if (typeof value === 'number') return lslNumberString(value);
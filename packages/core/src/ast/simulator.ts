@@ -0,0 +1,906 @@
+import { Env, evalBinaryOp, evalCast, evalUnaryOp, type Value } from './eval';
+import type { SimpleType } from './infer';
+import { NULL_KEY_VALUE } from './key';
+import { parseNumberLiteral } from './numberLiteral';
+import * as runtime from './runtime';
+import type { BinOp, Event, Expr, Function as FnNode, Script, Span, Stmt, Type } from './types';
+import { AssertNever } from '../utils';
+
+// Event-driven simulator for a single parsed script. Unlike evalExpr/evalStmt, which fold what they can
+// and give up on anything uncertain, the simulator executes with concrete values, side effects and LSL
+// evaluation order, while routing non-pure ll* calls through a pluggable host.
+
+export interface SimulatorDetected {
+	key?: string;
+	name?: string;
+	owner?: string;
+	linkNumber?: number;
+	touchFace?: number;
+	position?: [number, number, number];
+}
+
+export interface SimulatorEvent {
+	name: string;
+	args: Value[];
+	detected?: SimulatorDetected[];
+}
+
+export interface SimulatorCall {
+	name: string;
+	args: Value[];
+	time: number;
+	state: string;
+	event?: string;
+	span?: Span;
+	result?: Value;
+}
+
+export interface SimulatorListen {
+	handle: number;
+	channel: number;
+	name: string;
+	key: string;
+	message: string;
+	active: boolean;
+}
+
+export interface SimulatorHost {
+	// Return a value to handle the call; undefined falls back to the simulator's built-in behavior.
+	call?(call: SimulatorCall, sim: ScriptSimulator): Value | undefined;
+}
+
+export interface SimulatorFrame {
+	kind: 'event' | 'function';
+	name: string;
+	// File the handler or function was declared in, as recorded by the parser
+	file?: string;
+	parameters: ReadonlyMap<string, Type>;
+	// Innermost scope the frame is executing in
+	env: Env;
+}
+
+export interface SimulatorDebugger {
+	// Called before every statement with the call stack, innermost frame last.
+	statement(stmt: Stmt, frames: readonly SimulatorFrame[], sim: ScriptSimulator): void;
+}
+
+export interface SimulatorOptions {
+	host?: SimulatorHost;
+	debugger?: SimulatorDebugger;
+	builtinConstants?: ReadonlyMap<string, Value>;
+	builtinFunctionReturnTypes?: ReadonlyMap<string, SimpleType>;
+	maxSteps?: number;
+	maxCallDepth?: number;
+	maxQueueLength?: number;
+	seed?: number;
+	unixTime?: number;
+	objectKey?: string;
+	objectName?: string;
+	ownerKey?: string;
+	scriptName?: string;
+}
+
+export class SimulatorError extends Error {
+	constructor(message: string, public span?: Span) {
+		super(message);
+	}
+}
+
+type ResolvedSimulatorOptions = Required<Omit<SimulatorOptions, 'host' | 'debugger' | 'builtinConstants' | 'builtinFunctionReturnTypes'>> & Pick<SimulatorOptions, 'host' | 'debugger' | 'builtinConstants' | 'builtinFunctionReturnTypes'>;
+
+const DEFAULT_OPTIONS: Required<Omit<SimulatorOptions, 'host' | 'debugger' | 'builtinConstants' | 'builtinFunctionReturnTypes'>> = {
+	maxSteps: 100000,
+	maxCallDepth: 256,
+	maxQueueLength: 64,
+	seed: 1,
+	unixTime: 1700000000,
+	objectKey: '00000000-0000-0000-0000-00000000000a',
+	objectName: 'Object',
+	ownerKey: '00000000-0000-0000-0000-00000000000b',
+	scriptName: 'New Script',
+};
+
+class JumpSignal extends Error {
+	constructor(public readonly label: string) { super(`jump ${label}`); }
+}
+
+class StateChangeSignal extends Error {
+	constructor(public readonly state: string) { super(`state ${state}`); }
+}
+
+class ResetSignal extends Error {
+	constructor() { super('llResetScript'); }
+}
+
+class DieSignal extends Error {
+	constructor() { super('llDie'); }
+}
+
+type Completion = { value: Value } | null;
+
+const NO_VALUE: Value = runtime.unknown('integer');
+
+export function defaultValueForType(type: Type): Value {
+	switch (type) {
+		case 'integer': return { kind: 'value', type, value: 0 };
+		case 'float': return { kind: 'value', type, value: 0 };
+		case 'string': return { kind: 'value', type, value: '' };
+		case 'key': return { kind: 'value', type, value: '' };
+		case 'list': return { kind: 'value', type, value: [] };
+		case 'vector': return { kind: 'value', type, value: [0, 0, 0] };
+		case 'rotation': return { kind: 'value', type, value: [0, 0, 0, 1] };
+	}
+}
+
+function integer(value: number): Value {
+	return { kind: 'value', type: 'integer', value: value | 0 };
+}
+
+function float(value: number): Value {
+	return { kind: 'value', type: 'float', value };
+}
+
+function string(value: string): Value {
+	return { kind: 'value', type: 'string', value };
+}
+
+function key(value: string): Value {
+	return { kind: 'value', type: 'key', value };
+}
+
+function vector(value: [number, number, number]): Value {
+	return { kind: 'value', type: 'vector', value };
+}
+
+function wrapInteger(value: Value): Value {
+	return value.kind === 'value' && value.type === 'integer' ? integer(value.value) : value;
+}
+
+function numberOf(value: Value | undefined): number {
+	return value?.kind === 'value' && (value.type === 'integer' || value.type === 'float') ? value.value : 0;
+}
+
+function textOf(value: Value | undefined): string {
+	return value?.kind === 'value' && (value.type === 'string' || value.type === 'key') ? value.value : '';
+}
+
+function parseVectorish(text: string, size: 3 | 4): number[] | null {
+	const parts = /^\s*<([^>]*)>/.exec(text)?.[1]?.split(',');
+	if (!parts || parts.length !== size) return null;
+	const out = parts.map(part => Number.parseFloat(part));
+	return out.every(Number.isFinite) ? out : null;
+}
+
+// Assignment/parameter conversion: implicit integer->float and string<->key; other types are kept as-is
+// because the analyzer already reports mismatches. Keys are not validated as UUIDs at runtime.
+function coerceTo(value: Value, type: Type, truncate = false): Value {
+	if (value.kind === 'unknown') return runtime.unknown(type);
+	if (value.type === type) return value;
+	if (type === 'float' && value.type === 'integer') return float(value.value);
+	if (type === 'integer' && value.type === 'float' && truncate) return integer(Math.trunc(value.value));
+	if (type === 'string' && value.type === 'key') return string(value.value);
+	if (type === 'key' && value.type === 'string') return key(value.value);
+	return value;
+}
+
+function isTruthy(value: Value): boolean | null {
+	if (value.kind !== 'value') return null;
+	switch (value.type) {
+		case 'integer':
+		case 'float':
+			return value.value !== 0;
+		case 'string':
+			return value.value.length !== 0;
+		case 'key':
+			return value.value !== '' && value.value !== NULL_KEY_VALUE && /^[0-9a-f]{8}-(?:[0-9a-f]{4}-){3}[0-9a-f]{12}$/i.test(value.value);
+		case 'list':
+			return value.value.length !== 0;
+		case 'vector':
+			return value.value.some(component => component !== 0);
+		case 'rotation':
+			return value.value[0] !== 0 || value.value[1] !== 0 || value.value[2] !== 0 || value.value[3] !== 1;
+	}
+}
+
+function castValue(type: Type, inner: Value): Value {
+	if (inner.kind === 'unknown') return runtime.unknown(type);
+	if (inner.type === type) return inner;
+	if (type === 'string' && inner.type === 'list') {
+		const parts = inner.value.map(item => runtime.lslValueString(item));
+		return parts.some(part => part === null) ? runtime.unknown('string') : string(parts.join(''));
+	}
+	if (type === 'key' && inner.type === 'string') return key(inner.value);
+	const source = inner.type === 'key' ? string(inner.value) : inner;
+	if ((type === 'vector' || type === 'rotation') && source.kind === 'value' && source.type === 'string') {
+		const parsed = parseVectorish(source.value, type === 'vector' ? 3 : 4);
+		if (!parsed) return defaultValueForType(type);
+		return type === 'vector'
+			? { kind: 'value', type, value: parsed as [number, number, number] }
+			: { kind: 'value', type, value: parsed as [number, number, number, number] };
+	}
+	const out = evalCast(type, source);
+	// LSL yields zero for unparsable numeric strings rather than failing.
+	if (out.kind === 'unknown' && source.kind === 'value' && source.type === 'string' && (type === 'integer' || type === 'float')) {
+		return defaultValueForType(type);
+	}
+	return wrapInteger(out);
+}
+
+function binaryValue(op: BinOp, l: Value, r: Value, span: Span): Value {
+	if (op === '+' && (l.type === 'list' || r.type === 'list')) {
+		if (l.kind === 'unknown' || r.kind === 'unknown') return runtime.unknown('list');
+		const left = l.type === 'list' ? l.value : [l];
+		const right = r.type === 'list' ? r.value : [r];
+		return { kind: 'value', type: 'list', value: [...left, ...right] };
+	}
+	if (op === '+' && l.kind === 'value' && r.kind === 'value' && (l.type === 'string' || l.type === 'key') && (r.type === 'string' || r.type === 'key')) {
+		return string(l.value + r.value);
+	}
+	if ((op === '/' || op === '%') && r.kind === 'value' && (r.type === 'integer' || r.type === 'float') && r.value === 0
+		&& l.kind === 'value' && (l.type === 'integer' || l.type === 'float' || l.type === 'vector' || l.type === 'rotation')) {
+		throw new SimulatorError('Math Error', span);
+	}
+	if (op === '*' && l.kind === 'value' && l.type === 'integer' && r.kind === 'value' && r.type === 'integer') {
+		return integer(Math.imul(l.value, r.value));
+	}
+	if (op === '/' && l.kind === 'value' && l.type === 'integer' && r.kind === 'value' && r.type === 'integer' && l.value === -2147483648 && r.value === -1) {
+		return integer(l.value);
+	}
+	return wrapInteger(evalBinaryOp(op, l, r));
+}
+
+// AST spans are offsets into the file that declared the node; remember which one for errors.
+function withOriginFile(err: unknown, file: string | undefined): unknown {
+	if (err instanceof SimulatorError && err.span && !err.span.file && file && file !== '<unknown>') {
+		err.span = { ...err.span, file };
+	}
+	return err;
+}
+
+function mulberry32(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+export class ScriptSimulator {
+	readonly calls: SimulatorCall[] = [];
+	private readonly opts: ResolvedSimulatorOptions;
+	private readonly globals: Env;
+	private readonly functionReturnTypes = new Map<string, Type | 'void'>();
+	private readonly queue: SimulatorEvent[] = [];
+	private readonly listenHandles = new Map<number, SimulatorListen>();
+	private readonly frames: SimulatorFrame[] = [];
+	private readonly random: () => number;
+	private currentState = 'default';
+	private currentEvent: SimulatorEvent | undefined;
+	private started = false;
+	private _halted = false;
+	private _error: SimulatorError | undefined;
+	private now = 0;
+	private timeResetAt = 0;
+	private timerInterval = 0;
+	private nextTimerAt = Infinity;
+	private nextListenHandle = 1;
+	private steps = 0;
+	private callDepth = 0;
+
+	constructor(readonly script: Script, options: SimulatorOptions = {}) {
+		this.opts = { ...DEFAULT_OPTIONS, ...options };
+		this.random = mulberry32(this.opts.seed);
+		for (const [name, fn] of script.functions) this.functionReturnTypes.set(name, fn.returnType ?? 'void');
+		const constants = new Env(new Map(this.opts.builtinConstants ?? []));
+		this.globals = new Env(new Map(), this.functionReturnTypes, script.functions, new Set(), constants);
+	}
+
+	get state(): string {
+		return this.currentState;
+	}
+
+	get time(): number {
+		return this.now;
+	}
+
+	get halted(): boolean {
+		return this._halted;
+	}
+
+	get error(): SimulatorError | undefined {
+		return this._error;
+	}
+
+	get timer(): number {
+		return this.timerInterval;
+	}
+
+	get listens(): readonly SimulatorListen[] {
+		return [...this.listenHandles.values()];
+	}
+
+	get pendingEvents(): readonly SimulatorEvent[] {
+		return this.queue;
+	}
+
+	// Initialize globals, enter the default state and run until the event queue drains.
+	start(): this {
+		this.reset();
+		this.run();
+		return this;
+	}
+
+	// Reinitialize globals and queue default's state_entry without running it.
+	reset(): this {
+		this.started = true;
+		this._halted = false;
+		this._error = undefined;
+		this.resetScript();
+		return this;
+	}
+
+	queueEvent(name: string, args: Value[] = [], detected?: SimulatorDetected[]): boolean {
+		if (this._halted) return false;
+		const handler = this.findHandler(name);
+		if (!handler) return false;
+		if (this.queue.length >= this.opts.maxQueueLength) return false;
+		if (name === 'timer' && this.queue.some(event => event.name === 'timer')) return false;
+		const types = [...handler.parameters.values()];
+		this.queue.push({ name, args: types.map((type, i) => coerceTo(args[i] ?? defaultValueForType(type), type)), detected });
+		return true;
+	}
+
+	// Dispatch a single queued event; returns false when there was nothing to run.
+	step(): boolean {
+		if (!this.started) throw new SimulatorError('simulator has not been started');
+		if (this._halted || this.queue.length === 0) return false;
+		this.dispatch(this.queue.shift()!);
+		this.queueDueTimer();
+		return true;
+	}
+
+	// Dispatch queued events in order; returns how many handlers ran.
+	run(): number {
+		let count = 0;
+		while (this.step()) count++;
+		return count;
+	}
+
+	get nextTimer(): number {
+		return this.nextTimerAt;
+	}
+
+	// Move the clock to an absolute time (never backwards) and queue the timer event if it fell due.
+	setClock(time: number): void {
+		this.now = Math.max(this.now, time);
+		this.queueDueTimer();
+	}
+
+	// Move the virtual clock forward, firing timer events that fall due on the way.
+	advance(seconds: number): number {
+		const target = this.now + Math.max(0, seconds);
+		let count = this.run();
+		while (!this._halted && this.nextTimerAt <= target) {
+			this.setClock(this.nextTimerAt);
+			count += this.run();
+		}
+		this.setClock(target);
+		return count + this.run();
+	}
+
+	touch(detected: SimulatorDetected = {}): number {
+		const avatar = [{ key: this.opts.ownerKey, name: 'Owner', owner: this.opts.ownerKey, linkNumber: 0, touchFace: 0, ...detected }];
+		for (const name of ['touch_start', 'touch', 'touch_end']) this.queueEvent(name, [integer(1)], avatar);
+		return this.run();
+	}
+
+	// Queue a listen event if any active listen matches; returns whether the message was heard.
+	hear(channel: number, name: string, id: string, message: string): boolean {
+		const heard = [...this.listenHandles.values()].some(listen => listen.active
+			&& listen.channel === channel
+			&& (listen.name === '' || listen.name === name)
+			&& (listen.key === '' || listen.key === NULL_KEY_VALUE || listen.key === id)
+			&& (listen.message === '' || listen.message === message));
+		return heard && this.queueEvent('listen', [integer(channel), string(name), key(id), string(message)]);
+	}
+
+	chat(channel: number, name: string, id: string, message: string): number {
+		this.hear(channel, name, id, message);
+		return this.run();
+	}
+
+	linkMessage(sender: number, num: number, str: string, id: string): number {
+		this.queueEvent('link_message', [integer(sender), integer(num), string(str), key(id)]);
+		return this.run();
+	}
+
+	httpResponse(requestId: string, status: number, metadata: Value[], body: string): number {
+		this.queueEvent('http_response', [key(requestId), integer(status), { kind: 'value', type: 'list', value: metadata }, string(body)]);
+		return this.run();
+	}
+
+	// Switch states as `state target;` would: state_exit runs now and state_entry is queued.
+	enterState(target: string): void {
+		if (!this.started) throw new SimulatorError('simulator has not been started');
+		if (this._halted) return;
+		this.steps = 0;
+		try {
+			this.changeState(target);
+		} catch (sig: unknown) {
+			this.handleSignal(sig);
+		}
+	}
+
+	getGlobal(name: string): Value | undefined {
+		return this.script.globals.has(name) ? this.globals.getVar(name) : undefined;
+	}
+
+	// Locals and parameters visible in a frame handed to the debugger, without globals
+	frameVariables(frame: SimulatorFrame): Map<string, Value> {
+		return frame.env.visibleVars(this.globals);
+	}
+
+	setGlobal(name: string, value: Value): void {
+		const global = this.script.globals.get(name);
+		if (!global) throw new SimulatorError(`unknown global '${name}'`);
+		this.globals.setVar(name, coerceTo(value, global.varType));
+	}
+
+	// Call a user-defined function directly (also usable from a host while an event runs).
+	// Runtime errors are thrown rather than halting the script.
+	callFunction(name: string, args: Value[] = []): Value {
+		const fn = this.script.functions.get(name);
+		if (!fn) throw new SimulatorError(`unknown function '${name}'`);
+		if (this.currentEvent || this.callDepth > 0) return this.invokeUser(fn, args);
+		this.steps = 0;
+		try {
+			return this.invokeUser(fn, args);
+		} catch (sig: unknown) {
+			if (sig instanceof StateChangeSignal) {
+				this.changeState(sig.state);
+				return NO_VALUE;
+			}
+			if (sig instanceof ResetSignal) {
+				this.resetScript();
+				return NO_VALUE;
+			}
+			if (sig instanceof DieSignal) {
+				this._halted = true;
+				return NO_VALUE;
+			}
+			throw sig;
+		}
+	}
+
+	private findHandler(name: string): Event | undefined {
+		return this.script.states.get(this.currentState)?.events.find(event => event.name === name);
+	}
+
+	private resetScript(): void {
+		this.queue.length = 0;
+		this.listenHandles.clear();
+		this.timerInterval = 0;
+		this.nextTimerAt = Infinity;
+		this.timeResetAt = this.now;
+		this.currentState = 'default';
+		this.currentEvent = undefined;
+		for (const global of this.script.globals.values()) {
+			const value = global.initializer ? this.evalExpr(global.initializer, this.globals) : defaultValueForType(global.varType);
+			this.globals.setVar(global.name, coerceTo(value, global.varType));
+		}
+		this.queueEvent('state_entry');
+	}
+
+	private changeState(target: string): void {
+		if (target === this.currentState) return;
+		if (!this.script.states.has(target)) throw new SimulatorError(`unknown state '${target}'`);
+		const exit = this.findHandler('state_exit');
+		if (exit) {
+			try {
+				this.runHandler(exit, { name: 'state_exit', args: [] });
+			} catch (sig: unknown) {
+				// State changes inside state_exit are ignored.
+				if (!(sig instanceof StateChangeSignal)) throw sig;
+			}
+		}
+		this.queue.length = 0;
+		this.listenHandles.clear();
+		this.currentState = target;
+		this.queueEvent('state_entry');
+	}
+
+	private dispatch(event: SimulatorEvent): void {
+		const handler = this.findHandler(event.name);
+		if (!handler) return;
+		this.steps = 0;
+		try {
+			this.runHandler(handler, event);
+		} catch (sig: unknown) {
+			this.handleSignal(sig);
+		}
+	}
+
+	private handleSignal(sig: unknown): void {
+		try {
+			if (sig instanceof StateChangeSignal) {
+				this.changeState(sig.state);
+				return;
+			}
+			if (sig instanceof ResetSignal) {
+				this.resetScript();
+				return;
+			}
+			if (sig instanceof JumpSignal) throw new SimulatorError(`unknown label '${sig.label}'`);
+			throw sig;
+		} catch (err: unknown) {
+			if (err instanceof DieSignal) {
+				this._halted = true;
+				return;
+			}
+			if (err instanceof SimulatorError) {
+				this._error = err;
+				this._halted = true;
+				return;
+			}
+			throw err;
+		}
+	}
+
+	private runHandler(handler: Event, event: SimulatorEvent): void {
+		const previous = this.currentEvent;
+		this.currentEvent = event;
+		const env = this.globals.child();
+		const file = handler.originFile ?? this.script.states.get(this.currentState)?.originFile;
+		this.frames.push({ kind: 'event', name: handler.name, file, parameters: handler.parameters, env });
+		try {
+			let index = 0;
+			for (const [name, type] of handler.parameters) {
+				env.setVar(name, coerceTo(event.args[index] ?? defaultValueForType(type), type));
+				index++;
+			}
+			this.execStmt(handler.body, env);
+		} catch (err: unknown) {
+			throw withOriginFile(err, file);
+		} finally {
+			this.frames.pop();
+			this.currentEvent = previous;
+		}
+	}
+
+	private queueDueTimer(): void {
+		if (this.timerInterval <= 0 || this.nextTimerAt > this.now) return;
+		this.nextTimerAt = this.now + this.timerInterval;
+		this.queueEvent('timer');
+	}
+
+	private tick(span: Span): void {
+		if (++this.steps > this.opts.maxSteps) throw new SimulatorError('step limit exceeded', span);
+	}
+
+	private invokeUser(fn: FnNode, args: Value[]): Value {
+		if (this.callDepth >= this.opts.maxCallDepth) throw new SimulatorError('Stack-Heap Collision', fn.span);
+		const env = this.globals.child();
+		let index = 0;
+		for (const [name, type] of fn.parameters) {
+			env.setVar(name, coerceTo(args[index] ?? defaultValueForType(type), type));
+			index++;
+		}
+		this.callDepth++;
+		this.frames.push({ kind: 'function', name: fn.name, file: fn.originFile, parameters: fn.parameters, env });
+		try {
+			const done = this.execStmt(fn.body, env);
+			if (!fn.returnType || fn.returnType === 'void') return NO_VALUE;
+			return coerceTo(done?.value ?? defaultValueForType(fn.returnType), fn.returnType);
+		} catch (err: unknown) {
+			throw withOriginFile(err, fn.originFile);
+		} finally {
+			this.frames.pop();
+			this.callDepth--;
+		}
+	}
+
+	private condition(expr: Expr, env: Env): boolean {
+		const truthy = isTruthy(this.evalExpr(expr, env));
+		if (truthy === null) throw new SimulatorError('condition depends on an unknown value', expr.span);
+		return truthy;
+	}
+
+	private execStmt(stmt: Stmt, env: Env): Completion {
+		this.tick(stmt.span);
+		if (this.opts.debugger) {
+			this.frames[this.frames.length - 1]!.env = env;
+			this.opts.debugger.statement(stmt, this.frames, this);
+		}
+		switch (stmt.kind) {
+			case 'ErrorStmt':
+			case 'EmptyStmt':
+			case 'LabelStmt':
+				return null;
+
+			case 'ExprStmt':
+				this.evalExpr(stmt.expression, env);
+				return null;
+
+			case 'VarDecl': {
+				const value = stmt.initializer ? this.evalExpr(stmt.initializer, env) : defaultValueForType(stmt.varType);
+				env.setVar(stmt.name, coerceTo(value, stmt.varType));
+				return null;
+			}
+
+			case 'ReturnStmt':
+				return { value: stmt.expression ? this.evalExpr(stmt.expression, env) : NO_VALUE };
+
+			case 'IfStmt':
+				if (this.condition(stmt.condition, env)) return this.execStmt(stmt.then, env.child());
+				return stmt.else ? this.execStmt(stmt.else, env.child()) : null;
+
+			case 'WhileStmt':
+				while (this.condition(stmt.condition, env)) {
+					const done = this.execStmt(stmt.body, env.child());
+					if (done) return done;
+				}
+				return null;
+
+			case 'DoWhileStmt':
+				do {
+					const done = this.execStmt(stmt.body, env.child());
+					if (done) return done;
+				} while (this.condition(stmt.condition, env));
+				return null;
+
+			case 'ForStmt':
+				if (stmt.init) this.evalExpr(stmt.init, env);
+				while (!stmt.condition || this.condition(stmt.condition, env)) {
+					const done = this.execStmt(stmt.body, env.child());
+					if (done) return done;
+					if (stmt.update) this.evalExpr(stmt.update, env);
+					this.tick(stmt.span);
+				}
+				return null;
+
+			case 'JumpStmt': {
+				const target = stmt.target.kind === 'Identifier' ? stmt.target.name : null;
+				if (!target) throw new SimulatorError('unsupported jump target', stmt.span);
+				throw new JumpSignal(target);
+			}
+
+			case 'StateChangeStmt':
+				throw new StateChangeSignal(stmt.state);
+
+			case 'BlockStmt': {
+				const inner = env.child();
+				const labels = new Map<string, number>();
+				stmt.statements.forEach((s, i) => { if (s.kind === 'LabelStmt') labels.set(s.name, i); });
+				for (let pc = 0; pc < stmt.statements.length; pc++) {
+					try {
+						const done = this.execStmt(stmt.statements[pc]!, inner);
+						if (done) return done;
+					} catch (sig: unknown) {
+						const target = sig instanceof JumpSignal ? labels.get(sig.label) : undefined;
+						if (target === undefined) throw sig;
+						pc = target;
+					}
+				}
+				return null;
+			}
+		}
+		AssertNever(stmt, 'Unreachable statement');
+		return null;
+	}
+
+	private evalExpr(expr: Expr, env: Env): Value {
+		switch (expr.kind) {
+			case 'ErrorExpr':
+				throw new SimulatorError('cannot execute an invalid expression', expr.span);
+
+			case 'Paren':
+				return this.evalExpr(expr.expression, env);
+
+			case 'StringLiteral':
+				return string(expr.value);
+
+			case 'NumberLiteral': {
+				const parsed = parseNumberLiteral(expr.raw);
+				if (!parsed) throw new SimulatorError(`invalid number '${expr.raw}'`, expr.span);
+				return parsed.type === 'integer' ? integer(parsed.value) : float(parsed.value);
+			}
+
+			case 'VectorLiteral': {
+				const components = expr.elements.map(element => this.evalExpr(element, env));
+				if (components.some(c => c.kind === 'unknown')) return runtime.unknown(components.length === 4 ? 'rotation' : 'vector');
+				const nums = components.map(numberOf);
+				return nums.length === 4
+					? { kind: 'value', type: 'rotation', value: nums as [number, number, number, number] }
+					: vector(nums as [number, number, number]);
+			}
+
+			case 'ListLiteral':
+				return { kind: 'value', type: 'list', value: expr.elements.map(element => this.evalExpr(element, env)) };
+
+			case 'Identifier': {
+				const value = env.getVar(expr.name);
+				if (!value) throw new SimulatorError(`'${expr.name}' is not defined`, expr.span);
+				return value;
+			}
+
+			case 'Member':
+				return this.readMember(this.evalExpr(expr.object, env), expr.property, expr.span);
+
+			case 'Cast':
+				return castValue(expr.type, this.evalExpr(expr.argument, env));
+
+			case 'Unary': {
+				if (expr.op === '++' || expr.op === '--') {
+					const current = this.evalExpr(expr.argument, env);
+					const next = binaryValue(expr.op === '++' ? '+' : '-', current, current.type === 'float' ? float(1) : integer(1), expr.span);
+					const stored = this.assign(expr.argument, next, env, true);
+					return expr.postfix ? current : stored;
+				}
+				const value = this.evalExpr(expr.argument, env);
+				if (expr.op === '-' && value.kind === 'value' && (value.type === 'vector' || value.type === 'rotation')) {
+					return { ...value, value: value.value.map(component => -component) } as Value;
+				}
+				if (expr.op === '!') {
+					const truthy = isTruthy(value);
+					return truthy === null ? runtime.unknown('integer') : integer(truthy ? 0 : 1);
+				}
+				return wrapInteger(evalUnaryOp(expr.op, value));
+			}
+
+			case 'Binary': {
+				// LSL evaluates the right operand before the left one.
+				const right = this.evalExpr(expr.right, env);
+				if (expr.op === '=') return this.assign(expr.left, right, env, false);
+				if (expr.op === '+=' || expr.op === '-=' || expr.op === '*=' || expr.op === '/=' || expr.op === '%=') {
+					const current = this.evalExpr(expr.left, env);
+					const op = expr.op.slice(0, 1) as BinOp;
+					return this.assign(expr.left, binaryValue(op, current, right, expr.span), env, true);
+				}
+				const left = this.evalExpr(expr.left, env);
+				return binaryValue(expr.op, left, right, expr.span);
+			}
+
+			case 'Call': {
+				if (expr.callee.kind !== 'Identifier') throw new SimulatorError('unsupported call target', expr.span);
+				const args = expr.args.map(arg => this.evalExpr(arg, env));
+				this.tick(expr.span);
+				const fn = this.script.functions.get(expr.callee.name);
+				if (fn) return this.invokeUser(fn, args);
+				return this.callBuiltin(expr.callee.name, args, expr.span);
+			}
+		}
+		AssertNever(expr);
+		return NO_VALUE;
+	}
+
+	private readMember(object: Value, property: string, span: Span): Value {
+		if (object.kind === 'unknown') return runtime.unknown('float');
+		if (object.type !== 'vector' && object.type !== 'rotation') throw new SimulatorError(`cannot read .${property} of ${object.type}`, span);
+		const index = 'xyzs'.indexOf(property);
+		const component = object.value[index];
+		if (index < 0 || component === undefined) throw new SimulatorError(`cannot read .${property} of ${object.type}`, span);
+		return float(component);
+	}
+
+	private assign(target: Expr, value: Value, env: Env, compound: boolean): Value {
+		if (target.kind === 'Identifier') {
+			const current = env.getVar(target.name);
+			if (!current) throw new SimulatorError(`'${target.name}' is not defined`, target.span);
+			const stored = coerceTo(value, current.type, compound);
+			env.setExistingOrLocal(target.name, stored);
+			return stored;
+		}
+		if (target.kind === 'Member' && target.object.kind === 'Identifier') {
+			const object = env.getVar(target.object.name);
+			const index = 'xyzs'.indexOf(target.property);
+			if (!object || object.kind !== 'value' || (object.type !== 'vector' && object.type !== 'rotation') || index < 0 || index >= object.value.length) {
+				throw new SimulatorError(`cannot assign .${target.property}`, target.span);
+			}
+			const component = coerceTo(value, 'float');
+			if (component.kind !== 'value' || component.type !== 'float') throw new SimulatorError(`cannot assign .${target.property}`, target.span);
+			const next = [...object.value];
+			next[index] = component.value;
+			env.setExistingOrLocal(target.object.name, { ...object, value: next } as Value);
+			return component;
+		}
+		throw new SimulatorError('invalid assignment target', target.span);
+	}
+
+	private callBuiltin(name: string, args: Value[], span: Span): Value {
+		const call: SimulatorCall = { name, args, time: this.now, state: this.currentState, event: this.currentEvent?.name, span };
+		const hosted = this.opts.host?.call?.(call, this);
+		if (hosted !== undefined) {
+			call.result = hosted;
+			this.calls.push(call);
+			return hosted;
+		}
+		const pure = (runtime as Record<string, unknown>)[name];
+		if (name.startsWith('ll') && typeof pure === 'function') {
+			return (pure as (...values: Value[]) => Value)(...args);
+		}
+		this.calls.push(call);
+		call.result = this.builtinStub(name, args, span);
+		return call.result;
+	}
+
+	private builtinStub(name: string, args: Value[], span: Span): Value {
+		const detected = this.currentEvent?.detected?.[numberOf(args[0])];
+		switch (name) {
+			case 'llSetTimerEvent':
+				this.timerInterval = Math.max(0, numberOf(args[0]));
+				this.nextTimerAt = this.timerInterval > 0 ? this.now + this.timerInterval : Infinity;
+				return NO_VALUE;
+			case 'llListen': {
+				const handle = this.nextListenHandle++;
+				this.listenHandles.set(handle, { handle, channel: numberOf(args[0]) | 0, name: textOf(args[1]), key: textOf(args[2]), message: textOf(args[3]), active: true });
+				return integer(handle);
+			}
+			case 'llListenRemove':
+				this.listenHandles.delete(numberOf(args[0]));
+				return NO_VALUE;
+			case 'llListenControl': {
+				const listen = this.listenHandles.get(numberOf(args[0]));
+				if (listen) listen.active = numberOf(args[1]) !== 0;
+				return NO_VALUE;
+			}
+			case 'llGetTime':
+				return float(this.now - this.timeResetAt);
+			case 'llResetTime':
+				this.timeResetAt = this.now;
+				return NO_VALUE;
+			case 'llGetAndResetTime': {
+				const elapsed = this.now - this.timeResetAt;
+				this.timeResetAt = this.now;
+				return float(elapsed);
+			}
+			case 'llGetUnixTime':
+				return integer(Math.floor(this.opts.unixTime + this.now));
+			case 'llSleep':
+				this.now += Math.max(0, numberOf(args[0]));
+				return NO_VALUE;
+			case 'llFrand':
+				return float(this.random() * numberOf(args[0]));
+			case 'llGenerateKey':
+			case 'llHTTPRequest':
+				return key(this.generateKey());
+			case 'llGetKey':
+				return key(this.opts.objectKey);
+			case 'llGetOwner':
+				return key(this.opts.ownerKey);
+			case 'llGetObjectName':
+				return string(this.opts.objectName);
+			case 'llGetScriptName':
+				return string(this.opts.scriptName);
+			case 'llResetScript':
+				throw new ResetSignal();
+			case 'llDie':
+				throw new DieSignal();
+			case 'llDetectedKey':
+				return key(detected?.key ?? NULL_KEY_VALUE);
+			case 'llDetectedName':
+				return string(detected?.name ?? '');
+			case 'llDetectedOwner':
+				return key(detected?.owner ?? NULL_KEY_VALUE);
+			case 'llDetectedLinkNumber':
+				return integer(detected?.linkNumber ?? 0);
+			case 'llDetectedTouchFace':
+				return integer(detected?.touchFace ?? -1);
+			case 'llDetectedPos':
+				return vector(detected?.position ?? [0, 0, 0]);
+		}
+		const returnType = this.opts.builtinFunctionReturnTypes?.get(name);
+		if (!returnType) {
+			if (!name.startsWith('ll')) throw new SimulatorError(`unknown function '${name}'`, span);
+			return NO_VALUE;
+		}
+		return returnType === 'void' || returnType === 'any' ? NO_VALUE : defaultValueForType(returnType);
+	}
+
+	private generateKey(): string {
+		const hex = Array.from({ length: 32 }, () => Math.floor(this.random() * 16).toString(16)).join('');
+		return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+	}
+}
@@ -0,0 +1,72 @@
+import { isType, type Expr, type Type } from './types';
+import { parseNumberLiteral } from './numberLiteral';
+
+// Strided lists annotated in their doc comment: `/** @stride string key integer */ list records;`
+// holds records of one string, one key and one integer each.
+
+export function parseStrideAnnotation(comment: string | undefined): Type[] | undefined {
+	const m = comment ? /@stride\b([^\n]*)/.exec(comment) : null;
+	if (!m) return undefined;
+	const shape: Type[] = [];
+	for (const word of m[1]!.split(/[\s,]+/)) {
+		if (!word) continue;
+		if (!isType(word) || word === 'list') break;
+		shape.push(word);
+	}
+	return shape.length ? shape : undefined;
+}
+
+export function formatStride(shape: ReadonlyArray<Type>): string {
+	return `@stride ${shape.join(' ')}`;
+}
+
+// Element types each typed accessor reads without a silent conversion
+export const STRIDED_ACCESSORS: Readonly<Record<string, ReadonlyArray<Type>>> = {
+	llList2String: ['string', 'key'],
+	llList2Key: ['key', 'string'],
+	llList2Integer: ['integer'],
+	llList2Float: ['float', 'integer'],
+	llList2Vector: ['vector'],
+	llList2Rot: ['rotation'],
+};
+
+// Index of the stride argument of functions taking one, after the list itself at index 0
+export const STRIDE_ARGUMENTS: Readonly<Record<string, number>> = {
+	llListSort: 1,
+	llListSortStrided: 1,
+	llList2ListStrided: 3,
+	llListFindStrided: 4,
+};
+
+const mod = (n: number, stride: number) => ((n % stride) + stride) % stride;
+
+// Position within a record addressed by an index like `i * 3 + 2`, or undefined when it cannot be told.
+// `constant` resolves subexpressions with a known value (constants, folded locals).
+export function strideOffset(expr: Expr, stride: number, constant: (expr: Expr) => number | undefined): number | undefined {
+	const known = constant(expr);
+	if (known !== undefined) return mod(known, stride);
+	switch (expr.kind) {
+		case 'Paren': return strideOffset(expr.expression, stride, constant);
+		case 'NumberLiteral': {
+			const parsed = parseNumberLiteral(expr.raw);
+			return parsed?.type === 'integer' ? mod(parsed.value, stride) : undefined;
+		}
+		case 'Unary': {
+			if (expr.op !== '-') return undefined;
+			const value = strideOffset(expr.argument, stride, constant);
+			return value === undefined ? undefined : mod(-value, stride);
+		}
+		case 'Binary': {
+			const left = strideOffset(expr.left, stride, constant);
+			const right = strideOffset(expr.right, stride, constant);
+			// `i * stride` starts a record whatever `i` is
+			if (expr.op === '*' && (left === 0 || right === 0)) return 0;
+			if (left === undefined || right === undefined) return undefined;
+			if (expr.op === '+') return mod(left + right, stride);
+			if (expr.op === '-') return mod(left - right, stride);
+			if (expr.op === '*') return mod(left * right, stride);
+			return undefined;
+		}
+		default: return undefined;
+	}
+}
@@ -0,0 +1,195 @@
+import { Defs, type DefFunction, type DefParam } from '../defs';
+import type { Value } from './eval';
+import * as runtime from './runtime';
+import { ScriptSimulator, SimulatorError, type SimulatorHost, type SimulatorOptions } from './simulator';
+import type { Script, Span } from './types';
+
+// Unit tests for LSL: every `test_*` function runs in a fresh simulator after the default state_entry.
+// Assertions are plain calls resolved by the test host, so test files need no extra declarations:
+//   assertEqual(a, b[, message]), assertNotEqual(a, b[, message]), assertTrue(value[, message]),
+//   assertFalse(value[, message]), assertNear(a, b, epsilon[, message]), fail(message)
+// `callCount("llSay")` returns how often a builtin was called so far, and defining `mock_llFoo(...)`
+// in the script replaces `llFoo` for the duration of the test.
+// The analyzer declares these calls as builtins in `*.test.lsl` files, see lslTestDefs.
+
+export type LslTestStatus = 'passed' | 'failed' | 'error';
+
+export interface LslTestFailure {
+	message: string;
+	span?: Span;
+}
+
+export interface LslTestCaseResult {
+	name: string;
+	status: LslTestStatus;
+	assertions: number;
+	durationMs: number;
+	failure?: LslTestFailure;
+}
+
+export interface LslTestOptions extends Omit<SimulatorOptions, 'host'> {
+	host?: SimulatorHost;
+	// Run the script's default state_entry as a single test when it declares no test_ functions.
+	wholeScript?: boolean;
+}
+
+class LslAssertionError extends SimulatorError {}
+
+const NO_RESULT: Value = runtime.unknown('integer');
+
+const testParam = (name: string, type = 'any'): DefParam => ({ name, type });
+// Each assertion takes an optional trailing message, declared as an overload
+const testAssertion = (name: string, params: DefParam[], doc: string): DefFunction => ({
+	name,
+	returns: 'void',
+	params,
+	doc,
+	overloads: [{ name, returns: 'void', params: [...params, testParam('message', 'string')], doc }],
+});
+const TEST_FUNCTIONS: DefFunction[] = [
+	testAssertion('assertEqual', [testParam('a'), testParam('b')], 'Fails the test unless a equals b.'),
+	testAssertion('assertNotEqual', [testParam('a'), testParam('b')], 'Fails the test if a equals b.'),
+	testAssertion('assertTrue', [testParam('value', 'integer')], 'Fails the test unless value is TRUE.'),
+	testAssertion('assertFalse', [testParam('value', 'integer')], 'Fails the test unless value is FALSE.'),
+	testAssertion('assertNear', [testParam('a'), testParam('b'), testParam('epsilon', 'float')], 'Fails the test unless a is within epsilon of b.'),
+	{ name: 'fail', returns: 'void', params: [testParam('message', 'string')], doc: 'Fails the test.' },
+	{ name: 'callCount', returns: 'integer', params: [testParam('name', 'string')], doc: 'How often the named builtin was called so far in this test.' },
+];
+
+export function isLslTestFile(file: string): boolean {
+	return file.endsWith('.test.lsl');
+}
+
+const testDefsCache = new WeakMap<Defs, Defs>();
+
+// Builtins of test files: `defs` plus the calls the test host resolves
+export function lslTestDefs(defs: Defs): Defs {
+	let out = testDefsCache.get(defs);
+	if (!out) {
+		out = new Defs({ ...defs.file, functions: [...defs.file.functions, ...TEST_FUNCTIONS] });
+		testDefsCache.set(defs, out);
+	}
+	return out;
+}
+
+export function runLslTests(script: Script, options: LslTestOptions = {}): LslTestCaseResult[] {
+	const names = [...script.functions.keys()].filter(name => name.startsWith('test_'));
+	if (names.length === 0) {
+		return options.wholeScript ? [runLslTestCase('state_entry', script, options, () => undefined)] : [];
+	}
+	return names.map(name => runLslTestCase(name, script, options, sim => sim.callFunction(name)));
+}
+
+function runLslTestCase(name: string, script: Script, options: LslTestOptions, body: (sim: ScriptSimulator) => unknown): LslTestCaseResult {
+	const counter = { assertions: 0 };
+	const startedAt = Date.now();
+	const sim = new ScriptSimulator(script, { ...options, host: testHost(counter, options.host) });
+	let failure: unknown;
+	try {
+		sim.start();
+		if (sim.error) throw sim.error;
+		body(sim);
+		if (sim.error) throw sim.error;
+	} catch (err: unknown) {
+		failure = err;
+	}
+	const result: LslTestCaseResult = {
+		name,
+		status: failure === undefined ? 'passed' : failure instanceof LslAssertionError ? 'failed' : 'error',
+		assertions: counter.assertions,
+		durationMs: Date.now() - startedAt,
+	};
+	if (failure !== undefined) {
+		result.failure = failure instanceof SimulatorError
+			? { message: failure.message, span: failure.span }
+			: { message: failure instanceof Error ? failure.message : String(failure) };
+	}
+	return result;
+}
+
+function testHost(counter: { assertions: number }, fallback: SimulatorHost | undefined): SimulatorHost {
+	return {
+		call(call, sim) {
+			const [a, b, c, d] = call.args;
+			switch (call.name) {
+				case 'assertEqual':
+				case 'assertNotEqual': {
+					counter.assertions++;
+					const equal = a !== undefined && b !== undefined && testValuesEqual(a, b);
+					if (equal !== (call.name === 'assertEqual')) {
+						const relation = call.name === 'assertEqual' ? '!=' : '==';
+						throw new LslAssertionError(withMessage(`${call.name} failed: ${describeTestValue(a)} ${relation} ${describeTestValue(b)}`, c), call.span);
+					}
+					return NO_RESULT;
+				}
+				case 'assertTrue':
+				case 'assertFalse': {
+					counter.assertions++;
+					const truthy = a?.kind === 'value' && a.type === 'integer' ? a.value !== 0 : undefined;
+					if (truthy !== (call.name === 'assertTrue')) {
+						throw new LslAssertionError(withMessage(`${call.name} failed: got ${describeTestValue(a)}`, b), call.span);
+					}
+					return NO_RESULT;
+				}
+				case 'assertNear': {
+					counter.assertions++;
+					const epsilon = c?.kind === 'value' && (c.type === 'float' || c.type === 'integer') ? c.value : 0;
+					if (a === undefined || b === undefined || !valuesNear(a, b, epsilon)) {
+						throw new LslAssertionError(withMessage(`assertNear failed: ${describeTestValue(a)} is not within ${epsilon} of ${describeTestValue(b)}`, d), call.span);
+					}
+					return NO_RESULT;
+				}
+				case 'fail':
+					counter.assertions++;
+					throw new LslAssertionError(withMessage('fail', a), call.span);
+				case 'callCount': {
+					const target = a?.kind === 'value' && a.type === 'string' ? a.value : '';
+					return { kind: 'value', type: 'integer', value: sim.calls.filter(item => item.name === target).length };
+				}
+			}
+			if (sim.script.functions.has(`mock_${call.name}`)) return sim.callFunction(`mock_${call.name}`, call.args);
+			return fallback?.call?.(call, sim);
+		},
+	};
+}
+
+function withMessage(base: string, message: Value | undefined): string {
+	return message?.kind === 'value' && message.type === 'string' && message.value ? `${base} (${message.value})` : base;
+}
+
+function describeTestValue(value: Value | undefined): string {
+	if (!value) return '<missing>';
+	if (value.kind === 'unknown') return `<unknown ${value.type}>`;
+	switch (value.type) {
+		case 'list':
+			return `[${value.value.map(describeTestValue).join(', ')}]`;
+		case 'string':
+			return JSON.stringify(value.value);
+		case 'key':
+			return `(key)${JSON.stringify(value.value)}`;
+		default:
+			return runtime.lslValueString(value) ?? `<${value.type}>`;
+	}
+}
+
+function testValuesEqual(a: Value, b: Value): boolean {
+	if (a.kind === 'unknown' || b.kind === 'unknown') return false;
+	if ((a.type === 'integer' || a.type === 'float') && (b.type === 'integer' || b.type === 'float')) return a.value === b.value;
+	if ((a.type === 'string' || a.type === 'key') && (b.type === 'string' || b.type === 'key')) return a.value === b.value;
+	if (a.type === 'list' && b.type === 'list') {
+		return a.value.length === b.value.length && a.value.every((item, i) => testValuesEqual(item, b.value[i]!));
+	}
+	if ((a.type === 'vector' && b.type === 'vector') || (a.type === 'rotation' && b.type === 'rotation')) {
+		return a.value.every((component, i) => component === b.value[i]);
+	}
+	return false;
+}
+
+function valuesNear(a: Value, b: Value, epsilon: number): boolean {
+	if (a.kind === 'unknown' || b.kind === 'unknown') return false;
+	if ((a.type === 'integer' || a.type === 'float') && (b.type === 'integer' || b.type === 'float')) return Math.abs(a.value - b.value) <= epsilon;
+	if ((a.type === 'vector' && b.type === 'vector') || (a.type === 'rotation' && b.type === 'rotation')) {
+		return a.value.every((component, i) => Math.abs(component - b.value[i]!) <= epsilon);
+	}
+	return false;
+}
@@ -0,0 +1,121 @@
+import { AssertNever } from '../utils';
+import type { Expr, Span, State, Stmt } from './types';
+
+// Walkers shared by the analyses that summarize function and event bodies (permissions, resources, latency,
+// call depth), and the closure over the functions a state's events reach.
+
+export type LoopStmt = Extract<Stmt, { kind: 'WhileStmt' | 'DoWhileStmt' | 'ForStmt' }>;
+
+export interface StmtVisitor {
+	stmt?: (stmt: Stmt) => void;
+	// Every expression, parents before their operands
+	expr?: (expr: Expr) => void;
+	// Before the loop's own expressions and body
+	loop?: (stmt: LoopStmt) => void;
+	// After the statement and everything inside it
+	leave?: (stmt: Stmt) => void;
+}
+
+export function walkStmt(stmt: Stmt, visitor: StmtVisitor): void {
+	visitor.stmt?.(stmt);
+	walkChildren(stmt, visitor);
+	visitor.leave?.(stmt);
+}
+
+function walkChildren(stmt: Stmt, visitor: StmtVisitor): void {
+	const expr = (e: Expr | undefined) => { if (e && visitor.expr) walkExpr(e, visitor.expr); };
+	const child = (s: Stmt) => walkStmt(s, visitor);
+	switch (stmt.kind) {
+		case 'EmptyStmt':
+		case 'ErrorStmt':
+		case 'LabelStmt':
+		case 'StateChangeStmt':
+		case 'JumpStmt':
+			return;
+		case 'ExprStmt': expr(stmt.expression); return;
+		case 'VarDecl': expr(stmt.initializer); return;
+		case 'ReturnStmt': expr(stmt.expression); return;
+		case 'IfStmt':
+			expr(stmt.condition);
+			child(stmt.then);
+			if (stmt.else) child(stmt.else);
+			return;
+		case 'WhileStmt':
+		case 'DoWhileStmt':
+			visitor.loop?.(stmt);
+			expr(stmt.condition);
+			child(stmt.body);
+			return;
+		case 'ForStmt':
+			visitor.loop?.(stmt);
+			expr(stmt.init);
+			expr(stmt.condition);
+			expr(stmt.update);
+			child(stmt.body);
+			return;
+		case 'BlockStmt':
+			for (const s of stmt.statements) child(s);
+			return;
+		default:
+			AssertNever(stmt);
+	}
+}
+
+export function walkExpr(expr: Expr, onExpr: (expr: Expr) => void): void {
+	onExpr(expr);
+	switch (expr.kind) {
+		case 'ErrorExpr':
+		case 'StringLiteral':
+		case 'NumberLiteral':
+		case 'Identifier':
+			return;
+		case 'Call':
+			for (const arg of expr.args) walkExpr(arg, onExpr);
+			return;
+		case 'Member': walkExpr(expr.object, onExpr); return;
+		case 'Unary':
+		case 'Cast':
+			walkExpr(expr.argument, onExpr);
+			return;
+		case 'Binary':
+			walkExpr(expr.left, onExpr);
+			walkExpr(expr.right, onExpr);
+			return;
+		case 'Paren': walkExpr(expr.expression, onExpr); return;
+		case 'ListLiteral':
+		case 'VectorLiteral':
+			for (const element of expr.elements) walkExpr(element, onExpr);
+			return;
+		default:
+			AssertNever(expr);
+	}
+}
+
+export interface ReachedSummary<T> {
+	summary: T;
+	// Calls from the event handler down to the summarized function, outermost first; empty for the events
+	via: Span[];
+}
+
+// Summaries of a state's events and of every user function they reach, each function once. `callees` holds
+// the first call of each user function in the summarized body.
+export function reachFromState<T extends { callees: ReadonlyMap<string, Span> }>(
+	state: State,
+	summarize: (body: Stmt) => T,
+	functionSummaries: ReadonlyMap<string, T>,
+): ReachedSummary<T>[] {
+	const reached: ReachedSummary<T>[] = [];
+	const pending = state.events.map(event => ({ summary: summarize(event.body), via: [] as Span[] }));
+	const visited = new Set<string>();
+	while (pending.length) {
+		const item = pending.pop()!;
+		reached.push(item);
+		for (const [callee, span] of item.summary.callees) {
+			if (visited.has(callee)) continue;
+			visited.add(callee);
+			const fn = functionSummaries.get(callee);
+			if (fn) pending.push({ summary: fn, via: [...item.via, span] });
+		}
+	}
+	return reached;
+}
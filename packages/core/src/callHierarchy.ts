@@ -0,0 +1,233 @@
+import path from 'node:path';
+import { fileUriToPath, type Position, type Range, type TextDocument } from './protocol';
+import type { Analysis, Decl } from './analysisTypes';
+import type { PreprocResult } from './core/preproc';
+import { scanIncludesForSymbol } from './resolver';
+import { spanToRange, type Script, type Stmt } from './ast/types';
+
+// Call hierarchy over user functions and events, and the state machine of a script. Both work on the
+// current document only: call sites come from `Analysis.calls`, declarations from the AST.
+
+export type CallHierarchyNodeKind = 'function' | 'event';
+
+export interface CallHierarchyNode {
+	name: string;
+	kind: CallHierarchyNodeKind;
+	// Owning state of an event
+	state?: string;
+	// Declaring file when the function comes from an include; undefined means the current document
+	file?: string;
+	range: Range;
+	selectionRange: Range;
+	detail?: string;
+}
+
+export interface CallHierarchyEdge {
+	node: CallHierarchyNode;
+	// Call sites, always in the current document
+	fromRanges: Range[];
+}
+
+export interface StateGraphNode {
+	name: string;
+	range: Range;
+	selectionRange: Range;
+	events: string[];
+}
+
+export interface StateGraphEdge {
+	from: string;
+	to: string;
+	event: string;
+	range: Range;
+}
+
+export interface StateGraph {
+	nodes: StateGraphNode[];
+	edges: StateGraphEdge[];
+}
+
+export function isCurrentFile(doc: TextDocument, node: { originFile?: string }): boolean {
+	if (!node.originFile || node.originFile === '<unknown>') return true;
+	const current = doc.uri.startsWith('file://') ? fileUriToPath(doc.uri) : undefined;
+	return !current || path.resolve(node.originFile) === path.resolve(current);
+}
+
+function comparePositions(a: Position, b: Position): number {
+	return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+function rangeContains(range: Range, pos: Position): boolean {
+	return comparePositions(range.start, pos) <= 0 && comparePositions(pos, range.end) <= 0;
+}
+
+function signature(decl: Decl): string {
+	return `(${(decl.params ?? []).map(p => `${p.type ?? ''} ${p.name}`.trim()).join(', ')})`;
+}
+
+export function callHierarchyNodes(doc: TextDocument, script: Script, analysis: Analysis): CallHierarchyNode[] {
+	const nodes: CallHierarchyNode[] = [];
+	for (const [name, fn] of script.functions) {
+		const decl = analysis.functions.get(name);
+		if (!decl || !isCurrentFile(doc, fn)) continue;
+		nodes.push({ name, kind: 'function', range: decl.fullRange ?? decl.range, selectionRange: decl.range, detail: `${decl.type ?? 'void'} ${name}${signature(decl)}` });
+	}
+	const states = [...script.states.values()].filter(state => isCurrentFile(doc, state)).map(state => analysis.states.get(state.name)).filter((d): d is Decl => !!d);
+	for (const decl of analysis.decls) {
+		if (decl.kind !== 'event') continue;
+		const state = states.find(s => rangeContains(s.fullRange ?? s.range, decl.range.start));
+		if (!state) continue;
+		nodes.push({ name: decl.name, kind: 'event', state: state.name, range: decl.fullRange ?? decl.range, selectionRange: decl.range, detail: `${state.name}: ${decl.name}${signature(decl)}` });
+	}
+	return nodes;
+}
+
+// The node declared at `pos`, or the user function called at `pos`.
+export function callHierarchyNodeAt(doc: TextDocument, pos: Position, script: Script, analysis: Analysis, pre?: PreprocResult): CallHierarchyNode | null {
+	const nodes = callHierarchyNodes(doc, script, analysis);
+	const declared = nodes.find(node => rangeContains(node.selectionRange, pos));
+	if (declared) return declared;
+	for (const call of analysis.calls) {
+		const calleeEnd = { line: call.range.start.line, character: call.range.start.character + call.name.length };
+		if (rangeContains({ start: call.range.start, end: calleeEnd }, pos)) return functionNode(call.name, nodes, script, pre);
+	}
+	return null;
+}
+
+function functionNode(name: string, nodes: CallHierarchyNode[], script: Script, pre?: PreprocResult): CallHierarchyNode | null {
+	const local = nodes.find(node => node.kind === 'function' && node.name === name);
+	if (local) return local;
+	const fn = script.functions.get(name);
+	if (!fn || !fn.originFile) return null;
+	const hit = scanIncludesForSymbol(name, pre, ['function']);
+	if (!hit) return null;
+	const range = { start: { line: hit.line, character: hit.startChar }, end: { line: hit.line, character: hit.endChar } };
+	return { name, kind: 'function', file: hit.file, range, selectionRange: range, detail: `${fn.returnType ?? 'void'} ${name}(...)` };
+}
+
+// Finds a node again from its identity, including functions declared in an included header
+export function callHierarchyNodeNamed(doc: TextDocument, script: Script, analysis: Analysis, key: Pick<CallHierarchyNode, 'name' | 'kind' | 'state'>, pre?: PreprocResult): CallHierarchyNode | null {
+	const nodes = callHierarchyNodes(doc, script, analysis);
+	const local = nodes.find(node => node.name === key.name && node.kind === key.kind && node.state === key.state);
+	if (local) return local;
+	return key.kind === 'function' ? functionNode(key.name, nodes, script, pre) : null;
+}
+
+function sameNode(a: CallHierarchyNode, b: CallHierarchyNode): boolean {
+	return a.name === b.name && a.kind === b.kind && a.state === b.state && a.file === b.file;
+}
+
+// Innermost function or event of the current document containing `pos`
+export function callHierarchyNodeContaining(nodes: CallHierarchyNode[], pos: Position): CallHierarchyNode | undefined {
+	let best: CallHierarchyNode | undefined;
+	for (const node of nodes) {
+		if (node.file || !rangeContains(node.range, pos)) continue;
+		if (!best || comparePositions(node.range.start, best.range.start) > 0) best = node;
+	}
+	return best;
+}
+
+export function incomingCalls(doc: TextDocument, target: CallHierarchyNode, script: Script, analysis: Analysis): CallHierarchyEdge[] {
+	if (target.kind !== 'function') return [];
+	const nodes = callHierarchyNodes(doc, script, analysis);
+	const edges: CallHierarchyEdge[] = [];
+	for (const call of analysis.calls) {
+		if (call.name !== target.name) continue;
+		const caller = callHierarchyNodeContaining(nodes, call.range.start);
+		if (!caller) continue;
+		const edge = edges.find(e => sameNode(e.node, caller));
+		if (edge) edge.fromRanges.push(call.range);
+		else edges.push({ node: caller, fromRanges: [call.range] });
+	}
+	return edges;
+}
+
+export function outgoingCalls(doc: TextDocument, source: CallHierarchyNode, script: Script, analysis: Analysis, pre?: PreprocResult): CallHierarchyEdge[] {
+	if (source.file) return [];
+	const nodes = callHierarchyNodes(doc, script, analysis);
+	const edges: CallHierarchyEdge[] = [];
+	for (const call of analysis.calls) {
+		if (!script.functions.has(call.name)) continue;
+		const caller = callHierarchyNodeContaining(nodes, call.range.start);
+		if (!caller || !sameNode(caller, source)) continue;
+		const edge = edges.find(e => e.node.name === call.name);
+		if (edge) { edge.fromRanges.push(call.range); continue; }
+		const callee = functionNode(call.name, nodes, script, pre);
+		if (callee) edges.push({ node: callee, fromRanges: [call.range] });
+	}
+	return edges;
+}
+
+export function eventLabel(node: CallHierarchyNode): string {
+	return node.state ? `${node.state}.${node.name}` : node.name;
+}
+
+// Events reaching each user function directly or through other functions, as `state.event` labels.
+export function functionCallingEvents(doc: TextDocument, script: Script, analysis: Analysis): Map<string, Set<string>> {
+	const nodes = callHierarchyNodes(doc, script, analysis);
+	const callers = new Map<string, CallHierarchyNode[]>();
+	for (const call of analysis.calls) {
+		if (!script.functions.has(call.name)) continue;
+		const caller = callHierarchyNodeContaining(nodes, call.range.start);
+		if (!caller) continue;
+		const list = callers.get(call.name);
+		if (list) list.push(caller);
+		else callers.set(call.name, [caller]);
+	}
+	const out = new Map<string, Set<string>>();
+	for (const name of script.functions.keys()) {
+		const events = new Set<string>();
+		const seen = new Set<string>([name]);
+		const queue = [name];
+		while (queue.length) {
+			for (const caller of callers.get(queue.pop()!) ?? []) {
+				if (caller.kind === 'event') events.add(eventLabel(caller));
+				else if (!seen.has(caller.name)) {
+					seen.add(caller.name);
+					queue.push(caller.name);
+				}
+			}
+		}
+		out.set(name, events);
+	}
+	return out;
+}
+
+function collectStateChanges(stmt: Stmt, out: Extract<Stmt, { kind: 'StateChangeStmt' }>[]): void {
+	switch (stmt.kind) {
+		case 'StateChangeStmt':
+			out.push(stmt);
+			return;
+		case 'BlockStmt':
+			for (const child of stmt.statements) collectStateChanges(child, out);
+			return;
+		case 'IfStmt':
+			collectStateChanges(stmt.then, out);
+			if (stmt.else) collectStateChanges(stmt.else, out);
+			return;
+		case 'WhileStmt':
+		case 'DoWhileStmt':
+		case 'ForStmt':
+			collectStateChanges(stmt.body, out);
+			return;
+		default:
+			return;
+	}
+}
+
+// States of the current document as nodes, `state x;` statements in their events as edges.
+export function buildStateGraph(doc: TextDocument, script: Script, analysis: Analysis): StateGraph {
+	const graph: StateGraph = { nodes: [], edges: [] };
+	for (const state of script.states.values()) {
+		if (!isCurrentFile(doc, state)) continue;
+		const decl = analysis.states.get(state.name);
+		const range = spanToRange(doc, state.span);
+		graph.nodes.push({ name: state.name, range, selectionRange: decl?.range ?? range, events: state.events.map(ev => ev.name) });
+		for (const ev of state.events) {
+			const changes: Extract<Stmt, { kind: 'StateChangeStmt' }>[] = [];
+			collectStateChanges(ev.body, changes);
+			for (const change of changes) graph.edges.push({ from: state.name, to: change.state, event: ev.name, range: spanToRange(doc, change.span) });
+		}
+	}
+	return graph;
+}
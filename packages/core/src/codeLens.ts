@@ -0,0 +1,103 @@
+import type { Range, TextDocument } from './protocol';
+import type { Analysis, Decl } from './analysisTypes';
+import type { Defs } from './defs';
+import { analyzeLatency } from './ast/latency';
+import { measureAstDeclarations, type AstDeclarationMeasureKind } from './ast/measure';
+import type { Script } from './ast/types';
+import { buildStateGraph, callHierarchyNodeContaining, callHierarchyNodes, eventLabel, functionCallingEvents, isCurrentFile } from './callHierarchy';
+
+// Memory cost and usage lens above each global, function and state of the current document, and the worst-case
+// forced delay above each event handler that sleeps.
+
+export interface MemoryCodeLens {
+	kind: AstDeclarationMeasureKind;
+	name: string;
+	range: Range;
+	bytes: number;
+	// Resolved references; for states, the `state x;` statements entering it
+	references: number;
+	// Events calling a function or using a global (transitively); events declared by a state
+	events: string[];
+	title: string;
+}
+
+export interface LatencyCodeLens {
+	state: string;
+	event: string;
+	range: Range;
+	sleep: number;
+	energy: number;
+	unbounded: boolean;
+	title: string;
+}
+
+function plural(count: number, word: string): string {
+	return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function countReferences(doc: TextDocument, analysis: Analysis, decl: Decl): number {
+	let count = 0;
+	for (const ref of analysis.refs) {
+		if (analysis.refAt(doc.offsetAt(ref.range.start)) === decl) count++;
+	}
+	return count;
+}
+
+export function memoryCodeLenses(doc: TextDocument, script: Script, analysis: Analysis): MemoryCodeLens[] {
+	const nodes = callHierarchyNodes(doc, script, analysis);
+	const calling = functionCallingEvents(doc, script, analysis);
+	const graph = buildStateGraph(doc, script, analysis);
+	const lenses: MemoryCodeLens[] = [];
+	for (const measure of measureAstDeclarations(script)) {
+		const bytes = `~${measure.bytes} bytes`;
+		if (measure.kind === 'global') {
+			const node = script.globals.get(measure.name);
+			const decl = analysis.globals.get(measure.name);
+			if (!node || !decl || !isCurrentFile(doc, node)) continue;
+			const events = new Set<string>();
+			let references = 0;
+			for (const ref of analysis.refs) {
+				if (analysis.refAt(doc.offsetAt(ref.range.start)) !== decl) continue;
+				references++;
+				const user = callHierarchyNodeContaining(nodes, ref.range.start);
+				if (user?.kind === 'event') events.add(eventLabel(user));
+				else if (user) for (const event of calling.get(user.name) ?? []) events.add(event);
+			}
+			const title = `${bytes} · ${plural(references, 'reference')} · used in ${plural(events.size, 'event')}`;
+			lenses.push({ kind: 'global', name: measure.name, range: decl.range, bytes: measure.bytes, references, events: [...events].sort(), title });
+		} else if (measure.kind === 'function') {
+			const node = script.functions.get(measure.name);
+			const decl = analysis.functions.get(measure.name);
+			if (!node || !decl || !isCurrentFile(doc, node)) continue;
+			const references = countReferences(doc, analysis, decl);
+			const events = [...calling.get(measure.name) ?? []].sort();
+			const title = `${bytes} · ${plural(references, 'reference')} · called from ${plural(events.length, 'event')}`;
+			lenses.push({ kind: 'function', name: measure.name, range: decl.range, bytes: measure.bytes, references, events, title });
+		} else {
+			const state = graph.nodes.find(node => node.name === measure.name);
+			if (!state) continue;
+			const references = graph.edges.filter(edge => edge.to === measure.name).length;
+			const title = `${bytes} · ${plural(references, 'reference')} · ${plural(state.events.length, 'event')}`;
+			lenses.push({ kind: 'state', name: measure.name, range: state.selectionRange, bytes: measure.bytes, references, events: state.events, title });
+		}
+	}
+	return lenses.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+}
+
+function seconds(value: number): string {
+	return `${Number(value.toFixed(3))}s`;
+}
+
+export function latencyCodeLenses(doc: TextDocument, script: Script, analysis: Analysis, defs: Defs): LatencyCodeLens[] {
+	const events = callHierarchyNodes(doc, script, analysis).filter(node => node.kind === 'event');
+	const lenses: LatencyCodeLens[] = [];
+	for (const handler of analyzeLatency(script, defs)) {
+		if (handler.sleep <= 0) continue;
+		const node = events.find(event => event.state === handler.state && event.name === handler.event);
+		if (!node) continue;
+		const delay = handler.unbounded ? `≥ ${seconds(handler.sleep)} (unbounded loop)` : seconds(handler.sleep);
+		const title = `worst-case delay ${delay} · energy ${Number(handler.energy.toFixed(3))}`;
+		lenses.push({ state: handler.state, event: handler.event, range: node.selectionRange, sleep: handler.sleep, energy: handler.energy, unbounded: handler.unbounded, title });
+	}
+	return lenses;
+}
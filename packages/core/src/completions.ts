@@ -146,6 +146,14 @@ export function lslCompletions(
 		const overloads = defs.funcs.get(ctx.name) || [];
 		const chosen = chooseBestOverloadAst(overloads, ctx);
 		expectedType = chosen?.params?.[ctx.argIndex]?.type || 'any';
+		// A slot taking a constant family (llSetStatus -> STATUS_*) only offers that family's constants
+		const family = defs.paramConstantFamily(ctx.name, ctx.argIndex);
+		if (family) {
+			for (let i = items.length - 1; i >= 0; i--) {
+				const item = items[i]!;
+				if (item.kind === CompletionItemKind.EnumMember && !String(item.label).startsWith(family)) items.splice(i, 1);
+			}
+		}
 	}
 
 	// Locals/params visible before this position
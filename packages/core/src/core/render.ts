@@ -3,8 +3,10 @@ import type { FormatSettings } from '../format';
 import { formatDocumentEdits } from '../format';
 import { TextDocument } from '../protocol';
 import type { PreprocResult } from './preproc';
+import type { SourceOrigin } from '../sourceMap';
 
-export function renderExpandedTokens(tokens: ReadonlyArray<Token>): string {
+// `origins`, when given, receives where each rendered token came from
+export function renderExpandedTokens(tokens: ReadonlyArray<Token>, origins?: SourceOrigin[]): string {
 	let out = '';
 	let indent = 0;
 	let atLineStart = true;
@@ -23,6 +25,7 @@ export function renderExpandedTokens(tokens: ReadonlyArray<Token>): string {
 		} else if (previous && needsSpace(previous, token)) {
 			out += ' ';
 		}
+		origins?.push({ offset: out.length, file: token.span.file ?? token.file, start: token.span.start });
 		out += token.value;
 		atLineStart = false;
 		if (token.value === '{') {
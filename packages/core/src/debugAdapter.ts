@@ -0,0 +1,592 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { builtinConstantValuesFromDefs, builtinReturnTypesFromDefs } from './ast/constGlobalExpressions';
+import { Env, evalExpr, type Value } from './ast/eval';
+import { parseScriptFromText } from './ast/parser';
+import * as runtime from './ast/runtime';
+import { ScriptSimulator, type SimulatorFrame, type SimulatorOptions } from './ast/simulator';
+import type { Expr, Script, Stmt } from './ast/types';
+import type { Defs } from './defs';
+import { filePathToUri } from './protocol';
+import { AssertNever } from './utils';
+
+// Debug Adapter Protocol session over the script simulator. Each event handler runs to completion while the
+// position and call stack of every statement are recorded; stepping and breakpoints then walk that trace. Variables
+// are only needed where the session stops, so they are captured by replaying the script up to that statement, which
+// is exact because the simulator is deterministic. The debug console queues events written as calls, e.g.
+// `touch_start(1)` or `listen(0, "Bob", NULL_KEY, "hi")`, and evaluates anything else as an expression.
+
+export interface DebugProtocolMessage {
+	seq: number;
+	type: string;
+}
+
+export interface DebugRequest extends DebugProtocolMessage {
+	type: 'request';
+	command: string;
+	arguments?: unknown;
+}
+
+export interface DebugResponse extends DebugProtocolMessage {
+	type: 'response';
+	request_seq: number;
+	success: boolean;
+	command: string;
+	message?: string;
+	body?: unknown;
+}
+
+export interface DebugEvent extends DebugProtocolMessage {
+	type: 'event';
+	event: string;
+	body?: unknown;
+}
+
+export interface DebugLaunchArguments {
+	program: string;
+	includePaths?: string[];
+	macros?: Record<string, string | number | boolean>;
+	stopOnEntry?: boolean;
+}
+
+export interface LslDebugSessionOptions {
+	defs: Defs;
+	includePaths?: string[];
+	readFile?: (file: string) => string;
+}
+
+interface InitializeArguments { linesStartAt1?: boolean; columnsStartAt1?: boolean }
+interface SetBreakpointsArguments { source: { path?: string }; breakpoints?: { line: number }[] }
+interface FrameArguments { frameId?: number }
+interface VariablesArguments { variablesReference: number }
+interface EvaluateArguments { expression: string; frameId?: number; context?: string }
+
+interface DebugVariable { name: string; value: string; type?: string; variablesReference: number }
+
+interface FramePosition {
+	name: string;
+	file: string;
+	line: number;
+	column: number;
+}
+
+interface TraceEntry {
+	file: string;
+	line: number;
+	// Stack at the statement, innermost frame last
+	frames: FramePosition[];
+	// Built-in calls made before the statement ran
+	calls: number;
+}
+
+interface VariableSnapshot {
+	// Innermost frame last, like `TraceEntry.frames`
+	frames: { parameters: Map<string, Value>; locals: Map<string, Value> }[];
+	globals: Map<string, Value>;
+}
+
+// An event queued from the debug console, after `dispatched` handlers had run
+interface QueuedInput {
+	dispatched: number;
+	name: string;
+	args: Value[];
+}
+
+type ResumeMode = 'entry' | 'continue' | 'next' | 'stepIn' | 'stepOut';
+
+const THREAD_ID = 1;
+
+const CHAT_CALLS = new Set(['llOwnerSay', 'llSay', 'llShout', 'llWhisper', 'llRegionSay', 'llRegionSayTo', 'llInstantMessage']);
+
+export class LslDebugSession {
+	private readonly readFile: (file: string) => string;
+	private readonly constants: ReadonlyMap<string, Value>;
+	private readonly lineStarts = new Map<string, number[]>();
+	private readonly breakpoints = new Map<string, Set<number>>();
+	private readonly statementLines = new Map<string, Set<number>>();
+	private readonly references = new Map<number, () => DebugVariable[]>();
+	private sim: ScriptSimulator | undefined;
+	private simulatorOptions: SimulatorOptions = {};
+	private program = '';
+	private seq = 1;
+	private linesStartAt1 = true;
+	private columnsStartAt1 = true;
+	private stopOnEntry = false;
+	private configured = false;
+	private started = false;
+	private trace: TraceEntry[] = [];
+	private position = -1;
+	// Handlers run so far, and what the console queued in between, to replay up to a stop
+	private dispatched = 0;
+	private inputs: QueuedInput[] = [];
+	private snapshot: { position: number; variables: VariableSnapshot } | undefined;
+	private reportedCalls = 0;
+	private traceError: string | undefined;
+	// Positions of the statements each frame is executing while a handler is recorded
+	private recording: { file: string; line: number; column: number }[] = [];
+
+	constructor(private readonly options: LslDebugSessionOptions, private readonly send: (message: DebugResponse | DebugEvent) => void) {
+		this.readFile = options.readFile ?? (file => fs.readFileSync(file, 'utf8'));
+		this.constants = builtinConstantValuesFromDefs(options.defs);
+	}
+
+	handleMessage(message: DebugProtocolMessage): void {
+		if (message.type !== 'request') return;
+		const request = message as DebugRequest;
+		try {
+			this.dispatch(request);
+		} catch (err: unknown) {
+			this.respond(request, undefined, err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	private dispatch(request: DebugRequest): void {
+		switch (request.command) {
+			case 'initialize': {
+				const args = (request.arguments ?? {}) as InitializeArguments;
+				this.linesStartAt1 = args.linesStartAt1 !== false;
+				this.columnsStartAt1 = args.columnsStartAt1 !== false;
+				this.respond(request, { supportsConfigurationDoneRequest: true, supportsEvaluateForHovers: true });
+				return;
+			}
+			case 'launch':
+				this.launch(request.arguments as DebugLaunchArguments);
+				this.respond(request);
+				this.emit('initialized');
+				return;
+			case 'setBreakpoints':
+				this.respond(request, { breakpoints: this.setBreakpoints(request.arguments as SetBreakpointsArguments) });
+				return;
+			case 'configurationDone':
+				this.respond(request);
+				this.configured = true;
+				this.begin();
+				return;
+			case 'threads':
+				this.respond(request, { threads: [{ id: THREAD_ID, name: this.sim ? path.basename(this.program) : 'script' }] });
+				return;
+			case 'stackTrace': {
+				const frames = [...this.current()?.frames ?? []].reverse();
+				this.respond(request, {
+					stackFrames: frames.map((frame, id) => ({
+						id,
+						name: frame.name,
+						source: { name: path.basename(frame.file), path: frame.file },
+						line: frame.line + (this.linesStartAt1 ? 1 : 0),
+						column: frame.column + (this.columnsStartAt1 ? 1 : 0),
+					})),
+					totalFrames: frames.length,
+				});
+				return;
+			}
+			case 'scopes':
+				this.respond(request, { scopes: this.scopes((request.arguments as FrameArguments | undefined)?.frameId ?? 0) });
+				return;
+			case 'variables': {
+				const reference = (request.arguments as VariablesArguments).variablesReference;
+				this.respond(request, { variables: this.references.get(reference)?.() ?? [] });
+				return;
+			}
+			case 'continue':
+				this.respond(request, { allThreadsContinued: true });
+				this.resume('continue');
+				return;
+			case 'next':
+			case 'stepIn':
+			case 'stepOut':
+				this.respond(request);
+				this.resume(request.command);
+				return;
+			case 'evaluate': {
+				const idle = this.started && this.position < 0;
+				this.respond(request, this.evaluate(request.arguments as EvaluateArguments));
+				// An idle script picks up a queued event straight away; a paused one when it continues
+				if (idle && this.sim?.pendingEvents.length) this.resume('continue');
+				return;
+			}
+			case 'disconnect':
+			case 'terminate':
+				this.sim = undefined;
+				this.respond(request);
+				return;
+			default:
+				this.respond(request, undefined, `Unsupported request '${request.command}'`);
+		}
+	}
+
+	private launch(args: DebugLaunchArguments): void {
+		if (!args?.program) throw new Error('No program to debug');
+		this.program = path.resolve(args.program);
+		this.stopOnEntry = !!args.stopOnEntry;
+		const text = this.readFile(this.program);
+		const script = parseScriptFromText(text, filePathToUri(this.program), {
+			includePaths: [...args.includePaths ?? [], ...this.options.includePaths ?? []],
+			macros: args.macros,
+			defs: this.options.defs,
+		});
+		this.collectStatementLines(script);
+		this.simulatorOptions = { builtinConstants: this.constants, builtinFunctionReturnTypes: builtinReturnTypesFromDefs(this.options.defs) };
+		this.sim = new ScriptSimulator(script, { ...this.simulatorOptions, debugger: { statement: (stmt, frames, sim) => this.record(stmt, frames, sim) } });
+		this.sim.reset();
+		this.dispatched = 0;
+		this.inputs = [];
+		this.begin();
+	}
+
+	private begin(): void {
+		if (!this.sim || !this.configured || this.started) return;
+		this.started = true;
+		this.resume(this.stopOnEntry ? 'entry' : 'continue');
+	}
+
+	private setBreakpoints(args: SetBreakpointsArguments) {
+		const file = args.source.path ? path.resolve(args.source.path) : this.program;
+		const offset = this.linesStartAt1 ? 1 : 0;
+		const known = [...this.statementLines.get(file) ?? []].sort((a, b) => a - b);
+		const lines = new Set<number>();
+		const result = (args.breakpoints ?? []).map(({ line }) => {
+			// A breakpoint between statements moves to the next line that has one
+			const target = known.find(candidate => candidate >= line - offset);
+			if (target === undefined) return { verified: false, line, message: 'No statement on or after this line' };
+			lines.add(target);
+			return { verified: true, line: target + offset };
+		});
+		this.breakpoints.set(file, lines);
+		return result;
+	}
+
+	private collectStatementLines(script: Script): void {
+		this.statementLines.clear();
+		const visit = (stmt: Stmt, file: string) => {
+			if (isStoppable(stmt)) {
+				const at = this.location(stmt.span.file ?? file, stmt.span.start);
+				const lines = this.statementLines.get(at.file) ?? new Set<number>();
+				lines.add(at.line);
+				this.statementLines.set(at.file, lines);
+			}
+			for (const child of childStatements(stmt)) visit(child, file);
+		};
+		for (const fn of script.functions.values()) visit(fn.body, this.fileOf(fn.originFile));
+		for (const state of script.states.values()) {
+			for (const event of state.events) visit(event.body, this.fileOf(event.originFile ?? state.originFile));
+		}
+	}
+
+	private record(stmt: Stmt, frames: readonly SimulatorFrame[], sim: ScriptSimulator): void {
+		if (!isStoppable(stmt)) return;
+		const depth = frames.length;
+		const top = frames[depth - 1]!;
+		const at = this.location(stmt.span.file ?? this.fileOf(top.file), stmt.span.start);
+		this.recording.length = depth;
+		this.recording[depth - 1] = at;
+		this.trace.push({
+			file: at.file,
+			line: at.line,
+			frames: frames.map((frame, i) => ({ name: frame.kind === 'event' ? `${sim.state}.${frame.name}` : frame.name, ...(this.recording[i] ?? at) })),
+			calls: sim.calls.length,
+		});
+	}
+
+	// Runs a fresh simulator through the same handlers and console input, and captures the variables when it
+	// reaches the current statement of the current handler
+	private replay(): VariableSnapshot {
+		const sim = this.sim!;
+		let captured: VariableSnapshot | undefined;
+		let dispatched = 0;
+		let statement = -1;
+		const capture = (frames: readonly SimulatorFrame[], replayed: ScriptSimulator): VariableSnapshot => {
+			const globals = new Map<string, Value>();
+			for (const name of replayed.script.globals.keys()) {
+				const value = replayed.getGlobal(name);
+				if (value) globals.set(name, value);
+			}
+			return {
+				frames: frames.map(frame => {
+					const locals = replayed.frameVariables(frame);
+					const parameters = new Map<string, Value>();
+					for (const name of frame.parameters.keys()) {
+						const value = locals.get(name);
+						if (value) parameters.set(name, value);
+						locals.delete(name);
+					}
+					return { parameters, locals };
+				}),
+				globals,
+			};
+		};
+		const replayed = new ScriptSimulator(sim.script, {
+			...this.simulatorOptions,
+			debugger: {
+				statement: (stmt, frames, current) => {
+					if (!isStoppable(stmt) || dispatched !== this.dispatched || ++statement !== this.position) return;
+					captured = capture(frames, current);
+				},
+			},
+		});
+		replayed.reset();
+		let input = 0;
+		while (dispatched < this.dispatched) {
+			for (; input < this.inputs.length && this.inputs[input]!.dispatched <= dispatched; input++) {
+				replayed.queueEvent(this.inputs[input]!.name, this.inputs[input]!.args);
+			}
+			dispatched++;
+			if (!replayed.step()) break;
+		}
+		return captured ?? { frames: [], globals: new Map() };
+	}
+
+	private variablesNow(): VariableSnapshot | undefined {
+		if (this.position < 0 || !this.sim) return undefined;
+		if (this.snapshot?.position !== this.position) this.snapshot = { position: this.position, variables: this.replay() };
+		return this.snapshot.variables;
+	}
+
+	// Runs the next queued event into a fresh trace; false when the script is idle or halted
+	private dispatchNext(): boolean {
+		const sim = this.sim;
+		if (!sim || sim.halted || sim.pendingEvents.length === 0) return false;
+		this.trace = [];
+		this.position = -1;
+		this.snapshot = undefined;
+		this.recording = [];
+		const previousError = sim.error;
+		this.dispatched++;
+		sim.step();
+		this.traceError = sim.error && sim.error !== previousError ? sim.error.message : undefined;
+		return true;
+	}
+
+	private resume(mode: ResumeMode): void {
+		if (!this.sim) return;
+		const from = this.current();
+		const depth = from?.frames.length ?? 0;
+		for (;;) {
+			while (++this.position < this.trace.length) {
+				const entry = this.trace[this.position]!;
+				if (this.atBreakpoint()) return this.stop(entry, 'breakpoint');
+				if (this.stepEndsAt(mode, entry, from, depth)) return this.stop(entry, mode === 'entry' ? 'entry' : 'step');
+			}
+			if (this.traceError !== undefined) {
+				const message = this.traceError;
+				this.traceError = undefined;
+				this.position = this.trace.length - 1;
+				const last = this.current();
+				if (last) return this.stop(last, 'exception', message);
+				this.output(`Runtime error: ${message}\n`, 'stderr');
+			}
+			this.flushCalls(this.sim.calls.length);
+			if (!this.dispatchNext()) break;
+		}
+		this.trace = [];
+		this.position = -1;
+		if (this.sim.halted) {
+			this.emit('terminated');
+			return;
+		}
+		this.output(`Waiting for events in state ${this.sim.state}; queue one from the debug console, e.g. touch_start(1)\n`);
+	}
+
+	private stepEndsAt(mode: ResumeMode, entry: TraceEntry, from: TraceEntry | undefined, depth: number): boolean {
+		if (mode === 'continue') return false;
+		if (mode === 'entry' || !from) return true;
+		const sameLine = entry.frames.length === depth && entry.file === from.file && entry.line === from.line;
+		switch (mode) {
+			case 'stepIn': return !sameLine;
+			case 'next': return entry.frames.length < depth || (entry.frames.length === depth && !sameLine);
+			case 'stepOut': return entry.frames.length < depth;
+			default: AssertNever(mode);
+		}
+		return false;
+	}
+
+	// Stops once per visit to a breakpoint line, not once per statement on it
+	private atBreakpoint(): boolean {
+		const entry = this.trace[this.position]!;
+		if (!this.breakpoints.get(entry.file)?.has(entry.line)) return false;
+		const previous = this.trace[this.position - 1];
+		return !previous || previous.file !== entry.file || previous.line !== entry.line || previous.frames.length !== entry.frames.length;
+	}
+
+	private stop(entry: TraceEntry, reason: 'entry' | 'step' | 'breakpoint' | 'exception', text?: string): void {
+		this.flushCalls(entry.calls);
+		this.references.clear();
+		if (text) this.output(`Runtime error: ${text}\n`, 'stderr');
+		this.emit('stopped', { reason, threadId: THREAD_ID, allThreadsStopped: true, ...text ? { description: 'Runtime error', text } : {} });
+	}
+
+	// Echoes chat the script produced since the last report to the debug console
+	private flushCalls(upTo: number): void {
+		const calls = this.sim?.calls ?? [];
+		for (; this.reportedCalls < Math.min(upTo, calls.length); this.reportedCalls++) {
+			const call = calls[this.reportedCalls]!;
+			if (!CHAT_CALLS.has(call.name)) continue;
+			const message = call.args[call.args.length - 1];
+			const channel = call.args.length > 1 ? call.args[0] : undefined;
+			const where = channel?.kind === 'value' && channel.type === 'integer' ? `${call.name}(${channel.value})` : call.name;
+			this.output(`${where}: ${message?.kind === 'value' && message.type === 'string' ? message.value : describeValue(message)}\n`);
+		}
+	}
+
+	private current(): TraceEntry | undefined {
+		return this.position >= 0 ? this.trace[this.position] : undefined;
+	}
+
+	private frameVariables(frameId: number): VariableSnapshot['frames'][number] | undefined {
+		const frames = this.variablesNow()?.frames ?? [];
+		return frames[frames.length - 1 - frameId];
+	}
+
+	private scopes(frameId: number) {
+		const snapshot = this.variablesNow();
+		const frame = this.frameVariables(frameId);
+		if (!snapshot || !frame) return [];
+		const scope = (name: string, values: Map<string, Value>) => ({ name, variablesReference: this.reference(() => this.variables(values)), expensive: false });
+		return [scope('Parameters', frame.parameters), scope('Locals', frame.locals), scope('Globals', snapshot.globals)];
+	}
+
+	private variables(values: ReadonlyMap<string, Value> | readonly Value[]): DebugVariable[] {
+		const entries: [string, Value][] = values instanceof Map ? [...values] : [...values.entries()].map(([i, value]) => [`[${i}]`, value]);
+		return entries.map(([name, value]) => ({
+			name,
+			value: describeValue(value),
+			type: value.type,
+			variablesReference: value.kind === 'value' && value.type === 'list' && value.value.length > 0 ? this.reference(() => this.variables(value.value)) : 0,
+		}));
+	}
+
+	private reference(children: () => DebugVariable[]): number {
+		const id = this.references.size + 1;
+		this.references.set(id, children);
+		return id;
+	}
+
+	private evaluate(args: EvaluateArguments) {
+		const expr = parseExpression(args.expression);
+		if (!expr) throw new Error(`Cannot parse '${args.expression}'`);
+		if (args.context !== 'hover' && expr.kind === 'Call' && expr.callee.kind === 'Identifier' && this.options.defs.events.has(expr.callee.name)) {
+			return { result: this.queue(expr.callee.name, expr.args.map(arg => evalExpr(arg, this.scope(args.frameId), { allowRuntimeCalls: true }))), variablesReference: 0 };
+		}
+		const value = evalExpr(expr, this.scope(args.frameId), { allowRuntimeCalls: true });
+		const [variable] = this.variables(new Map([['', value]]));
+		return { result: variable!.value, type: variable!.type, variablesReference: variable!.variablesReference };
+	}
+
+	private queue(name: string, args: Value[]): string {
+		const sim = this.sim;
+		if (!sim) throw new Error('The script is not running');
+		if (!sim.queueEvent(name, args)) throw new Error(`State ${sim.state} has no ${name} event, or its event queue is full`);
+		this.inputs.push({ dispatched: this.dispatched, name, args });
+		return `Queued ${name}`;
+	}
+
+	// Globals and the frame's variables as they were at the current stop, over the built-in constants
+	private scope(frameId: number | undefined): Env {
+		const globals = new Map<string, Value>(this.variablesNow()?.globals ?? []);
+		if (!this.current() && this.sim) {
+			for (const name of this.sim.script.globals.keys()) {
+				const value = this.sim.getGlobal(name);
+				if (value) globals.set(name, value);
+			}
+		}
+		const env = new Env(globals, new Map(), new Env(new Map(this.constants))).child();
+		const frame = this.frameVariables(frameId ?? 0);
+		for (const [name, value] of [...frame?.parameters ?? [], ...frame?.locals ?? []]) env.setVar(name, value);
+		return env;
+	}
+
+	private fileOf(file: string | undefined): string {
+		return file && file !== '<unknown>' ? path.resolve(file) : this.program;
+	}
+
+	private location(file: string, offset: number): { file: string; line: number; column: number } {
+		const resolved = this.fileOf(file);
+		let starts = this.lineStarts.get(resolved);
+		if (!starts) {
+			starts = [0];
+			try {
+				const text = this.readFile(resolved);
+				for (let i = 0; i < text.length; i++) if (text[i] === '\n') starts.push(i + 1);
+			} catch {
+				// Unreadable sources still get a position on their first line
+			}
+			this.lineStarts.set(resolved, starts);
+		}
+		let low = 0;
+		let high = starts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (starts[mid]! <= offset) low = mid;
+			else high = mid - 1;
+		}
+		return { file: resolved, line: low, column: offset - starts[low]! };
+	}
+
+	private respond(request: DebugRequest, body?: unknown, error?: string): void {
+		this.send({
+			seq: this.seq++,
+			type: 'response',
+			request_seq: request.seq,
+			success: error === undefined,
+			command: request.command,
+			...error === undefined ? {} : { message: error },
+			...body === undefined ? {} : { body },
+		});
+	}
+
+	private emit(event: string, body?: unknown): void {
+		this.send({ seq: this.seq++, type: 'event', event, ...body === undefined ? {} : { body } });
+	}
+
+	private output(text: string, category: 'console' | 'stdout' | 'stderr' = 'stdout'): void {
+		this.emit('output', { category, output: text });
+	}
+}
+
+function isStoppable(stmt: Stmt): boolean {
+	return stmt.kind !== 'BlockStmt' && stmt.kind !== 'EmptyStmt' && stmt.kind !== 'LabelStmt' && stmt.kind !== 'ErrorStmt';
+}
+
+function childStatements(stmt: Stmt): Stmt[] {
+	switch (stmt.kind) {
+		case 'EmptyStmt':
+		case 'ErrorStmt':
+		case 'LabelStmt':
+		case 'StateChangeStmt':
+		case 'JumpStmt':
+		case 'ExprStmt':
+		case 'VarDecl':
+		case 'ReturnStmt':
+			return [];
+		case 'IfStmt': return stmt.else ? [stmt.then, stmt.else] : [stmt.then];
+		case 'WhileStmt':
+		case 'DoWhileStmt':
+		case 'ForStmt':
+			return [stmt.body];
+		case 'BlockStmt': return stmt.statements;
+		default:
+			AssertNever(stmt);
+			return [];
+	}
+}
+
+// Debug console input is parsed as the expression statement of a throwaway handler
+function parseExpression(text: string): Expr | undefined {
+	const script = parseScriptFromText(`default { state_entry() { ${text.trim().replace(/;$/, '')}; } }`);
+	const body = script.states.get('default')?.events[0]?.body;
+	const first = body?.kind === 'BlockStmt' ? body.statements[0] : undefined;
+	return first?.kind === 'ExprStmt' && first.expression.kind !== 'ErrorExpr' ? first.expression : undefined;
+}
+
+function describeValue(value: Value | undefined): string {
+	if (!value) return '<missing>';
+	if (value.kind === 'unknown') return `<unknown ${value.type}>`;
+	switch (value.type) {
+		case 'list':
+			return `[${value.value.map(describeValue).join(', ')}]`;
+		case 'string':
+		case 'key':
+			return JSON.stringify(value.value);
+		default:
+			return runtime.lslValueString(value) ?? `<${value.type}>`;
+	}
+}
@@ -6,8 +6,8 @@ import Ajv2020 from 'ajv/dist/2020';
 import schema from '../../../common/lslDefSchema.json';
 import draft7Meta from 'ajv/dist/refs/json-schema-draft-07.json';
 
-export interface DefParam { name: string; type: string; doc?: string; default?: string | number | boolean | null };
-export interface DefFunction { name: string; returns: string; params: DefParam[]; doc?: string; deprecated?: boolean; deprecatedMessage?: string; godMode?: boolean; overloads?: DefFunction[]; wiki?: string; energy?: number; sleep?: number; experience?: boolean; mustUse?: boolean; }
+export interface DefParam { name: string; type: string; doc?: string; default?: string | number | boolean | null; constantFamily?: string };
+export interface DefFunction { name: string; returns: string; params: DefParam[]; doc?: string; deprecated?: boolean; deprecatedMessage?: string; godMode?: boolean; overloads?: DefFunction[]; wiki?: string; energy?: number; sleep?: number; experience?: boolean; mustUse?: boolean; permission?: string; fastAlternative?: string; }
 export interface DefEvent { name: string; params: DefParam[]; doc?: string; wiki?: string; }
 export interface DefConst { name: string; type: string; value?: string | number | boolean | null; doc?: string; deprecated?: boolean; wiki?: string; }
 export interface DefFile {
@@ -21,6 +21,7 @@ export class Defs {
 	consts = new Map<string, DefConst>();
 	funcs = new Map<string, DefFunction[]>();
 	events = new Map<string, DefEvent>();
+	private families = new Map<string, DefConst[]>();
 
 	constructor(file: DefFile) {
 		this.file = file;
@@ -38,9 +39,55 @@ export class Defs {
 		file.events.forEach(e => {
 			this.events.set(e.name, e);
 		});
+		for (const overloads of this.funcs.values()) {
+			for (const fn of overloads) {
+				for (const p of fn.params) {
+					if (p.constantFamily !== undefined || normalizeType(p.type) !== 'integer') continue;
+					const family = inferConstantFamily(fn.name, p.name, prefix => this.constantFamily(prefix).length);
+					if (family) p.constantFamily = family;
+				}
+			}
+		}
+	}
+
+	// Integer constants named `<prefix>*`
+	constantFamily(prefix: string): DefConst[] {
+		let members = this.families.get(prefix);
+		if (!members) {
+			members = [...this.consts.values()].filter(c => c.name.startsWith(prefix) && normalizeType(c.type) === 'integer');
+			this.families.set(prefix, members);
+		}
+		return members;
+	}
+
+	// Family of argument `index`, from the first overload that has one
+	paramConstantFamily(name: string, index: number): string | undefined {
+		for (const fn of this.funcs.get(name) ?? []) {
+			const family = fn.params[index]?.constantFamily;
+			if (family) return family;
+		}
+		return undefined;
 	}
 }
 
+// Guesses the family of an integer parameter from its name and the function name: llSetStatus(status) -> STATUS_,
+// llSetClickAction(action) -> CLICK_ACTION_, llRequestPermissions(permissions) -> PERMISSION_. Only suffixes of the
+// function name ending in the parameter name are tried, so a bare `type` or `flags` parameter is left alone.
+function inferConstantFamily(fnName: string, paramName: string, familySize: (prefix: string) => number): string | undefined {
+	const fnWords = fnName.replace(/^ll/, '').split(/(?<=[a-z0-9])(?=[A-Z])/).map(w => w.toUpperCase());
+	const paramWords = paramName.split(/_|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean).map(w => w.toUpperCase());
+	if (paramWords.length === 0) return undefined;
+	for (let i = 0; i + paramWords.length <= fnWords.length; i++) {
+		const suffix = fnWords.slice(i);
+		if (suffix.slice(-paramWords.length).join('_') !== paramWords.join('_')) continue;
+		const prefix = suffix.join('_');
+		for (const candidate of [`${prefix}_`, `${prefix.replace(/S$/, '')}_`]) {
+			if (familySize(candidate) >= 2) return candidate;
+		}
+	}
+	return undefined;
+}
+
 const WIKI_BASE = 'https://wiki.secondlife.com/wiki/';
 
 type OfficialParamEntry = Record<string, { type?: string; tooltip?: string; description?: string }>;
@@ -86,6 +133,7 @@ interface ParamOverride {
 	type?: string;
 	doc?: OverrideValue;
 	default?: unknown;
+	constantFamily?: string | null;
 }
 interface FunctionOverride extends OverrideEntry {
 	params?: Record<string, ParamOverride>;
@@ -94,6 +142,8 @@ interface FunctionOverride extends OverrideEntry {
 	experience?: boolean | null;
 	mustUse?: boolean | null;
 	godMode?: boolean | null;
+	permission?: string | null;
+	fastAlternative?: string | null;
 	deprecatedMessage?: OverrideValue;
 }
 interface OverridesFile {
@@ -296,6 +346,22 @@ function applyFunctionOverride(target: DefFunction, override?: FunctionOverride)
 				next = rest;
 			}
 		}
+		if (Object.prototype.hasOwnProperty.call(override, 'permission')) {
+			const permission = override.permission;
+			if (typeof permission === 'string' && permission.trim()) next = { ...next, permission: permission.trim() };
+			else if (permission === null) {
+				const { permission: _omit, ...rest } = next;
+				next = rest;
+			}
+		}
+		if (Object.prototype.hasOwnProperty.call(override, 'fastAlternative')) {
+			const fastAlternative = override.fastAlternative;
+			if (typeof fastAlternative === 'string' && fastAlternative.trim()) next = { ...next, fastAlternative: fastAlternative.trim() };
+			else if (fastAlternative === null) {
+				const { fastAlternative: _omit, ...rest } = next;
+				next = rest;
+			}
+		}
 		if (Object.prototype.hasOwnProperty.call(override, 'deprecatedMessage')) {
 			const depMsg = override.deprecatedMessage;
 			if (typeof depMsg === 'string' && depMsg.trim()) next = { ...next, deprecatedMessage: depMsg.trim(), deprecated: true };
@@ -327,6 +393,11 @@ function applyFunctionOverride(target: DefFunction, override?: FunctionOverride)
 			if (defVal === null || defVal === false) delete current.default;
 			else current.default = defVal as string | number | boolean | null;
 		}
+		if (Object.prototype.hasOwnProperty.call(value, 'constantFamily')) {
+			const family = value.constantFamily;
+			// An empty family also stops the name-based guess
+			current.constantFamily = typeof family === 'string' ? family.trim() : '';
+		}
 		merged[index] = current;
 	}
 	return { ...next, params: merged };
@@ -0,0 +1,92 @@
+// Line-based unified diff, as printed by `diff -u`.
+
+export interface UnifiedDiffOptions {
+	fromFile?: string;
+	toFile?: string;
+	context?: number;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+	if (!text) return [];
+	const lines = text.split('\n');
+	if (lines[lines.length - 1] === '') lines.pop();
+	return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+	const midA = a.slice(prefix, a.length - suffix);
+	const midB = b.slice(prefix, b.length - suffix);
+	// LCS table over the changed middle only
+	const width = midB.length + 1;
+	const lcs = new Uint32Array((midA.length + 1) * width);
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lcs[i * width + j] = midA[i] === midB[j] ? lcs[(i + 1) * width + j + 1]! + 1 : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+		}
+	}
+	const ops: DiffOp[] = a.slice(0, prefix).map(line => ({ kind: ' ', line }));
+	let i = 0, j = 0;
+	while (i < midA.length || j < midB.length) {
+		if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+			ops.push({ kind: ' ', line: midA[i]! });
+			i++; j++;
+		} else if (j < midB.length && (i >= midA.length || lcs[i * width + j + 1]! >= lcs[(i + 1) * width + j]!)) {
+			ops.push({ kind: '+', line: midB[j++]! });
+		} else {
+			ops.push({ kind: '-', line: midA[i++]! });
+		}
+	}
+	for (const line of a.slice(a.length - suffix)) ops.push({ kind: ' ', line });
+	// Removals before additions inside each change block
+	for (let k = 0; k < ops.length; k++) {
+		if (ops[k]!.kind === ' ') continue;
+		let end = k;
+		while (end < ops.length && ops[end]!.kind !== ' ') end++;
+		const block = ops.slice(k, end);
+		ops.splice(k, block.length, ...block.filter(op => op.kind === '-'), ...block.filter(op => op.kind === '+'));
+		k = end;
+	}
+	return ops;
+}
+
+// Empty string when both texts have the same lines
+export function unifiedDiff(before: string, after: string, options: UnifiedDiffOptions = {}): string {
+	const context = options.context ?? 3;
+	const ops = diffLines(splitLines(before), splitLines(after));
+	if (!ops.some(op => op.kind !== ' ')) return '';
+	const out = [`--- ${options.fromFile ?? 'a'}`, `+++ ${options.toFile ?? 'b'}`];
+	let k = 0;
+	while (k < ops.length) {
+		while (k < ops.length && ops[k]!.kind === ' ') k++;
+		if (k >= ops.length) break;
+		// Extend the hunk while changes are within 2 * context lines of each other
+		const start = Math.max(0, k - context);
+		let end = k;
+		for (;;) {
+			while (end < ops.length && ops[end]!.kind !== ' ') end++;
+			let next = end;
+			while (next < ops.length && ops[next]!.kind === ' ') next++;
+			if (next < ops.length && next - end <= context * 2) end = next;
+			else break;
+		}
+		const stop = Math.min(ops.length, end + context);
+		let oldLine = 1, newLine = 1;
+		for (let m = 0; m < start; m++) {
+			if (ops[m]!.kind !== '+') oldLine++;
+			if (ops[m]!.kind !== '-') newLine++;
+		}
+		const hunk = ops.slice(start, stop);
+		const oldCount = hunk.filter(op => op.kind !== '+').length;
+		const newCount = hunk.filter(op => op.kind !== '-').length;
+		out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+		for (const op of hunk) out.push(`${op.kind}${op.line}`);
+		k = stop;
+	}
+	return `${out.join('\n')}\n`;
+}
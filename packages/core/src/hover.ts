@@ -1,12 +1,13 @@
 import { fileUriToPath, MarkupKind, type Hover, type Position } from './protocol';
 import type { TextDocument } from './protocol';
 import { Defs } from './defs';
-import type { DefFunction } from './defs';
+import type { DefConst, DefFunction } from './defs';
 import fs from 'node:fs';
-import { Analysis } from './analysisTypes';
+import { Analysis, type Decl } from './analysisTypes';
 import type { PreprocResult } from './core/preproc';
 import { isKeyword } from './ast/lexer';
 import { isType } from './ast/types';
+import { formatStride } from './ast/stride';
 import { scanIncludesForSymbol } from './resolver';
 
 function readIncludeFile(file: string): string | null {
@@ -72,6 +73,16 @@ function formatNumber(value: number): string {
 	return value.toFixed(3).replace(/\.0+$/g, '').replace(/(\.\d*?)0+$/, '$1');
 }
 
+// `STATUS_PHANTOM`, or the single-bit constants OR-ing to `value` (`STATUS_PHYSICS | STATUS_PHANTOM`)
+function constantNamesForValue(family: DefConst[], value: number): string | null {
+	const exact = family.find(c => c.value === value);
+	if (exact) return exact.name;
+	const bits = family.filter(c => typeof c.value === 'number' && c.value > 0 && (c.value & (c.value - 1)) === 0 && (value & c.value) === c.value);
+	const covered = bits.reduce((acc, c) => acc | (c.value as number), 0);
+	if (value <= 0 || covered !== value) return null;
+	return bits.map(c => c.name).join(' | ');
+}
+
 function deprecatedMessageFrom(fn?: DefFunction): string | undefined {
 	if (!fn) return undefined;
 	if (fn.deprecatedMessage) return fn.deprecatedMessage;
@@ -262,6 +273,16 @@ export function lslHover(doc: TextDocument, params: { position: Position }, defs
 			// Show the current parameter doc if available
 			const best = fs.find(f => (f.params?.length || 0) > callCtx.index) || fs[0];
 			const p = best.params?.[callCtx.index];
+			const element = analysis?.stridedElements.find(x => inRange(params.position, x.range));
+			if (element) {
+				parts.unshift('```lsl', `${element.stride[element.offset]} // element ${element.offset} of ${element.list} (${formatStride(element.stride)})`, '```', '');
+			}
+			const family = defs.paramConstantFamily(lookupName, callCtx.index);
+			const literal = /^(?:0x[0-9a-f]+|\d+)$/i.test(w) ? Number(w) : undefined;
+			if (family && literal !== undefined) {
+				const names = constantNamesForValue(defs.constantFamily(family), literal);
+				if (names) parts.unshift('```lsl', `${w} // ${names}`, '```', '');
+			}
 			if (p && p.doc) {
 				parts.push('', `Parameter: ${p.name}`, fmtDoc(p.doc) as string);
 			}
@@ -301,7 +322,7 @@ export function lslHover(doc: TextDocument, params: { position: Position }, defs
 		// If hovering directly on a declaration
 		const at = analysis.symbolAt(offPos);
 		if (at && (at.kind === 'var' || at.kind === 'param')) {
-			const sig = `${at.type ?? 'any'} ${at.name}`;
+			const sig = variableSignature(at);
 			const parts = ['```lsl', sig, '```'];
 			// Try to attach event parameter doc if available (based on enclosing declaration)
 			if (at.kind === 'param') {
@@ -332,7 +353,7 @@ export function lslHover(doc: TextDocument, params: { position: Position }, defs
 				const s = doc.offsetAt(d.range.start);
 				if (s <= off && s > bestStart) { best = d; bestStart = s; }
 			}
-			const sig = `${best.type ?? 'any'} ${best.name}`;
+			const sig = variableSignature(best);
 			const parts = ['```lsl', sig, '```'];
 			if (best.kind === 'param') {
 				const declOff = doc.offsetAt(best.range.start);
@@ -371,6 +392,18 @@ export function lslHover(doc: TextDocument, params: { position: Position }, defs
 	return null;
 }
 
+function inRange(pos: Position, range: { start: Position; end: Position }): boolean {
+	if (pos.line < range.start.line || pos.line > range.end.line) return false;
+	if (pos.line === range.start.line && pos.character < range.start.character) return false;
+	if (pos.line === range.end.line && pos.character > range.end.character) return false;
+	return true;
+}
+
+function variableSignature(d: Decl): string {
+	const sig = `${d.type ?? 'any'} ${d.name}`;
+	return d.stride ? `/** ${formatStride(d.stride)} */\n${sig}` : sig;
+}
+
 // Find a JSDoc-style block comment (/** ... */) immediately preceding the declaration start offset.
 // Returns cleaned Markdown text or null if not found.
 function extractLeadingJsDoc(text: string, declStart: number): string | null {
@@ -1,9 +1,13 @@
 export * from './analysisTypes';
 export * from './builtins';
+export * from './callHierarchy';
+export * from './codeLens';
 export * from './completions';
+export * from './debugAdapter';
 export * from './defs';
 export * from './definitionUpdate';
 export * from './diagSettings';
+export * from './diff';
 export * from './format';
 export * from './extensions';
 export * from './firestormHeader';
@@ -13,11 +17,17 @@ export * from './navigation';
 export * from './op_validate_ast';
 export * from './parser';
 export * from './protocol';
+export * from './quickFixes';
 export * from './resolver';
+export * from './ruleLists';
 export * from './semtok';
+export * from './sourceMap';
 export * from './symbols';
 export * from './utils';
+export * from './viewerErrors';
+export * from './workspaceIndex';
 export * from './ast/analyze';
+export * from './ast/callDepth';
 export * from './ast/compat';
 export * from './ast/constGlobalExpressions';
 export * from './ast/constantGlobals';
@@ -25,12 +35,22 @@ export * from './ast/eval';
 export * from './ast/emit';
 export * from './ast/infer';
 export * from './ast/key';
+export * from './ast/latency';
 export * from './ast/lazyLists';
 export * from './ast/lexer';
+export * from './ast/linkset';
 export * from './ast/measure';
 export * from './ast/optimize';
+export * from './ast/optimizeSearch';
+export * from './ast/optimizeVerify';
 export * from './ast/parser';
+export * from './ast/permissions';
+export * from './ast/repl';
+export * from './ast/resources';
 export * from './ast/shrinkNames';
+export * from './ast/simulator';
+export * from './ast/stride';
+export * from './ast/testRunner';
 export * from './ast/types';
 export * from './core/macro';
 export * from './core/pipeline';
@@ -1,10 +1,15 @@
-import type { TextDocument } from './protocol';
-import type { Range, TextEdit } from './protocol';
-import type { Analysis } from './analysisTypes';
+import fs from 'node:fs';
+import path from 'node:path';
+import { TextDocument } from './protocol';
+import type { AnnotatedTextEdit, ChangeAnnotation, Range, TextDocumentEdit, TextEdit, WorkspaceEdit } from './protocol';
+import type { Analysis, Decl } from './analysisTypes';
 import type { PreprocResult } from './core/preproc';
 import type { Token as LexToken } from './lexer';
 import { isKeyword } from './ast/lexer';
-import { fileUriToPath } from './protocol';
+import { fileUriToPath, filePathToUri } from './protocol';
+import { scanIncludesForSymbol } from './resolver';
+import { maskCommentsAndStrings } from './utils';
+import type { WorkspaceIndex, WorkspaceSymbolKind } from './workspaceIndex';
 
 export type SimpleToken = { kind: string; value: string; start: number; end: number };
 
@@ -72,18 +77,210 @@ export function prepareRename(
 		}
 	}
 	const name = w.text;
-	if (isActiveMacro(pre, name) && localMacroDefNameSpan(doc, pre, name)) return { start: doc.positionAt(w.start), end: doc.positionAt(w.end) };
+	if (isActiveMacro(pre, name) && (localMacroDefNameSpan(doc, pre, name) || pre.macroDefs?.[name])) return { start: doc.positionAt(w.start), end: doc.positionAt(w.end) };
 	return null;
 }
 
+export interface RenameOptions {
+	// Index of the workspace; when given, every indexed script that sees the declaration is updated too
+	workspace?: WorkspaceIndex;
+	filePathToUri?: (file: string) => string;
+	// Text of files other than the current document (e.g. open editors); defaults to the file on disk
+	readFile?: (file: string) => string | undefined;
+}
+
+export type RenameWorkspaceEdit = WorkspaceEdit & { changes: Record<string, TextEdit[]> };
+
+type SharedRenameTarget = { name: string; kind: Extract<WorkspaceSymbolKind, 'function' | 'global' | 'macro'>; declFile: string };
+
+const INACTIVE_ANNOTATION = 'lsl.rename.inactive';
+const UNANALYZED_ANNOTATION = 'lsl.rename.unanalyzed';
+const RENAME_ANNOTATIONS: Record<string, ChangeAnnotation> = {
+	[INACTIVE_ANNOTATION]: {
+		label: 'Inactive #if branches',
+		description: 'Usages in preprocessor branches that are disabled with the current macros.',
+	},
+	[UNANALYZED_ANNOTATION]: {
+		label: 'Files that could not be analyzed',
+		description: 'Plain text matches in files that failed to parse; review before applying.',
+		needsConfirmation: true,
+	},
+};
+
+// Top-level function, global or macro whose declaration other files can see: either it comes from an
+// include, or it lives in the current file and indexed scripts include this file.
+function sharedRenameTarget(
+	doc: TextDocument,
+	name: string,
+	targetDecl: Decl | null,
+	analysis: Analysis,
+	pre: PreprocResult,
+	workspace: WorkspaceIndex | undefined,
+): SharedRenameTarget | null {
+	const currentFile = doc.uri.startsWith('file://') ? fileUriToPath(doc.uri) : undefined;
+	if (!currentFile) return null;
+	let target: SharedRenameTarget | null = null;
+	if (targetDecl) {
+		const kind = targetDecl === analysis.functions.get(name) ? 'function' : targetDecl === analysis.globals.get(name) ? 'global' : null;
+		if (!kind) return null;
+		const hit = scanIncludesForSymbol(name, pre, [kind]);
+		target = { name, kind, declFile: path.resolve(hit ? hit.file : currentFile) };
+	} else if (isActiveMacro(pre, name) && pre.macroDefs?.[name]) {
+		target = { name, kind: 'macro', declFile: path.resolve(pre.macroDefs[name].file) };
+	}
+	if (!target) return null;
+	if (target.declFile === path.resolve(currentFile) && !workspace?.dependents(currentFile).length) return null;
+	return target;
+}
+
+function identifierOffsets(code: string, name: string, start = 0, end = code.length): number[] {
+	const out: number[] = [];
+	const re = new RegExp(`\\b${name}\\b`, 'g');
+	re.lastIndex = start;
+	for (let m = re.exec(code); m && m.index < end; m = re.exec(code)) out.push(m.index);
+	return out;
+}
+
+// An inactive branch is only safe to rewrite when it does not declare its own symbol with the same name.
+function declaresName(code: string, name: string): boolean {
+	const types = '(?:integer|float|string|key|vector|rotation|quaternion|list)';
+	return new RegExp(`#\\s*(?:define|undef)\\s+${name}\\b|\\b${types}\\s+${name}\\b|^\\s*${name}\\s*\\([^)]*\\)\\s*\\{`, 'm').test(code);
+}
+
+function inactiveUsageOffsets(text: string, ranges: ReadonlyArray<{ start: number; end: number }>, name: string): number[] {
+	const code = maskCommentsAndStrings(text);
+	const out: number[] = [];
+	for (const r of ranges) {
+		if (declaresName(code.slice(r.start, r.end), name)) continue;
+		out.push(...identifierOffsets(code, name, r.start, r.end));
+	}
+	return out;
+}
+
+const INCLUDE_DIRECTIVE_RE = /^[ \t]*#[ \t]*include[ \t]*["<]([^">\r\n]+)[">]/gm;
+
+// Whether a file that could not be indexed includes `declFile`, from the text of its #include directives:
+// directly, relative to the file or below an include root, or through a header the index knows includes it
+function includesFile(file: string, text: string, declFile: string, workspace: WorkspaceIndex): boolean {
+	const named = (candidate: string, target: string) => candidate === path.resolve(path.dirname(file), target) || candidate.endsWith(path.sep + path.normalize(target));
+	for (const m of text.matchAll(INCLUDE_DIRECTIVE_RE)) {
+		const target = m[1]!;
+		if (named(declFile, target)) return true;
+		if (workspace.files.some(header => named(header, target) && workspace.get(header)!.includes.includes(declFile))) return true;
+	}
+	return false;
+}
+
+function computeSharedRenameEdits(
+	doc: TextDocument,
+	target: SharedRenameTarget,
+	newName: string,
+	targetDecl: Decl | null,
+	analysis: Analysis,
+	pre: PreprocResult,
+	tokens: ReadonlyArray<LexToken>,
+	options: RenameOptions,
+): RenameWorkspaceEdit {
+	const { name, kind, declFile } = target;
+	const toUri = options.filePathToUri ?? filePathToUri;
+	const readFile = (file: string): string | undefined => {
+		const text = options.readFile?.(file);
+		if (text !== undefined) return text;
+		try { return fs.readFileSync(file, 'utf8'); } catch { return undefined; }
+	};
+	const currentFile = path.resolve(fileUriToPath(doc.uri)!);
+	const edits = new Map<string, Map<string, TextEdit | AnnotatedTextEdit>>();
+	const addEdit = (uri: string, range: Range, annotationId?: string) => {
+		let byPos = edits.get(uri);
+		if (!byPos) { byPos = new Map(); edits.set(uri, byPos); }
+		const key = `${range.start.line}:${range.start.character}`;
+		if (!byPos.has(key)) byPos.set(key, annotationId ? { range, newText: newName, annotationId } : { range, newText: newName });
+	};
+	const addOffsets = (uri: string, fileDoc: TextDocument, offsets: number[], annotationId?: string) => {
+		for (const off of offsets) addEdit(uri, { start: fileDoc.positionAt(off), end: fileDoc.positionAt(off + name.length) }, annotationId);
+	};
+
+	// The current document, from its fresh analysis
+	if (declFile === currentFile) {
+		if (kind === 'macro') {
+			const defSpan = localMacroDefNameSpan(doc, pre, name);
+			if (defSpan) addEdit(doc.uri, { start: doc.positionAt(defSpan.start), end: doc.positionAt(defSpan.end) });
+		} else if (targetDecl) {
+			addEdit(doc.uri, targetDecl.range);
+		}
+	}
+	if (kind === 'macro') {
+		for (const t of tokens) {
+			if (t.kind === 'id' && t.value === name && !isDisabledOffset(pre, t.start, currentFile) && !analysis.refAt(t.start)) {
+				addEdit(doc.uri, { start: doc.positionAt(t.start), end: doc.positionAt(t.end) });
+			}
+		}
+	} else {
+		for (const r of analysis.refs) {
+			if (r.name === name && analysis.refAt(doc.offsetAt(r.range.start)) === targetDecl) addEdit(doc.uri, r.range);
+		}
+	}
+	const currentInactive = (pre.inactiveRanges ?? pre.disabledRanges).filter(r => rangeMatchesFile(r.file, currentFile));
+	addOffsets(doc.uri, doc, inactiveUsageOffsets(doc.getText(), currentInactive, name), INACTIVE_ANNOTATION);
+
+	// Every other file that sees the declaration
+	const workspace = options.workspace;
+	const unanalyzed = new Set<string>();
+	if (workspace) {
+		const seesDecl = (file: string, includes: string[]) => file === declFile || includes.includes(declFile);
+		const locations = workspace.references(name, kind, declFile, true);
+		for (const file of workspace.files) {
+			const entry = workspace.get(file);
+			if (!entry || file === currentFile || !seesDecl(file, entry.includes)) continue;
+			if (!entry.complete) { unanalyzed.add(file); continue; }
+			const uri = toUri(file);
+			for (const loc of locations) if (loc.file === file) addEdit(uri, loc.range);
+			const text = entry.inactiveRanges.length ? readFile(file) : undefined;
+			if (text !== undefined) addOffsets(uri, TextDocument.create(uri, 'lsl', 0, text), inactiveUsageOffsets(text, entry.inactiveRanges, name), INACTIVE_ANNOTATION);
+		}
+		for (const file of workspace.failures.keys()) {
+			const text = file === currentFile ? undefined : readFile(file);
+			if (text !== undefined && includesFile(file, text, declFile, workspace)) unanalyzed.add(file);
+		}
+	} else if (declFile !== currentFile) {
+		unanalyzed.add(declFile);
+	}
+
+	// Files we could not analyze only get plain text matches, and the client asks before applying them
+	for (const file of unanalyzed) {
+		const text = readFile(file);
+		if (text === undefined) continue;
+		const uri = toUri(file);
+		addOffsets(uri, TextDocument.create(uri, 'lsl', 0, text), identifierOffsets(maskCommentsAndStrings(text), name), UNANALYZED_ANNOTATION);
+	}
+
+	const result: RenameWorkspaceEdit = { changes: {} };
+	const documentChanges: TextDocumentEdit[] = [];
+	const usedAnnotations = new Set<string>();
+	for (const [uri, byPos] of edits) {
+		const fileEdits = [...byPos.values()];
+		for (const edit of fileEdits) if ('annotationId' in edit) usedAnnotations.add(edit.annotationId);
+		// Clients without annotation support fall back to `changes`, which leaves out edits needing confirmation
+		const plain = fileEdits.filter(edit => !('annotationId' in edit) || !RENAME_ANNOTATIONS[edit.annotationId]!.needsConfirmation);
+		if (plain.length) result.changes[uri] = plain.map(edit => ({ range: edit.range, newText: edit.newText }));
+		documentChanges.push({ textDocument: { uri, version: null }, edits: fileEdits });
+	}
+	if (usedAnnotations.size) {
+		result.documentChanges = documentChanges;
+		result.changeAnnotations = Object.fromEntries([...usedAnnotations].map(id => [id, RENAME_ANNOTATIONS[id]!]));
+	}
+	return result;
+}
+
 export function computeRenameEdits(
 	doc: TextDocument,
 	offset: number,
 	newName: string,
 	analysis: Analysis,
 	pre: PreprocResult,
-	tokens: ReadonlyArray<LexToken>
-): { changes: Record<string, TextEdit[]> } {
+	tokens: ReadonlyArray<LexToken>,
+	options: RenameOptions = {},
+): RenameWorkspaceEdit {
 	const changes: Record<string, TextEdit[]> = {};
 	const addEdit = (uri: string, start: number, end: number) => {
 		const arr = (changes[uri] ||= []);
@@ -112,6 +309,9 @@ export function computeRenameEdits(
 		}
 	}
 
+	const shared = sharedRenameTarget(doc, oldName, targetDecl, analysis, pre, options.workspace);
+	if (shared) return computeSharedRenameEdits(doc, shared, newName, targetDecl, analysis, pre, tokens, options);
+
 	if (targetDecl) {
 		addEditRange(doc.uri, targetDecl.range);
 		for (const r of analysis.refs) {
@@ -18,6 +18,27 @@ export interface TextEdit {
 	newText: string;
 }
 
+export interface ChangeAnnotation {
+	label: string;
+	needsConfirmation?: boolean;
+	description?: string;
+}
+
+export interface AnnotatedTextEdit extends TextEdit {
+	annotationId: string;
+}
+
+export interface TextDocumentEdit {
+	textDocument: { uri: string; version: number | null };
+	edits: (TextEdit | AnnotatedTextEdit)[];
+}
+
+export interface WorkspaceEdit {
+	changes?: Record<string, TextEdit[]>;
+	documentChanges?: TextDocumentEdit[];
+	changeAnnotations?: Record<string, ChangeAnnotation>;
+}
+
 export enum DiagnosticSeverity {
 	Error = 1,
 	Warning = 2,
@@ -0,0 +1,466 @@
+import type { Range, TextDocument, TextEdit } from './protocol';
+import { LSL_DIAGCODES, diagCodeFriendly, type Analysis, type Diag } from './analysisTypes';
+import type { Defs } from './defs';
+import { maskCommentsAndStrings } from './utils';
+import { inferExprTypeFromAst, type SimpleType } from './ast/infer';
+import { isType, type Event, type Expr, type Function as FnNode, type Script, type Stmt, type Type } from './ast/types';
+import { isCurrentFile } from './callHierarchy';
+
+// Quick fixes for analyzer diagnostics. Edits always target the current document; `preferred` marks the
+// fixes that keep the script's behaviour and are safe to apply unattended (`check --fix`).
+
+// Groups of fixes that change behaviour but that `check --fix` applies when asked (`--fix-assignments`)
+export type QuickFixOptIn = 'assignments';
+
+export interface QuickFix {
+	title: string;
+	diagnostic: Diag;
+	edits: TextEdit[];
+	preferred?: boolean;
+	optIn?: QuickFixOptIn;
+}
+
+export interface QuickFixContext {
+	analysis: Analysis;
+	defs: Defs;
+	script?: Script;
+}
+
+type AstNode = Expr | Stmt | FnNode | Event;
+
+const DEFAULT_VALUES: Record<Type, string> = {
+	integer: '0',
+	float: '0.0',
+	string: '""',
+	key: 'NULL_KEY',
+	vector: 'ZERO_VECTOR',
+	rotation: 'ZERO_ROTATION',
+	list: '[]',
+};
+
+export function quickFixes(doc: TextDocument, diagnostics: readonly Diag[], ctx: QuickFixContext): QuickFix[] {
+	return diagnostics.flatMap(diag => quickFixesFor(doc, diag, ctx));
+}
+
+export function quickFixesFor(doc: TextDocument, diag: Diag, ctx: QuickFixContext): QuickFix[] {
+	const fixes: QuickFix[] = [];
+	const add = (title: string, edits: TextEdit[] | null, preferred = false, optIn?: QuickFixOptIn) => {
+		if (edits && edits.length) fixes.push({ title, diagnostic: diag, edits, ...(preferred ? { preferred } : {}), ...(optIn ? { optIn } : {}) });
+	};
+	switch (diag.code) {
+		case LSL_DIAGCODES.SUSPICIOUS_ASSIGNMENT: {
+			// The diagnostic covers the whole assignment; only its operator changes. Not preferred: the
+			// assignment may be intended, and the comparison behaves differently
+			const range = ctx.script && assignmentOperator(doc, ctx.script, diag.range);
+			if (range) add('Change "=" to "=="', [{ range, newText: '==' }], false, 'assignments');
+			break;
+		}
+		case LSL_DIAGCODES.REDUNDANT_CAST: {
+			// Drop the leading (type) of the cast expression
+			const m = /^\(\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)\s*([\s\S]*)$/.exec(doc.getText(diag.range));
+			if (m && isType(m[1]!)) add('Remove redundant cast', [{ range: diag.range, newText: m[2] ?? '' }], true);
+			break;
+		}
+		case LSL_DIAGCODES.MISSING_RETURN: {
+			const fn = ctx.script && findFunctionAt(doc, ctx.script, doc.offsetAt(diag.range.start));
+			if (fn && fn.returnType && fn.returnType !== 'void') {
+				const value = DEFAULT_VALUES[fn.returnType];
+				add(`Add "return ${value};"`, insertReturn(doc, fn, value), true);
+			}
+			break;
+		}
+		case LSL_DIAGCODES.UNUSED_PARAM: {
+			const name = doc.getText(diag.range);
+			const renamed = `_${name}`;
+			if (!ctx.analysis.decls.some(d => d.name === renamed)) add(`Prefix "${name}" with an underscore`, [{ range: diag.range, newText: renamed }], true);
+			break;
+		}
+		case LSL_DIAGCODES.UNUSED_LOCAL: {
+			const name = doc.getText(diag.range);
+			const decl = ctx.script && findLocalDecl(doc, ctx.script, doc.offsetAt(diag.range.start), name);
+			if (decl) add(`Remove unused local "${name}"`, removeLocal(doc, decl), !decl.initializer || !hasSideEffects(decl.initializer));
+			break;
+		}
+		case LSL_DIAGCODES.IMPLICIT_STRING_TO_KEY: {
+			const text = doc.getText(diag.range);
+			const expr = ctx.script && findPath(doc, ctx.script, node => sameSpan(doc, node, diag.range))?.at(-1) as Expr | undefined;
+			const wrap = expr ? expr.kind === 'Binary' : !/^[A-Za-z_][A-Za-z0-9_]*$|^"(?:[^"\\]|\\.)*"$/.test(text);
+			add('Add explicit (key) cast', [{ range: diag.range, newText: wrap ? `(key)(${text})` : `(key)${text}` }], true);
+			break;
+		}
+		case LSL_DIAGCODES.UNKNOWN_IDENTIFIER: {
+			const name = doc.getText(diag.range);
+			if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || !diag.message.startsWith('Unknown identifier')) break;
+			for (const candidate of suggestions(name, identifierCandidates(ctx, name))) add(`Change to "${candidate}"`, [{ range: diag.range, newText: candidate }]);
+			if (ctx.script) fixes.push(...declareIdentifier(doc, diag, ctx.script, ctx, name));
+			break;
+		}
+		case LSL_DIAGCODES.UNKNOWN_CONST: {
+			const name = doc.getText(diag.range);
+			for (const candidate of suggestions(name, ctx.defs.consts.keys())) add(`Change to "${candidate}"`, [{ range: diag.range, newText: candidate }]);
+			break;
+		}
+		case LSL_DIAGCODES.UNKNOWN_EVENT: {
+			// The diagnostic covers the whole handler; the name leads it
+			const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(doc.getText(diag.range));
+			if (!m) break;
+			const nameRange = { start: diag.range.start, end: doc.positionAt(doc.offsetAt(diag.range.start) + m[0].length) };
+			for (const candidate of suggestions(m[0], ctx.defs.events.keys())) add(`Change to "${candidate}"`, [{ range: nameRange, newText: candidate }]);
+			break;
+		}
+		default:
+			break;
+	}
+	add(`Suppress ${diagCodeFriendly(diag.code) ?? diag.code} with // lsl-disable-next-line`, suppressEdits(doc, diag));
+	return fixes;
+}
+
+export interface FixPass {
+	doc: TextDocument;
+	diagnostics: readonly Diag[];
+	context: QuickFixContext;
+}
+
+export interface FixAllResult {
+	text: string;
+	applied: QuickFix[];
+	passes: number;
+}
+
+// Apply preferred fixes, and those in the `optIns` groups, and re-analyze until none are left. Fixes
+// overlapping an earlier one in the same pass wait for the next pass, where they are recomputed against the edited text.
+export function applyPreferredFixes(text: string, analyze: (text: string) => FixPass, optIns: readonly QuickFixOptIn[] = [], maxPasses = 10): FixAllResult {
+	const applied: QuickFix[] = [];
+	const seen = new Set<string>([text]);
+	let passes = 0;
+	while (passes < maxPasses) {
+		const { doc, diagnostics, context } = analyze(text);
+		const taken: { start: number; end: number }[] = [];
+		const chosen: QuickFix[] = [];
+		for (const fix of quickFixes(doc, diagnostics, context)) {
+			if (!fix.preferred && !(fix.optIn && optIns.includes(fix.optIn))) continue;
+			const spans = fix.edits.map(edit => ({ start: doc.offsetAt(edit.range.start), end: doc.offsetAt(edit.range.end) }));
+			if (spans.some(span => taken.some(t => span.start <= t.end && t.start <= span.end))) continue;
+			taken.push(...spans);
+			chosen.push(fix);
+		}
+		if (!chosen.length) break;
+		const next = applyTextEdits(doc, chosen.flatMap(fix => fix.edits));
+		passes++;
+		if (seen.has(next)) break;
+		seen.add(next);
+		applied.push(...chosen);
+		text = next;
+	}
+	return { text, applied, passes };
+}
+
+// Apply non-overlapping edits to the document text
+export function applyTextEdits(doc: TextDocument, edits: readonly TextEdit[]): string {
+	const text = doc.getText();
+	const sorted = edits
+		.map(edit => ({ start: doc.offsetAt(edit.range.start), end: doc.offsetAt(edit.range.end), newText: edit.newText }))
+		.sort((a, b) => b.start - a.start || b.end - a.end);
+	let out = text;
+	let limit = text.length;
+	for (const edit of sorted) {
+		if (edit.end > limit) continue;
+		out = out.slice(0, edit.start) + edit.newText + out.slice(edit.end);
+		limit = edit.start;
+	}
+	return out;
+}
+
+function lineText(doc: TextDocument, line: number): string {
+	return doc.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }).replace(/\r?\n$/, '');
+}
+
+function indentOf(doc: TextDocument, line: number): string {
+	return /^[ \t]*/.exec(lineText(doc, line))![0];
+}
+
+function indentUnit(doc: TextDocument): string {
+	for (const line of doc.getText().split('\n')) {
+		const indent = /^[ \t]*/.exec(line)![0];
+		if (!indent || !line.trim()) continue;
+		return indent.startsWith('\t') ? '\t' : indent;
+	}
+	return '\t';
+}
+
+function suppressEdits(doc: TextDocument, diag: Diag): TextEdit[] {
+	const code = diagCodeFriendly(diag.code) ?? diag.code;
+	const line = diag.range.start.line;
+	if (line > 0) {
+		const previous = lineText(doc, line - 1);
+		const m = /^\s*\/\/\s*lsl-disable-next-line\b(.*)$/i.exec(previous);
+		if (m) {
+			// An empty list already suppresses everything
+			if (!m[1]!.trim()) return [];
+			const end = { line: line - 1, character: previous.replace(/\s+$/, '').length };
+			return [{ range: { start: end, end }, newText: `, ${code}` }];
+		}
+	}
+	const start = { line, character: 0 };
+	return [{ range: { start, end: start }, newText: `${indentOf(doc, line)}// lsl-disable-next-line ${code}\n` }];
+}
+
+function currentFunctions(doc: TextDocument, script: Script): FnNode[] {
+	return [...script.functions.values()].filter(fn => isCurrentFile(doc, fn));
+}
+
+function currentEvents(doc: TextDocument, script: Script): Event[] {
+	return [...script.states.values()].filter(state => isCurrentFile(doc, state)).flatMap(state => state.events);
+}
+
+function findFunctionAt(doc: TextDocument, script: Script, offset: number): FnNode | undefined {
+	return currentFunctions(doc, script).find(fn => fn.span.start === offset);
+}
+
+function insertReturn(doc: TextDocument, fn: FnNode, value: string): TextEdit[] | null {
+	const body = fn.body;
+	const close = body.span.end - 1;
+	if (doc.getText().charAt(close) !== '}') return null;
+	const pos = doc.positionAt(close);
+	const before = lineText(doc, pos.line).slice(0, pos.character);
+	if (before.trim()) {
+		// Body closes on a line with code: keep it on that line
+		const newText = /\s$/.test(before) ? `return ${value}; ` : ` return ${value}; `;
+		return [{ range: { start: pos, end: pos }, newText }];
+	}
+	const statements = body.kind === 'BlockStmt' ? body.statements : [];
+	const last = statements[statements.length - 1];
+	const indent = last ? indentOf(doc, doc.positionAt(last.span.start).line) : before + indentUnit(doc);
+	const start = { line: pos.line, character: 0 };
+	return [{ range: { start, end: start }, newText: `${indent}return ${value};\n` }];
+}
+
+function statementsOf(stmt: Stmt): Stmt[] {
+	switch (stmt.kind) {
+		case 'BlockStmt': return stmt.statements;
+		case 'IfStmt': return stmt.else ? [stmt.then, stmt.else] : [stmt.then];
+		case 'WhileStmt':
+		case 'DoWhileStmt':
+		case 'ForStmt': return [stmt.body];
+		default: return [];
+	}
+}
+
+function exprsOf(node: AstNode): Expr[] {
+	switch (node.kind) {
+		case 'ExprStmt': return [node.expression];
+		case 'VarDecl': return node.initializer ? [node.initializer] : [];
+		case 'ReturnStmt': return node.expression ? [node.expression] : [];
+		case 'IfStmt':
+		case 'WhileStmt':
+		case 'DoWhileStmt': return [node.condition];
+		case 'ForStmt': return [node.init, node.condition, node.update].filter((e): e is Expr => !!e);
+		case 'JumpStmt': return [node.target];
+		case 'Call': return [node.callee, ...node.args];
+		case 'Member': return [node.object];
+		case 'Unary':
+		case 'Cast': return [node.argument];
+		case 'Binary': return [node.left, node.right];
+		case 'Paren': return [node.expression];
+		case 'ListLiteral':
+		case 'VectorLiteral': return node.elements;
+		default: return [];
+	}
+}
+
+// Path from a function or event down to the first node matching `test`
+function findPath(doc: TextDocument, script: Script, test: (node: AstNode) => boolean): AstNode[] | null {
+	const visit = (node: AstNode, path: AstNode[]): AstNode[] | null => {
+		const here = [...path, node];
+		if (test(node)) return here;
+		const children: AstNode[] = node.kind === 'Function' || node.kind === 'Event' ? [node.body] : [...exprsOf(node), ...(isStmt(node) ? statementsOf(node) : [])];
+		for (const child of children) {
+			const found = visit(child, here);
+			if (found) return found;
+		}
+		return null;
+	};
+	for (const root of [...currentFunctions(doc, script), ...currentEvents(doc, script)]) {
+		const found = visit(root, []);
+		if (found) return found;
+	}
+	return null;
+}
+
+const STMT_KINDS = new Set<string>(['EmptyStmt', 'ExprStmt', 'VarDecl', 'ReturnStmt', 'IfStmt', 'WhileStmt', 'DoWhileStmt', 'ForStmt', 'BlockStmt', 'JumpStmt', 'LabelStmt', 'StateChangeStmt', 'ErrorStmt']);
+
+function isStmt(node: AstNode): node is Stmt {
+	return STMT_KINDS.has(node.kind);
+}
+
+function sameSpan(doc: TextDocument, node: AstNode, range: Range): boolean {
+	return node.span.start === doc.offsetAt(range.start) && node.span.end === doc.offsetAt(range.end);
+}
+
+function assignmentOperator(doc: TextDocument, script: Script, range: Range): Range | null {
+	const expr = findPath(doc, script, node => node.kind === 'Binary' && node.op === '=' && sameSpan(doc, node, range))?.at(-1);
+	if (!expr || expr.kind !== 'Binary') return null;
+	const masked = maskCommentsAndStrings(doc.getText());
+	const at = masked.indexOf('=', expr.left.span.end);
+	if (at < 0 || at >= expr.right.span.start) return null;
+	return { start: doc.positionAt(at), end: doc.positionAt(at + 1) };
+}
+
+function findLocalDecl(doc: TextDocument, script: Script, offset: number, name: string): Extract<Stmt, { kind: 'VarDecl' }> | undefined {
+	const path = findPath(doc, script, node => node.kind === 'VarDecl' && node.name === name && node.span.start <= offset && offset <= node.span.end);
+	return path?.at(-1) as Extract<Stmt, { kind: 'VarDecl' }> | undefined;
+}
+
+function hasSideEffects(expr: Expr): boolean {
+	if (expr.kind === 'Call') return true;
+	if (expr.kind === 'Unary' && (expr.op === '++' || expr.op === '--')) return true;
+	if (expr.kind === 'Binary' && /^[-+*/%]?=$/.test(expr.op)) return true;
+	return exprsOf(expr).some(hasSideEffects);
+}
+
+function removeLocal(doc: TextDocument, decl: Extract<Stmt, { kind: 'VarDecl' }>): TextEdit[] | null {
+	const text = doc.getText();
+	const masked = maskCommentsAndStrings(text);
+	// Call spans may already take in the statement's `;`
+	let initEnd = decl.initializer ? decl.initializer.span.end : decl.span.end;
+	while (decl.initializer && initEnd > decl.initializer.span.start && /[\s;]/.test(masked[initEnd - 1]!)) initEnd--;
+	const semicolon = masked.indexOf(';', initEnd);
+	if (semicolon < 0) return null;
+	const range = { start: doc.positionAt(decl.span.start), end: doc.positionAt(semicolon + 1) };
+	if (decl.initializer && hasSideEffects(decl.initializer)) {
+		// Keep the initializer's side effects as a plain statement
+		return [{ range, newText: `${text.slice(decl.initializer.span.start, initEnd)};` }];
+	}
+	const startLine = lineText(doc, range.start.line);
+	const endLine = lineText(doc, range.end.line);
+	if (!startLine.slice(0, range.start.character).trim() && !endLine.slice(range.end.character).trim()) {
+		// Alone on its line(s): drop the lines
+		return [{ range: { start: { line: range.start.line, character: 0 }, end: { line: range.end.line + 1, character: 0 } }, newText: '' }];
+	}
+	let end = semicolon + 1;
+	while (end < text.length && (text[end] === ' ' || text[end] === '\t')) end++;
+	return [{ range: { start: range.start, end: doc.positionAt(end) }, newText: '' }];
+}
+
+function identifierCandidates(ctx: QuickFixContext, name: string): Iterable<string> {
+	const names = new Set<string>(ctx.analysis.decls.filter(d => d.kind === 'var' || d.kind === 'param' || d.kind === 'func').map(d => d.name));
+	if (/^[A-Z][A-Z0-9_]*$/.test(name)) for (const c of ctx.defs.consts.keys()) names.add(c);
+	else for (const f of ctx.defs.funcs.keys()) names.add(f);
+	return names;
+}
+
+function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const row = [i];
+		let best = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+			best = Math.min(best, row[j]!);
+		}
+		if (best > max) return max + 1;
+		prev = row;
+	}
+	return prev[b.length]!;
+}
+
+// Up to three closest names, case-insensitively
+function suggestions(name: string, candidates: Iterable<string>): string[] {
+	const max = Math.min(3, Math.max(1, Math.floor(name.length / 3)));
+	const lower = name.toLowerCase();
+	const scored: { name: string; distance: number }[] = [];
+	for (const candidate of candidates) {
+		if (candidate === name) continue;
+		const distance = editDistance(lower, candidate.toLowerCase(), max);
+		if (distance <= max) scored.push({ name: candidate, distance });
+	}
+	return scored.sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name)).slice(0, 3).map(s => s.name);
+}
+
+function declareIdentifier(doc: TextDocument, diag: Diag, script: Script, ctx: QuickFixContext, name: string): QuickFix[] {
+	const path = findPath(doc, script, node => node.kind === 'Identifier' && sameSpan(doc, node, diag.range));
+	if (!path) return [];
+	const node = path[path.length - 1]!;
+	const parent = path[path.length - 2];
+	if (parent && ((parent.kind === 'Call' && parent.callee === node) || parent.kind === 'JumpStmt')) return [];
+	const type = inferUsageType(path, script, ctx);
+	const fixes: QuickFix[] = [];
+	const globalEdit = declareGlobal(doc, script, `${type} ${name};`);
+	if (globalEdit) fixes.push({ title: `Declare global "${type} ${name};"`, diagnostic: diag, edits: [globalEdit] });
+	// Local: before the statement of the innermost block holding the usage
+	for (let i = path.length - 2; i >= 0; i--) {
+		const block = path[i]!;
+		if (block.kind !== 'BlockStmt') continue;
+		const stmt = path[i + 1] as Stmt;
+		const pos = doc.positionAt(stmt.span.start);
+		const start = { line: pos.line, character: 0 };
+		if (lineText(doc, pos.line).slice(0, pos.character).trim()) break;
+		fixes.push({ title: `Declare local "${type} ${name};"`, diagnostic: diag, edits: [{ range: { start, end: start }, newText: `${indentOf(doc, pos.line)}${type} ${name};\n` }] });
+		break;
+	}
+	return fixes;
+}
+
+function declareGlobal(doc: TextDocument, script: Script, declaration: string): TextEdit | null {
+	const globals = [...script.globals.values()].filter(g => isCurrentFile(doc, g));
+	if (globals.length) {
+		const last = globals.reduce((a, b) => (b.span.start > a.span.start ? b : a));
+		const line = doc.positionAt(last.span.end).line + 1;
+		const start = { line, character: 0 };
+		return { range: { start, end: start }, newText: `${declaration}\n` };
+	}
+	const tops = [...currentFunctions(doc, script), ...[...script.states.values()].filter(s => isCurrentFile(doc, s))];
+	if (!tops.length) return null;
+	const first = tops.reduce((a, b) => (b.span.start < a.span.start ? b : a));
+	const start = { line: doc.positionAt(first.span.start).line, character: 0 };
+	return { range: { start, end: start }, newText: `${declaration}\n\n` };
+}
+
+// Type an undeclared identifier from how it is used; integer when nothing says otherwise
+function inferUsageType(path: AstNode[], script: Script, ctx: QuickFixContext): Type {
+	const symbolTypes = new Map<string, SimpleType>();
+	for (const decl of ctx.analysis.decls) if (decl.type && isType(decl.type)) symbolTypes.set(decl.name, decl.type);
+	const returnTypes = new Map<string, SimpleType>();
+	for (const [name, overloads] of ctx.defs.funcs) {
+		const returns = overloads[0]?.returns;
+		if (returns && isType(returns)) returnTypes.set(name, returns);
+	}
+	for (const fn of script.functions.values()) returnTypes.set(fn.name, fn.returnType ?? 'void');
+	const known = (t: SimpleType | string | undefined): Type | null => (t && isType(t) ? t : null);
+	const node = path[path.length - 1] as Expr;
+	let child: AstNode = node;
+	for (let i = path.length - 2; i >= 0; i--) {
+		const parent = path[i]!;
+		switch (parent.kind) {
+			case 'Paren':
+				child = parent;
+				continue;
+			case 'Binary': {
+				const other = parent.left === child ? parent.right : parent.left;
+				return known(inferExprTypeFromAst(other, symbolTypes, returnTypes)) ?? 'integer';
+			}
+			case 'Call': {
+				if (parent.callee.kind !== 'Identifier') return 'integer';
+				const index = parent.args.indexOf(child as Expr);
+				const callee = parent.callee.name;
+				const user = script.functions.get(callee);
+				if (user) return [...user.parameters.values()][index] ?? 'integer';
+				const overload = ctx.defs.funcs.get(callee)?.find(f => f.params.length === parent.args.length);
+				return known(overload?.params[index]?.type) ?? 'integer';
+			}
+			case 'VarDecl':
+				return parent.varType;
+			case 'ReturnStmt': {
+				const fn = path.find((n): n is FnNode => n.kind === 'Function');
+				return known(fn?.returnType) ?? 'integer';
+			}
+			case 'Member':
+				return parent.property === 's' ? 'rotation' : 'vector';
+			default:
+				return 'integer';
+		}
+	}
+	return 'integer';
+}
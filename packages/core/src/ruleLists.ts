@@ -0,0 +1,214 @@
+import Ajv2020 from 'ajv/dist/2020';
+import draft7Meta from 'ajv/dist/refs/json-schema-draft-07.json';
+import schema from '../../../common/lsl-rule-lists.schema.json';
+import ruleListData from '../../../common/lsl-rule-lists.json';
+import { LSL_DIAGCODES, type DiagCode } from './analysisTypes';
+import { isAssignmentCompatible } from './ast/compat';
+import type { SimpleType } from './ast/infer';
+import { parseNumberLiteral } from './ast/numberLiteral';
+import type { Expr, Span, Type } from './ast/types';
+
+// Parameter layouts of rule lists (`[PRIM_COLOR, face, color, alpha, ...]`), loaded from common/lsl-rule-lists.json.
+
+interface RuleListFile {
+	version: number;
+	functions: Record<string, { family: string; argument: number; query?: boolean }>;
+	families: Record<string, { prefix: string; flags?: boolean; rules: Record<string, { params: string[]; query?: string[]; variants?: Record<string, string[]> }> }>;
+}
+
+export interface RuleListParam { name: string; types: Type[] }
+export interface RuleLayout {
+	params: RuleListParam[];
+	query: RuleListParam[];
+	// Layouts selected by the constant following the rule (PRIM_TYPE)
+	variants?: ReadonlyMap<string, RuleListParam[]>;
+}
+export interface RuleListFamily {
+	name: string;
+	prefix: string;
+	// Every element is a standalone integer flag (OBJECT_*)
+	flags: boolean;
+	rules: ReadonlyMap<string, RuleLayout>;
+}
+export interface RuleListFunction { family: RuleListFamily; argument: number; query: boolean }
+
+export interface RuleListIssue { code: DiagCode; message: string; span: Span }
+
+export interface RuleListContext {
+	typeOf(expr: Expr): SimpleType;
+	isConstant(name: string): boolean;
+	// Integer value of a constant, so rules written as numbers (e.g. optimizer output) still line up
+	constantValue(name: string): number | undefined;
+}
+
+let cachedFunctions: ReadonlyMap<string, RuleListFunction> | undefined;
+
+function parseParams(specs: string[]): RuleListParam[] {
+	return specs.map(spec => {
+		const [types, name] = spec.split(' ');
+		return { name: name!, types: types!.split('|') as Type[] };
+	});
+}
+
+function loadRuleLists(file: RuleListFile): ReadonlyMap<string, RuleListFunction> {
+	const ajv = new Ajv2020({ allErrors: true, strict: false });
+	ajv.addMetaSchema(draft7Meta as unknown as object);
+	const validate = ajv.compile(schema);
+	if (!validate(file)) {
+		const msg = (validate.errors || []).map(e => `${e.instancePath} ${e.message}`).join('\n');
+		throw new Error(`Rule list schema validation failed:\n${msg}`);
+	}
+	const families = new Map<string, RuleListFamily>();
+	for (const [name, family] of Object.entries(file.families)) {
+		const rules = new Map<string, RuleLayout>();
+		for (const [rule, layout] of Object.entries(family.rules)) {
+			rules.set(rule, {
+				params: parseParams(layout.params),
+				query: parseParams(layout.query ?? []),
+				...(layout.variants ? { variants: new Map(Object.entries(layout.variants).map(([variant, params]) => [variant, parseParams(params)])) } : {}),
+			});
+		}
+		families.set(name, { name, prefix: family.prefix, flags: family.flags ?? false, rules });
+	}
+	const functions = new Map<string, RuleListFunction>();
+	for (const [name, fn] of Object.entries(file.functions)) {
+		const family = families.get(fn.family);
+		if (!family) throw new Error(`Rule list function ${name} refers to unknown family ${fn.family}`);
+		functions.set(name, { family, argument: fn.argument, query: fn.query ?? false });
+	}
+	return functions;
+}
+
+export function ruleListFunctions(): ReadonlyMap<string, RuleListFunction> {
+	cachedFunctions ??= loadRuleLists(ruleListData as RuleListFile);
+	return cachedFunctions;
+}
+
+function unwrapParens(expr: Expr): Expr {
+	return expr.kind === 'Paren' ? unwrapParens(expr.expression) : expr;
+}
+
+function integerLiteral(expr: Expr): number | undefined {
+	const inner = unwrapParens(expr);
+	if (inner.kind === 'Unary' && inner.op === '-') {
+		const value = integerLiteral(inner.argument);
+		return value === undefined ? undefined : -value;
+	}
+	if (inner.kind !== 'NumberLiteral') return undefined;
+	const parsed = parseNumberLiteral(inner.raw);
+	return parsed?.type === 'integer' ? parsed.value : undefined;
+}
+
+function isLiteral(expr: Expr): boolean {
+	const inner = unwrapParens(expr);
+	if (inner.kind === 'Unary' && inner.op === '-') return isLiteral(inner.argument);
+	return inner.kind === 'NumberLiteral' || inner.kind === 'StringLiteral' || inner.kind === 'VectorLiteral' || inner.kind === 'ListLiteral';
+}
+
+function describe(expr: Expr): string {
+	const inner = unwrapParens(expr);
+	if (inner.kind === 'Identifier') return inner.name;
+	if (inner.kind === 'NumberLiteral') return inner.raw;
+	return 'value';
+}
+
+function typeList(types: Type[]): string {
+	return types.join(' or ');
+}
+
+// Resolves an element to one of `names`, by constant name or by integer value
+function constantNamed(expr: Expr, names: Iterable<string>, context: RuleListContext): string | null | undefined {
+	const inner = unwrapParens(expr);
+	const list = [...names];
+	if (inner.kind === 'Identifier') return list.includes(inner.name) ? inner.name : null;
+	const value = integerLiteral(inner);
+	if (value === undefined) return null;
+	const known = list.filter(name => context.constantValue(name) !== undefined);
+	// Without constant values a number cannot be checked
+	if (known.length === 0) return undefined;
+	return known.find(name => context.constantValue(name) === value) ?? null;
+}
+
+// Checks a list literal passed as the rule list of a known function. Returns nothing once the layout
+// can no longer be followed (a rule given by a variable, a concatenated list, ...).
+export function validateRuleListCall(call: Extract<Expr, { kind: 'Call' }>, context: RuleListContext): RuleListIssue[] {
+	if (call.callee.kind !== 'Identifier') return [];
+	const fnName = call.callee.name;
+	const fn = ruleListFunctions().get(fnName);
+	const arg = fn ? call.args[fn.argument] : undefined;
+	if (!fn || !arg) return [];
+	const list = unwrapParens(arg);
+	if (list.kind !== 'ListLiteral') return [];
+	const { family } = fn;
+	const issues: RuleListIssue[] = [];
+
+	if (family.flags) {
+		for (const element of list.elements) {
+			const type = context.typeOf(element);
+			if (!isAssignmentCompatible('integer', type)) {
+				issues.push({ code: LSL_DIAGCODES.RULE_LIST_TYPE, message: `${fnName} expects ${family.prefix}* integer flags, got ${type}`, span: element.span });
+			}
+		}
+		return issues;
+	}
+
+	const elements = list.elements;
+	const isRuleTag = (expr: Expr) => {
+		const inner = unwrapParens(expr);
+		return inner.kind === 'Identifier' && family.rules.has(inner.name);
+	};
+	let previous: { name: string; count: number } | undefined;
+	let i = 0;
+	while (i < elements.length) {
+		const tag = elements[i]!;
+		const rule = constantNamed(tag, family.rules.keys(), context);
+		if (!rule) {
+			// A family constant without a layout (a rule newer than the data) cannot be followed either
+			const unknownConstant = unwrapParens(tag).kind === 'Identifier' && context.isConstant(describe(tag)) && !describe(tag).startsWith(family.prefix);
+			if (rule === null && (isLiteral(tag) || unknownConstant)) {
+				issues.push(previous && isLiteral(tag)
+					? { code: LSL_DIAGCODES.RULE_LIST_ARITY, message: `Unexpected ${describe(tag)} after ${previous.name}, which takes ${previous.count} parameter(s)`, span: tag.span }
+					: { code: LSL_DIAGCODES.RULE_LIST_UNKNOWN_RULE, message: `${describe(tag)} is not a ${family.prefix}* rule for ${fnName}`, span: tag.span });
+			}
+			return issues;
+		}
+		const layout = family.rules.get(rule)!;
+		let label = rule;
+		let params = fn.query ? layout.query : layout.params;
+		i++;
+		if (layout.variants && !fn.query) {
+			const selector = elements[i];
+			if (!selector || isRuleTag(selector)) {
+				issues.push({ code: LSL_DIAGCODES.RULE_LIST_ARITY, message: `${rule} expects a ${rule}_* shape`, span: tag.span });
+				continue;
+			}
+			const variant = constantNamed(selector, layout.variants.keys(), context);
+			if (!variant) {
+				if (variant === null && (isLiteral(selector) || context.isConstant(describe(selector)))) {
+					issues.push({ code: LSL_DIAGCODES.RULE_LIST_UNKNOWN_RULE, message: `${describe(selector)} is not a ${rule}_* shape`, span: selector.span });
+				}
+				return issues;
+			}
+			params = layout.variants.get(variant)!;
+			label = `${rule} ${variant}`;
+			i++;
+		}
+		let given = 0;
+		for (const param of params) {
+			const element = elements[i];
+			if (!element || isRuleTag(element)) break;
+			const type = context.typeOf(element);
+			if (!param.types.some(expected => isAssignmentCompatible(expected, type))) {
+				issues.push({ code: LSL_DIAGCODES.RULE_LIST_TYPE, message: `${label} parameter ${param.name} expects ${typeList(param.types)}, got ${type}`, span: element.span });
+			}
+			given++;
+			i++;
+		}
+		if (given < params.length) {
+			const expected = params.map(param => param.name).join(', ');
+			issues.push({ code: LSL_DIAGCODES.RULE_LIST_ARITY, message: `${label} expects ${params.length} parameter(s) (${expected}), got ${given}`, span: tag.span });
+		}
+		previous = { name: label, count: params.length };
+	}
+	return issues;
+}
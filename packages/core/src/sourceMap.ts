@@ -0,0 +1,207 @@
+import fs from 'node:fs';
+
+// Source maps (v3) from rendered preprocess/optimize output back to the original files.
+// Producers record `SourceOrigin`s as offsets; `buildSourceMap` turns them into lines and columns.
+
+// Where generated text starting at `offset` came from: `start` is an offset in `file` (undefined: the root file)
+export interface SourceOrigin {
+	offset: number;
+	file?: string;
+	start: number;
+}
+
+export interface SourceMapV3 {
+	version: 3;
+	file?: string;
+	sources: string[];
+	names: string[];
+	mappings: string;
+}
+
+// All positions are 0-based
+export interface SourceMapSegment {
+	generatedLine: number;
+	generatedColumn: number;
+	source: string;
+	originalLine: number;
+	originalColumn: number;
+}
+
+export type SourceTextProvider = (file: string) => string | undefined;
+
+// Serves the root file from memory (it may be unsaved) and other files from disk
+export function sourceTextProvider(rootFile: string, rootText: string): SourceTextProvider {
+	const cache = new Map<string, string | undefined>([[rootFile, rootText]]);
+	return file => {
+		if (!cache.has(file)) {
+			let text: string | undefined;
+			try { text = fs.readFileSync(file, 'utf8'); } catch { text = undefined; }
+			cache.set(file, text);
+		}
+		return cache.get(file);
+	};
+}
+
+// Last origin at or before `offset`
+export function sourceOriginAt(origins: ReadonlyArray<SourceOrigin>, offset: number): SourceOrigin | undefined {
+	let lo = 0, hi = origins.length - 1, found: SourceOrigin | undefined;
+	while (lo <= hi) {
+		const mid = (lo + hi) >> 1;
+		if (origins[mid]!.offset <= offset) { found = origins[mid]; lo = mid + 1; } else hi = mid - 1;
+	}
+	return found;
+}
+
+// Moves origins recorded against `before` onto `after`, which may only differ in whitespace (e.g. formatted output).
+// Origins past the first non-whitespace difference are dropped.
+export function realignSourceOrigins(before: string, after: string, origins: ReadonlyArray<SourceOrigin>): SourceOrigin[] {
+	const sorted = [...origins].sort((a, b) => a.offset - b.offset);
+	const out: SourceOrigin[] = [];
+	let i = 0, j = 0, k = 0;
+	for (;;) {
+		while (i < before.length && /\s/.test(before[i]!)) i++;
+		while (j < after.length && /\s/.test(after[j]!)) j++;
+		if (i < before.length && before[i] !== after[j]) break;
+		while (k < sorted.length && sorted[k]!.offset <= i) out.push({ ...sorted[k++]!, offset: j });
+		if (i >= before.length) break;
+		i++;
+		j++;
+	}
+	return out;
+}
+
+export function shiftSourceOrigins(origins: ReadonlyArray<SourceOrigin>, delta: number): SourceOrigin[] {
+	return origins.map(origin => ({ ...origin, offset: origin.offset + delta }));
+}
+
+function lineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < text.length; i++) if (text[i] === '\n') starts.push(i + 1);
+	return starts;
+}
+
+function positionOf(starts: number[], offset: number): { line: number; column: number } {
+	let lo = 0, hi = starts.length - 1;
+	while (lo < hi) {
+		const mid = (lo + hi + 1) >> 1;
+		if (starts[mid]! <= offset) lo = mid; else hi = mid - 1;
+	}
+	return { line: lo, column: offset - starts[lo]! };
+}
+
+export function buildSourceMap(generated: string, origins: ReadonlyArray<SourceOrigin>, rootFile: string, sourceText: SourceTextProvider): SourceMapV3 {
+	const generatedStarts = lineStarts(generated);
+	const originalStarts = new Map<string, number[] | null>();
+	const segments: SourceMapSegment[] = [];
+	for (const origin of [...origins].sort((a, b) => a.offset - b.offset)) {
+		if (origin.offset > generated.length) continue;
+		const source = origin.file && origin.file !== '<unknown>' ? origin.file : rootFile;
+		if (!originalStarts.has(source)) {
+			const text = sourceText(source);
+			originalStarts.set(source, text === undefined ? null : lineStarts(text));
+		}
+		const starts = originalStarts.get(source);
+		if (!starts) continue;
+		const at = positionOf(generatedStarts, origin.offset);
+		const from = positionOf(starts, origin.start);
+		const last = segments[segments.length - 1];
+		if (last && last.generatedLine === at.line && last.generatedColumn === at.column) continue;
+		segments.push({ generatedLine: at.line, generatedColumn: at.column, source, originalLine: from.line, originalColumn: from.column });
+	}
+	return encodeSourceMap(segments);
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeVlq(value: number): string {
+	let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+	let out = '';
+	do {
+		let digit = vlq & 31;
+		vlq >>>= 5;
+		if (vlq > 0) digit |= 32;
+		out += BASE64[digit];
+	} while (vlq > 0);
+	return out;
+}
+
+// Segments must be sorted by generated position
+export function encodeSourceMap(segments: ReadonlyArray<SourceMapSegment>, file?: string): SourceMapV3 {
+	const sources: string[] = [];
+	const sourceIndex = new Map<string, number>();
+	const lines: string[] = [];
+	let previousSource = 0, previousLine = 0, previousColumn = 0, previousGenerated = 0;
+	for (const segment of segments) {
+		let index = sourceIndex.get(segment.source);
+		if (index === undefined) {
+			index = sources.length;
+			sources.push(segment.source);
+			sourceIndex.set(segment.source, index);
+		}
+		// Generated columns restart at every line; the other fields are relative across the whole map
+		if (lines.length <= segment.generatedLine) previousGenerated = 0;
+		while (lines.length <= segment.generatedLine) lines.push('');
+		const line = lines[segment.generatedLine]!;
+		const encoded = encodeVlq(segment.generatedColumn - previousGenerated)
+			+ encodeVlq(index - previousSource)
+			+ encodeVlq(segment.originalLine - previousLine)
+			+ encodeVlq(segment.originalColumn - previousColumn);
+		lines[segment.generatedLine] = line ? `${line},${encoded}` : encoded;
+		previousGenerated = segment.generatedColumn;
+		previousSource = index;
+		previousLine = segment.originalLine;
+		previousColumn = segment.originalColumn;
+	}
+	return { version: 3, ...(file ? { file } : {}), sources, names: [], mappings: lines.join(';') };
+}
+
+function decodeVlqs(segment: string): number[] {
+	const values: number[] = [];
+	let value = 0, shift = 0;
+	for (const ch of segment) {
+		const digit = BASE64.indexOf(ch);
+		if (digit < 0) throw new Error(`Invalid source map mapping character: ${ch}`);
+		value += (digit & 31) << shift;
+		if (digit & 32) {
+			shift += 5;
+			continue;
+		}
+		values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+		value = 0;
+		shift = 0;
+	}
+	return values;
+}
+
+export function decodeSourceMap(map: SourceMapV3): SourceMapSegment[] {
+	const segments: SourceMapSegment[] = [];
+	let source = 0, originalLine = 0, originalColumn = 0;
+	map.mappings.split(';').forEach((line, generatedLine) => {
+		let generatedColumn = 0;
+		for (const raw of line.split(',')) {
+			if (!raw) continue;
+			const values = decodeVlqs(raw);
+			generatedColumn += values[0] ?? 0;
+			if (values.length < 4) continue;
+			source += values[1]!;
+			originalLine += values[2]!;
+			originalColumn += values[3]!;
+			segments.push({ generatedLine, generatedColumn, source: map.sources[source] ?? '', originalLine, originalColumn });
+		}
+	});
+	return segments;
+}
+
+// Original position of a 0-based generated position: the closest segment at or before it
+export function originalPositionFor(map: SourceMapV3, line: number, column: number): { source: string; line: number; column: number } | null {
+	let best: SourceMapSegment | undefined;
+	for (const segment of decodeSourceMap(map)) {
+		if (segment.generatedLine > line || (segment.generatedLine === line && segment.generatedColumn > column)) {
+			// Nothing on the line before the column: the first segment of the line is the better guess
+			if (segment.generatedLine === line && (!best || best.generatedLine < line)) best = segment;
+			break;
+		}
+		best = segment;
+	}
+	return best ? { source: best.source, line: best.originalLine, column: best.originalColumn } : null;
+}
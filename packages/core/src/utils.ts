@@ -35,3 +35,66 @@ export function AssertNotNull<T>(x: T | null | undefined, fallback: T, message?:
 	}
 	return x;
 }
+
+/**
+ * Blank out comments and string literals while keeping offsets and newlines intact,
+ * so regex scans over source text only see code.
+ */
+export function maskCommentsAndStrings(text: string): string {
+	let out = '';
+	let inBlock = false;
+	let inLine = false;
+	let quote: string | null = null;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i]!;
+		const next = text[i + 1];
+		if (inLine) {
+			if (ch === '\n') {
+				inLine = false;
+				out += ch;
+			} else {
+				out += ' ';
+			}
+			continue;
+		}
+		if (inBlock) {
+			if (ch === '*' && next === '/') {
+				out += '  ';
+				i++;
+				inBlock = false;
+			} else {
+				out += ch === '\n' ? ch : ' ';
+			}
+			continue;
+		}
+		if (quote) {
+			if (ch === '\\' && next != null) {
+				out += '  ';
+				i++;
+				continue;
+			}
+			out += ch === '\n' ? ch : ' ';
+			if (ch === quote) quote = null;
+			continue;
+		}
+		if (ch === '/' && next === '/') {
+			out += '  ';
+			i++;
+			inLine = true;
+			continue;
+		}
+		if (ch === '/' && next === '*') {
+			out += '  ';
+			i++;
+			inBlock = true;
+			continue;
+		}
+		if (ch === '"' || ch === '\'') {
+			out += ' ';
+			quote = ch;
+			continue;
+		}
+		out += ch;
+	}
+	return out;
+}
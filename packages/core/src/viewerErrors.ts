@@ -0,0 +1,62 @@
+import { originalPositionFor, type SourceMapV3 } from './sourceMap';
+
+// Positions reported in-world against an uploaded script, mapped back through a source map of that upload.
+
+export interface ViewerError {
+	// 0-based position in the uploaded script
+	line: number;
+	column: number;
+	severity: 'error' | 'warning';
+	message: string;
+	// The pasted line the position was read from
+	text: string;
+}
+
+export interface MappedViewerError extends ViewerError {
+	// 0-based position in the original file; undefined when no mapping covers the line
+	original?: { source: string; line: number; column: number };
+}
+
+// Compiler output in the script editor: `(142, 17) : ERROR : Type mismatch`, 0-based
+const COMPILER_ERROR = /\((\d+),\s*(\d+)\)\s*:\s*(ERROR|WARNING)\s*:\s*(.*)$/i;
+// Chat lines naming a position, e.g. `Script run-time error at line 12, column 4`, 1-based
+const CHAT_ERROR = /\bline\s+(\d+)(?:\s*(?:,\s*)?(?:col(?:umn)?\s*)(\d+))?/i;
+// `[12:34] Object: ` and `[2026/10/19 12:34:56] ` chat prefixes
+const CHAT_TIMESTAMP = /^\s*\[[\d/:\s-]+\]\s*/;
+
+export function parseViewerErrors(output: string): ViewerError[] {
+	const errors: ViewerError[] = [];
+	for (const raw of output.split(/\r?\n/)) {
+		const text = raw.trim();
+		if (!text) continue;
+		const compiler = COMPILER_ERROR.exec(text);
+		if (compiler) {
+			errors.push({
+				line: Number(compiler[1]),
+				column: Number(compiler[2]),
+				severity: compiler[3]!.toUpperCase() === 'WARNING' ? 'warning' : 'error',
+				message: compiler[4]!.trim(),
+				text,
+			});
+			continue;
+		}
+		const chat = CHAT_ERROR.exec(text);
+		if (!chat) continue;
+		const line = Number(chat[1]);
+		errors.push({
+			line: Math.max(0, line - 1),
+			column: chat[2] ? Math.max(0, Number(chat[2]) - 1) : 0,
+			severity: 'error',
+			message: text.replace(CHAT_TIMESTAMP, ''),
+			text,
+		});
+	}
+	return errors;
+}
+
+export function mapViewerErrors(errors: ReadonlyArray<ViewerError>, map: SourceMapV3): MappedViewerError[] {
+	return errors.map(error => {
+		const original = originalPositionFor(map, error.line, error.column);
+		return original ? { ...error, original } : { ...error };
+	});
+}
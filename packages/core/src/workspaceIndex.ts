@@ -0,0 +1,334 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { TextDocument, filePathToUri, type Position, type Range } from './protocol';
+import { LSL_DIAGCODES, type Analysis } from './analysisTypes';
+import type { Defs } from './defs';
+import type { MacroDefines } from './core/macro';
+import type { DynamicMacros, PreprocResult } from './core/preproc';
+import type { LslExtensionSettings } from './extensions';
+import { preprocessForAst } from './core/pipeline';
+import { parseScriptFromText } from './ast/parser';
+import { analyzeAst } from './ast/analyze';
+import type { Script } from './ast/types';
+import { lex, type Token as LexToken } from './lexer';
+
+// Workspace-wide symbol index: every LSL file is parsed on its own (with its includes) and contributes
+// the top-level symbols it declares plus every reference that resolves to a top-level symbol. A reference
+// remembers the file that declares its target, so a header's function can be traced into every script
+// that includes the header.
+
+export type WorkspaceSymbolKind = 'function' | 'global' | 'state' | 'macro';
+
+export interface WorkspaceSymbol {
+	name: string;
+	kind: WorkspaceSymbolKind;
+	file: string;
+	// Range of the declared name in `file`
+	range: Range;
+	detail?: string;
+}
+
+export interface WorkspaceReference {
+	name: string;
+	kind: WorkspaceSymbolKind;
+	// File declaring the referenced symbol
+	declFile: string;
+	file: string;
+	range: Range;
+}
+
+export interface WorkspaceFileEntry {
+	file: string;
+	// Files pulled in by #include, transitively
+	includes: string[];
+	symbols: WorkspaceSymbol[];
+	references: WorkspaceReference[];
+	// Offsets of this file's disabled #if branches
+	inactiveRanges: { start: number; end: number }[];
+	// False when the file has syntax errors, so its references may be incomplete
+	complete: boolean;
+}
+
+export interface WorkspaceLocation {
+	file: string;
+	range: Range;
+}
+
+export interface WorkspaceIndexOptions {
+	defs: Defs;
+	includePaths: string[];
+	macros?: MacroDefines;
+	dynamicMacros?: DynamicMacros;
+	extensions?: LslExtensionSettings;
+}
+
+const LSL_FILE_RE = /\.(lsl|lsli|lslp|lsl[hH])$/;
+const MAX_WORKSPACE_FILES = 5000;
+
+export function isLslSourceFile(file: string): boolean {
+	return LSL_FILE_RE.test(file);
+}
+
+// Collect LSL sources below the given roots, skipping dot-directories and node_modules.
+export function findWorkspaceLslFiles(roots: readonly string[], maxFiles = MAX_WORKSPACE_FILES): string[] {
+	const out: string[] = [];
+	const seen = new Set<string>();
+	const walk = (dir: string) => {
+		let entries: fs.Dirent[];
+		try { entries = fs.readdirSync(dir, { withFileTypes: true }); } catch { return; }
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+		for (const entry of entries) {
+			if (out.length >= maxFiles) return;
+			const full = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+				walk(full);
+			} else if (entry.isFile() && isLslSourceFile(entry.name) && !seen.has(full)) {
+				seen.add(full);
+				out.push(full);
+			}
+		}
+	};
+	for (const root of roots) walk(path.resolve(root));
+	return out;
+}
+
+function isOwnNode(node: { originFile?: string }, file: string): boolean {
+	return !node.originFile || node.originFile === '<unknown>' || path.resolve(node.originFile) === file;
+}
+
+function declFileOf(node: { originFile?: string } | undefined, file: string): string {
+	return !node?.originFile || node.originFile === '<unknown>' ? file : path.resolve(node.originFile);
+}
+
+function macroNameRange(doc: TextDocument, name: string, def: { start: number; end: number }): Range | null {
+	const m = /^(\s*#\s*define\s+[$#?]?)([A-Za-z_]\w*)/.exec(doc.getText().slice(def.start, def.end));
+	if (!m || m[2] !== name) return null;
+	const start = def.start + m[1]!.length;
+	return { start: doc.positionAt(start), end: doc.positionAt(start + name.length) };
+}
+
+function isInactive(pre: PreprocResult, file: string, offset: number): boolean {
+	const ranges = pre.inactiveRanges ?? pre.disabledRanges;
+	return ranges.some(r => (!r.file || path.resolve(r.file) === file) && offset >= r.start && offset < r.end);
+}
+
+// Build the index entry for one file from an already computed pipeline (the server reuses its cache).
+export function indexScriptFile(
+	file: string,
+	doc: TextDocument,
+	script: Script,
+	analysis: Analysis,
+	pre: PreprocResult,
+	tokens: ReadonlyArray<LexToken>,
+): WorkspaceFileEntry {
+	file = path.resolve(file);
+	const symbols: WorkspaceSymbol[] = [];
+	const references: WorkspaceReference[] = [];
+
+	for (const [name, fn] of script.functions) {
+		const decl = analysis.functions.get(name);
+		if (!decl || !isOwnNode(fn, file)) continue;
+		const params = (decl.params ?? []).map(p => `${p.type ?? ''} ${p.name}`.trim()).join(', ');
+		symbols.push({ name, kind: 'function', file, range: decl.range, detail: `${decl.type ?? 'void'} ${name}(${params})` });
+	}
+	for (const [name, global] of script.globals) {
+		const decl = analysis.globals.get(name);
+		if (!decl || !isOwnNode(global, file)) continue;
+		symbols.push({ name, kind: 'global', file, range: decl.range, detail: `${global.varType} ${name}` });
+	}
+	for (const [name, state] of script.states) {
+		const decl = analysis.states.get(name);
+		if (!decl || !isOwnNode(state, file)) continue;
+		symbols.push({ name, kind: 'state', file, range: decl.range });
+	}
+	const macroDefStarts = new Set<number>();
+	for (const [name, def] of Object.entries(pre.macroDefs ?? {})) {
+		if (path.resolve(def.file) !== file) continue;
+		const range = macroNameRange(doc, name, def);
+		if (!range) continue;
+		macroDefStarts.add(doc.offsetAt(range.start));
+		symbols.push({ name, kind: 'macro', file, range });
+	}
+
+	for (const ref of analysis.refs) {
+		const target = analysis.refAt(doc.offsetAt(ref.range.start));
+		if (!target) continue;
+		if (target === analysis.functions.get(ref.name)) {
+			references.push({ name: ref.name, kind: 'function', declFile: declFileOf(script.functions.get(ref.name), file), file, range: ref.range });
+		} else if (target === analysis.globals.get(ref.name)) {
+			references.push({ name: ref.name, kind: 'global', declFile: declFileOf(script.globals.get(ref.name), file), file, range: ref.range });
+		} else if (target === analysis.states.get(ref.name)) {
+			references.push({ name: ref.name, kind: 'state', declFile: declFileOf(script.states.get(ref.name), file), file, range: ref.range });
+		}
+	}
+	for (const t of tokens) {
+		if (t.kind !== 'id' || macroDefStarts.has(t.start)) continue;
+		const def = pre.macroDefs?.[t.value];
+		if (!def) continue;
+		if (!Object.prototype.hasOwnProperty.call(pre.macros, t.value) && !Object.prototype.hasOwnProperty.call(pre.funcMacros, t.value)) continue;
+		if (isInactive(pre, file, t.start) || analysis.refAt(t.start)) continue;
+		references.push({ name: t.value, kind: 'macro', declFile: path.resolve(def.file), file, range: { start: doc.positionAt(t.start), end: doc.positionAt(t.end) } });
+	}
+
+	const includes = [...new Set((pre.includes ?? []).map(inc => path.resolve(inc)))].filter(inc => inc !== file);
+	const inactiveRanges = (pre.inactiveRanges ?? pre.disabledRanges)
+		.filter(r => !r.file || path.resolve(r.file) === file)
+		.map(r => ({ start: r.start, end: r.end }));
+	const complete = !analysis.diagnostics.some(d => d.code === LSL_DIAGCODES.SYNTAX);
+	return { file, includes, symbols, references, inactiveRanges, complete };
+}
+
+function matchesQuery(name: string, query: string): boolean {
+	if (!query) return true;
+	const lower = name.toLowerCase();
+	let i = 0;
+	for (const ch of query.toLowerCase()) {
+		i = lower.indexOf(ch, i);
+		if (i < 0) return false;
+		i++;
+	}
+	return true;
+}
+
+function containsPosition(range: Range, pos: Position): boolean {
+	if (pos.line < range.start.line || pos.line > range.end.line) return false;
+	if (pos.line === range.start.line && pos.character < range.start.character) return false;
+	if (pos.line === range.end.line && pos.character > range.end.character) return false;
+	return true;
+}
+
+export class WorkspaceIndex {
+	private readonly entries = new Map<string, WorkspaceFileEntry>();
+	// Files whose last indexing attempt threw, with the error message
+	readonly failures = new Map<string, string>();
+
+	constructor(private options: WorkspaceIndexOptions) {}
+
+	get files(): string[] {
+		return [...this.entries.keys()];
+	}
+
+	configure(options: WorkspaceIndexOptions): void {
+		this.options = options;
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.failures.clear();
+	}
+
+	get(file: string): WorkspaceFileEntry | undefined {
+		return this.entries.get(path.resolve(file));
+	}
+
+	set(entry: WorkspaceFileEntry): void {
+		this.entries.set(entry.file, entry);
+		this.failures.delete(entry.file);
+	}
+
+	remove(file: string): void {
+		this.entries.delete(path.resolve(file));
+		this.failures.delete(path.resolve(file));
+	}
+
+	// Parse and index a file; `text` defaults to the file's contents on disk.
+	// A file that fails to index is dropped and its error kept in `failures`, so callers need no guard.
+	update(file: string, text?: string): WorkspaceFileEntry | null {
+		file = path.resolve(file);
+		if (text === undefined) {
+			try { text = fs.readFileSync(file, 'utf8'); } catch { this.remove(file); return null; }
+		}
+		try {
+			const entry = this.analyze(file, text);
+			this.set(entry);
+			return entry;
+		} catch (e) {
+			this.entries.delete(file);
+			this.failures.set(file, e instanceof Error ? e.message : String(e));
+			return null;
+		}
+	}
+
+	private analyze(file: string, text: string): WorkspaceFileEntry {
+		const { defs, includePaths, macros, dynamicMacros, extensions } = this.options;
+		const uri = filePathToUri(file);
+		const full = preprocessForAst(text, { includePaths, fromPath: file, defines: { ...macros }, dynamicMacros, extensions });
+		const pre: PreprocResult = {
+			disabledRanges: full.disabledRanges,
+			inactiveRanges: full.inactiveRanges,
+			macros: full.macros,
+			dynamicMacros: full.dynamicMacros,
+			extensions: full.extensions,
+			funcMacros: full.funcMacros,
+			expandedTokens: full.expandedTokens,
+			macroDefs: full.macroDefs,
+			includes: full.includes,
+			includeTargets: full.includeTargets,
+			missingIncludes: full.missingIncludes,
+			preprocDiagnostics: full.preprocDiagnostics,
+			diagDirectives: full.diagDirectives,
+			conditionalGroups: full.conditionalGroups,
+		};
+		const doc = TextDocument.create(uri, 'lsl', 0, text);
+		const script = parseScriptFromText(text, uri, { macros: { ...macros }, dynamicMacros, includePaths, defs, pre: full });
+		const analysis = analyzeAst(doc, script, defs, pre);
+		return indexScriptFile(file, doc, script, analysis, pre, lex(doc, pre.inactiveRanges ?? pre.disabledRanges));
+	}
+
+	// Fuzzy (in-order subsequence, case-insensitive) match over all declared symbols.
+	symbols(query: string): WorkspaceSymbol[] {
+		const out: WorkspaceSymbol[] = [];
+		for (const entry of this.entries.values()) {
+			for (const symbol of entry.symbols) if (matchesQuery(symbol.name, query)) out.push(symbol);
+		}
+		return out;
+	}
+
+	definitions(name: string, kinds?: readonly WorkspaceSymbolKind[]): WorkspaceSymbol[] {
+		const out: WorkspaceSymbol[] = [];
+		for (const entry of this.entries.values()) {
+			for (const symbol of entry.symbols) {
+				if (symbol.name === name && (!kinds || kinds.includes(symbol.kind))) out.push(symbol);
+			}
+		}
+		return out;
+	}
+
+	// Files that include `file`, directly or through other includes.
+	dependents(file: string): string[] {
+		file = path.resolve(file);
+		const out: string[] = [];
+		for (const entry of this.entries.values()) if (entry.includes.includes(file)) out.push(entry.file);
+		return out;
+	}
+
+	// Resolve the symbol declared or referenced at `pos` in `file` and collect its references from every
+	// indexed file that sees the same declaration.
+	referencesAt(file: string, pos: Position, includeDeclaration: boolean): WorkspaceLocation[] | null {
+		const entry = this.get(file);
+		if (!entry) return null;
+		const declared = entry.symbols.find(symbol => containsPosition(symbol.range, pos));
+		const referenced = declared ? undefined : entry.references.find(ref => containsPosition(ref.range, pos));
+		const target = declared
+			? { name: declared.name, kind: declared.kind, declFile: declared.file }
+			: referenced;
+		if (!target) return null;
+		return this.references(target.name, target.kind, target.declFile, includeDeclaration);
+	}
+
+	references(name: string, kind: WorkspaceSymbolKind, declFile: string, includeDeclaration: boolean): WorkspaceLocation[] {
+		declFile = path.resolve(declFile);
+		const out: WorkspaceLocation[] = [];
+		if (includeDeclaration) {
+			const decl = this.get(declFile)?.symbols.find(symbol => symbol.name === name && symbol.kind === kind);
+			if (decl) out.push({ file: decl.file, range: decl.range });
+		}
+		for (const entry of this.entries.values()) {
+			for (const ref of entry.references) {
+				if (ref.name === name && ref.kind === kind && ref.declFile === declFile) out.push({ file: ref.file, range: ref.range });
+			}
+		}
+		return out;
+	}
+}
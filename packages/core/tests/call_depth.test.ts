@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { analyzeCallDepth } from '../src/ast/callDepth';
+import { parseScriptFromText } from '../src';
+
+describe('call depth', () => {
+	it('finds the deepest chain below each event with its frames', () => {
+		const result = analyzeCallDepth(parseScriptFromText(`
+integer leaf(integer x) { integer y = x; return y; }
+integer middle(integer x) { return leaf(x) + 1; }
+integer top(integer x) { return middle(leaf(x)); }
+default {
+	state_entry() { }
+	touch_start(integer n) { leaf(n); top(n); }
+}
+`));
+		expect(result.cycles).toEqual([]);
+		const [entry, touch] = result.events;
+		expect(entry).toMatchObject({ event: 'state_entry', depth: 0, chain: [], stackBytes: 0 });
+		expect(touch).toMatchObject({ state: 'default', event: 'touch_start', depth: 3, chain: ['top', 'middle', 'leaf'], recursive: false });
+		// Frames of touch_start(n), top(x), middle(x) and leaf(x) with its local
+		expect(touch!.stackBytes).toBe(20 + 20 + 20 + 20 + 45);
+	});
+
+	it('reports direct and mutual recursion as cycles and lower bounds', () => {
+		const result = analyzeCallDepth(parseScriptFromText(`
+integer fact(integer n) { if (n < 2) return 1; return n * fact(n - 1); }
+ping(integer n) { if (n) pong(n - 1); }
+pong(integer n) { ping(n); fact(n); }
+default { state_entry() { ping(3); } }
+`));
+		expect(result.cycles).toEqual([['fact'], ['ping', 'pong']]);
+		expect(result.recursiveCalls.map(call => call.cycle.join(' → '))).toEqual(['fact → fact', 'ping → pong → ping', 'pong → ping → pong']);
+		expect(result.events[0]).toMatchObject({ depth: 2, chain: ['ping', 'fact'], recursive: true });
+	});
+
+	it('warns at recursive call sites', async () => {
+		const code = 'integer fact(integer n) { if (n < 2) return 1; return n * fact(n - 1); }\ndefault { state_entry() { fact(3); } }\n';
+		const { analysis } = runPipeline(docFrom(code, 'file:///recursion.lsl'), await loadTestDefs());
+		const diags = analysis.diagnostics.filter(d => d.code === 'LSL130');
+		expect(diags.map(d => d.message)).toEqual(['Call to fact is recursive (fact → fact); every level adds a stack frame']);
+		expect(diags[0]!.range.start).toEqual({ line: 0, character: 58 });
+	});
+
+	it('leaves recursion in included headers to the header', async () => {
+		const base = path.join(__dirname, 'tmp_includes', 'call_depth');
+		await fs.mkdir(base, { recursive: true });
+		await fs.writeFile(path.join(base, 'fact.lslh'), 'integer fact(integer n) { if (n < 2) return 1; return n * fact(n - 1); }\n', 'utf8');
+		const code = '#include "fact.lslh"\ndefault { state_entry() { fact(3); } }\n';
+		const { analysis } = runPipeline(docFrom(code, 'file:///proj/recursion_include.lsl'), await loadTestDefs(), { includePaths: [base] });
+		expect(analysis.diagnostics.filter(d => d.code === 'LSL130')).toEqual([]);
+	});
+});
@@ -0,0 +1,80 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { buildStateGraph, callHierarchyNodeAt, callHierarchyNodeNamed, callHierarchyNodes, incomingCalls, outgoingCalls } from '../src/callHierarchy';
+
+const SOURCE = [
+	'integer helper(integer x) { return x + 1; }',
+	'integer twice(integer x) { return helper(helper(x)); }',
+	'default {',
+	'  state_entry() { llSetTimerEvent(twice(1)); }',
+	'  touch_start(integer n) { if (helper(n)) state running; }',
+	'}',
+	'state running {',
+	'  timer() { helper(2); state default; }',
+	'  touch_start(integer n) { while (n--) { if (n == 3) state stopped; } }',
+	'}',
+	'state stopped { state_entry() { } }',
+].join('\n');
+
+async function pipeline() {
+	const doc = docFrom(SOURCE, 'file:///calls.lsl');
+	const { script, analysis, pre } = runPipeline(doc, await loadTestDefs());
+	return { doc, script, analysis, pre };
+}
+
+describe('call hierarchy', () => {
+	it('lists user functions and events with their states', async () => {
+		const { doc, script, analysis } = await pipeline();
+		expect(callHierarchyNodes(doc, script, analysis).map(node => node.state ? `${node.state}.${node.name}` : node.name)).toEqual([
+			'helper', 'twice', 'default.state_entry', 'default.touch_start', 'running.timer', 'running.touch_start', 'stopped.state_entry',
+		]);
+	});
+
+	it('resolves incoming and outgoing calls', async () => {
+		const { doc, script, analysis, pre } = await pipeline();
+		const helper = callHierarchyNodeAt(doc, doc.positionAt(SOURCE.indexOf('helper(n)')), script, analysis, pre)!;
+		expect(helper.name).toBe('helper');
+		expect(incomingCalls(doc, helper, script, analysis).map(edge => [edge.node.state ?? '', edge.node.name, edge.fromRanges.length])).toEqual([
+			['', 'twice', 2],
+			['default', 'touch_start', 1],
+			['running', 'timer', 1],
+		]);
+		const entry = callHierarchyNodeAt(doc, doc.positionAt(SOURCE.indexOf('state_entry')), script, analysis, pre)!;
+		expect(outgoingCalls(doc, entry, script, analysis, pre).map(edge => edge.node.name)).toEqual(['twice']);
+		const twice = callHierarchyNodeAt(doc, doc.positionAt(SOURCE.indexOf('twice(integer')), script, analysis, pre)!;
+		expect(outgoingCalls(doc, twice, script, analysis, pre).map(edge => [edge.node.name, edge.fromRanges.length])).toEqual([['helper', 2]]);
+	});
+
+	it('finds a function declared in an included header again by name', async () => {
+		const base = path.join(__dirname, 'tmp_includes', 'call_hierarchy');
+		await fs.mkdir(base, { recursive: true });
+		await fs.writeFile(path.join(base, 'lib.lslh'), 'integer shared(integer x) {\n\treturn x * 2;\n}\n', 'utf8');
+		const code = '#include "lib.lslh"\ndefault {\n\ttouch_start(integer n) {\n\t\tllOwnerSay((string)shared(n));\n\t}\n}\n';
+		const doc = docFrom(code, 'file:///proj/calls_include.lsl');
+		const { script, analysis, pre } = runPipeline(doc, await loadTestDefs(), { includePaths: [base] });
+		const shared = callHierarchyNodeNamed(doc, script, analysis, { name: 'shared', kind: 'function' }, pre)!;
+		expect(shared.file).toBe(path.join(base, 'lib.lslh'));
+		expect(incomingCalls(doc, shared, script, analysis).map(edge => [edge.node.state, edge.node.name, edge.fromRanges[0]!.start])).toEqual([
+			['default', 'touch_start', { line: 3, character: 21 }],
+		]);
+	});
+
+	it('builds the state graph from state changes in events', async () => {
+		const { doc, script, analysis } = await pipeline();
+		const graph = buildStateGraph(doc, script, analysis);
+		expect(graph.nodes.map(node => [node.name, node.events])).toEqual([
+			['default', ['state_entry', 'touch_start']],
+			['running', ['timer', 'touch_start']],
+			['stopped', ['state_entry']],
+		]);
+		expect(graph.edges.map(edge => `${edge.from} -${edge.event}-> ${edge.to}`)).toEqual([
+			'default -touch_start-> running',
+			'running -timer-> default',
+			'running -touch_start-> stopped',
+		]);
+		expect(doc.getText(graph.edges[2]!.range)).toBe('state stopped;');
+	});
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { memoryCodeLenses } from '../src/codeLens';
+
+describe('memory code lenses', () => {
+	it('reports cost, references and reaching events per declaration', async () => {
+		const source = [
+			'integer counter;',
+			'list unused = [1, 2, 3];',
+			'integer helper(integer x) { return x + counter; }',
+			'integer twice(integer x) { return helper(helper(x)); }',
+			'default {',
+			'  state_entry() { counter = twice(1); }',
+			'  touch_start(integer n) { if (helper(n)) state running; }',
+			'}',
+			'state running { timer() { state default; } }',
+		].join('\n');
+		const doc = docFrom(source, 'file:///lens.lsl');
+		const { script, analysis } = runPipeline(doc, await loadTestDefs());
+		const lenses = memoryCodeLenses(doc, script, analysis);
+		expect(lenses.map(lens => [lens.kind, lens.name, lens.range.start.line, lens.references, lens.events])).toEqual([
+			['global', 'counter', 0, 2, ['default.state_entry', 'default.touch_start']],
+			['global', 'unused', 1, 0, []],
+			['function', 'helper', 2, 3, ['default.state_entry', 'default.touch_start']],
+			['function', 'twice', 3, 1, ['default.state_entry']],
+			['state', 'default', 4, 1, ['state_entry', 'touch_start']],
+			['state', 'running', 8, 1, ['timer']],
+		]);
+		for (const lens of lenses) expect(lens.bytes).toBeGreaterThan(0);
+		const helper = lenses.find(lens => lens.name === 'helper')!;
+		expect(helper.title).toBe(`~${helper.bytes} bytes · 3 references · called from 2 events`);
+		expect(lenses.find(lens => lens.name === 'unused')!.title).toMatch(/^~\d+ bytes · 0 references · used in 0 events$/);
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { docFrom, hoverToString, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { lslCompletions } from '../src/completions';
+import { lslHover } from '../src/hover';
+import { Defs } from '../src/defs';
+
+describe('parameter constant families', async () => {
+	const defs = await loadTestDefs();
+
+	it('infers families from parameter and function names', () => {
+		expect(defs.paramConstantFamily('llSetStatus', 0)).toBe('STATUS_');
+		expect(defs.paramConstantFamily('llSetStatus', 1)).toBeUndefined();
+		expect(defs.paramConstantFamily('llStringTrim', 1)).toBeUndefined();
+		const custom = new Defs({
+			version: 'test',
+			constants: [
+				{ name: 'PERMISSION_DEBIT', type: 'integer', value: 2 },
+				{ name: 'PERMISSION_ATTACH', type: 'integer', value: 32 },
+				{ name: 'TYPE_INTEGER', type: 'integer', value: 1 },
+				{ name: 'TYPE_FLOAT', type: 'integer', value: 2 },
+			],
+			events: [],
+			functions: [
+				{ name: 'llRequestPermissions', returns: 'void', params: [{ name: 'agent', type: 'key' }, { name: 'permissions', type: 'integer' }] },
+				{ name: 'llSensor', returns: 'void', params: [{ name: 'type', type: 'integer' }] },
+				{ name: 'llStringTrim', returns: 'string', params: [{ name: 'src', type: 'string' }, { name: 'type', type: 'integer', constantFamily: 'TYPE_' }] },
+			],
+		});
+		expect(custom.paramConstantFamily('llRequestPermissions', 1)).toBe('PERMISSION_');
+		expect(custom.paramConstantFamily('llSensor', 0)).toBeUndefined();
+		expect(custom.paramConstantFamily('llStringTrim', 1)).toBe('TYPE_');
+	});
+
+	it('offers only the family constants in that slot', () => {
+		const doc = docFrom('default { state_entry() { llSetStatus(, TRUE); } }');
+		const { analysis, pre } = runPipeline(doc, defs);
+		const pos = doc.positionAt(doc.getText().indexOf('(,') + 1);
+		const items = lslCompletions(doc, { textDocument: { uri: doc.uri }, position: pos }, defs, analysis, pre);
+		const constants = items.filter(i => i.kind === 20).map(i => i.label);
+		expect(constants.sort()).toEqual(['STATUS_PHANTOM', 'STATUS_PHYSICS']);
+		expect(items.map(i => i.label)).toContain('llGetOwner');
+	});
+
+	it('shows the constant matching an integer literal argument', () => {
+		const code = 'default { state_entry() { llSetStatus(16, TRUE); llSetStatus(17, TRUE); llSetStatus(2, TRUE); } }';
+		const doc = docFrom(code);
+		const { analysis, pre } = runPipeline(doc, defs);
+		const hover = (needle: string) => {
+			const hv = lslHover(doc, { position: doc.positionAt(code.indexOf(needle) + 1) }, defs, analysis, pre);
+			return hv ? hoverToString(hv) : '';
+		};
+		expect(hover('16,')).toContain('16 // STATUS_PHANTOM');
+		expect(hover('17,')).toContain('17 // STATUS_PHYSICS | STATUS_PHANTOM');
+		expect(hover('2,')).not.toContain('STATUS_');
+	});
+
+	it('warns when a constant of another family is passed', () => {
+		const doc = docFrom('default { state_entry() { llSetStatus(STATUS_PHYSICS | CHANGED_OWNER, TRUE); llSetStatus(STATUS_PHANTOM, FALSE); } }');
+		const { analysis } = runPipeline(doc, defs);
+		const diags = analysis.diagnostics.filter(d => d.code === 'LSL018');
+		expect(diags).toHaveLength(1);
+		expect(diags[0]!.message).toBe('llSetStatus expects a STATUS_* constant here, not CHANGED_OWNER');
+		expect(diags[0]!.range.start.character).toBe(55);
+	});
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadTestDefs } from './loadDefs.testutil';
+import { LslDebugSession, type DebugEvent, type DebugResponse } from '../src/debugAdapter';
+
+const LIB = `helper(integer x) {
+	integer doubled = x * 2;
+	llOwnerSay((string)doubled);
+}
+`;
+
+const MAIN = `#include "lib.lslh"
+integer count = 0;
+default {
+	state_entry() {
+		count = 1;
+		helper(count);
+		count += 1;
+	}
+	touch_start(integer total_number) {
+		count += total_number;
+	}
+}
+`;
+
+async function startSession(breakpoints: Record<string, number[]>, stopOnEntry = false) {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsl-debug-'));
+	fs.writeFileSync(path.join(dir, 'lib.lslh'), LIB);
+	fs.writeFileSync(path.join(dir, 'main.lsl'), MAIN);
+	const messages: (DebugResponse | DebugEvent)[] = [];
+	const session = new LslDebugSession({ defs: await loadTestDefs() }, message => messages.push(message));
+	let seq = 1;
+	const request = (command: string, args?: unknown) => {
+		const from = messages.length;
+		session.handleMessage({ seq: seq++, type: 'request', command, arguments: args });
+		const sent = messages.slice(from);
+		return {
+			response: sent.find((m): m is DebugResponse => m.type === 'response')!,
+			events: sent.filter((m): m is DebugEvent => m.type === 'event'),
+		};
+	};
+	const body = <T>(command: string, args?: unknown) => request(command, args).response.body as T;
+	const location = () => {
+		const { stackFrames } = body<{ stackFrames: { name: string; source: { path: string }; line: number }[] }>('stackTrace', { threadId: 1 });
+		return stackFrames.map(frame => `${frame.name} ${path.basename(frame.source.path)}:${frame.line}`);
+	};
+	const variables = (frameId = 0) => {
+		const out: Record<string, Record<string, string>> = {};
+		for (const scope of body<{ scopes: { name: string; variablesReference: number }[] }>('scopes', { frameId }).scopes) {
+			const { variables: vars } = body<{ variables: { name: string; value: string }[] }>('variables', { variablesReference: scope.variablesReference });
+			out[scope.name] = Object.fromEntries(vars.map(v => [v.name, v.value]));
+		}
+		return out;
+	};
+
+	request('initialize', { linesStartAt1: true });
+	const launched = request('launch', { program: path.join(dir, 'main.lsl'), stopOnEntry });
+	expect(launched.response.success).toBe(true);
+	expect(launched.events.map(e => e.event)).toEqual(['initialized']);
+	const verified: Record<string, { verified: boolean; line: number }[]> = {};
+	for (const [file, lines] of Object.entries(breakpoints)) {
+		verified[file] = body<{ breakpoints: { verified: boolean; line: number }[] }>('setBreakpoints', { source: { path: path.join(dir, file) }, breakpoints: lines.map(line => ({ line })) }).breakpoints;
+	}
+	const configured = request('configurationDone');
+	return { request, location, variables, verified, configured };
+}
+
+describe('debug adapter', () => {
+	it('stops at breakpoints inside included headers and shows the call stack', async () => {
+		const { request, location, variables, verified, configured } = await startSession({ 'lib.lslh': [1, 3] });
+		expect(verified['lib.lslh']).toEqual([{ verified: true, line: 2 }, { verified: true, line: 3 }]);
+		expect(configured.events.map(e => e.event)).toEqual(['stopped']);
+		expect(location()).toEqual(['helper lib.lslh:2', 'default.state_entry main.lsl:6']);
+		expect(variables()).toEqual({ Parameters: { x: '1' }, Locals: {}, Globals: { count: '1' } });
+
+		const next = request('continue');
+		expect(next.events.map(e => e.event)).toEqual(['stopped']);
+		expect(location()[0]).toBe('helper lib.lslh:3');
+		expect(variables().Locals).toEqual({ doubled: '2' });
+
+		const idle = request('continue');
+		expect(idle.events.map(e => (e.body as { output?: string }).output)).toEqual([
+			'llOwnerSay: 2\n',
+			'Waiting for events in state default; queue one from the debug console, e.g. touch_start(1)\n',
+		]);
+	});
+
+	it('steps over, into and out of user functions', async () => {
+		const { request, location } = await startSession({}, true);
+		expect(location()).toEqual(['default.state_entry main.lsl:5']);
+		request('next');
+		expect(location()).toEqual(['default.state_entry main.lsl:6']);
+		request('stepIn');
+		expect(location()).toEqual(['helper lib.lslh:2', 'default.state_entry main.lsl:6']);
+		expect(request('stepOut').events.map(e => e.event)).toEqual(['output', 'stopped']);
+		expect(location()).toEqual(['default.state_entry main.lsl:7']);
+		expect(request('next').events.map(e => e.event)).toEqual(['output']);
+		expect(location()).toEqual([]);
+	});
+
+	it('queues events and evaluates expressions from the debug console', async () => {
+		const { request, location, variables } = await startSession({ 'main.lsl': [10] });
+		const queued = request('evaluate', { expression: 'touch_start(3)', context: 'repl' });
+		expect(queued.response.body).toEqual({ result: 'Queued touch_start', variablesReference: 0 });
+		expect(queued.events.map(e => e.event)).toEqual(['stopped']);
+		expect(location()).toEqual(['default.touch_start main.lsl:10']);
+		expect(variables().Parameters).toEqual({ total_number: '3' });
+		expect(request('evaluate', { expression: 'count * 10 + total_number', frameId: 0, context: 'repl' }).response.body).toMatchObject({ result: '23' });
+		expect(request('evaluate', { expression: 'timer()', context: 'repl' }).response.message).toBe('State default has no timer event, or its event queue is full');
+	});
+
+	it('shows the variables of later handlers as the replayed script had them', async () => {
+		const { request, variables } = await startSession({ 'main.lsl': [10] });
+		request('evaluate', { expression: 'touch_start(3)', context: 'repl' });
+		// Queued while stopped, so it runs after the first touch finishes
+		request('evaluate', { expression: 'touch_start(4)', context: 'repl' });
+		expect(variables()).toEqual({ Parameters: { total_number: '3' }, Locals: {}, Globals: { count: '2' } });
+		expect(request('continue').events.map(e => e.event)).toEqual(['stopped']);
+		expect(variables()).toEqual({ Parameters: { total_number: '4' }, Locals: {}, Globals: { count: '5' } });
+		expect(request('pause').response.success).toBe(false);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { unifiedDiff } from '../src/diff';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('unified diff', () => {
+	it('is empty for identical texts', () => {
+		expect(unifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+	});
+
+	it('prints changes with three lines of context', () => {
+		const before = lines(10).join('\n') + '\n';
+		const after = lines(10).map(line => (line === 'line 5' ? 'line five' : line)).filter(line => line !== 'line 9').join('\n') + '\n';
+		expect(unifiedDiff(before, after, { fromFile: 'a/x.lsl', toFile: 'b/x.lsl' })).toBe([
+			'--- a/x.lsl',
+			'+++ b/x.lsl',
+			'@@ -2,9 +2,8 @@',
+			' line 2',
+			' line 3',
+			' line 4',
+			'-line 5',
+			'+line five',
+			' line 6',
+			' line 7',
+			' line 8',
+			'-line 9',
+			' line 10',
+			'',
+		].join('\n'));
+	});
+
+	it('splits distant changes into separate hunks', () => {
+		const before = lines(20).join('\n');
+		const after = ['inserted', ...lines(20).slice(0, 19)].join('\n');
+		expect(unifiedDiff(before, after).split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,3 +1,4 @@', '@@ -17,4 +18,3 @@']);
+	});
+});
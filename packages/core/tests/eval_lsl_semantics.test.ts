@@ -7,6 +7,7 @@ import type { Expr, Type } from '../src/ast/types';
 import type { Value } from '../src/ast/eval';
 import { loadDefs } from '../src/defs';
 import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
 import { LSL_DIAGCODES } from '../src/analysisTypes';
 
 const defsPath = path.join(__dirname, '..', '..', '..', 'third_party', 'lsl-definitions', 'lsl_definitions.yaml');
@@ -171,6 +172,52 @@ describe('evaluator LSL semantic fixtures', () => {
 		expect(evalSource('float', 'pos.z', env)).toEqual({ kind: 'value', type: 'float', value: 3 });
 	});
 
+	it('stores increments and compound assignments in the environment', () => {
+		const env = new Env(new Map<string, Value>([
+			['k', { kind: 'value', type: 'integer', value: 0 }],
+			['f', { kind: 'value', type: 'float', value: 1.5 }],
+		]));
+		expect(evalSource('integer', 'k++', env)).toEqual({ kind: 'value', type: 'integer', value: 0 });
+		expect(evalSource('integer', '++k', env)).toEqual({ kind: 'value', type: 'integer', value: 2 });
+		expect(evalSource('integer', 'k -= 5', env)).toEqual({ kind: 'value', type: 'integer', value: -3 });
+		// The result keeps the variable's type
+		expect(evalSource('float', 'f += 1', env)).toEqual({ kind: 'value', type: 'float', value: 2.5 });
+		expect(env.getVar('k')).toEqual({ kind: 'value', type: 'integer', value: -3 });
+		expect(env.getVar('f')).toEqual({ kind: 'value', type: 'float', value: 2.5 });
+	});
+
+	it('updates the vector or rotation a component is assigned to', () => {
+		const env = new Env(new Map<string, Value>([
+			['v', { kind: 'value', type: 'vector', value: [1, 2, 3] }],
+			['r', { kind: 'value', type: 'rotation', value: [0, 0, 0, 1] }],
+		]));
+		expect(evalSource('float', 'v.x = 9', env)).toEqual({ kind: 'value', type: 'float', value: 9 });
+		expect(evalSource('float', 'v.y += 1', env)).toEqual({ kind: 'value', type: 'float', value: 3 });
+		expect(evalSource('float', 'r.s--', env)).toEqual({ kind: 'value', type: 'float', value: 1 });
+		expect(env.getVar('v')).toEqual({ kind: 'value', type: 'vector', value: [9, 3, 3] });
+		expect(env.getVar('r')).toEqual({ kind: 'value', type: 'rotation', value: [0, 0, 0, 0] });
+		// A component that cannot be worked out leaves the whole vector unknown
+		evalSource('float', 'v.z = llFrand(1.0)', env);
+		expect(env.getVar('v')).toEqual({ kind: 'unknown', type: 'vector' });
+	});
+
+	it('folds conditions after increments in straight-line code but not in loops', async () => {
+		const defs = await loadTestDefs();
+		const code = `
+default {
+	touch_start(integer n) {
+		integer k = 0;
+		if (k++ == 0) llOwnerSay("first");
+		integer i = 0;
+		while (n--) if (i++ == 0) llOwnerSay("once");
+	}
+}
+`;
+		const { analysis } = runPipeline(docFrom(code, 'file:///eval-increments.lsl'), defs);
+		const truthy = analysis.diagnostics.filter(d => d.code === LSL_DIAGCODES.ALWAYS_TRUE_CONDITION);
+		expect(truthy.map(d => d.range.start.line)).toEqual([4]);
+	});
+
 	it('keeps invalid folded expressions from producing misleading LSP constant-condition warnings', async () => {
 		const defs = await loadDefs(defsPath);
 		const code = `
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeScript, parseScriptFromText } from '../src';
+import { Env, evalExpr, type EvalOptions } from '../src/ast/eval';
+
+function evaluate(type: string, expr: string, options: EvalOptions = {}) {
+	const script = parseScriptFromText(`${type} x = ${expr}; default { state_entry() {} }`);
+	return evalExpr(script.globals.get('x')!.initializer!, new Env(), { allowRuntimeCalls: true, ...options });
+}
+
+function stringOf(expr: string, options: EvalOptions = {}) {
+	const value = evaluate('string', expr, options);
+	return value.kind === 'value' ? value.value : undefined;
+}
+
+function integerOf(expr: string, options: EvalOptions = {}) {
+	const value = evaluate('integer', expr, options);
+	return value.kind === 'value' ? value.value : undefined;
+}
+
+// Expected strings are what Mono prints in SL for the same expressions
+describe('single-precision float semantics', () => {
+	it('rounds literals and arithmetic to float32', () => {
+		expect(integerOf('(integer)16777217.0')).toBe(16777216);
+		expect(integerOf('(integer)(16777216.0 + 1)')).toBe(16777216);
+		expect(integerOf('0.1 + 0.2 == 0.3')).toBe(1);
+		expect(integerOf('(float)16777217 == 16777216.0')).toBe(1);
+	});
+
+	it('formats (string)float with six decimals and seven significant digits', () => {
+		expect(stringOf('(string)0.1')).toBe('0.100000');
+		expect(stringOf('(string)(1.0 / 3)')).toBe('0.333333');
+		expect(stringOf('(string)(0.1 + 0.2)')).toBe('0.300000');
+		expect(stringOf('(string)123456789.0')).toBe('123456800.000000');
+		expect(stringOf('(string)-0.0000001')).toBe('-0.000000');
+	});
+
+	it('formats vectors with five decimals and list conversions with six', () => {
+		expect(stringOf('(string)<0.1, 1.0 / 3, 100000.5>')).toBe('<0.10000, 0.33333, 100000.50000>');
+		expect(stringOf('llList2CSV([0.1, <1, 2, 3>])')).toBe('0.100000, <1.000000, 2.000000, 3.000000>');
+		expect(stringOf('llDumpList2String([1.0 / 3, 123456789.0], "|")')).toBe('0.333333|123456800.000000');
+	});
+
+	it('rounds half up in llRound and saturates out-of-range integer conversions', () => {
+		expect(integerOf('llRound(2.5)')).toBe(3);
+		expect(integerOf('llRound(-2.5)')).toBe(-2);
+		expect(integerOf('llRound(-2.6)')).toBe(-3);
+		expect(integerOf('llRound(0.49999997)')).toBe(1);
+		expect(integerOf('llFloor(-0.5)')).toBe(-1);
+		expect(integerOf('llCeil(-0.5)')).toBe(0);
+		expect(integerOf('llFloor(3000000000.0)')).toBe(-2147483648);
+		expect(integerOf('(integer)3000000000.0')).toBe(-2147483648);
+		expect(integerOf('(integer)-3000000000.0')).toBe(-2147483648);
+		expect(integerOf('(integer)-2147483648.0')).toBe(-2147483648);
+	});
+
+	it('keeps JS doubles when float32 is disabled', () => {
+		expect(integerOf('0.1 + 0.2 == 0.3', { float32: false })).toBe(0);
+		expect(integerOf('(integer)16777217.0', { float32: false })).toBe(16777217);
+		expect(stringOf('(string)123456789.0', { float32: false })).toBe('123456789.000000');
+		expect(integerOf('llRound(0.49999997)', { float32: false })).toBe(0);
+	});
+
+	it('folds optimizer constants in single precision and emits the shortest literal', () => {
+		const code = 'float f = 0.1 + 0.2; string s() { return (string)(1.0 / 3); } integer i() { return (integer)(16777216.0 + 1); } default { state_entry() {} }';
+		const single = optimizeScript(parseScriptFromText(code), { foldStringConcats: true });
+		expect(single.code).toContain('float f=0.3;');
+		expect(single.code).toContain('return "0.333333";');
+		expect(single.code).toContain('return 16777216;');
+		const double = optimizeScript(parseScriptFromText(code), { foldStringConcats: true, float32: false });
+		expect(double.code).toContain('float f=0.30000000000000004;');
+		expect(double.code).toContain('return 16777217;');
+	});
+});
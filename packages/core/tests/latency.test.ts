@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { analyzeLatency } from '../src/ast/latency';
+import { latencyCodeLenses } from '../src/codeLens';
+
+async function latencyOf(code: string) {
+	const defs = await loadTestDefs();
+	const { script } = runPipeline(docFrom(code, 'file:///latency.lsl'), defs);
+	return analyzeLatency(script, defs).map(h => ({ handler: `${h.state}.${h.event}`, sleep: Number(h.sleep.toFixed(3)), energy: h.energy, unbounded: h.unbounded }));
+}
+
+async function sleepInLoopDiags(code: string) {
+	const defs = await loadTestDefs();
+	const { analysis } = runPipeline(docFrom(code, 'file:///latency.lsl'), defs);
+	return analysis.diagnostics.filter(d => d.code === 'LSL093');
+}
+
+describe('handler latency', () => {
+	it('sums sleeps along the slowest branch and through user functions', async () => {
+		expect(await latencyOf(`
+notify() { llEmail("a@example.com", "", ""); }
+default {
+	state_entry() { }
+	touch_start(integer n) {
+		llSay(0, "hi");
+		if (n > 1) notify();
+		else llSetPrimitiveParams([]);
+	}
+}
+`)).toEqual([
+			{ handler: 'default.state_entry', sleep: 0, energy: 0, unbounded: false },
+			{ handler: 'default.touch_start', sleep: 20.1, energy: 20, unbounded: false },
+		]);
+	});
+
+	it('multiplies loop bodies by bounds the evaluator knows', async () => {
+		const [bounded, unbounded, never] = await latencyOf(`
+default {
+	state_entry() { integer i; for (i = 0; i < 5; i += 1) llSetLinkPrimitiveParams(LINK_THIS, []); }
+	touch_start(integer n) { integer i; for (i = 0; i < n; ++i) llSay(0, "x"); }
+	timer() { while (FALSE) llEmail("", "", ""); }
+}
+`);
+		expect(bounded).toEqual({ handler: 'default.state_entry', sleep: 1, energy: 50, unbounded: false });
+		expect(unbounded).toEqual({ handler: 'default.touch_start', sleep: 0.1, energy: 10, unbounded: true });
+		expect(never!.sleep).toBe(0);
+	});
+
+	it('bounds while loops by the counter set before them', async () => {
+		const handlers = await latencyOf(`
+default {
+	state_entry() { integer i = 0; integer n = 4; while (i < n) { llSetLinkPrimitiveParams(LINK_THIS, []); i++; } }
+	touch_start(integer total) { integer i; while (i < total) { llSay(0, "x"); i += 1; } }
+	timer() { integer i = 0; while (i < 3) { i++; llSetPrimitiveParams([]); } }
+}
+`);
+		expect(handlers.map(h => [h.handler, h.sleep, h.unbounded])).toEqual([
+			['default.state_entry', 0.8, false],
+			['default.touch_start', 0.1, true],
+			// The update has to come last
+			['default.timer', 0.2, true],
+		]);
+	});
+
+	it('treats a bound changed inside the loop or recursion as unbounded', async () => {
+		const handlers = await latencyOf(`
+integer again(integer n) { llSay(0, "x"); return again(n - 1); }
+default {
+	state_entry() { integer i; for (i = 0; i < 3; ++i) { llSay(0, "x"); i = 0; } }
+	touch_start(integer n) { again(n); }
+}
+`);
+		expect(handlers.map(h => h.unbounded)).toEqual([true, true]);
+	});
+
+	it('shows a code lens above sleeping handlers', async () => {
+		const defs = await loadTestDefs();
+		const doc = docFrom('default {\n\tstate_entry() { }\n\ttouch_start(integer n) { llSetPrimitiveParams([]); llSay(0, "x"); }\n}\n', 'file:///latency.lsl');
+		const { script, analysis } = runPipeline(doc, defs);
+		const lenses = latencyCodeLenses(doc, script, analysis, defs);
+		expect(lenses.map(lens => [lens.event, lens.range.start.line, lens.title])).toEqual([
+			['touch_start', 2, 'worst-case delay 0.3s · energy 20'],
+		]);
+	});
+});
+
+describe('sleeping calls in loops', () => {
+	it('suggests the non-sleeping alternative', async () => {
+		const diags = await sleepInLoopDiags(`
+default {
+	touch_start(integer n) {
+		integer i;
+		for (i = 0; i < n; ++i) {
+			llSetPrimitiveParams([]);
+			while (i) llSetLinkPrimitiveParams(i, []);
+		}
+		llSetPrimitiveParams([]);
+		do llEmail("", "", ""); while (n);
+	}
+}
+`);
+		expect(diags.map(d => d.message)).toEqual([
+			'llSetPrimitiveParams sleeps 0.2s on every iteration; llSetLinkPrimitiveParamsFast does not',
+			'llSetLinkPrimitiveParams sleeps 0.2s on every iteration; llSetLinkPrimitiveParamsFast does not',
+		]);
+		expect(diags[0]!.range.start).toEqual({ line: 5, character: 3 });
+	});
+
+	it('leaves loops in included headers to the header', async () => {
+		const base = path.join(__dirname, 'tmp_includes', 'latency');
+		await fs.mkdir(base, { recursive: true });
+		await fs.writeFile(path.join(base, 'paint.lslh'), 'paint(integer n) {\n\twhile (n--) llSetPrimitiveParams([]);\n}\n', 'utf8');
+		const code = '#include "paint.lslh"\ndefault {\n\ttouch_start(integer n) {\n\t\tpaint(n);\n\t}\n}\n';
+		const { analysis } = runPipeline(docFrom(code, 'file:///proj/latency_include.lsl'), await loadTestDefs(), { includePaths: [base] });
+		expect(analysis.diagnostics.filter(d => d.code === 'LSL093')).toEqual([]);
+	});
+});
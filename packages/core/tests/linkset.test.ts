@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { parseScriptFromText } from '../src/ast/parser';
+import { LinksetSimulator } from '../src/ast/linkset';
+
+const parse = (lines: string[]) => parseScriptFromText(lines.join('\n'));
+
+function ownerSays(linkset: LinksetSimulator, link: number, script: string): string[] {
+	return linkset.script(link, script).calls
+		.filter(call => call.name === 'llOwnerSay')
+		.map(call => call.args[0]?.kind === 'value' ? String(call.args[0].value) : '?');
+}
+
+describe('linkset simulator', () => {
+	it('routes link messages by target and records who sent what', () => {
+		const controller = parse([
+			'default {',
+			'  state_entry() { llMessageLinked(-3, 1, "ping", ""); }',
+			'  link_message(integer sender, integer num, string str, key id) { llOwnerSay((string)sender + ":" + str); }',
+			'}',
+		]);
+		const worker = parse([
+			'default { link_message(integer sender, integer num, string str, key id) {',
+			'  if (str == "ping") llMessageLinked(sender, num + llGetLinkNumber(), "pong", id);',
+			'} }',
+		]);
+		const linkset = new LinksetSimulator([
+			{ name: 'Root', scripts: [{ name: 'controller', script: controller }] },
+			{ scripts: [{ name: 'worker', script: worker }] },
+			{ scripts: [{ name: 'worker', script: worker }] },
+		]).start();
+
+		expect(ownerSays(linkset, 1, 'controller')).toEqual(['2:pong', '3:pong']);
+		expect(linkset.trace.map(entry => [entry.from.link, entry.call, entry.to.map(to => to.link)])).toEqual([
+			[1, 'llMessageLinked', [2, 3]],
+			[2, 'llMessageLinked', [1]],
+			[3, 'llMessageLinked', [1]],
+		]);
+		expect(linkset.trace[1]!.args[1]).toEqual({ kind: 'value', type: 'integer', value: 3 });
+	});
+
+	it('dispatches events round-robin across scripts', () => {
+		const counter = (label: string) => parse([
+			'integer n;',
+			`default { link_message(integer s, integer num, string str, key id) { llOwnerSay("${label}" + (string)(++n)); if (n < 3) llMessageLinked(-1, 0, "", ""); } }`,
+		]);
+		const linkset = new LinksetSimulator([{ scripts: [{ name: 'a', script: counter('a') }, { name: 'b', script: counter('b') }] }]).start();
+		linkset.linkMessage(0, -1, 0, '', '');
+		const order = linkset.trace.map(entry => entry.from.script);
+		expect(order).toEqual(['a', 'b', 'a', 'b']);
+		expect(ownerSays(linkset, 0, 'b')).toEqual(['b1', 'b2', 'b3', 'b4', 'b5']);
+	});
+
+	it('delivers chat to listening prims but never back to the speaking prim', () => {
+		const speaker = parse([
+			'default {',
+			'  state_entry() { llListen(-42, "", "", ""); llRegionSay(-42, "hello"); }',
+			'  listen(integer c, string name, key id, string msg) { llOwnerSay("speaker heard " + msg); }',
+			'}',
+		]);
+		const listener = parse([
+			'default {',
+			'  state_entry() { llListen(-42, "", "", ""); }',
+			'  listen(integer c, string name, key id, string msg) { llOwnerSay(name + " said " + msg); llSay(-42, "ack"); }',
+			'}',
+		]);
+		const linkset = new LinksetSimulator([
+			{ name: 'Speaker', scripts: [{ name: 'speaker', script: speaker }] },
+			{ name: 'Listener', scripts: [{ name: 'listener', script: listener }] },
+		]);
+		// The listener's llListen has to be in place before the speaker talks: start both, then chat again.
+		linkset.start();
+		linkset.chat(-42, 'Avatar', '00000000-0000-0000-0000-000000000001', 'hi');
+		expect(ownerSays(linkset, 2, 'listener')).toEqual(['Avatar said hi']);
+		expect(ownerSays(linkset, 1, 'speaker')).toEqual(['speaker heard hi', 'speaker heard ack']);
+		expect(linkset.trace.filter(entry => entry.kind === 'chat').map(entry => [entry.call, entry.to.map(to => to.script)])).toEqual([
+			['llRegionSay', []],
+			['llSay', ['speaker']],
+		]);
+	});
+
+	it('answers dataserver requests from notecards, shared key-value storage and the host', () => {
+		const writer = parse(['default { state_entry() { llUpdateKeyValue("color", "red", 0, ""); } }']);
+		const reader = parse([
+			'key query;',
+			'default {',
+			'  touch_start(integer n) { llReadKeyValue("color"); llGetNotecardLine("config", 1); llRequestDisplayName(llDetectedKey(0)); }',
+			'  dataserver(key id, string data) { llOwnerSay(data); }',
+			'}',
+		]);
+		const linkset = new LinksetSimulator([
+			{ scripts: [{ name: 'writer', script: writer }] },
+			{ scripts: [{ name: 'reader', script: reader }], notecards: { config: 'a=1\nb=2' } },
+		], {
+			dataserver: request => request.call.name === 'llRequestDisplayName' ? 'Tester' : undefined,
+		}).start();
+		linkset.touch(2, { key: '00000000-0000-0000-0000-000000000001' });
+		expect(ownerSays(linkset, 2, 'reader')).toEqual(['1,red', 'b=2', 'Tester']);
+		expect(linkset.keyValueStore.get('color')).toBe('red');
+		expect(linkset.trace.filter(entry => entry.kind === 'dataserver').map(entry => `${entry.from.script}:${entry.call}`)).toEqual([
+			'writer:llUpdateKeyValue',
+			'reader:llReadKeyValue',
+			'reader:llGetNotecardLine',
+			'reader:llRequestDisplayName',
+		]);
+	});
+
+	it('fires timers across scripts in time order on a shared clock', () => {
+		const ticker = (interval: string) => parse([`default { state_entry() { llSetTimerEvent(${interval}); } timer() { llMessageLinked(-1, 0, "${interval}", ""); } }`]);
+		const linkset = new LinksetSimulator([{ scripts: [{ name: 'slow', script: ticker('3.0') }, { name: 'fast', script: ticker('2.0') }] }]).start();
+		linkset.advance(6);
+		expect(linkset.trace.map(entry => `${entry.time}:${entry.from.script}`)).toEqual(['2:fast', '3:slow', '4:fast', '6:slow', '6:fast']);
+		expect(linkset.time).toBe(6);
+	});
+});
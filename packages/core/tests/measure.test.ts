@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { measureAst, optimizeScript, parseScriptFromText } from '../src';
+import { measureAst, measureAstDeclarations, measureAstFrames, optimizeScript, parseScriptFromText } from '../src';
 
 describe('AST measure', () => {
 	it('counts major AST shapes and reports a Mono memory estimate', () => {
@@ -69,4 +69,37 @@ describe('AST measure', () => {
 		expect(touchThree.cost.calls - base.cost.calls).toBe(1024);
 		expect(listenTwo.cost.calls - base.cost.calls).toBe(1024);
 	});
+
+	it('breaks the estimate down per global, function and state', () => {
+		const script = parseScriptFromText([
+			'list items = [1, 2, 3];',
+			'integer small;',
+			'integer helper(integer value) { return value + llGetListLength(items); }',
+			'default { state_entry() { integer value = helper(1); llOwnerSay((string)value); } }',
+		].join('\n'));
+		const parts = measureAstDeclarations(script);
+		expect(parts.map(part => [part.kind, part.name])).toEqual([['global', 'items'], ['global', 'small'], ['function', 'helper'], ['state', 'default']]);
+		const [items, small, helper, state] = parts.map(part => part.bytes);
+		expect(items).toBeGreaterThan(small!);
+		expect(helper).toBeGreaterThan(280);
+		expect(state).toBeGreaterThan(300);
+		const whole = measureAst(script);
+		const total = parts.reduce((sum, part) => sum + part.bytes, 0);
+		expect(Math.abs(total - (whole.estimatedMonoUsedMemory - whole.cost.baseline))).toBeLessThanOrEqual(parts.length);
+	});
+
+	it('measures the frame of each function and event', () => {
+		const script = parseScriptFromText([
+			'integer helper(integer value) { integer doubled = value * 2; return doubled; }',
+			'default { state_entry() { } touch_start(integer n) { list seen = [n]; } }',
+		].join('\n'));
+		expect(measureAstFrames(script).map(frame => [frame.kind, frame.state, frame.name, frame.bytes > 0])).toEqual([
+			['function', undefined, 'helper', true],
+			['event', 'default', 'state_entry', false],
+			['event', 'default', 'touch_start', true],
+		]);
+		const [helper, , touch] = measureAstFrames(script);
+		expect(helper!.bytes).toBe(20 + 45);
+		expect(touch!.bytes).toBeGreaterThanOrEqual(20 + 45);
+	});
 });
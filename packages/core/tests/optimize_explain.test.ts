@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeScript, parseScriptFromText } from '../src';
+
+const SCRIPT = `integer LIMIT = 3;
+integer unused() { return 1; }
+default {
+	state_entry() {
+		integer count = 2 + 3;
+		if (count != 0) llOwnerSay((string)(count + LIMIT));
+	}
+}
+`;
+
+describe('optimizer explain log', () => {
+	it('records each rewrite with its pass, source span and byte delta', () => {
+		const script = parseScriptFromText(SCRIPT, 'file:///explain.lsl');
+		const options = { inlineConstantGlobals: true, integerPeepholes: true, removeUnusedFunctions: true };
+		const result = optimizeScript(script, { ...options, explain: true });
+		expect(result.code).toBe(optimizeScript(script, options).code);
+		const entries = result.explain!.map(({ pass, iteration, start, end, before, after }) => ({ pass, iteration, text: end === undefined ? undefined : SCRIPT.slice(start, end), before, after }));
+		expect(entries.slice(0, 4)).toEqual([
+			{ pass: 'constantFold', iteration: 1, text: '2 + 3', before: '2+3', after: '5' },
+			{ pass: 'integerPeepholes', iteration: 1, text: 'count != 0', before: 'count!=0', after: 'count' },
+			{ pass: 'inlineConstantGlobals', iteration: 1, text: 'integer LIMIT', before: 'integer LIMIT=3;', after: '' },
+			{ pass: 'inlineConstantGlobals', iteration: 1, text: expect.stringMatching(/^state_entry\(\)/), before: expect.stringContaining('count+LIMIT'), after: expect.stringContaining('count+3') },
+		]);
+		expect(entries).toContainEqual({ pass: 'removeUnusedFunctions', iteration: 1, text: 'integer unused() { return 1; }', before: 'integer unused(){return 1;}', after: '' });
+		expect(result.explain!.find(entry => entry.before === 'integer unused(){return 1;}')!.bytes).toBeLessThan(0);
+	});
+
+	it('locates rewrites of later passes at the original statement', () => {
+		const result = optimizeScript(parseScriptFromText(SCRIPT, 'file:///explain.lsl'), { inlineConstantGlobals: true, removeUnusedFunctions: true, explain: true });
+		const later = result.explain!.filter(entry => entry.iteration > 1);
+		expect(later.map(entry => [entry.pass, entry.before, entry.after])).toContainEqual(['constantFold', '5+3', '8']);
+		for (const entry of later) {
+			expect(entry.end).toBeUndefined();
+			expect(SCRIPT.slice(entry.start)).toMatch(/^(if|llOwnerSay)/);
+		}
+		expect(result.origins).toBeUndefined();
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { measureAst, optimizeScript, parseScriptFromText, searchOptimizeOptions, type OptimizeOptions } from '../src';
+
+const SCRIPT = `string tag(string s, integer n) { return "<" + s + ":" + (string)n + "> and some more text here"; }
+default {
+	touch_start(integer n) {
+		string who = llGetDisplayName(llDetectedKey(0));
+		llOwnerSay(tag(who, n));
+		llSay(0, tag(who, n + 1));
+		llWhisper(0, tag("x", n));
+	}
+}
+`;
+
+const BASE: OptimizeOptions = { inlineFunctions: true, removeUnusedFunctions: true, shrinkNames: true };
+
+function usedMemory(code: string): number {
+	return measureAst(parseScriptFromText(code, 'file:///optimized.lsl')).estimatedMonoUsedMemory;
+}
+
+describe('optimizer search', () => {
+	it('applies per-function inline decisions across renaming passes', () => {
+		const script = parseScriptFromText(SCRIPT, 'file:///search.lsl');
+		expect(optimizeScript(script, BASE).code).not.toContain('string _(');
+		const kept = optimizeScript(script, { ...BASE, inlineFunctionDecisions: { tag: false } }).code;
+		expect(kept).toContain('string _(string A,integer B)');
+		expect(kept).toContain('llWhisper(0,_("x",A))');
+	});
+
+	it('minimizes the chosen goal and reports the configuration', () => {
+		const script = parseScriptFromText(SCRIPT, 'file:///search.lsl');
+		const memory = searchOptimizeOptions(script, BASE, { goal: 'memory' });
+		const size = searchOptimizeOptions(script, BASE, { goal: 'source-size' });
+		expect(memory.cost).toBe(usedMemory(memory.result.code));
+		expect(memory.memory).toBeLessThan(size.memory);
+		expect(size.cost).toBe(size.result.code.length);
+		expect(size.cost).toBeLessThan(memory.result.code.length);
+		// The reported options reproduce the chosen output
+		expect(optimizeScript(script, size.options).code).toBe(size.result.code);
+		expect(size.runs).toBeGreaterThan(1);
+	});
+
+	it('prefers outputs that fit the memory target', () => {
+		const script = parseScriptFromText(SCRIPT, 'file:///search.lsl');
+		const smallest = searchOptimizeOptions(script, BASE, { goal: 'memory' }).memory;
+		const fits = searchOptimizeOptions(script, BASE, { goal: 'source-size', memoryTarget: smallest });
+		expect(fits.meetsTarget).toBe(true);
+		expect(fits.memory).toBe(smallest);
+		const tooSmall = searchOptimizeOptions(script, BASE, { goal: 'source-size', memoryTarget: smallest - 1 });
+		expect(tooSmall.meetsTarget).toBe(false);
+		expect(tooSmall.memory).toBe(smallest);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { loadTestDefs } from './loadDefs.testutil';
+import { builtinConstantValuesFromDefs, builtinReturnTypesFromDefs, parseScriptFromText, shrinkNameOptionsFromDefs, verifyOptimization, type OptimizeOptions } from '../src';
+
+const SCRIPT = `integer LIMIT = 3;
+integer clamp(integer n) { if (n > LIMIT) return LIMIT; if (!(n >= 0)) return 0; return n; }
+string label(string name, key id, float weight) { return name + ":" + (string)id + "/" + (string)weight; }
+default {
+	state_entry() { llOwnerSay((string)clamp(LIMIT * 2)); }
+	touch_start(integer total) {
+		integer i;
+		for (i = 0; i < clamp(total); ++i) llOwnerSay((string)i);
+		if (total == 0x7fffffff) state busy;
+	}
+	listen(integer channel, string name, key id, string message) {
+		if (id) llOwnerSay(label(name, id, (float)message));
+	}
+}
+state busy {
+	state_entry() { llSetText("busy", <1, 0, 0>, 1.0); }
+	link_message(integer sender, integer num, string str, key id) { llOwnerSay(llList2CSV([num % 3, str, id, <num, 0, -0.0>])); }
+}
+`;
+
+async function releaseOptions(): Promise<OptimizeOptions> {
+	const defs = await loadTestDefs();
+	return {
+		builtinConstants: builtinConstantValuesFromDefs(defs),
+		builtinFunctionReturnTypes: builtinReturnTypesFromDefs(defs),
+		bitwiseBooleanOps: true,
+		dropDefaultInitializers: true,
+		inlineConstantGlobals: true,
+		inlineFunctions: true,
+		integerPeepholes: true,
+		listAdd: true,
+		removeUnusedFunctions: true,
+		shrinkNames: true,
+		shrinkNameOptions: shrinkNameOptionsFromDefs(defs),
+	};
+}
+
+describe('optimizer verification', () => {
+	it('finds no divergence between a script and its release optimization', async () => {
+		const defs = await loadTestDefs();
+		const result = verifyOptimization(parseScriptFromText(SCRIPT, 'file:///verify.lsl', { defs }), await releaseOptions());
+		expect(result.divergences).toEqual([]);
+		expect(result.skipped).toEqual([]);
+		// clamp, label and five handlers, including the two in the renamed state
+		expect(result.targets).toBe(7);
+		expect(result.runs).toBeGreaterThan(result.targets);
+	});
+
+	it('reports divergences with the inputs and the pass that introduced them', async () => {
+		const defs = await loadTestDefs();
+		const source = `default {
+	state_entry() { llOwnerSay((string)((16777216.0 + 1.0) - 16777216.0)); }
+}
+`;
+		// Folding in doubles disagrees with what Mono computes in single precision
+		const result = verifyOptimization(parseScriptFromText(source, 'file:///verify.lsl', { defs }), { ...await releaseOptions(), float32: false });
+		expect(result.divergences).toEqual([{
+			target: 'default.state_entry',
+			inputs: [],
+			original: ['llOwnerSay("0.000000")', 'state default'],
+			optimized: ['llOwnerSay("1.000000")', 'state default'],
+			pass: 'constantFold',
+		}]);
+	});
+
+	it('compares the final values of assigned globals under their original names', async () => {
+		const defs = await loadTestDefs();
+		const source = `integer count;
+float total;
+string unused = "x";
+default {
+	state_entry() { integer unused = 2; count += unused; total = (16777216.0 + 1.0) - 16777216.0; }
+}
+`;
+		// shrinkNames renames both globals, and the shadowed `unused` is never assigned
+		const result = verifyOptimization(parseScriptFromText(source, 'file:///verify.lsl', { defs }), { ...await releaseOptions(), float32: false });
+		expect(result.divergences).toEqual([{
+			target: 'default.state_entry',
+			inputs: [],
+			original: ['state default', 'global count = 2', 'global total = 0.0'],
+			optimized: ['state default', 'global count = 2', 'global total = 1.0'],
+			pass: 'constantFold',
+		}]);
+	});
+});
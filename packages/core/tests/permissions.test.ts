@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+
+async function permissionDiags(code: string) {
+	const defs = await loadTestDefs();
+	const { analysis } = runPipeline(docFrom(code, 'file:///permissions.lsl'), defs);
+	return analysis.diagnostics.filter(d => d.code === 'LSL092').map(d => d.message);
+}
+
+describe('permission flow', () => {
+	it('accepts calls after the permission is requested in the state', async () => {
+		expect(await permissionDiags(`
+default {
+	touch_start(integer n) { llRequestPermissions(llGetOwner(), PERMISSION_TRIGGER_ANIMATION | PERMISSION_TAKE_CONTROLS); }
+	run_time_permissions(integer perm) {
+		if (perm & PERMISSION_TRIGGER_ANIMATION) llStartAnimation("sit");
+		llTakeControls(0, TRUE, FALSE);
+	}
+}
+`)).toEqual([]);
+	});
+
+	it('warns when the bit is never requested or checked', async () => {
+		expect(await permissionDiags(`
+default {
+	touch_start(integer n) {
+		llRequestPermissions(llGetOwner(), PERMISSION_TAKE_CONTROLS);
+		llStartAnimation("sit");
+	}
+}
+`)).toEqual(['llStartAnimation needs PERMISSION_TRIGGER_ANIMATION, which is never requested or checked in state default']);
+	});
+
+	it('counts llGetPermissions checks, masks in globals and calls through functions', async () => {
+		expect(await permissionDiags(`
+integer PERMS = PERMISSION_TRIGGER_ANIMATION;
+animate() { llStartAnimation("dance"); }
+default {
+	touch_start(integer n) { llRequestPermissions(llGetOwner(), PERMS); animate(); }
+}
+state checked {
+	touch_start(integer n) { if (llGetPermissions() & PERMISSION_TRIGGER_ANIMATION) animate(); }
+}
+`)).toEqual([]);
+		expect(await permissionDiags(`
+animate() { llStartAnimation("dance"); }
+default {
+	touch_start(integer n) { animate(); }
+}
+`)).toEqual(['llStartAnimation needs PERMISSION_TRIGGER_ANIMATION, which is never requested or checked in state default']);
+	});
+
+	it('carries granted permissions into states reached through state changes', async () => {
+		expect(await permissionDiags(`
+default {
+	touch_start(integer n) { llRequestPermissions(llGetOwner(), PERMISSION_TRIGGER_ANIMATION); }
+	run_time_permissions(integer perm) { state dancing; }
+}
+state dancing {
+	state_entry() { llStartAnimation("dance"); }
+}
+state orphan {
+	state_entry() { llStartAnimation("dance"); }
+}
+`)).toEqual(['llStartAnimation needs PERMISSION_TRIGGER_ANIMATION, which is never requested or checked in state orphan']);
+	});
+
+	it('reports calls in included headers at the call in the current file', async () => {
+		const base = path.join(__dirname, 'tmp_includes', 'permissions');
+		await fs.mkdir(base, { recursive: true });
+		await fs.writeFile(path.join(base, 'grab.lslh'), 'grab() {\n\tllTakeControls(0, TRUE, FALSE);\n}\n', 'utf8');
+		const code = '#include "grab.lslh"\ndefault {\n\ttouch_start(integer n) {\n\t\tgrab();\n\t}\n}\n';
+		const { analysis } = runPipeline(docFrom(code, 'file:///proj/permissions_include.lsl'), await loadTestDefs(), { includePaths: [base] });
+		const diags = analysis.diagnostics.filter(d => d.code === 'LSL092');
+		expect(diags.map(d => d.message)).toEqual(['llTakeControls needs PERMISSION_TAKE_CONTROLS, which is never requested or checked in state default']);
+		expect(diags[0]!.range).toEqual({ start: { line: 3, character: 2 }, end: { line: 3, character: 6 } });
+	});
+
+	it('assumes a mask it cannot evaluate may request anything', async () => {
+		expect(await permissionDiags(`
+default {
+	touch_start(integer n) { llRequestPermissions(llGetOwner(), n); llStartAnimation("sit"); }
+}
+`)).toEqual([]);
+	});
+});
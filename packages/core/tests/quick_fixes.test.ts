@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { LSL_DIAGCODES, type DiagCode } from '../src/analysisTypes';
+import { applyPreferredFixes, applyTextEdits, quickFixes } from '../src/quickFixes';
+
+async function fixesFor(lines: string[], code: DiagCode) {
+	const doc = docFrom(lines.join('\n'));
+	const defs = await loadTestDefs();
+	const { script, analysis } = runPipeline(doc, defs);
+	const diagnostics = analysis.diagnostics.filter(d => d.code === code);
+	expect(diagnostics.length).toBeGreaterThan(0);
+	const fixes = quickFixes(doc, diagnostics, { analysis, defs, script });
+	const apply = (title: string) => {
+		const fix = fixes.find(f => f.title === title);
+		expect(fix, `no fix "${title}" in ${fixes.map(f => f.title).join(', ')}`).toBeDefined();
+		return applyTextEdits(doc, fix!.edits).split('\n');
+	};
+	return { fixes, apply };
+}
+
+describe('quick fixes', () => {
+	it('inserts a type-correct default return', async () => {
+		const { apply, fixes } = await fixesFor([
+			'key owner(integer n) {',
+			'\tif (n) return llGetOwner();',
+			'}',
+			'vector here() { llOwnerSay("x"); }',
+			'default { state_entry() { } }',
+		], LSL_DIAGCODES.MISSING_RETURN);
+		expect(fixes.filter(f => f.preferred).map(f => f.title)).toEqual(['Add "return NULL_KEY;"', 'Add "return ZERO_VECTOR;"']);
+		expect(apply('Add "return NULL_KEY;"').slice(0, 4)).toEqual(['key owner(integer n) {', '\tif (n) return llGetOwner();', '\treturn NULL_KEY;', '}']);
+		expect(apply('Add "return ZERO_VECTOR;"')[3]).toBe('vector here() { llOwnerSay("x"); return ZERO_VECTOR; }');
+	});
+
+	it('prefixes unused parameters and removes unused locals', async () => {
+		const params = await fixesFor(['default { touch_start(integer n) { } }'], LSL_DIAGCODES.UNUSED_PARAM);
+		expect(params.apply('Prefix "n" with an underscore')).toEqual(['default { touch_start(integer _n) { } }']);
+		const locals = await fixesFor([
+			'default {',
+			'\tstate_entry() {',
+			'\t\tinteger unused = 1 + 2;',
+			'\t\tstring name = llGetSubString("abc", 0, 1); llOwnerSay("hi");',
+			'\t}',
+			'}',
+		], LSL_DIAGCODES.UNUSED_LOCAL);
+		expect(locals.fixes.filter(f => f.title.startsWith('Remove')).map(f => [f.title, !!f.preferred])).toEqual([
+			['Remove unused local "unused"', true],
+			['Remove unused local "name"', false],
+		]);
+		expect(locals.apply('Remove unused local "unused"')).toEqual(['default {', '\tstate_entry() {', '\t\tstring name = llGetSubString("abc", 0, 1); llOwnerSay("hi");', '\t}', '}']);
+		expect(locals.apply('Remove unused local "name"')[3]).toBe('\t\tllGetSubString("abc", 0, 1); llOwnerSay("hi");');
+	});
+
+	it('adds explicit key casts', async () => {
+		const { apply } = await fixesFor(['integer seen(key id) { return id != NULL_KEY; }', 'default { touch_start(integer n) { string s = "a"; seen(s + "b"); } }'], LSL_DIAGCODES.IMPLICIT_STRING_TO_KEY);
+		expect(apply('Add explicit (key) cast')[1]).toBe('default { touch_start(integer n) { string s = "a"; seen((key)(s + "b")); } }');
+	});
+
+	it('suggests close names and declarations for unknown identifiers', async () => {
+		const { fixes, apply } = await fixesFor([
+			'integer count;',
+			'default {',
+			'\ttouch_start(integer n) {',
+			'\t\tstring message = "hi";',
+			'\t\tllOwnerSay(mesage);',
+			'\t\tllOwnerSay(llStringTrim(message, STRING_TRIMM));',
+			'\t\ttotal = count + n;',
+			'\t}',
+			'}',
+		], LSL_DIAGCODES.UNKNOWN_IDENTIFIER);
+		expect(fixes.filter(f => f.title.startsWith('Change to')).map(f => f.title)).toEqual(expect.arrayContaining(['Change to "message"', 'Change to "STRING_TRIM"']));
+		expect(apply('Declare global "string mesage;"').slice(0, 2)).toEqual(['integer count;', 'string mesage;']);
+		expect(apply('Declare local "integer total;"').slice(6, 8)).toEqual(['\t\tinteger total;', '\t\ttotal = count + n;']);
+	});
+
+	it('suggests known event names', async () => {
+		const { apply } = await fixesFor(['default { touch_strat(integer n) { } }'], LSL_DIAGCODES.UNKNOWN_EVENT);
+		expect(apply('Change to "touch_start"')).toEqual(['default { touch_start(integer n) { } }']);
+	});
+
+	it('suppresses any diagnostic on the next line', async () => {
+		const { fixes, apply } = await fixesFor([
+			'default {',
+			'\tstate_entry() {',
+			'\t\t// lsl-disable-next-line unused-param',
+			'\t\tinteger a;',
+			'\t\tinteger b;',
+			'\t}',
+			'}',
+		], LSL_DIAGCODES.UNUSED_LOCAL);
+		const titles = fixes.filter(f => f.title.startsWith('Suppress')).map(f => f.title);
+		expect(titles).toEqual(['Suppress unused-local with // lsl-disable-next-line', 'Suppress unused-local with // lsl-disable-next-line']);
+		const [first, second] = fixes.filter(f => f.title.startsWith('Suppress'));
+		expect(first!.edits[0]!.newText).toBe(', unused-local');
+		expect(second!.edits[0]!.newText).toBe('\t\t// lsl-disable-next-line unused-local\n');
+		expect(apply(titles[0]!)[2]).toBe('\t\t// lsl-disable-next-line unused-param, unused-local');
+	});
+
+	it('applies preferred fixes until none are left', async () => {
+		const defs = await loadTestDefs();
+		const source = [
+			'default {',
+			'\tstate_entry() {',
+			'\t\tinteger a = 1;',
+			'\t\tinteger unused = (integer)a;',
+			'\t\tif (a = 2) llOwnerSay("x");',
+			'\t}',
+			'}',
+		].join('\n');
+		const result = applyPreferredFixes(source, text => {
+			const doc = docFrom(text);
+			const { script, analysis } = runPipeline(doc, defs);
+			return { doc, diagnostics: analysis.diagnostics, context: { analysis, defs, script } };
+		});
+		// The "=" to "==" fix changes behaviour, so it is left for the user
+		expect(result.text.split('\n')).toEqual(['default {', '\tstate_entry() {', '\t\tinteger a = 1;', '\t\tif (a = 2) llOwnerSay("x");', '\t}', '}']);
+		expect(result.applied.map(fix => fix.diagnostic.code).sort()).toEqual([LSL_DIAGCODES.UNUSED_LOCAL, LSL_DIAGCODES.REDUNDANT_CAST].sort());
+		expect(result.passes).toBe(2);
+	});
+
+	it('applies the "=" to "==" fix when assignments are opted in', async () => {
+		const defs = await loadTestDefs();
+		const source = ['default {', '\tstate_entry() {', '\t\tinteger a = 1;', '\t\tif (a = 2) llOwnerSay("x");', '\t}', '}'].join('\n');
+		const result = applyPreferredFixes(source, text => {
+			const doc = docFrom(text);
+			const { script, analysis } = runPipeline(doc, defs);
+			return { doc, diagnostics: analysis.diagnostics, context: { analysis, defs, script } };
+		}, ['assignments']);
+		expect(result.text.split('\n')[3]).toBe('\t\tif (a == 2) llOwnerSay("x");');
+		expect(result.applied.map(fix => fix.diagnostic.code)).toEqual([LSL_DIAGCODES.SUSPICIOUS_ASSIGNMENT]);
+	});
+});
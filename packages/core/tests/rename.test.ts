@@ -64,7 +64,7 @@ describe('computeRenameEdits', () => {
 		expect(edits.every(e => e.newText === 'RENAMED_MACRO')).toBe(true);
 	});
 
-	it('does not prepare rename for included macros it cannot update', async () => {
+	it('prepares rename for macros defined in an include', async () => {
 		const defs = await loadTestDefs();
 		const header = tmpFile('api.lslh', '#define INCLUDED_MACRO 1\n');
 		const includeDir = path.dirname(await header.write());
@@ -74,7 +74,7 @@ describe('computeRenameEdits', () => {
 
 		const range = prepareRename(doc, posOf(doc, 'INCLUDED_MACRO'), analysis, pre);
 
-		expect(range).toBeNull();
+		expect(range && textForRange(doc, range)).toBe('INCLUDED_MACRO');
 	});
 
 	it('does not report inactive macro definitions as references', async () => {
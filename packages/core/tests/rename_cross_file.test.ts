@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { computeRenameEdits } from '../src/navigation';
+import { TextDocument, filePathToUri, type AnnotatedTextEdit, type TextEdit } from '../src/protocol';
+import { WorkspaceIndex, findWorkspaceLslFiles } from '../src/workspaceIndex';
+
+function workspace(files: Record<string, string>): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsl-rename-'));
+	for (const [rel, text] of Object.entries(files)) fs.writeFileSync(path.join(dir, rel), text, 'utf8');
+	return dir;
+}
+
+// `failed` files are left out of the index as if indexing them had thrown
+async function renameAt(dir: string, file: string, needle: string, newName: string, withIndex = true, failed: string[] = []) {
+	const defs = await loadTestDefs();
+	const full = path.join(dir, file);
+	const doc = TextDocument.create(filePathToUri(full), 'lsl', 1, fs.readFileSync(full, 'utf8'));
+	const { analysis, pre, tokens } = runPipeline(doc, defs, { includePaths: [dir] });
+	let index: WorkspaceIndex | undefined;
+	if (withIndex) {
+		index = new WorkspaceIndex({ defs, includePaths: [dir] });
+		for (const f of findWorkspaceLslFiles([dir])) index.update(f);
+		for (const f of failed) {
+			index.remove(path.join(dir, f));
+			index.failures.set(path.join(dir, f), 'boom');
+		}
+	}
+	return computeRenameEdits(doc, doc.getText().indexOf(needle), newName, analysis, pre, tokens, { workspace: index });
+}
+
+// "file:line:annotation" for every edit, so tests read like a rename preview
+function preview(dir: string, edits: { textDocument: { uri: string }; edits: (TextEdit | AnnotatedTextEdit)[] }[] | undefined): string[] {
+	return (edits ?? []).flatMap(change => change.edits.map(edit => {
+		const file = path.relative(dir, decodeURIComponent(new URL(change.textDocument.uri).pathname));
+		return `${file}:${edit.range.start.line}${'annotationId' in edit ? `:${edit.annotationId}` : ''}`;
+	})).sort();
+}
+
+const HEADER = [
+	'#define API_CHANNEL -42',
+	'integer apiSend(string msg) { return API_CHANNEL; }',
+].join('\n');
+
+describe('cross-file rename', () => {
+	it('updates the header and every script that includes it', async () => {
+		const dir = workspace({
+			'api.lslh': HEADER,
+			'a.lsl': '#include "api.lslh"\ndefault { state_entry() { apiSend("a"); } }\n',
+			'b.lsl': [
+				'#include "api.lslh"',
+				'default { touch_start(integer n) { apiSend("b"); } }',
+				'#ifdef DEBUG',
+				'integer debugSend() { return apiSend("debug"); }',
+				'#endif',
+				'#if 0',
+				'integer apiSend(string msg) { return 0; }',
+				'#endif',
+			].join('\n'),
+			'other.lsl': 'integer apiSend(string msg) { return 1; }\ndefault { state_entry() { apiSend("x"); } }\n',
+		});
+		const result = await renameAt(dir, 'a.lsl', 'apiSend("a")', 'apiPost');
+		expect(preview(dir, result.documentChanges)).toEqual([
+			'a.lsl:1',
+			'api.lslh:1',
+			'b.lsl:1',
+			'b.lsl:3:lsl.rename.inactive',
+		]);
+		expect(Object.keys(result.changes).map(uri => path.basename(uri)).sort()).toEqual(['a.lsl', 'api.lslh', 'b.lsl']);
+		expect(result.changeAnnotations?.['lsl.rename.inactive']?.needsConfirmation).toBeFalsy();
+	});
+
+	it('renames header macros from the header itself', async () => {
+		const dir = workspace({
+			'api.lslh': HEADER,
+			'a.lsl': '#include "api.lslh"\ninteger channel = API_CHANNEL;\ndefault { state_entry() { } }\n',
+		});
+		const result = await renameAt(dir, 'api.lslh', 'API_CHANNEL -42', 'API_CHAN');
+		const changes = Object.entries(result.changes).map(([uri, edits]) => `${path.basename(uri)}:${edits.map(e => e.range.start.line).join(',')}`).sort();
+		expect(changes).toEqual(['a.lsl:1', 'api.lslh:0,1']);
+		expect(result.documentChanges).toBeUndefined();
+	});
+
+	it('previews text matches in files that could not be analyzed', async () => {
+		const dir = workspace({
+			'api.lslh': HEADER,
+			'a.lsl': '#include "api.lslh"\ndefault { state_entry() { apiSend("a"); } }\n',
+			'broken.lsl': '#include "api.lslh"\ndefault { state_entry() { apiSend("b") // apiSend\n} }\n',
+		});
+		const result = await renameAt(dir, 'a.lsl', 'apiSend("a")', 'apiPost');
+		expect(preview(dir, result.documentChanges)).toEqual([
+			'a.lsl:1',
+			'api.lslh:1',
+			'broken.lsl:1:lsl.rename.unanalyzed',
+		]);
+		expect(result.changeAnnotations?.['lsl.rename.unanalyzed']?.needsConfirmation).toBe(true);
+		expect(Object.keys(result.changes).map(uri => path.basename(uri)).sort()).toEqual(['a.lsl', 'api.lslh']);
+
+		const withoutIndex = await renameAt(dir, 'a.lsl', 'apiSend("a")', 'apiPost', false);
+		expect(preview(dir, withoutIndex.documentChanges)).toEqual(['a.lsl:1', 'api.lslh:1:lsl.rename.unanalyzed']);
+	});
+
+	it('leaves files that failed to index alone unless they include the header', async () => {
+		const dir = workspace({
+			'api.lslh': HEADER,
+			'wrapper.lslh': '#include "api.lslh"\n',
+			'a.lsl': '#include "api.lslh"\ndefault { state_entry() { apiSend("a"); } }\n',
+			'direct.lsl': '#include "api.lslh"\ndefault { state_entry() { apiSend("d"); } }\n',
+			'nested.lsl': '#include "wrapper.lslh"\ndefault { state_entry() { apiSend("n"); } }\n',
+			'unrelated.lsl': 'integer apiSend(string msg) { return 0; }\ndefault { state_entry() { apiSend("u"); } }\n',
+		});
+		const result = await renameAt(dir, 'a.lsl', 'apiSend("a")', 'apiPost', true, ['direct.lsl', 'nested.lsl', 'unrelated.lsl']);
+		expect(preview(dir, result.documentChanges)).toEqual([
+			'a.lsl:1',
+			'api.lslh:1',
+			'direct.lsl:1:lsl.rename.unanalyzed',
+			'nested.lsl:1:lsl.rename.unanalyzed',
+		]);
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadTestDefs } from './loadDefs.testutil';
+import { LslRepl } from '../src/ast/repl';
+
+async function session() {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsl-repl-'));
+	fs.writeFileSync(path.join(dir, 'lib.lslh'), 'integer square(integer n) { return n * n; }\n');
+	const repl = new LslRepl({ defs: await loadTestDefs(), includePaths: [dir], fromPath: path.join(dir, 'repl.lsl'), macros: { SCALE: 10 } });
+	const run = (input: string) => {
+		const result = repl.evaluate(input);
+		if (result.error !== undefined) return [`error: ${result.error}`];
+		return result.outputs.map(output => `(${output.value.type}) ${output.text ?? '<unknown>'}`);
+	};
+	return { repl, run };
+}
+
+describe('repl', () => {
+	it('keeps declarations, functions and directives across inputs', async () => {
+		const { repl, run } = await session();
+		expect(run('integer x = 5')).toEqual([]);
+		expect(run('float f; f')).toEqual(['(float) 0.000000']);
+		expect(run('x += 3')).toEqual(['(integer) 8']);
+		expect(run('integer twice(integer n) { return n * 2; }')).toEqual([]);
+		expect(run('twice(x)')).toEqual(['(integer) 16']);
+		expect(run('#define TRIPLE(v) ((v) * 3)')).toEqual([]);
+		expect(run('#include "lib.lslh"')).toEqual([]);
+		expect(run('TRIPLE(square(x)) + SCALE')).toEqual(['(integer) 202']);
+		expect(run('integer i; for (i = 0; i < 3; ++i) x += i; x')).toEqual(['(integer) 11']);
+		expect(repl.variables.get('x')).toEqual({ kind: 'value', type: 'integer', value: 11 });
+	});
+
+	it('renders values the way the (string) cast does', async () => {
+		const { run } = await session();
+		expect(run('llList2CSV([<1, 2, 3>, "a", 2.5])')).toEqual(['(string) <1.000000, 2.000000, 3.000000>, a, 2.500000']);
+		expect(run('<1, 2, 3>')).toEqual(['(vector) <1.00000, 2.00000, 3.00000>']);
+		expect(run('[1, 2.5, "x"]')).toEqual(['(list) 12.500000x']);
+		expect(run('llGetOwner()')).toEqual(['(key) <unknown>']);
+	});
+
+	it('converts declarations to their type and rejects mismatches', async () => {
+		const { repl, run } = await session();
+		expect(run('key k = "a822ff2b-ff02-461d-b45d-dcd10a2de0c2"; k')).toEqual(['(key) a822ff2b-ff02-461d-b45d-dcd10a2de0c2']);
+		expect(run('string t = llGetOwner(); t')).toEqual(['(string) <unknown>']);
+		expect(run('string s = 5')).toEqual(['error: Cannot assign integer to string s']);
+		expect(repl.variables.has('s')).toBe(false);
+	});
+
+	it('tracks assignments to vector components', async () => {
+		const { run } = await session();
+		expect(run('vector v = <1, 2, 3>; v.x = 9; v.y += 1; v')).toEqual(['(float) 9.000000', '(float) 3.000000', '(vector) <9.00000, 3.00000, 3.00000>']);
+		expect(run('v.z = llGetUnixTime(); v')).toEqual(['(float) <unknown>', '(vector) <unknown>']);
+	});
+
+	it('reports parse and preprocessor errors without keeping the input', async () => {
+		const { run } = await session();
+		expect(run('integer x = ')).toEqual(['error: unexpected token punct \';\'']);
+		expect(run('#include "missing.lslh"')[0]).toMatch(/^error: /);
+		expect(run('integer x = 1; x')).toEqual(['(integer) 1']);
+	});
+});
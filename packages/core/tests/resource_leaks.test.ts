@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+
+const RESOURCE_CODES = ['LSL110', 'LSL111', 'LSL112', 'LSL113', 'LSL114', 'LSL115'];
+
+async function resourceDiags(code: string) {
+	const defs = await loadTestDefs();
+	const { analysis } = runPipeline(docFrom(code, 'file:///resources.lsl'), defs);
+	return analysis.diagnostics.filter(d => RESOURCE_CODES.includes(String(d.code)));
+}
+
+describe('resource leaks', () => {
+	it('accepts resources that are released or handled', async () => {
+		expect(await resourceDiags(`
+integer handle;
+default {
+	state_entry() {
+		handle = llListen(0, "", NULL_KEY, "");
+		llSetTimerEvent(30.0);
+		llSensorRepeat("", NULL_KEY, 0, 10.0, 3.14, 5.0);
+		llHTTPRequest("https://example.com", [], "");
+		llRequestPermissions(llGetOwner(), 0);
+	}
+	listen(integer channel, string name, key id, string message) { llListenRemove(handle); }
+	timer() { llSensorRemove(); }
+	http_response(key id, integer status, list metadata, string body) { }
+	run_time_permissions(integer perm) { }
+}
+`)).toEqual([]);
+	});
+
+	it('flags listen handles that are dropped or never removed', async () => {
+		const diags = await resourceDiags(`
+integer other;
+default {
+	state_entry() {
+		llListen(0, "", NULL_KEY, "");
+		integer kept = llListen(1, "", NULL_KEY, "");
+	}
+	listen(integer channel, string name, key id, string message) { llListenRemove(other); }
+}
+`);
+		expect(diags.map(d => d.code)).toEqual(['LSL110', 'LSL111']);
+		expect(diags[0]!.range.start).toEqual({ line: 4, character: 2 });
+		expect(diags[1]!.message).toBe('Listen stored in kept is never removed with llListenRemove or closed by a state change in state default');
+	});
+
+	it('accepts a discarded handle in a state that keeps its listens for good', async () => {
+		expect(await resourceDiags(`
+default {
+	state_entry() { llListen(0, "", NULL_KEY, ""); }
+	listen(integer channel, string name, key id, string message) { }
+}
+`)).toEqual([]);
+	});
+
+	it('treats a state change as closing listens', async () => {
+		expect(await resourceDiags(`
+default {
+	state_entry() { integer kept = llListen(1, "", NULL_KEY, ""); }
+	touch_start(integer n) { state other; }
+}
+state other { state_entry() { } }
+`)).toEqual([]);
+	});
+
+	it('carries timers into the next state and stops sensors on a state change', async () => {
+		expect(await resourceDiags(`
+default {
+	state_entry() {
+		llSetTimerEvent(5.0);
+		llSensorRepeat("", NULL_KEY, 0, 10.0, 3.14, 5.0);
+		state waiting;
+	}
+}
+state waiting { state_entry() { state ticking; } }
+state ticking { timer() { } }
+`)).toEqual([]);
+	});
+
+	it('follows user functions called from the state', async () => {
+		const diags = await resourceDiags(`
+start() { llSetTimerEvent(1.0); llSensorRepeat("", NULL_KEY, 0, 10.0, 3.14, 5.0); llHTTPRequest("https://example.com", [], ""); }
+stop() { llSetTimerEvent(0); }
+default {
+	state_entry() { start(); stop(); }
+	timer() { }
+}
+state other {
+	state_entry() { start(); }
+}
+`);
+		expect(diags.map(d => `${d.code} ${d.message}`)).toEqual([
+			'LSL113 llSensorRepeat is never stopped with llSensorRemove or a state change in states default, other',
+			'LSL114 llHTTPRequest in states default, other, which have no http_response event',
+			'LSL112 llSetTimerEvent in state other, which has no timer event',
+		]);
+	});
+
+	it('reports calls in included headers at the call in the current file', async () => {
+		const base = path.join(__dirname, 'tmp_includes', 'resource_leaks');
+		await fs.mkdir(base, { recursive: true });
+		await fs.writeFile(path.join(base, 'start.lslh'), 'start() {\n\tllListen(0, "", NULL_KEY, "");\n\tllSetTimerEvent(1.0);\n}\n', 'utf8');
+		const code = '#include "start.lslh"\ndefault {\n\tstate_entry() {\n\t\tstart();\n\t}\n\ttouch_start(integer n) { llListenRemove(0); }\n}\n';
+		const { analysis } = runPipeline(docFrom(code, 'file:///proj/resources_include.lsl'), await loadTestDefs(), { includePaths: [base] });
+		const diags = analysis.diagnostics.filter(d => RESOURCE_CODES.includes(String(d.code)));
+		expect(diags.map(d => [d.code, d.range.start])).toEqual([
+			['LSL110', { line: 3, character: 2 }],
+			['LSL112', { line: 3, character: 2 }],
+		]);
+	});
+
+	it('flags permission requests without a run_time_permissions event', async () => {
+		const diags = await resourceDiags(`
+default {
+	touch_start(integer n) { llRequestPermissions(llGetOwner(), PERMISSION_TAKE_CONTROLS); }
+}
+`);
+		expect(diags.map(d => d.message)).toEqual(['llRequestPermissions in state default, which has no run_time_permissions event']);
+	});
+
+	it('respects suppression directives', async () => {
+		expect(await resourceDiags(`
+default {
+	state_entry() {
+		// lsl-disable-next-line LSL112
+		llSetTimerEvent(5.0);
+		llListen(0, "", NULL_KEY, ""); // lsl-disable-line listen-handle-discarded
+	}
+}
+`)).toEqual([]);
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { docFrom, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { ruleListFunctions } from '../src/ruleLists';
+
+async function ruleListDiags(body: string) {
+	const defs = await loadTestDefs();
+	const code = `default {\n  state_entry() {\n    ${body}\n  }\n}\n`;
+	const { analysis } = runPipeline(docFrom(code, 'file:///rule_lists.lsl'), defs);
+	return analysis.diagnostics.filter(d => d.code === 'LSL015' || d.code === 'LSL016' || d.code === 'LSL017');
+}
+
+describe('rule list validation', () => {
+	it('loads the bundled layouts', () => {
+		const fast = ruleListFunctions().get('llSetLinkPrimitiveParamsFast');
+		expect(fast?.argument).toBe(1);
+		expect(fast?.family.rules.get('PRIM_COLOR')?.params.map(p => p.name)).toEqual(['face', 'color', 'alpha']);
+		expect(ruleListFunctions().get('llGetObjectDetails')?.family.flags).toBe(true);
+	});
+
+	it('accepts well-formed rule lists', async () => {
+		expect(await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [PRIM_COLOR, ALL_SIDES, <1, 0, 0>, 1, PRIM_TEXT, "hi", <1, 1, 1>, 1.0, PRIM_TYPE, PRIM_TYPE_SPHERE, PRIM_HOLE_DEFAULT, <0, 1, 0>, 0.0, <0, 0, 0>, <0, 1, 0>]);')).toEqual([]);
+		expect(await ruleListDiags('llGetLinkPrimitiveParams(LINK_THIS, [PRIM_COLOR, ALL_SIDES, PRIM_SIZE]);')).toEqual([]);
+		expect(await ruleListDiags('llGetObjectDetails(NULL_KEY, [OBJECT_NAME, OBJECT_POS]);')).toEqual([]);
+		// Empty strings leave glTF material parameters unchanged
+		expect(await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [PRIM_GLTF_BASE_COLOR, ALL_SIDES, "", "", "", 0.0, <1, 1, 1>, 0.5, PRIM_GLTF_ALPHA_MODE_MASK, 0.5, ""]);')).toEqual([]);
+	});
+
+	it('reports a missing parameter on the rule', async () => {
+		const diags = await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [PRIM_COLOR, ALL_SIDES, <1, 0, 0>, PRIM_SIZE, <1, 1, 1>]);');
+		expect(diags).toHaveLength(1);
+		expect(diags[0]!.code).toBe('LSL016');
+		expect(diags[0]!.message).toBe('PRIM_COLOR expects 3 parameter(s) (face, color, alpha), got 2');
+		expect(diags[0]!.range.start).toEqual({ line: 2, character: 45 });
+	});
+
+	it('reports parameters of the wrong type on the element', async () => {
+		const diags = await ruleListDiags('llParticleSystem([PSYS_PART_FLAGS, 0, PSYS_SRC_BURST_RATE, "fast"]);');
+		expect(diags).toHaveLength(1);
+		expect(diags[0]!.code).toBe('LSL017');
+		expect(diags[0]!.message).toBe('PSYS_SRC_BURST_RATE parameter rate expects float, got string');
+		expect(diags[0]!.range.start.character).toBe(63);
+	});
+
+	it('checks the shape selected by PRIM_TYPE', async () => {
+		const diags = await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [PRIM_TYPE, PRIM_TYPE_BOX, PRIM_HOLE_DEFAULT, <0, 1, 0>, 0.0]);');
+		expect(diags.map(d => d.message)).toEqual(['PRIM_TYPE PRIM_TYPE_BOX expects 6 parameter(s) (hole_shape, cut, hollow, twist, top_size, top_shear), got 3']);
+	});
+
+	it('reports unknown rules and surplus values', async () => {
+		const unknown = await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [OBJECT_NAME, 1]);');
+		expect(unknown.map(d => d.code)).toEqual(['LSL015']);
+		expect(unknown[0]!.message).toBe('OBJECT_NAME is not a PRIM_* rule for llSetLinkPrimitiveParamsFast');
+		const surplus = await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [PRIM_SIZE, <1, 1, 1>, 0.5]);');
+		expect(surplus.map(d => d.code)).toEqual(['LSL016']);
+		expect(surplus[0]!.message).toBe('Unexpected 0.5 after PRIM_SIZE, which takes 1 parameter(s)');
+	});
+
+	it('accepts rules given as their integer values and stops at values it cannot follow', async () => {
+		expect(await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [18, -1, <1, 0, 0>, 1.0]);')).toEqual([]);
+		expect(await ruleListDiags('list rules = [PRIM_SIZE]; llSetLinkPrimitiveParamsFast(LINK_THIS, rules + [<1, 1, 1>]);')).toEqual([]);
+		expect(await ruleListDiags('integer rule = PRIM_SIZE; llSetLinkPrimitiveParamsFast(LINK_THIS, [rule, <1, 1, 1>, PRIM_COLOR]);')).toEqual([]);
+		expect(await ruleListDiags('llSetLinkPrimitiveParamsFast(LINK_THIS, [PRIM_SIZE, <1, 1, 1>, PRIM_CAST_SHADOWS, 1, PRIM_COLOR]);')).toEqual([]);
+	});
+
+	it('requires integer flags for OBJECT_* details', async () => {
+		const diags = await ruleListDiags('llGetObjectDetails(NULL_KEY, [OBJECT_NAME, "pos"]);');
+		expect(diags.map(d => d.code)).toEqual(['LSL017']);
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { parseScriptFromText } from '../src/ast/parser';
+import { ScriptSimulator, type SimulatorOptions } from '../src/ast/simulator';
+import type { Value } from '../src/ast/eval';
+
+const str = (value: string): Value => ({ kind: 'value', type: 'string', value });
+const int = (value: number): Value => ({ kind: 'value', type: 'integer', value });
+
+function simulate(source: string, options?: SimulatorOptions) {
+	return new ScriptSimulator(parseScriptFromText(source), options).start();
+}
+
+function said(sim: ScriptSimulator, name = 'llOwnerSay'): string[] {
+	return sim.calls.filter(call => call.name === name).map(call => {
+		const message = call.args[call.args.length - 1];
+		return message?.kind === 'value' && message.type === 'string' ? message.value : '?';
+	});
+}
+
+describe('script simulator', () => {
+	it('initializes globals and runs state_entry in default', () => {
+		const sim = simulate([
+			'integer count = 2 + 3;',
+			'list items = ["a", 1];',
+			'default { state_entry() { count += llGetListLength(items); llOwnerSay("count=" + (string)count); } }',
+		].join('\n'));
+		expect(said(sim)).toEqual(['count=7']);
+		expect(sim.getGlobal('count')).toEqual(int(7));
+		expect(sim.state).toBe('default');
+	});
+
+	it('evaluates binary operands right to left and call arguments left to right', () => {
+		const sim = simulate([
+			'string order;',
+			'integer mark(string s) { order += s; return 1; }',
+			'default { state_entry() { integer x = mark("L") + mark("R"); llOwnerSay(order); order = ""; llOwnerSay((string)[mark("a"), mark("b")]); llOwnerSay(order); } }',
+		].join('\n'));
+		expect(said(sim)).toEqual(['RL', '11', 'ab']);
+	});
+
+	it('wraps integer arithmetic and concatenates lists', () => {
+		const sim = simulate([
+			'default { state_entry() {',
+			'  integer big = 2147483647; big++;',
+			'  list l = [1] + 2.5 + ["x"];',
+			'  llOwnerSay((string)big + " " + (string)(65536 * 65536) + " " + llList2CSV(l));',
+			'} }',
+		].join('\n'));
+		expect(said(sim)).toEqual(['-2147483648 0 1, 2.500000, x']);
+	});
+
+	it('changes state, running state_exit and dropping queued events and listens', () => {
+		const sim = simulate([
+			'default {',
+			'  state_entry() { llListen(5, "", "", ""); }',
+			'  touch_start(integer n) { state ready; }',
+			'  state_exit() { llOwnerSay("exit default"); }',
+			'}',
+			'state ready { state_entry() { llOwnerSay("ready"); } touch_start(integer n) { llOwnerSay("touched " + llDetectedName(0)); } }',
+		].join('\n'));
+		expect(sim.listens).toHaveLength(1);
+		sim.touch();
+		expect(sim.state).toBe('ready');
+		expect(sim.listens).toHaveLength(0);
+		expect(said(sim)).toEqual(['exit default', 'ready']);
+		sim.touch({ name: 'Tester' });
+		expect(said(sim)).toEqual(['exit default', 'ready', 'touched Tester']);
+	});
+
+	it('fires timer events as the virtual clock advances', () => {
+		const sim = simulate([
+			'integer ticks;',
+			'default {',
+			'  state_entry() { llSetTimerEvent(1.5); }',
+			'  timer() { if (++ticks == 3) llSetTimerEvent(0); llOwnerSay((string)ticks + "@" + (string)llGetTime()); }',
+			'}',
+		].join('\n'));
+		sim.advance(10);
+		expect(said(sim)).toEqual(['1@1.500000', '2@3.000000', '3@4.500000']);
+		expect(sim.timer).toBe(0);
+		expect(sim.time).toBe(10);
+	});
+
+	it('delivers chat only to matching active listens', () => {
+		const sim = simulate([
+			'integer handle;',
+			'default {',
+			'  state_entry() { handle = llListen(7, "", "", "ping"); }',
+			'  listen(integer channel, string name, key id, string message) { llOwnerSay(name + ":" + message); llListenControl(handle, 0); }',
+			'}',
+		].join('\n'));
+		sim.chat(7, 'Bob', '00000000-0000-0000-0000-000000000001', 'pong');
+		sim.chat(8, 'Bob', '00000000-0000-0000-0000-000000000001', 'ping');
+		sim.chat(7, 'Bob', '00000000-0000-0000-0000-000000000001', 'ping');
+		sim.chat(7, 'Bob', '00000000-0000-0000-0000-000000000001', 'ping');
+		expect(said(sim)).toEqual(['Bob:ping']);
+	});
+
+	it('routes side-effecting calls through the host and records them', () => {
+		const sim = simulate([
+			'key request;',
+			'default {',
+			'  state_entry() { request = llHTTPRequest("https://example.com", [], ""); llSay(0, (string)llGetPos()); }',
+			'  http_response(key id, integer status, list meta, string body) { if (id == request) llMessageLinked(-1, status, body, id); }',
+			'  link_message(integer sender, integer num, string str, key id) { llOwnerSay(str); }',
+			'}',
+		].join('\n'), {
+			host: {
+				call: call => call.name === 'llGetPos' ? { kind: 'value', type: 'vector', value: [1, 2, 3] } : undefined,
+			},
+		});
+		expect(said(sim, 'llSay')).toEqual(['<1.00000, 2.00000, 3.00000>']);
+		const request = sim.getGlobal('request');
+		expect(request?.kind === 'value' && request.type === 'key').toBe(true);
+		sim.httpResponse(request?.kind === 'value' ? String(request.value) : '', 200, [], 'ok');
+		sim.linkMessage(1, 0, 'from link', '');
+		expect(sim.calls.map(call => `${call.event}:${call.name}`)).toEqual([
+			'state_entry:llHTTPRequest',
+			'state_entry:llGetPos',
+			'state_entry:llSay',
+			'http_response:llMessageLinked',
+			'link_message:llOwnerSay',
+		]);
+		expect(sim.calls[3]!.args).toEqual([int(-1), int(200), str('ok'), sim.calls[3]!.args[3]]);
+	});
+
+	it('halts on runtime errors and ignores further events', () => {
+		const sim = simulate([
+			'integer zero;',
+			'default { state_entry() { llOwnerSay((string)(1 / zero)); } touch_start(integer n) { llOwnerSay("alive"); } }',
+		].join('\n'));
+		expect(sim.halted).toBe(true);
+		expect(sim.error?.message).toBe('Math Error');
+		expect(sim.touch()).toBe(0);
+		expect(said(sim)).toEqual([]);
+	});
+
+	it('calls user functions directly with coerced arguments', () => {
+		const sim = simulate('float half(float x) { return x / 2; } default { state_entry() { } }');
+		expect(sim.callFunction('half', [int(3)])).toEqual({ kind: 'value', type: 'float', value: 1.5 });
+	});
+
+	it('stops runaway loops with a step limit', () => {
+		const sim = simulate('default { state_entry() { while (1) { } } }', { maxSteps: 1000 });
+		expect(sim.error?.message).toBe('step limit exceeded');
+	});
+});
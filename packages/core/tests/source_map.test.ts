@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+	buildSourceMap,
+	decodeSourceMap,
+	encodeSourceMap,
+	formatLslText,
+	optimizeScript,
+	originalPositionFor,
+	parseScriptFromText,
+	preprocessForAst,
+	realignSourceOrigins,
+	renderExpandedTokens,
+	sourceTextProvider,
+	type SourceMapSegment,
+	type SourceOrigin,
+} from '../src';
+
+const HEADER = [
+	'#define TWICE(a) ((a) * 2)',
+	'integer helper(integer x) {',
+	'\tinteger y = TWICE(x);',
+	'\treturn y + 1;',
+	'}',
+].join('\n');
+
+const MAIN = [
+	'#include "helper.lslh"',
+	'integer g;',
+	'default {',
+	'\tstate_entry() {',
+	'\t\tg = helper(3);',
+	'\t\tif (g > 2)',
+	'\t\t\tllSay(0, (string)TWICE(g));',
+	'\t}',
+	'}',
+].join('\n');
+
+function workspace(): { dir: string; main: string; header: string } {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsl-sourcemap-'));
+	fs.writeFileSync(path.join(dir, 'helper.lslh'), HEADER, 'utf8');
+	fs.writeFileSync(path.join(dir, 'main.lsl'), MAIN, 'utf8');
+	return { dir, main: path.join(dir, 'main.lsl'), header: path.join(dir, 'helper.lslh') };
+}
+
+// "generated line -> file:original line" for the first segment of every generated line
+function lineTable(generated: string, segments: SourceMapSegment[]): string[] {
+	const lines = generated.split('\n');
+	const seen = new Set<number>();
+	return segments.filter(segment => !seen.has(segment.generatedLine) && seen.add(segment.generatedLine))
+		.map(segment => `${lines[segment.generatedLine]!.trim()} -> ${path.basename(segment.source)}:${segment.originalLine + 1}`);
+}
+
+describe('source maps', () => {
+	it('round-trips v3 mappings', () => {
+		const segments: SourceMapSegment[] = [
+			{ generatedLine: 0, generatedColumn: 0, source: 'a.lsl', originalLine: 3, originalColumn: 2 },
+			{ generatedLine: 0, generatedColumn: 12, source: 'b.lslh', originalLine: 0, originalColumn: 0 },
+			{ generatedLine: 2, generatedColumn: 4, source: 'a.lsl', originalLine: 40, originalColumn: 17 },
+		];
+		const map = encodeSourceMap(segments);
+		expect(map.sources).toEqual(['a.lsl', 'b.lslh']);
+		expect(map.mappings).toBe('AAGE,YCHF;;IDwCiB');
+		expect(decodeSourceMap(map)).toEqual(segments);
+		expect(originalPositionFor(map, 0, 20)).toEqual({ source: 'b.lslh', line: 0, column: 0 });
+		expect(originalPositionFor(map, 2, 0)).toEqual({ source: 'a.lsl', line: 40, column: 17 });
+		expect(originalPositionFor(map, 1, 3)).toEqual({ source: 'b.lslh', line: 0, column: 0 });
+	});
+
+	it('maps preprocessed output back to the header and the script', () => {
+		const { dir, main } = workspace();
+		const pre = preprocessForAst(MAIN, { includePaths: [dir], fromPath: main });
+		const origins: SourceOrigin[] = [];
+		const text = renderExpandedTokens(pre.expandedTokens, origins);
+		const map = buildSourceMap(text, origins, main, sourceTextProvider(main, MAIN));
+		expect(lineTable(text, decodeSourceMap(map))).toEqual([
+			'integer helper(integer x) { -> helper.lslh:2',
+			'integer y =((x) * 2); -> helper.lslh:3',
+			'return y + 1; -> helper.lslh:4',
+			'} -> helper.lslh:5',
+			'integer g; -> main.lsl:2',
+			'default { -> main.lsl:3',
+			'state_entry() { -> main.lsl:4',
+			'g = helper(3); -> main.lsl:5',
+			'if (g > 2) llSay(0,(string)((g) * 2)); -> main.lsl:6',
+			'} -> main.lsl:8',
+			'} -> main.lsl:9',
+		]);
+	});
+
+	it('maps optimized and formatted output to the original statements', () => {
+		const { dir, main } = workspace();
+		const pre = preprocessForAst(MAIN, { includePaths: [dir], fromPath: main });
+		const script = parseScriptFromText(MAIN, `file://${main}`, { pre });
+		const options = { inlineFunctions: true, removeUnusedFunctions: true };
+		const result = optimizeScript(script, { ...options, trackOrigins: true });
+		expect(result.code).toBe(optimizeScript(script, options).code);
+		const formatted = formatLslText(result.code);
+		const map = buildSourceMap(formatted, realignSourceOrigins(result.code, formatted, result.origins ?? []), main, sourceTextProvider(main, MAIN));
+		const table = lineTable(formatted, decodeSourceMap(map));
+		expect(table).toContain('integer g; -> main.lsl:2');
+		expect(table).toContain('default { -> main.lsl:3');
+		expect(table.find(line => line.startsWith('if ('))).toMatch(/-> main\.lsl:6$/);
+	});
+
+	it('drops origins past a non-whitespace difference when realigning', () => {
+		const origins = [{ offset: 0, start: 0 }, { offset: 4, start: 10 }, { offset: 8, start: 20 }];
+		expect(realignSourceOrigins('a=1;b=2;c;', 'a = 1;\nb = 2;\nd;', origins)).toEqual([
+			{ offset: 0, start: 0 },
+			{ offset: 7, start: 10 },
+		]);
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { docFrom, hoverToString, runPipeline } from './testUtils';
+import { loadTestDefs } from './loadDefs.testutil';
+import { lslHover } from '../src/hover';
+import { parseStrideAnnotation } from '../src/ast/stride';
+
+const HEADER = `/** @stride string key integer */
+list records = ["a", NULL_KEY, 1];
+`;
+
+async function strideDiags(body: string) {
+	const defs = await loadTestDefs();
+	const code = `${HEADER}default {\n  touch_start(integer i) {\n    ${body}\n  }\n}\n`;
+	const { analysis } = runPipeline(docFrom(code, 'file:///strided.lsl'), defs);
+	return analysis.diagnostics.filter(d => d.code === 'LSL019').map(d => d.message);
+}
+
+describe('strided list annotations', () => {
+	it('parses @stride shapes', () => {
+		expect(parseStrideAnnotation('Scores\n@stride string key integer */')).toEqual(['string', 'key', 'integer']);
+		expect(parseStrideAnnotation('* @stride vector, rotation')).toEqual(['vector', 'rotation']);
+		expect(parseStrideAnnotation('no annotation')).toBeUndefined();
+	});
+
+	it('checks typed accessors at constant stride offsets', async () => {
+		expect(await strideDiags('string n = llList2String(records, i * 3); key k = llList2Key(records, i * 3 + 1); integer s = llList2Integer(records, 3 * i + 2);')).toEqual([]);
+		expect(await strideDiags('integer s = llList2Integer(records, i * 3 + 1);')).toEqual(['llList2Integer reads element 1 of records, which is key (@stride string key integer)']);
+		expect(await strideDiags('key k = llList2Key(records, -1);')).toEqual(['llList2Key reads element 2 of records, which is integer (@stride string key integer)']);
+		expect(await strideDiags('integer s = llList2Integer(records, i);')).toEqual([]);
+	});
+
+	it('checks stride arguments', async () => {
+		expect(await strideDiags('records = llListSort(records, 3, TRUE); list names = llList2ListStrided(records, 0, -1, 3);')).toEqual([]);
+		expect(await strideDiags('records = llListSort(records, 2, TRUE);')).toEqual(['records has a stride of 3 (@stride string key integer), not 2']);
+	});
+
+	it('checks appended records against the shape', async () => {
+		expect(await strideDiags('records += ["b", llGetOwner(), 2]; records = records + ["c", NULL_KEY, 3, "d", NULL_KEY, 4];')).toEqual([]);
+		expect(await strideDiags('records += ["b", llGetOwner()];')).toEqual(['List of 2 element(s) does not hold whole records of records (@stride string key integer)']);
+		expect(await strideDiags('records = records + [1, "b", 2.5];')).toEqual([
+			'Element 0 of a records record is string, got integer',
+			'Element 2 of a records record is integer, got float',
+		]);
+	});
+
+	it('shows the shape and element types in hovers', async () => {
+		const defs = await loadTestDefs();
+		const code = `${HEADER}default { touch_start(integer i) { llOwnerSay(llList2String(records, i * 3 + 1)); } }`;
+		const doc = docFrom(code);
+		const { analysis, pre } = runPipeline(doc, defs);
+		const at = (needle: string) => hoverToString(lslHover(doc, { position: doc.positionAt(code.indexOf(needle) + 1) }, defs, analysis, pre)!);
+		expect(at('records =')).toContain('/** @stride string key integer */\nlist records');
+		expect(at('i * 3 + 1')).toContain('key // element 1 of records (@stride string key integer)');
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseScriptFromText } from '../src/ast/parser';
+import { runLslTests } from '../src/ast/testRunner';
+import { loadTestDefs } from './loadDefs.testutil';
+import { docFrom, runPipeline } from './testUtils';
+
+describe('LSL unit test runner', () => {
+	it('runs each test_ function in a fresh simulator', () => {
+		const script = parseScriptFromText([
+			'integer counter;',
+			'list pair(string a, integer b) { return [a, b]; }',
+			'test_pair() { assertEqual(pair("x", 1), ["x", 1]); assertNotEqual(pair("x", 1), ["x", 2]); }',
+			'test_counter_is_fresh() { counter++; assertEqual(counter, 2); }',
+			'test_float() { assertNear(1.0 / 3, 0.3333, 0.001); assertTrue(llStringLength("ab") == 2); }',
+			'default { state_entry() { counter = 1; } }',
+		].join('\n'));
+		const results = runLslTests(script);
+		expect(results.map(result => [result.name, result.status, result.assertions])).toEqual([
+			['test_pair', 'passed', 2],
+			['test_counter_is_fresh', 'passed', 1],
+			['test_float', 'passed', 2],
+		]);
+	});
+
+	it('reports assertion failures separately from runtime errors', () => {
+		const source = [
+			'test_list() { assertEqual([1, "a"], [1, "b"], "lists differ"); }',
+			'test_math() { integer zero; integer x = 1 / zero; }',
+			'default { state_entry() { } }',
+		].join('\n');
+		const [list, math] = runLslTests(parseScriptFromText(source));
+		expect(list!.status).toBe('failed');
+		expect(list!.failure?.message).toBe('assertEqual failed: [1, "a"] != [1, "b"] (lists differ)');
+		expect(source.slice(list!.failure!.span!.start, list!.failure!.span!.end)).toContain('assertEqual(');
+		expect(math!.status).toBe('error');
+		expect(math!.failure?.message).toBe('Math Error');
+	});
+
+	it('lets scripts mock builtins and inspect recorded calls', () => {
+		const script = parseScriptFromText([
+			'vector mock_llGetPos() { return <1, 2, 3>; }',
+			'announce() { llSay(0, (string)llGetPos()); }',
+			'test_announce() { announce(); announce(); assertEqual(callCount("llSay"), 2); assertEqual(llGetPos(), <1, 2, 3>); }',
+			'default { state_entry() { } }',
+		].join('\n'));
+		expect(runLslTests(script).map(result => result.status)).toEqual(['passed']);
+	});
+
+	it('runs state_entry as a single test for whole-script test files', () => {
+		const script = parseScriptFromText('default { state_entry() { fail("not yet"); } }');
+		expect(runLslTests(script)).toEqual([]);
+		const [result] = runLslTests(script, { wholeScript: true });
+		expect(result).toMatchObject({ name: 'state_entry', status: 'failed', failure: { message: 'fail (not yet)' } });
+	});
+
+	it('declares the test calls as builtins in *.test.lsl files only', async () => {
+		const defs = await loadTestDefs();
+		const code = [
+			'test_calls() {',
+			'	llSay(0, "hi");',
+			'	assertEqual(callCount("llSay"), 1); assertNotEqual(1, 2, "differ"); assertTrue(TRUE); assertFalse(FALSE);',
+			'	assertNear(0.5, 0.5, 0.001); fail("no");',
+			'}',
+			'default { state_entry() { } }',
+		].join('\n');
+		const unknown = (uri: string) => runPipeline(docFrom(code, uri), defs).analysis.diagnostics
+			.filter(d => d.code === 'LSL001').map(d => code.split('\n')[d.range.start.line]!.slice(d.range.start.character, d.range.end.character));
+		expect(unknown('file:///calls.test.lsl')).toEqual([]);
+		expect(unknown('file:///calls.lsl')).toEqual(['assertEqual', 'callCount', 'assertNotEqual', 'assertTrue', 'assertFalse', 'assertNear', 'fail']);
+	});
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { encodeSourceMap, mapViewerErrors, parseViewerErrors } from '../src';
+
+describe('viewer errors', () => {
+	it('parses compiler output and chat lines', () => {
+		const errors = parseViewerErrors([
+			'(142, 17) : ERROR : Type mismatch',
+			'(3, 0) : WARNING : Unused variable',
+			'[12:34] Door: Script run-time error at line 12, column 4',
+			'[12:35] Door: touched',
+		].join('\n'));
+		expect(errors.map(({ line, column, severity, message }) => ({ line, column, severity, message }))).toEqual([
+			{ line: 142, column: 17, severity: 'error', message: 'Type mismatch' },
+			{ line: 3, column: 0, severity: 'warning', message: 'Unused variable' },
+			{ line: 11, column: 3, severity: 'error', message: 'Door: Script run-time error at line 12, column 4' },
+		]);
+	});
+
+	it('maps positions through the source map of the upload', () => {
+		const map = encodeSourceMap([
+			{ generatedLine: 0, generatedColumn: 0, source: '/src/lib.lslh', originalLine: 4, originalColumn: 0 },
+			{ generatedLine: 5, generatedColumn: 1, source: '/src/main.lsl', originalLine: 20, originalColumn: 2 },
+			{ generatedLine: 5, generatedColumn: 10, source: '/src/main.lsl', originalLine: 21, originalColumn: 4 },
+		]);
+		const mapped = mapViewerErrors(parseViewerErrors('(5, 12) : ERROR : Syntax error\n(5, 0) : ERROR : Name not defined'), map);
+		expect(mapped.map(error => error.original)).toEqual([
+			{ source: '/src/main.lsl', line: 21, column: 4 },
+			{ source: '/src/main.lsl', line: 20, column: 2 },
+		]);
+		const headerOnly = encodeSourceMap([{ generatedLine: 3, generatedColumn: 0, source: '/src/main.lsl', originalLine: 0, originalColumn: 0 }]);
+		expect(mapViewerErrors(parseViewerErrors('(1, 0) : ERROR : x'), headerOnly)[0]!.original).toBeUndefined();
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadTestDefs } from './loadDefs.testutil';
+import { TextDocument, filePathToUri } from '../src/protocol';
+import { preprocessForAst } from '../src/core/pipeline';
+import { parseScriptFromText } from '../src/ast/parser';
+import { analyzeAst } from '../src/ast/analyze';
+import { lex } from '../src/lexer';
+import { WorkspaceIndex, findWorkspaceLslFiles, indexScriptFile } from '../src/workspaceIndex';
+
+function workspace(files: Record<string, string>): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsl-ws-'));
+	for (const [rel, text] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+		fs.writeFileSync(path.join(dir, rel), text, 'utf8');
+	}
+	return dir;
+}
+
+async function indexWorkspace(dir: string) {
+	const index = new WorkspaceIndex({ defs: await loadTestDefs(), includePaths: [dir] });
+	for (const file of findWorkspaceLslFiles([dir])) index.update(file);
+	return index;
+}
+
+const where = (dir: string, loc: { file: string; range: { start: { line: number } } }) => `${path.relative(dir, loc.file)}:${loc.range.start.line}`;
+
+describe('workspace index', () => {
+	it('indexes symbols declared in every file under the roots', async () => {
+		const dir = workspace({
+			'lib/api.lslh': '#define API_CHANNEL -42\ninteger gCount;\ninteger apiSend(string msg) { return 1; }\n',
+			'main.lsl': '#include "lib/api.lslh"\ndefault { state_entry() { apiSend("x"); } }\nstate busy { state_entry() { } }\n',
+			'.git/ignored.lsl': 'integer hidden;\n',
+		});
+		const index = await indexWorkspace(dir);
+		expect(index.files.map(file => path.relative(dir, file)).sort()).toEqual(['lib/api.lslh', 'main.lsl']);
+		expect(index.symbols('').map(symbol => `${symbol.kind}:${symbol.name}@${where(dir, symbol)}`).sort()).toEqual([
+			'function:apiSend@lib/api.lslh:2',
+			'global:gCount@lib/api.lslh:1',
+			'macro:API_CHANNEL@lib/api.lslh:0',
+			'state:busy@main.lsl:2',
+			'state:default@main.lsl:1',
+		]);
+		expect(index.symbols('apsd').map(symbol => symbol.name)).toEqual(['apiSend']);
+		expect(index.definitions('apiSend')[0]!.detail).toBe('integer apiSend(string msg)');
+	});
+
+	it('finds references in every script that includes a shared header', async () => {
+		const dir = workspace({
+			'api.lslh': '#define API_CHANNEL -42\ninteger gCount;\ninteger apiSend(string msg) { gCount++; return API_CHANNEL; }\n',
+			'a.lsl': '#include "api.lslh"\ndefault { state_entry() { apiSend("a"); gCount = API_CHANNEL; } }\n',
+			'b.lsl': '#include "api.lslh"\ndefault { touch_start(integer n) { integer gCount = apiSend("b"); gCount++; } }\n',
+			'c.lsl': 'integer apiSend(string msg) { return 0; }\ndefault { state_entry() { apiSend("c"); } }\n',
+		});
+		const index = await indexWorkspace(dir);
+		const header = path.join(dir, 'api.lslh');
+		expect(index.dependents(header).map(file => path.basename(file)).sort()).toEqual(['a.lsl', 'b.lsl']);
+
+		const fromCall = index.referencesAt(path.join(dir, 'a.lsl'), { line: 1, character: 27 }, true);
+		expect(fromCall?.map(loc => where(dir, loc)).sort()).toEqual(['a.lsl:1', 'api.lslh:2', 'b.lsl:1']);
+		expect(index.references('apiSend', 'function', path.join(dir, 'c.lsl'), false).map(loc => where(dir, loc))).toEqual(['c.lsl:1']);
+
+		// The local gCount in b.lsl shadows the header global.
+		const globals = index.references('gCount', 'global', header, false);
+		expect(globals.map(loc => where(dir, loc)).sort()).toEqual(['a.lsl:1', 'api.lslh:2']);
+		const macros = index.referencesAt(header, { line: 0, character: 10 }, false);
+		expect(macros?.map(loc => where(dir, loc)).sort()).toEqual(['a.lsl:1', 'api.lslh:2']);
+	});
+
+	it('skips macros in disabled branches when the preprocessor saw the file through another path', async () => {
+		const defs = await loadTestDefs();
+		const dir = workspace({ 'api.lslh': '#define API_CHANNEL -42\n' });
+		const text = '#include "api.lslh"\n#if 0\ninteger a = API_CHANNEL;\n#endif\ninteger b = API_CHANNEL;\ndefault { state_entry() { } }\n';
+		const file = path.join(dir, 'main.lsl');
+		const full = preprocessForAst(text, { includePaths: [dir], fromPath: `${dir}/sub/../main.lsl`, defines: {} });
+		const doc = TextDocument.create(filePathToUri(file), 'lsl', 0, text);
+		const script = parseScriptFromText(text, doc.uri, { macros: {}, includePaths: [dir], defs, pre: full });
+		// Tokens lexed without the disabled ranges, so only the index's own check can skip the first use
+		const entry = indexScriptFile(file, doc, script, analyzeAst(doc, script, defs, full), full, lex(doc, []));
+		expect(entry.references.filter(ref => ref.name === 'API_CHANNEL').map(ref => ref.range.start.line)).toEqual([4]);
+	});
+
+	it('replaces entries with unsaved text and drops deleted files', async () => {
+		const dir = workspace({ 'main.lsl': 'integer before;\ndefault { state_entry() { } }\n' });
+		const index = await indexWorkspace(dir);
+		const file = path.join(dir, 'main.lsl');
+		index.update(file, 'integer after;\ndefault { state_entry() { } }\n');
+		expect(index.definitions('before')).toEqual([]);
+		expect(index.definitions('after', ['global'])).toHaveLength(1);
+		fs.rmSync(file);
+		expect(index.update(file)).toBeNull();
+		expect(index.files).toEqual([]);
+	});
+});
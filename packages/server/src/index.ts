@@ -24,7 +24,10 @@ import {
 	LocationLink,
 	FileChangeType,
 	DocumentLink, DocumentLinkParams, DocumentFormattingParams, TextEdit, CodeAction, CodeActionKind, Range,
-	DocumentRangeFormattingParams, DocumentOnTypeFormattingParams
+	DocumentRangeFormattingParams, DocumentOnTypeFormattingParams,
+	Location, SymbolInformation, SymbolKind, WorkspaceSymbolParams,
+	CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall,
+	CodeLens, CodeLensParams, CodeLensRefreshRequest
 } from 'vscode-languageserver/node';
 import 'source-map-support/register.js';
 import path from 'node:path';
@@ -32,17 +35,28 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 import {
 	type Analysis,
+	type CallHierarchyNode,
 	type Defs,
 	type DiagCode,
 	LSL_DIAGCODES,
 	type FormatSettings,
+	type OptimizeExplainEntry,
 	type OptimizeOptions,
 	type PreprocResult,
 	type Script,
-	type SimpleType,
+	type SourceMapV3,
+	type SourceOrigin,
+	type SourceTextProvider,
+	type WorkspaceSymbolKind,
+	WorkspaceIndex,
 	analyzeAst,
 	builtinConstantValuesFromDefs,
+	builtinReturnTypesFromDefs,
 	buildSemanticTokens,
+	buildSourceMap,
+	buildStateGraph,
+	callHierarchyNodeAt,
+	callHierarchyNodeNamed,
 	clearIncludeResolverCache,
 	computeRenameEdits,
 	detectIndent,
@@ -51,29 +65,41 @@ import {
 	filterDiagnostics,
 	detectFirestormRuntimeDirective,
 	findAllReferences,
+	findWorkspaceLslFiles,
 	foldConstGlobalExpressions,
 	formatDocumentEdits,
 	formatLslText,
 	formatRangeEdits,
+	getWordAt,
 	gotoDefinition,
-	isType,
+	incomingCalls,
+	indexScriptFile,
+	isLslSourceFile,
+	latencyCodeLenses,
 	lex,
 	loadDefs,
 	lslCompletions,
 	lslHover,
 	lslSignatureHelp,
 	measureAst,
+	memoryCodeLenses,
+	normalizeDiagCode,
 	optimizeScript,
+	outgoingCalls,
 	parseDisabledDiagList,
 	parseDynamicMacroList,
 	parseLslExtensionSettings,
 	parseScriptFromText,
 	prepareRename as navPrepareRename,
 	preprocessForAst,
+	quickFixesFor,
+	realignSourceOrigins,
 	renderExpandedTokens,
 	resolveCompletion,
 	semanticTokensLegend,
+	shiftSourceOrigins,
 	shrinkNameOptionsFromDefs,
+	sourceTextProvider,
 	wrapWithFirestormPreprocessorHeader,
 	type DynamicMacroMap,
 	type LslExtensionSettings,
@@ -108,6 +134,7 @@ const OPTIMIZE_FLAG_NAMES = [
 	'listAdd',
 	'removeUnusedFunctions',
 	'shrinkNames',
+	'float32',
 ] as const;
 type OptimizeFlag = typeof OPTIMIZE_FLAG_NAMES[number];
 type OptimizeSettings = Partial<Record<OptimizeFlag, boolean>>;
@@ -137,6 +164,7 @@ const settings = {
 	},
 	measure: {
 		inlayHints: true,
+		codeLens: true,
 	},
 	enableSemanticTokens: true,
 	logFile: '' as string,
@@ -362,6 +390,15 @@ function getPipeline(doc: TextDocument): PipelineCache | null {
 	const analysis: Analysis = analyzeAst(doc, ast, defs, pre);
 	const entry: PipelineCache = { version: currentVersion, textHash: currentTextHash, pre, tokens, analysis, ast, macrosOnlyIncludes, configHash: currentHash };
 	pipelineCache.set(key, entry);
+	// Keep the workspace index in step with unsaved edits of open documents
+	const docUri = URI.parse(doc.uri);
+	if (workspaceIndex && docUri.scheme === 'file') {
+		try {
+			workspaceIndex.set(indexScriptFile(docUri.fsPath, doc, ast, analysis, pre, tokens));
+		} catch (e) {
+			connection.console.warn(`[lsl-lsp] workspace index: failed to index ${docUri.fsPath}: ${String(e)}`);
+		}
+	}
 	// Only fall back to legacy include indexing if macros-only prepass failed to provide includes
 	if (!macrosOnlyIncludes || macrosOnlyIncludes.length === 0) indexIncludes(key, pre);
 	return entry;
@@ -369,6 +406,40 @@ function getPipeline(doc: TextDocument): PipelineCache | null {
 
 // (macros-only legacy prepass removed – unified preprocessor supplies includes)
 
+// ------------------------------------------------
+// Workspace symbol index (all files under the roots)
+// ------------------------------------------------
+let workspaceIndex: WorkspaceIndex | null = null;
+// Bumped on every rebuild so an outdated background pass stops early
+let workspaceIndexGeneration = 0;
+
+async function rebuildWorkspaceIndex() {
+	if (!defs) return;
+	const generation = ++workspaceIndexGeneration;
+	const index = new WorkspaceIndex({ defs, includePaths: settings.includePaths, macros: { ...baselineMacros }, dynamicMacros: settings.dynamicMacros, extensions: settings.extensions });
+	workspaceIndex = index;
+	const files = findWorkspaceLslFiles(workspaceRootPaths);
+	for (const file of files) {
+		// Yield between files so requests keep being served while indexing
+		await new Promise<void>(resolve => setImmediate(resolve));
+		if (generation !== workspaceIndexGeneration) return;
+		index.update(file, documents.get(URI.file(file).toString())?.getText());
+	}
+	if (settings.debug) {
+		connection.console.log(`[lsl-lsp] workspace index: ${files.length} file(s) indexed`);
+		for (const [file, error] of index.failures) connection.console.warn(`[lsl-lsp] workspace index: failed to index ${file}: ${error}`);
+	}
+}
+
+function workspaceSymbolKind(kind: WorkspaceSymbolKind): SymbolKind {
+	switch (kind) {
+		case 'function': return SymbolKind.Function;
+		case 'global': return SymbolKind.Variable;
+		case 'macro': return SymbolKind.Constant;
+		case 'state': return SymbolKind.Namespace;
+	}
+}
+
 // Revalidate all open documents after cache-clearing or configuration changes
 async function revalidateAllOpenDocs() {
 	try {
@@ -395,8 +466,10 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
 	if (initOpts.output && typeof initOpts.output === 'object' && typeof initOpts.output.firestormHeaderForOptimized === 'boolean') {
 		settings.output.firestormHeaderForOptimized = initOpts.output.firestormHeaderForOptimized;
 	}
-	if (initOpts.measure && typeof initOpts.measure === 'object' && typeof initOpts.measure.inlayHints === 'boolean') {
-		settings.measure.inlayHints = initOpts.measure.inlayHints;
+	if (initOpts.measure && typeof initOpts.measure === 'object') {
+		const measure = initOpts.measure as Record<string, unknown>;
+		if (typeof measure.inlayHints === 'boolean') settings.measure.inlayHints = measure.inlayHints;
+		if (typeof measure.codeLens === 'boolean') settings.measure.codeLens = measure.codeLens;
 	}
 	baselineMacros = { ...settings.macros }; // capture baseline after init options
 	settings.logFile = initOpts.logFile || '';
@@ -461,6 +534,8 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
 			definitionProvider: true,
 			referencesProvider: true,
 			documentSymbolProvider: true,
+			workspaceSymbolProvider: true,
+			callHierarchyProvider: true,
 			renameProvider: { prepareProvider: true },
 			semanticTokensProvider: {
 				legend: semanticTokensLegend,
@@ -468,6 +543,7 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
 				full: { delta: true }
 			},
 			inlayHintProvider: true,
+			codeLensProvider: { resolveProvider: false },
 			documentLinkProvider: { resolveProvider: false },
 			documentFormattingProvider: true,
 			documentRangeFormattingProvider: true,
@@ -480,6 +556,7 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
 
 connection.onInitialized(() => {
 	connection.client.register(DidChangeConfigurationNotification.type, undefined);
+	void rebuildWorkspaceIndex();
 	// Clear caches on workspace folder changes (e.g., reload) and revalidate
 	try {
 		connection.workspace.onDidChangeWorkspaceFolders(async () => {
@@ -502,6 +579,7 @@ connection.onInitialized(() => {
 				}
 			} catch { /* ignore */ }
 			await revalidateAllOpenDocs();
+			void rebuildWorkspaceIndex();
 		});
 	} catch {
 		// older clients may not support this capability
@@ -517,6 +595,7 @@ connection.onRequest('lsl/clearCaches', async () => {
 		clearIncludeResolverCache();
 		// Revalidate all open docs after flush
 		await revalidateAllOpenDocs();
+		void rebuildWorkspaceIndex();
 		return { ok: true };
 	} catch (e) {
 		connection.console.error('[lsl-lsp] clearCaches failed: ' + String(e));
@@ -525,7 +604,8 @@ connection.onRequest('lsl/clearCaches', async () => {
 });
 
 type RenderMode = 'preprocess' | 'optimize';
-type RenderScriptParams = { uri: string; mode: RenderMode };
+// `explain` lists the optimizer rewrites, which only the rewrite lens and hover of the opened output use
+type RenderScriptParams = { uri: string; mode: RenderMode; explain?: boolean };
 type RenderScriptResult = {
 	ok: boolean;
 	mode?: RenderMode;
@@ -534,8 +614,19 @@ type RenderScriptResult = {
 	changed?: boolean;
 	stable?: boolean;
 	passes?: number;
+	// Maps lines of `content` back to the script and its includes; sources are file paths
+	sourceMap?: SourceMapV3;
+	// Optimizer rewrites, for the optimize mode
+	rewrites?: RenderedRewrite[];
 	error?: string;
 };
+type RenderedRewrite = Pick<OptimizeExplainEntry, 'pass' | 'before' | 'after' | 'bytes'> & {
+	// Where the rewritten code was (0-based); `file` is a path
+	source: { file: string; line: number; character: number };
+	// Line of `content` holding the rewritten statement, or for removed code the nearest surviving code of its file;
+	// unset when nothing of that file survives
+	line?: number;
+};
 
 connection.onRequest('lsl/renderScript', (params: RenderScriptParams): RenderScriptResult => {
 	try {
@@ -546,16 +637,21 @@ connection.onRequest('lsl/renderScript', (params: RenderScriptParams): RenderScr
 		const pipeline = getPipeline(doc);
 		if (!pipeline) return { ok: false, error: 'Unable to build LSL pipeline.' };
 		const title = renderedTitle(doc.uri, params.mode);
+		const rootFile = URI.parse(doc.uri).fsPath;
+		const sourceText = sourceTextProvider(rootFile, doc.getText());
 		if (params.mode === 'preprocess') {
+			const origins: SourceOrigin[] = [];
+			const content = ensureTrailingNewline(renderExpandedTokens(pipeline.pre.expandedTokens ?? [], origins));
 			return {
 				ok: true,
 				mode: params.mode,
 				title,
-				content: ensureTrailingNewline(renderExpandedTokens(pipeline.pre.expandedTokens ?? [])),
+				content,
+				sourceMap: buildSourceMap(content, origins, rootFile, sourceText),
 			};
 		}
 		if (!pipeline.ast) return { ok: false, error: 'Unable to parse script for optimization.' };
-		const optimized = optimizeScript(pipeline.ast, optimizeOptionsFromSettings(defs));
+		const optimized = optimizeScript(pipeline.ast, { ...optimizeOptionsFromSettings(defs), trackOrigins: true, explain: params.explain === true });
 		const formatted = formatLslText(optimized.code, { ...settings.format, enabled: true });
 		const content = settings.output.firestormHeaderForOptimized
 			? wrapWithFirestormPreprocessorHeader(doc.getText(), formatted, {
@@ -564,6 +660,8 @@ connection.onRequest('lsl/renderScript', (params: RenderScriptParams): RenderScr
 				runtime: detectFirestormRuntimeDirective(doc.getText()),
 			})
 			: formatted;
+		// The Firestorm header is prepended, so the formatted body sits at the end of the content
+		const origins = shiftSourceOrigins(realignSourceOrigins(optimized.code, formatted, optimized.origins ?? []), content.length - formatted.length);
 		return {
 			ok: true,
 			mode: params.mode,
@@ -572,6 +670,8 @@ connection.onRequest('lsl/renderScript', (params: RenderScriptParams): RenderScr
 			changed: content !== doc.getText(),
 			stable: optimized.stable,
 			passes: optimized.passes,
+			sourceMap: buildSourceMap(content, origins, rootFile, sourceText),
+			...(optimized.explain ? { rewrites: renderedRewrites(optimized.explain, origins, content, rootFile, sourceText) } : {}),
 		};
 	} catch (e) {
 		connection.console.error('[lsl-lsp] renderScript failed: ' + String(e));
@@ -579,6 +679,67 @@ connection.onRequest('lsl/renderScript', (params: RenderScriptParams): RenderScr
 	}
 });
 
+type StateGraphParams = { uri: string };
+type StateGraphResult = {
+	ok: boolean;
+	title?: string;
+	nodes?: { name: string; range: Range; selectionRange: Range; events: string[] }[];
+	edges?: { from: string; to: string; event: string; range: Range }[];
+	error?: string;
+};
+
+connection.onRequest('lsl/stateGraph', (params: StateGraphParams): StateGraphResult => {
+	try {
+		if (!defs) return { ok: false, error: 'Definitions are not loaded.' };
+		const doc = params ? documents.get(params.uri) : undefined;
+		if (!doc) return { ok: false, error: 'Document is not open in the language server.' };
+		const pipeline = getPipeline(doc);
+		if (!pipeline?.ast) return { ok: false, error: 'Unable to parse script.' };
+		const graph = buildStateGraph(doc, pipeline.ast, pipeline.analysis);
+		return { ok: true, title: path.basename(URI.parse(doc.uri).path || 'script.lsl'), nodes: graph.nodes, edges: graph.edges };
+	} catch (e) {
+		connection.console.error('[lsl-lsp] stateGraph failed: ' + String(e));
+		return { ok: false, error: String(e) };
+	}
+});
+
+// A rewrite sits on the output line of the last statement that starts at or before it in the same file
+function renderedRewrites(entries: OptimizeExplainEntry[], origins: SourceOrigin[], content: string, rootFile: string, sourceText: SourceTextProvider): RenderedRewrite[] {
+	const output = TextDocument.create('lsl-output:rendered', 'lsl', 0, content);
+	const sources = new Map<string, TextDocument>();
+	const sourceDoc = (file: string): TextDocument => {
+		let doc = sources.get(file);
+		if (!doc) {
+			doc = TextDocument.create(URI.file(file).toString(), 'lsl', 0, sourceText(file) ?? '');
+			sources.set(file, doc);
+		}
+		return doc;
+	};
+	return entries.map(entry => {
+		const file = entry.file ?? rootFile;
+		let at: SourceOrigin | undefined;
+		let next: SourceOrigin | undefined;
+		for (const origin of origins) {
+			if ((origin.file ?? rootFile) !== file) continue;
+			if (origin.start <= entry.start) {
+				if (!at || origin.start > at.start) at = origin;
+			} else if (!entry.after && (!next || origin.start < next.start)) {
+				next = origin;
+			}
+		}
+		// Removed code has no output of its own, so it goes on the code following it, else on the code before it
+		if (next) at = next;
+		return {
+			pass: entry.pass,
+			before: entry.before,
+			after: entry.after,
+			bytes: entry.bytes,
+			source: { file, ...sourceDoc(file).positionAt(entry.start) },
+			...(at ? { line: output.positionAt(at.offset).line } : {}),
+		};
+	});
+}
+
 function renderedTitle(uri: string, mode: RenderMode): string {
 	try {
 		const parsed = URI.parse(uri);
@@ -602,7 +763,7 @@ function optimizeOptionsFromSettings(defs: Defs): OptimizeOptions {
 	const flag = (name: OptimizeFlag): boolean => settings.optimize[name] ?? true;
 	return {
 		builtinConstants: builtinConstantValuesFromDefs(defs),
-		builtinFunctionReturnTypes: builtinReturnTypes(defs),
+		builtinFunctionReturnTypes: builtinReturnTypesFromDefs(defs),
 		dynamicMacros: settings.dynamicMacros,
 		bitwiseBooleanOps: flag('bitwiseBooleanOps'),
 		constantFold: flag('constantFold'),
@@ -616,43 +777,17 @@ function optimizeOptionsFromSettings(defs: Defs): OptimizeOptions {
 		removeUnusedFunctions: flag('removeUnusedFunctions'),
 		shrinkNames: flag('shrinkNames'),
 		shrinkNameOptions: shrinkNameOptionsFromDefs(defs),
+		float32: flag('float32'),
 	};
 }
 
-function builtinReturnTypes(defs: Defs): ReadonlyMap<string, SimpleType> {
-	const out = new Map<string, SimpleType>();
-	for (const [name, overloads] of defs.funcs) {
-		let returnType: SimpleType | undefined;
-		let mixed = false;
-		for (const overload of overloads) {
-			const next = toSimpleType(overload.returns);
-			if (!next) {
-				mixed = true;
-				break;
-			}
-			if (returnType && returnType !== next) {
-				mixed = true;
-				break;
-			}
-			returnType = next;
-		}
-		if (!mixed && returnType) out.set(name, returnType);
-	}
-	return out;
-}
-
-function toSimpleType(type: string): SimpleType | null {
-	if (type === 'integer' || type === 'float' || type === 'string' || type === 'key' || type === 'vector' || type === 'rotation' || type === 'list' || type === 'void') return type;
-	if (type === 'quaternion') return 'rotation';
-	return null;
-}
-
 connection.onDidChangeConfiguration(async change => {
 	// Allow live reconfig
 	const newSettings = lslSettingsFromConfigPayload(change.settings);
 	if (!newSettings) return;
 	const prevIncludePaths = settings.includePaths?.slice() ?? [];
 	const prevMeasureInlayHints = settings.measure.inlayHints;
+	const prevMeasureCodeLens = settings.measure.codeLens;
 	if (newSettings.definitionsPath && newSettings.definitionsPath !== settings.definitionsPath) {
 		settings.definitionsPath = newSettings.definitionsPath;
 		defs = await loadDefs(settings.definitionsPath);
@@ -677,6 +812,7 @@ connection.onDidChangeConfiguration(async change => {
 	if (newSettings.measure && typeof newSettings.measure === 'object') {
 		const measure = newSettings.measure as Record<string, unknown>;
 		if (typeof measure.inlayHints === 'boolean') settings.measure.inlayHints = measure.inlayHints;
+		if (typeof measure.codeLens === 'boolean') settings.measure.codeLens = measure.codeLens;
 	}
 	if (newSettings.output && typeof newSettings.output === 'object') {
 		const output = newSettings.output as Record<string, unknown>;
@@ -700,11 +836,15 @@ connection.onDidChangeConfiguration(async change => {
 	if (prevMeasureInlayHints !== settings.measure.inlayHints) {
 		try { await connection.languages.inlayHint.refresh(); } catch { /* client may not support refresh */ }
 	}
+	if (prevMeasureCodeLens !== settings.measure.codeLens) {
+		try { await connection.sendRequest(CodeLensRefreshRequest.type); } catch { /* client may not support refresh */ }
+	}
 	if (changed || disabledChanged) {
 		pipelineCache.clear();
 		includeToDocs.clear();
 		await revalidateAllOpenDocs();
 	}
+	if (changed) void rebuildWorkspaceIndex();
 });
 
 documents.onDidChangeContent(async change => {
@@ -716,6 +856,9 @@ documents.onDidChangeContent(async change => {
 
 documents.onDidClose(e => {
 	pipelineCache.delete(e.document.uri);
+	// Unsaved edits are dropped on close; fall back to the file on disk
+	const uri = URI.parse(e.document.uri);
+	if (workspaceIndex && uri.scheme === 'file') workspaceIndex.update(uri.fsPath);
 });
 
 async function validateTextDocument(doc: TextDocument) {
@@ -904,6 +1047,17 @@ function formatBytes(value: number): string {
 	return `${String(rounded).replace(/\B(?=(\d{3})+(?!\d))/g, ',')} B`;
 }
 
+connection.onCodeLens((params: CodeLensParams, token): CodeLens[] => {
+	if (token?.isCancellationRequested || !settings.measure.codeLens) return [];
+	const doc = documents.get(params.textDocument.uri); if (!doc || !defs) return [];
+	const entry = getPipeline(doc); if (!entry?.ast) return [];
+	// Title-only lenses: an empty command renders as plain text
+	return [...memoryCodeLenses(doc, entry.ast, entry.analysis), ...latencyCodeLenses(doc, entry.ast, entry.analysis, defs)].map(lens => ({
+		range: lens.range,
+		command: { title: lens.title, command: '' },
+	}));
+});
+
 connection.onDocumentSymbol((params: DocumentSymbolParams, token) => {
 	if (token?.isCancellationRequested) return [];
 	const doc = documents.get(params.textDocument.uri); if (!doc || !defs) return [];
@@ -917,7 +1071,74 @@ connection.onDefinition((params, token): Definition | LocationLink[] | null => {
 	if (!doc || !defs) return null;
 
 	const entry = getPipeline(doc); if (!entry) return null;
-	return gotoDefinition(doc, params.position, entry.analysis, entry.pre, defs, { filePathToUri: p => URI.file(p).toString() });
+	const local = gotoDefinition(doc, params.position, entry.analysis, entry.pre, defs, { filePathToUri: p => URI.file(p).toString() });
+	if (local) return local;
+	// Not visible through this document's includes: offer matching declarations from the workspace
+	const word = getWordAt(doc, doc.offsetAt(params.position));
+	if (!word || !workspaceIndex) return null;
+	const hits = workspaceIndex.definitions(word.text, ['function', 'global', 'macro']);
+	return hits.length ? hits.map(hit => Location.create(URI.file(hit.file).toString(), hit.range)) : null;
+});
+
+// ----------------------
+// Call hierarchy provider
+// ----------------------
+// `uri` is the document whose pipeline built the item; a function from an include has the header as its own uri
+type CallHierarchyData = { name: string; kind: CallHierarchyNode['kind']; state?: string; uri: string };
+
+function toCallHierarchyItem(doc: TextDocument, node: CallHierarchyNode): CallHierarchyItem {
+	const data: CallHierarchyData = { name: node.name, kind: node.kind, state: node.state, uri: doc.uri };
+	return {
+		name: node.name,
+		kind: node.kind === 'function' ? SymbolKind.Function : SymbolKind.Event,
+		detail: node.detail,
+		uri: node.file ? URI.file(node.file).toString() : doc.uri,
+		range: node.range,
+		selectionRange: node.selectionRange,
+		data,
+	};
+}
+
+// Look the item up again in the current pipeline of the document that built it
+function callHierarchyNodeFor(item: CallHierarchyItem): { doc: TextDocument; script: Script; entry: PipelineCache; node: CallHierarchyNode } | null {
+	const data = item.data as CallHierarchyData | undefined;
+	const doc = documents.get(data?.uri ?? item.uri); if (!doc || !defs) return null;
+	const entry = getPipeline(doc); if (!entry?.ast) return null;
+	const node = callHierarchyNodeNamed(doc, entry.ast, entry.analysis, data ?? { name: item.name, kind: item.kind === SymbolKind.Event ? 'event' : 'function' }, entry.pre);
+	return node ? { doc, script: entry.ast, entry, node } : null;
+}
+
+connection.languages.callHierarchy.onPrepare((params, token): CallHierarchyItem[] | null => {
+	if (token?.isCancellationRequested) return null;
+	const doc = documents.get(params.textDocument.uri); if (!doc || !defs) return null;
+	const entry = getPipeline(doc); if (!entry?.ast) return null;
+	const node = callHierarchyNodeAt(doc, params.position, entry.ast, entry.analysis, entry.pre);
+	return node ? [toCallHierarchyItem(doc, node)] : null;
+});
+
+connection.languages.callHierarchy.onIncomingCalls((params, token): CallHierarchyIncomingCall[] => {
+	if (token?.isCancellationRequested) return [];
+	const found = callHierarchyNodeFor(params.item); if (!found) return [];
+	const { doc, script, entry, node } = found;
+	return incomingCalls(doc, node, script, entry.analysis).map(edge => ({ from: toCallHierarchyItem(doc, edge.node), fromRanges: edge.fromRanges }));
+});
+
+connection.languages.callHierarchy.onOutgoingCalls((params, token): CallHierarchyOutgoingCall[] => {
+	if (token?.isCancellationRequested) return [];
+	const found = callHierarchyNodeFor(params.item); if (!found) return [];
+	const { doc, script, entry, node } = found;
+	return outgoingCalls(doc, node, script, entry.analysis, entry.pre).map(edge => ({ to: toCallHierarchyItem(doc, edge.node), fromRanges: edge.fromRanges }));
+});
+
+connection.onWorkspaceSymbol((params: WorkspaceSymbolParams, token): SymbolInformation[] => {
+	if (token?.isCancellationRequested || !workspaceIndex) return [];
+	return workspaceIndex.symbols(params.query).map(symbol => SymbolInformation.create(
+		symbol.name,
+		workspaceSymbolKind(symbol.kind),
+		symbol.range,
+		URI.file(symbol.file).toString(),
+		path.basename(symbol.file),
+	));
 });
 
 // Provide clickable links for include paths
@@ -1011,7 +1232,11 @@ connection.onRenameRequest((params, token) => {
 	const entry = getPipeline(doc); if (!entry) return { changes: {} };
 	const newName = params.newName || '';
 	const offset = doc.offsetAt(params.position);
-	return computeRenameEdits(doc, offset, newName, entry.analysis, entry.pre, entry.tokens);
+	return computeRenameEdits(doc, offset, newName, entry.analysis, entry.pre, entry.tokens, {
+		workspace: workspaceIndex ?? undefined,
+		filePathToUri: p => URI.file(p).toString(),
+		readFile: p => documents.get(URI.file(p).toString())?.getText(),
+	});
 });
 
 documents.listen(connection);
@@ -1065,40 +1290,46 @@ connection.onReferences((params, token) => {
 	const entry = getPipeline(doc); if (!entry) return [];
 	const offset = doc.offsetAt(params.position);
 	const includeDecl = !!params.context?.includeDeclaration;
-	return findAllReferences(doc, offset, includeDecl, entry.analysis, entry.pre, entry.tokens);
+	const local = findAllReferences(doc, offset, includeDecl, entry.analysis, entry.pre, entry.tokens);
+	// Top-level symbols (typically from a shared header) are also referenced by other scripts
+	const docUri = URI.parse(doc.uri);
+	const shared = workspaceIndex && docUri.scheme === 'file' ? workspaceIndex.referencesAt(docUri.fsPath, params.position, includeDecl) : null;
+	if (!shared) return local;
+	const seen = new Set(local.map(loc => `${loc.uri}#${loc.range.start.line}:${loc.range.start.character}`));
+	for (const loc of shared) {
+		const uri = URI.file(loc.file).toString();
+		const key = `${uri}#${loc.range.start.line}:${loc.range.start.character}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		local.push({ uri, range: loc.range });
+	}
+	return local;
 });
 
 // Quick fix for suspicious assignment -> equality
-connection.onCodeAction((params): CodeAction[] => {
+connection.onCodeAction((params, token): CodeAction[] => {
+	if (token?.isCancellationRequested) return [];
 	const doc = documents.get(params.textDocument.uri);
-	if (!doc) return [];
+	if (!doc || !defs) return [];
+	const entry = getPipeline(doc); if (!entry) return [];
 	const actions: CodeAction[] = [];
 	for (const d of params.context.diagnostics || []) {
-		if (d.code === LSL_DIAGCODES.SUSPICIOUS_ASSIGNMENT) {
-			const edit = TextEdit.replace(d.range as Range, '==');
+		// Published codes use the friendly name when there is one
+		const code = normalizeDiagCode(d.code === undefined ? null : String(d.code));
+		if (!code) continue;
+		const sameRange = (r: Range) => r.start.line === d.range.start.line && r.start.character === d.range.start.character
+			&& r.end.line === d.range.end.line && r.end.character === d.range.end.character;
+		const diag = entry.analysis.diagnostics.find(a => a.code === code && sameRange(a.range))
+			?? { range: d.range, message: d.message, code, severity: d.severity };
+		for (const fix of quickFixesFor(doc, diag, { analysis: entry.analysis, defs, script: entry.ast })) {
 			actions.push({
-				title: 'Change "=" to "=="',
+				title: fix.title,
 				kind: CodeActionKind.QuickFix,
 				diagnostics: [d],
-				edit: { changes: { [doc.uri]: [edit] } }
+				isPreferred: fix.preferred,
+				edit: { changes: { [doc.uri]: fix.edits } },
 			});
 		}
-		if (d.code === LSL_DIAGCODES.REDUNDANT_CAST) {
-			// Try to remove a leading (type) segment from the text within diagnostic range.
-			const text = doc.getText(d.range as Range);
-			// Capture any identifier as a potential type and validate via isType to avoid hardcoding lists.
-			const m = /^\(\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)\s*([\s\S]*)$/.exec(text);
-			if (m && isType(m[1])) {
-				const replacement = m[2] ?? '';
-				const edit = TextEdit.replace(d.range as Range, replacement);
-				actions.push({
-					title: 'Remove redundant cast',
-					kind: CodeActionKind.QuickFix,
-					diagnostics: [d],
-					edit: { changes: { [doc.uri]: [edit] } },
-				});
-			}
-		}
 	}
 	return actions;
 });
@@ -1116,6 +1347,11 @@ connection.onDidChangeWatchedFiles(ev => {
 				continue; // defer processing dependents until after reload
 			}
 			const uri = c.uri;
+			const changedFile = URI.parse(uri);
+			if (workspaceIndex && changedFile.scheme === 'file' && isLslSourceFile(changedFile.fsPath)) {
+				if (changeType === FileChangeType.Deleted) workspaceIndex.remove(changedFile.fsPath);
+				else if (!documents.get(uri)) workspaceIndex.update(changedFile.fsPath);
+			}
 			const dependents = includeToDocs.get(uri);
 			if (!dependents) continue;
 			for (const docUri of dependents) {
@@ -1139,6 +1375,7 @@ connection.onDidChangeWatchedFiles(ev => {
 			pipelineCache.clear();
 			includeToDocs.clear();
 			await revalidateAllOpenDocs();
+			void rebuildWorkspaceIndex();
 		})();
 	}
 });